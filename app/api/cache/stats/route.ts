@@ -0,0 +1,25 @@
+// app/api/cache/stats/route.ts
+import { NextResponse } from 'next/server';
+import { CACHE_TTL, cacheTtl, resolveResponseCache, type CacheEndpoint } from '../../../../lib/cache';
+
+/** 上游回應快取的命中統計；memory 快取只計本程序，redis 跨 instance 累計 */
+export async function GET() {
+  try {
+    const cache = resolveResponseCache();
+    const ttl = Object.fromEntries((Object.keys(CACHE_TTL) as CacheEndpoint[]).map(ep => [ep, cacheTtl(ep)]));
+    return NextResponse.json(
+      {
+        backend: cache?.name ?? 'off',
+        bypass: process.env.CACHE_BYPASS === '1',
+        ttl,
+        stats: cache ? await cache.stats() : {},
+      },
+      { headers: { 'Cache-Control': 'no-store' } }
+    );
+  } catch (e: any) {
+    return NextResponse.json(
+      { error: 'server_error', detail: e?.message || 'Unknown error' },
+      { status: 500, headers: { 'Cache-Control': 'no-store' } }
+    );
+  }
+}
@@ -0,0 +1,27 @@
+// app/api/forecast/daily/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { cacheModeFrom } from '../../../../lib/cache';
+import { getForecast, parseWeatherQuery, toWeatherError } from '../../../../lib/weather';
+
+/** 與 /api/forecast 相同的參數；只回傳依目的地當地日期彙整的 daily，不含逐時資料 */
+export async function GET(req: NextRequest) {
+  try {
+    const { searchParams } = new URL(req.url);
+    const query = parseWeatherQuery(searchParams);
+    if (typeof query === 'string') {
+      return NextResponse.json({ error: { code: 'VALIDATION', message: query } }, { status: 400 });
+    }
+
+    const { hourly, current, ...report } = await getForecast(query, {
+      provider: searchParams.get('provider'),
+      cache: cacheModeFrom(req),
+    });
+
+    return NextResponse.json(report, {
+      headers: { 'Cache-Control': 'private, max-age=600', Vary: 'Accept-Encoding' },
+    });
+  } catch (e: any) {
+    const err = toWeatherError(e);
+    return NextResponse.json({ error: { code: err.code, message: err.message } }, { status: err.status });
+  }
+}
@@ -0,0 +1,48 @@
+// app/api/packing-list/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { cacheModeFrom } from '../../../lib/cache';
+import { DEFAULT_LANG, isDaySlot } from '../../../lib/itinerary';
+import { buildPackingList } from '../../../lib/packing';
+import { isIsoDate } from '../../../lib/schedule';
+import { isTripId, resolveTripStore } from '../../../lib/trips';
+
+const MAX_DAYS = 14;
+const NO_STORE = { 'Cache-Control': 'no-store' };
+
+function errorJson(error: string, detail: string, status: number) {
+  return NextResponse.json({ error, detail }, { status, headers: NO_STORE });
+}
+
+/**
+ * 依行程產生打包清單。body 擇一：
+ * - { itinerary, startDate?, lang? }：itinerary 直接用 /api/plan 回應（可先經編輯）
+ * - { tripId, lang? }：讀取已儲存的行程，出發日取自儲存時的請求條件
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const body = await req.json().catch(() => null);
+    if (!body || typeof body !== 'object') return errorJson('bad_request', 'invalid JSON', 400);
+    const { lang = DEFAULT_LANG } = body;
+    let { itinerary, startDate } = body;
+
+    if (body.tripId != null) {
+      const store = resolveTripStore();
+      if (!store) return errorJson('store_unavailable', `trip store unavailable: ${process.env.TRIP_STORE}`, 503);
+      const trip = isTripId(String(body.tripId)) ? await store.get(String(body.tripId)) : null;
+      if (!trip) return errorJson('not_found', 'trip not found', 404);
+      itinerary = trip.plan.itinerary;
+      startDate = startDate ?? trip.request.startDate;
+    }
+
+    if (!Array.isArray(itinerary) || itinerary.length < 1 || itinerary.length > MAX_DAYS || !itinerary.every(isDaySlot)) {
+      return errorJson('bad_request', `itinerary must be an array of 1-${MAX_DAYS} day slots (or pass tripId)`, 400);
+    }
+    if (startDate != null && !isIsoDate(startDate)) return errorJson('bad_request', 'startDate must be YYYY-MM-DD', 400);
+    if (typeof lang !== 'string') return errorJson('bad_request', 'lang must be a string', 400);
+
+    const list = await buildPackingList(itinerary, { startDate, lang, cache: cacheModeFrom(req) });
+    return NextResponse.json(list, { headers: NO_STORE });
+  } catch (e: any) {
+    return errorJson('server_error', e?.message || 'Unknown error', 500);
+  }
+}
@@ -0,0 +1,44 @@
+// app/api/places/autocomplete/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { cacheModeFrom } from '../../../../lib/cache';
+import { parseSearchBias, resolveMapProvider } from '../../../../lib/providers';
+
+const LANG = 'zh-TW';
+const MAX_INPUT = 200;
+const SESSION_RE = /^[\w-]{8,64}$/;
+const NO_STORE = { 'Cache-Control': 'no-store' };
+
+function badRequest(detail: string) {
+  return NextResponse.json({ error: 'bad_request', detail }, { status: 400, headers: NO_STORE });
+}
+
+/**
+ * 輸入中的地名建議；有 Google 金鑰時走 Places Autocomplete，否則 Nominatim。
+ * session：前端每次開始輸入產生一個 token，選定後帶同一個 token 查 /api/places/details 結束該 session。
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const { searchParams } = new URL(req.url);
+    const input = (searchParams.get('input') || '').trim();
+    if (!input) return badRequest('input is required');
+    if (input.length > MAX_INPUT) return badRequest(`input must be at most ${MAX_INPUT} characters`);
+    const session = searchParams.get('session') || undefined;
+    if (session && !SESSION_RE.test(session)) return badRequest('session must be 8-64 characters of [A-Za-z0-9_-]');
+    const bias = parseSearchBias(searchParams.get('location'), searchParams.get('radius'));
+    if (typeof bias === 'string') return badRequest(bias);
+
+    const provider = resolveMapProvider(searchParams.get('provider'), cacheModeFrom(req));
+    if (!provider) return badRequest(`provider unavailable: ${searchParams.get('provider')}`);
+
+    let predictions;
+    try {
+      predictions = await provider.places.autocomplete({ input, lang: LANG, sessionToken: session, bias: bias || undefined });
+    } catch (e: any) {
+      return NextResponse.json({ error: 'upstream_error', detail: e?.message || e?.code }, { status: 502, headers: NO_STORE });
+    }
+
+    return NextResponse.json({ provider: provider.name, predictions }, { headers: NO_STORE });
+  } catch (e: any) {
+    return NextResponse.json({ error: 'server_error', detail: e?.message || 'Unknown error' }, { status: 500, headers: NO_STORE });
+  }
+}
@@ -1,74 +1,77 @@
 // app/api/places/details/route.ts
 import { NextRequest, NextResponse } from 'next/server';
+import { cacheModeFrom } from '../../../../lib/cache';
+import { openNow } from '../../../../lib/opening-hours';
+import { resolveMapProvider, type PlaceDetails, type PlaceReview } from '../../../../lib/providers';
 
 const LANG = 'zh-TW';
+const DEFAULT_REVIEWS = 3;
+const MAX_REVIEWS = 5; // Google 最多回傳 5 則
+const PHOTO_WIDTH = 400;
 
 function badRequest(detail: string) {
   return NextResponse.json({ error: 'bad_request', detail }, { status: 400, headers: { 'Cache-Control': 'no-store' } });
 }
 
-async function fetchJson<T = any>(url: string) {
-  const r = await fetch(url, { cache: 'no-store' });
-  const j = (await r.json()) as T;
-  return j;
+/** reviews_lang=zh 也符合 zh-Hant / zh-TW */
+function reviewsIn(reviews: PlaceReview[], lang: string | null) {
+  if (!lang) return reviews;
+  const want = lang.toLowerCase();
+  return reviews.filter(r => {
+    const l = String(r.language || '').toLowerCase();
+    return l === want || l.startsWith(want + '-');
+  });
+}
+
+/** 快取的是上游原樣結果；與時間有關的 open_now、相片網址與評論篩選每次請求才算 */
+function present(details: PlaceDetails, reviews: number, reviewsLang: string | null): PlaceDetails {
+  const hours = details.currentHours || details.weeklyHours;
+  const lng = details.geometry?.location.lng;
+  // OSM 沒有時區，依經度推估
+  const offset = details.utc_offset_minutes ?? (lng != null ? Math.round(lng / 15) * 60 : undefined);
+  const open_now = offset != null ? openNow(hours, offset) : undefined;
+  return {
+    ...details,
+    photos: details.photos?.map(p => ({
+      ...p,
+      url: `/api/places/photo?ref=${encodeURIComponent(p.ref)}&maxwidth=${PHOTO_WIDTH}`,
+    })),
+    reviews: details.reviews && reviewsIn(details.reviews, reviewsLang).slice(0, reviews),
+    current_opening_hours:
+      details.current_opening_hours || open_now != null
+        ? { weekday_text: details.opening_hours?.weekday_text, ...details.current_opening_hours, open_now }
+        : undefined,
+  };
 }
 
 export async function GET(req: NextRequest) {
   try {
-    const key = process.env.GOOGLE_MAPS_API_KEY;
-    if (!key) {
-      return NextResponse.json(
-        { error: 'config_error', detail: 'Missing GOOGLE_MAPS_API_KEY' },
-        { status: 500, headers: { 'Cache-Control': 'no-store' } }
-      );
-    }
-
     const { searchParams } = new URL(req.url);
     const placeId = searchParams.get('place_id');
     if (!placeId) return badRequest('place_id is required');
+    const reviews = searchParams.has('reviews') ? Number(searchParams.get('reviews')) : DEFAULT_REVIEWS;
+    if (!Number.isInteger(reviews) || reviews < 0 || reviews > MAX_REVIEWS) return badRequest(`reviews must be 0-${MAX_REVIEWS}`);
 
-    const fields = [
-      'name',
-      'website',
-      'formatted_phone_number',
-      'formatted_address',
-      'rating',
-      'user_ratings_total',
-      'opening_hours',
-      'geometry/location',
-      'url',
-    ].join(',');
-
-    const url =
-      `https://maps.googleapis.com/maps/api/place/details/json` +
-      `?place_id=${encodeURIComponent(placeId)}` +
-      `&fields=${encodeURIComponent(fields)}` +
-      `&language=${LANG}` +
-      `&key=${key}`;
+    // osm: 開頭的 place_id 來自 Overpass，不論預設供應者都交給 OSM 查詢
+    const requested = searchParams.get('provider') || (placeId.startsWith('osm:') ? 'osrm' : null);
+    const provider = resolveMapProvider(requested, cacheModeFrom(req));
+    if (!provider) return badRequest(`provider unavailable: ${requested}`);
 
-    const j = await fetchJson<any>(url);
-    if (j.status && j.status !== 'OK') {
+    let details;
+    try {
+      // session：/api/places/autocomplete 用過的 token，選定地點後帶來結束該 session
+      details = await provider.places.details(placeId, LANG, searchParams.get('session') || undefined);
+    } catch (e: any) {
+      if (!e?.code) throw e;
       return NextResponse.json(
-        { error: 'upstream_error', detail: j.error_message || j.status },
+        { error: 'upstream_error', detail: e.message || e.code },
         { status: 502, headers: { 'Cache-Control': 'no-store' } }
       );
     }
 
-    const r = j.result || {};
-    return NextResponse.json(
-      {
-        name: r.name,
-        website: r.website,
-        formatted_phone_number: r.formatted_phone_number,
-        formatted_address: r.formatted_address,
-        rating: r.rating,
-        user_ratings_total: r.user_ratings_total,
-        opening_hours: r.opening_hours,
-        geometry: r.geometry,
-        url: r.url,
-      },
-      { headers: { 'Cache-Control': 'no-store' } }
-    );
+    return NextResponse.json(present(details, reviews, searchParams.get('reviews_lang')), {
+      headers: { 'Cache-Control': 'no-store' },
+    });
   } catch (e: any) {
     return NextResponse.json(
       { error: 'server_error', detail: e?.message || 'Unknown error' },
@@ -1,5 +1,10 @@
 // app/api/places/nearby/route.ts
 import { NextRequest, NextResponse } from 'next/server';
+import { cacheModeFrom } from '../../../../lib/cache';
+import { hasMealFilter, matchMeal, mealKeywords, parseMealFilter, type MealMatch } from '../../../../lib/diet';
+import { haversineKm, runWithConcurrency } from '../../../../lib/geo';
+import { openNow } from '../../../../lib/opening-hours';
+import { resolveMapProvider, type NearbyPage, type RawPlace } from '../../../../lib/providers';
 
 type NearbyItem = {
   name: string;
@@ -7,106 +12,186 @@ type NearbyItem = {
   place_id: string;
   rating?: number;
   user_ratings_total?: number;
+  price_level?: number;
   _type: string;
   location?: { lat: number; lng: number };
+  distance_m: number;
+  /** 有 diet / cuisines 時，餐廳/咖啡廳符合的把握 */
+  meal_match?: MealMatch;
 };
 
+type NearbySort = 'score' | 'distance' | 'rating';
+
+/** 每種 type 的下一頁 token；沒有下一頁的 type 不列入 */
+type NearbyCursor = Record<string, string>;
+
 const LANG = 'zh-TW';
+const NEARBY_TYPES = ['restaurant', 'lodging', 'tourist_attraction', 'cafe', 'gas_station'];
+/** diet / cuisines 只套用在這些 type */
+const FOOD_TYPES = ['restaurant', 'cafe'];
+const SORTS: NearbySort[] = ['score', 'distance', 'rating'];
+const MIN_RADIUS = 200;
+const MAX_RADIUS = 5000;
 
 function badRequest(detail: string) {
   return NextResponse.json({ error: 'bad_request', detail }, { status: 400, headers: { 'Cache-Control': 'no-store' } });
 }
 
-async function fetchJson<T = any>(url: string) {
-  const r = await fetch(url, { cache: 'no-store' });
-  const j = (await r.json()) as T;
-  return j;
+function encodeCursor(cursor: NearbyCursor) {
+  return Buffer.from(JSON.stringify(cursor)).toString('base64url');
 }
 
-export async function GET(req: NextRequest) {
+function decodeCursor(raw: string): NearbyCursor | null {
   try {
-    const key = process.env.GOOGLE_MAPS_API_KEY;
-    if (!key) {
-      return NextResponse.json(
-        { error: 'config_error', detail: 'Missing GOOGLE_MAPS_API_KEY' },
-        { status: 500, headers: { 'Cache-Control': 'no-store' } }
-      );
-    }
+    const v = JSON.parse(Buffer.from(raw, 'base64url').toString('utf8'));
+    if (!v || typeof v !== 'object' || Array.isArray(v)) return null;
+    return Object.entries(v).every(([t, token]) => NEARBY_TYPES.includes(t) && typeof token === 'string') ? v : null;
+  } catch {
+    return null;
+  }
+}
+
+/** 空字串或未帶時為 undefined；格式不對為 NaN */
+function numberParam(v: string | null) {
+  if (v == null || v === '') return undefined;
+  const n = Number(v);
+  return Number.isFinite(n) ? n : NaN;
+}
+
+function scoreOf(p: RawPlace) {
+  return (p.rating || 0) * (Math.log10((p.user_ratings_total || 1) + 1) + 1);
+}
+
+/** Google 在查詢時已篩過 opennow；OSM 依 weeklyHours 與經度推估的時區判斷，沒有營業時間的不算營業中 */
+function isOpenNow(p: RawPlace) {
+  if (p.opening_hours?.open_now != null) return p.opening_hours.open_now;
+  return openNow(p.weeklyHours, Math.round(p.geometry.location.lng / 15) * 60) === true;
+}
 
+/**
+ * 以中心點與半徑搜尋多種 type，合併去重後篩選、排序。
+ * 各 type 平行查詢（依供應者的 concurrency），回應的 next_cursor 帶回同樣的查詢參數即可取下一頁；
+ * 下一頁只含還有下一頁的 type，不會與前一頁去重。
+ * diet / cuisines 只留符合的餐廳與咖啡廳；沒有帶 keyword 且條件只組得出一個 keyword 時，餐飲 type 改用它查詢。
+ */
+export async function GET(req: NextRequest) {
+  try {
     const { searchParams } = new URL(req.url);
+    const provider = resolveMapProvider(searchParams.get('provider'), cacheModeFrom(req));
+    if (!provider) return badRequest(`provider unavailable: ${searchParams.get('provider')}`);
+
     const loc = searchParams.get('location'); // "lat,lng"
     const radiusStr = searchParams.get('radius'); // meters
-    const types = searchParams.getAll('type'); // can repeat
+    const types = [...new Set(searchParams.getAll('type'))]; // can repeat
     const keyword = searchParams.get('keyword') || '';
 
     if (!loc) return badRequest('location is required, e.g. 25.0478,121.5170');
     if (!radiusStr) return badRequest('radius is required');
     if (types.length === 0) return badRequest('at least one type is required');
+    const unknown = types.filter(t => !NEARBY_TYPES.includes(t));
+    if (unknown.length) return badRequest(`unsupported type: ${unknown.join(', ')} (supported: ${NEARBY_TYPES.join(', ')})`);
 
     const [latStr, lngStr] = loc.split(',');
     const lat = Number(latStr);
     const lng = Number(lngStr);
     const radius = Number(radiusStr);
     if (!Number.isFinite(lat) || !Number.isFinite(lng)) return badRequest('invalid location');
-    if (!Number.isFinite(radius) || radius <= 0) return badRequest('invalid radius');
-
-    // Nearby Search 只接受單一 type，一次打一種再合併去重
-    const results: Array<{ _type: string; data: any[] }> = [];
-
-    for (const t of types) {
-      const url =
-        `https://maps.googleapis.com/maps/api/place/nearbysearch/json` +
-        `?location=${lat},${lng}` +
-        `&radius=${radius}` +
-        `&type=${encodeURIComponent(t)}` +
-        (keyword ? `&keyword=${encodeURIComponent(keyword)}` : '') +
-        `&language=${LANG}` +
-        `&key=${key}`;
-
-      const j = await fetchJson<any>(url);
-      if (j.status && j.status !== 'OK' && j.status !== 'ZERO_RESULTS') {
-        // 不中斷整體流程，改為部分錯誤時返回空陣列，但保留錯誤資訊於 detail（可視需要改為 throw）
-        console.warn('Places Nearby error:', j.status, j.error_message);
-        results.push({ _type: t, data: [] });
-      } else {
-        results.push({ _type: t, data: Array.isArray(j.results) ? j.results : [] });
-      }
+    if (!Number.isFinite(radius) || radius < MIN_RADIUS || radius > MAX_RADIUS) {
+      return badRequest(`radius must be ${MIN_RADIUS}-${MAX_RADIUS} meters`);
+    }
 
-      // 輕微節流，避免配額壓力
-      await new Promise((res) => setTimeout(res, 120));
+    const openNowOnly = ['1', 'true'].includes(String(searchParams.get('open_now')).toLowerCase());
+    const minRating = numberParam(searchParams.get('min_rating'));
+    const minReviews = numberParam(searchParams.get('min_reviews'));
+    const maxPrice = numberParam(searchParams.get('max_price_level'));
+    if (Number.isNaN(minRating) || minRating < 0 || minRating > 5) return badRequest('min_rating must be 0-5');
+    if (Number.isNaN(minReviews) || minReviews < 0) return badRequest('min_reviews must be a non-negative number');
+    if (Number.isNaN(maxPrice) || maxPrice < 0 || maxPrice > 4) return badRequest('max_price_level must be 0-4');
+    const sort = (searchParams.get('sort') || 'score') as NearbySort;
+    if (!SORTS.includes(sort)) return badRequest(`sort must be one of ${SORTS.join(', ')}`);
+
+    const meals = parseMealFilter(searchParams.getAll('diet').join(','), searchParams.getAll('cuisines').join(','));
+    if (typeof meals === 'string') return badRequest(meals);
+    const mealKw = mealKeywords(meals);
+    const foodKeyword = keyword || (mealKw.length === 1 ? mealKw[0] : '');
+
+    let cursor: NearbyCursor | null = null;
+    if (searchParams.get('cursor')) {
+      cursor = decodeCursor(searchParams.get('cursor')!);
+      if (!cursor) return badRequest('invalid cursor');
     }
 
+    // Nearby Search 只接受單一 type：各 type 平行查詢再合併去重
+    const center = { lat, lng };
+    const pageTypes = cursor ? types.filter(t => cursor![t]) : types;
+    const pages = await runWithConcurrency(
+      pageTypes.map(t => async (): Promise<{ _type: string; page: NearbyPage }> => ({
+        _type: t,
+        page: await provider.places.nearbyPage(
+          {
+            center,
+            radiusM: radius,
+            type: t,
+            keyword: (FOOD_TYPES.includes(t) ? foodKeyword : keyword) || undefined,
+            lang: LANG,
+            openNow: openNowOnly || undefined,
+          },
+          cursor?.[t]
+        ),
+      })),
+      provider.places.concurrency
+    );
+
     // 合併去重，並保留來源 type
     const byId = new Map<string, { item: NearbyItem; score: number }>();
-    for (const bucket of results) {
-      for (const p of bucket.data) {
+    for (const { _type, page } of pages) {
+      for (const p of page.results) {
         const placeId = p.place_id as string | undefined;
-        if (!placeId) continue;
-        const score = (p.rating || 0) * (Math.log10((p.user_ratings_total || 1) + 1) + 1);
+        if (!placeId || !p.geometry?.location) continue;
+        if (openNowOnly && !isOpenNow(p)) continue;
+        if (minRating != null && (p.rating ?? 0) < minRating) continue;
+        if (minReviews != null && (p.user_ratings_total ?? 0) < minReviews) continue;
+        // 沒有價位資料的地點保留
+        if (maxPrice != null && p.price_level != null && p.price_level > maxPrice) continue;
+        const mealMatch = FOOD_TYPES.includes(_type) ? matchMeal(p, meals, !keyword && !!foodKeyword) : undefined;
+        if (hasMealFilter(meals) && mealMatch?.confidence === 0) continue;
+        const score = scoreOf(p) * (mealMatch?.confidence ?? 1);
+        const location = { lat: p.geometry.location.lat, lng: p.geometry.location.lng };
         const entry: NearbyItem = {
           name: p.name,
           vicinity: p.vicinity,
           place_id: placeId,
           rating: p.rating,
           user_ratings_total: p.user_ratings_total,
-          _type: bucket._type,
-          location: p.geometry?.location
-            ? { lat: p.geometry.location.lat, lng: p.geometry.location.lng }
-            : undefined,
+          price_level: p.price_level,
+          _type,
+          location,
+          distance_m: Math.round(haversineKm(center, location) * 1000),
+          meal_match: mealMatch,
         };
         const cur = byId.get(placeId);
         if (!cur || score > cur.score) byId.set(placeId, { item: entry, score });
       }
     }
 
+    const compare: Record<NearbySort, (a: { item: NearbyItem; score: number }, b: { item: NearbyItem; score: number }) => number> = {
+      score: (a, b) => b.score - a.score,
+      distance: (a, b) => a.item.distance_m - b.item.distance_m,
+      rating: (a, b) =>
+        (b.item.rating ?? 0) - (a.item.rating ?? 0) || (b.item.user_ratings_total ?? 0) - (a.item.user_ratings_total ?? 0),
+    };
     const items = Array.from(byId.values())
-      .sort((a, b) => b.score - a.score)
+      .sort(compare[sort])
       .map((x) => x.item);
 
+    const next: NearbyCursor = {};
+    for (const { _type, page } of pages) if (page.nextPageToken) next[_type] = page.nextPageToken;
+
     return NextResponse.json(
       {
         count: items.length,
         items,
+        next_cursor: Object.keys(next).length ? encodeCursor(next) : null,
       },
       { headers: { 'Cache-Control': 'no-store' } }
     );
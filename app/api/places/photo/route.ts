@@ -0,0 +1,55 @@
+// app/api/places/photo/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { cacheModeFrom } from '../../../../lib/cache';
+import { PHOTO_MAX_PX, resolveMapProvider } from '../../../../lib/providers';
+
+const DEFAULT_MAX_WIDTH = 400;
+const NO_STORE = { 'Cache-Control': 'no-store' };
+
+function errorJson(error: string, detail: string, status: number) {
+  return NextResponse.json({ error, detail }, { status, headers: NO_STORE });
+}
+
+function sizeParam(v: string | null) {
+  if (v == null || v === '') return undefined;
+  const n = Number(v);
+  return Number.isInteger(n) && n >= 1 && n <= PHOTO_MAX_PX ? n : NaN;
+}
+
+/**
+ * 依 details 的 photos[].ref 取得地點相片。伺服器向 Google 換出不含金鑰的圖片網址（快取 1 天）後 302 轉址，
+ * 瀏覽器直接從 lh3.googleusercontent.com 載入（CSP 已允許）。maxwidth / maxheight 為 1-1600，皆未指定時寬 400。
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const { searchParams } = new URL(req.url);
+    const ref = searchParams.get('ref');
+    if (!ref) return errorJson('bad_request', 'ref is required', 400);
+    let maxWidth = sizeParam(searchParams.get('maxwidth'));
+    const maxHeight = sizeParam(searchParams.get('maxheight'));
+    if (Number.isNaN(maxWidth) || Number.isNaN(maxHeight)) {
+      return errorJson('bad_request', `maxwidth/maxheight must be integers 1-${PHOTO_MAX_PX}`, 400);
+    }
+    if (!maxWidth && !maxHeight) maxWidth = DEFAULT_MAX_WIDTH;
+
+    // 相片 ref 只有 Google 會給
+    const provider = resolveMapProvider('google', cacheModeFrom(req));
+    if (!provider?.places.photoUrl) return errorJson('provider_unavailable', 'photos require GOOGLE_MAPS_API_KEY', 503);
+
+    let location: string;
+    try {
+      location = await provider.places.photoUrl(ref, { maxWidth, maxHeight });
+    } catch (e: any) {
+      if (e?.code === 'NOT_FOUND') return errorJson('not_found', 'photo not found', 404);
+      if (!e?.code && e?.name !== 'AbortError') throw e;
+      return errorJson('upstream_error', e.message || e.code, 502);
+    }
+
+    return NextResponse.redirect(location, {
+      status: 302,
+      headers: { 'Cache-Control': 'public, max-age=86400' },
+    });
+  } catch (e: any) {
+    return errorJson('server_error', e?.message || 'Unknown error', 500);
+  }
+}
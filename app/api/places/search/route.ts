@@ -0,0 +1,38 @@
+// app/api/places/search/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { cacheModeFrom } from '../../../../lib/cache';
+import { parseSearchBias, resolveMapProvider } from '../../../../lib/providers';
+
+const LANG = 'zh-TW';
+const MAX_QUERY = 200;
+const NO_STORE = { 'Cache-Control': 'no-store' };
+
+function badRequest(detail: string) {
+  return NextResponse.json({ error: 'bad_request', detail }, { status: 400, headers: NO_STORE });
+}
+
+/** 文字搜尋地點（「台北101」「墾丁 民宿」）；有 Google 金鑰時走 Text Search，否則 Nominatim。結果都帶座標 */
+export async function GET(req: NextRequest) {
+  try {
+    const { searchParams } = new URL(req.url);
+    const query = (searchParams.get('query') || '').trim();
+    if (!query) return badRequest('query is required');
+    if (query.length > MAX_QUERY) return badRequest(`query must be at most ${MAX_QUERY} characters`);
+    const bias = parseSearchBias(searchParams.get('location'), searchParams.get('radius'));
+    if (typeof bias === 'string') return badRequest(bias);
+
+    const provider = resolveMapProvider(searchParams.get('provider'), cacheModeFrom(req));
+    if (!provider) return badRequest(`provider unavailable: ${searchParams.get('provider')}`);
+
+    let results;
+    try {
+      results = await provider.places.textSearch({ query, lang: LANG, bias: bias || undefined });
+    } catch (e: any) {
+      return NextResponse.json({ error: 'upstream_error', detail: e?.message || e?.code }, { status: 502, headers: NO_STORE });
+    }
+
+    return NextResponse.json({ provider: provider.name, count: results.length, results }, { headers: NO_STORE });
+  } catch (e: any) {
+    return NextResponse.json({ error: 'server_error', detail: e?.message || 'Unknown error' }, { status: 500, headers: NO_STORE });
+  }
+}
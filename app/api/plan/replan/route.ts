@@ -0,0 +1,122 @@
+// app/api/plan/replan/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { cacheModeFrom } from '../../../../lib/cache';
+import {
+  DEFAULT_LANG,
+  compactDaySlot,
+  enrichChosenPOIsWithCity,
+  isDaySlot,
+  isPlace,
+  lockedPlaceOf,
+  placeKey,
+  replanAroundLocked,
+  slimPoisForResponse,
+  type LockedStop,
+} from '../../../../lib/itinerary';
+import { parseMealFilter } from '../../../../lib/diet';
+import { parsePreferences } from '../../../../lib/preferences';
+import { parseTravelMode, resolveMapProvider } from '../../../../lib/providers';
+import { regionProfileById } from '../../../../lib/regions';
+import { DEFAULT_DAY_END, DEFAULT_DAY_START, isIsoDate, parseClock, scheduleItinerary } from '../../../../lib/schedule';
+import { applyAlertsToItinerary, reshuffleForWeather } from '../../../../lib/weather-itinerary';
+
+const MAX_DAYS = 14;
+const LOCK_SLOTS = new Set(['breakfast', 'morning', 'lunch', 'afternoon', 'dinner', 'evening', 'lodging']);
+
+function badRequest(detail: string) {
+  return NextResponse.json({ error: 'bad_request', detail }, { status: 400, headers: { 'Cache-Control': 'no-store' } });
+}
+
+/**
+ * 手動編輯後重排：保留 locked 指到的停留點，其餘從 pois 候選池重新挑選並重新排時間。
+ * 不重新規劃路線，也不再蒐集 POI；itinerary / pois 直接用 /api/plan 回應（可先經使用者拖拉、刪除）。
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const body = await req.json();
+    const {
+      itinerary,
+      pois,
+      locked = [],
+      exclude = [],
+      mode: bodyMode,
+      preferences: bodyPreferences,
+      diet,
+      cuisines,
+      region: bodyRegion,
+      provider: bodyProvider,
+      lang = DEFAULT_LANG,
+      startDate,
+      dayStart = DEFAULT_DAY_START,
+      dayEnd = DEFAULT_DAY_END,
+    } = body || {};
+
+    if (!Array.isArray(itinerary) || itinerary.length < 1 || itinerary.length > MAX_DAYS || !itinerary.every(isDaySlot)) {
+      return badRequest(`itinerary must be an array of 1-${MAX_DAYS} day slots`);
+    }
+    if (!Array.isArray(pois) || !pois.every(isPlace)) return badRequest('pois must be an array of places');
+    if (!Array.isArray(exclude) || exclude.some((k: any) => typeof k !== 'string')) {
+      return badRequest('exclude must be an array of place keys');
+    }
+    if (!Array.isArray(locked)) return badRequest('locked must be an array');
+    for (const lock of locked as LockedStop[]) {
+      if (!lock || !Number.isInteger(lock.day) || !LOCK_SLOTS.has(lock.slot)) {
+        return badRequest(`locked entries need day and slot (${[...LOCK_SLOTS].join('/')})`);
+      }
+      if (!lockedPlaceOf(itinerary, lock)) {
+        return badRequest(`locked stop not found: day ${lock.day} ${lock.slot}${lock.index != null ? `[${lock.index}]` : ''}`);
+      }
+    }
+
+    const mode = bodyMode == null ? 'driving' : parseTravelMode(bodyMode);
+    if (!mode) return badRequest('mode must be one of driving, transit, walking, bicycling');
+    const preferences = parsePreferences(bodyPreferences);
+    if (typeof preferences === 'string') return badRequest(preferences);
+    const meals = parseMealFilter(diet, cuisines);
+    if (typeof meals === 'string') return badRequest(meals);
+    const region = regionProfileById(bodyRegion);
+    if (!region) return badRequest(`unknown region: ${bodyRegion}`);
+    if (startDate != null && !isIsoDate(startDate)) return badRequest('startDate must be YYYY-MM-DD');
+    const dayStartMin = parseClock(dayStart);
+    const dayEndMin = parseClock(dayEnd);
+    if (dayStartMin == null || dayEndMin == null || dayEndMin <= dayStartMin) {
+      return badRequest('dayStart/dayEnd must be HH:MM with dayStart before dayEnd');
+    }
+
+    const provider = resolveMapProvider(bodyProvider, cacheModeFrom(req));
+    if (!provider) return badRequest(`provider unavailable: ${bodyProvider}`);
+
+    const next = replanAroundLocked(itinerary, pois, locked, { mode, exclude, preferences, region, meals, noticeLang: lang });
+    const lockedKeys = new Set((locked as LockedStop[]).map(lock => placeKey(lockedPlaceOf(itinerary, lock)!)));
+    // 沿用 /api/plan 查到的 day.weather，不重查預報
+    reshuffleForWeather(next, pois, lockedKeys);
+    await scheduleItinerary(next, pois, {
+      startDate,
+      dayStart,
+      dayEnd,
+      mode,
+      locked: lockedKeys,
+      lang,
+      source: provider.places,
+    });
+    // 停留點變了，警特報依重排後的行程重查
+    await applyAlertsToItinerary(next, pois, { startDate, lang, cache: cacheModeFrom(req) });
+    if (provider.reverseGeocoder) {
+      await enrichChosenPOIsWithCity(next, pois, provider.reverseGeocoder, lang);
+    }
+
+    return NextResponse.json(
+      {
+        pois: slimPoisForResponse(pois, next),
+        itinerary: next.map(compactDaySlot),
+      },
+      { headers: { 'Cache-Control': 'no-store' } }
+    );
+  } catch (e: any) {
+    const status = e?.name === 'AbortError' ? 504 : 500;
+    return NextResponse.json(
+      { error: 'server_error', detail: e?.message || 'Unknown error' },
+      { status, headers: { 'Cache-Control': 'no-store' } }
+    );
+  }
+}
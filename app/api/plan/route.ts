@@ -1,149 +1,40 @@
 ﻿// app/api/plan/route.ts
 import { NextRequest, NextResponse } from 'next/server';
-import polyline from 'polyline';
+import { cacheModeFrom, type CacheMode } from '../../../lib/cache';
+import { exportHeaders, exportPlan, parseExportFormat } from '../../../lib/export';
+import { haversineKm } from '../../../lib/geo';
+import {
+  DEFAULT_LANG,
+  INTERCITY_SUPPLEMENT_KM,
+  LONG_HAUL_KM,
+  buildDestinationLocalPath,
+  compactDaySlot,
+  enrichChosenPOIsWithCity,
+  formatLongHaulDurationText,
+  planItineraryAlongRoute,
+  slimPoisForResponse,
+  toPolylineArray,
+  type DaySlot,
+} from '../../../lib/itinerary';
+import {
+  geocoderChain,
+  parseTravelMode,
+  resolveMapProvider,
+  routeWithMode,
+  type DirectionsInfo,
+  type Geocoder,
+  type MapProvider,
+  type TravelMode,
+} from '../../../lib/providers';
+import { parseMealFilter, type MealFilter } from '../../../lib/diet';
+import { parsePreferences, type TravelPreferences } from '../../../lib/preferences';
+import { regionProfileForCountry, regionProfileForText } from '../../../lib/regions';
+import { DEFAULT_DAY_END, DEFAULT_DAY_START, isIsoDate, parseClock, scheduleItinerary } from '../../../lib/schedule';
+import { applyAlertsToItinerary, applyWeatherToItinerary } from '../../../lib/weather-itinerary';
 
-/** ---------------- Types ---------------- */
-type LatLng = { lat: number; lng: number };
-
-type PlaceType =
-  | 'tourist_attraction'
-  | 'park'
-  | 'museum'
-  | 'amusement_park'
-  | 'zoo'
-  | 'aquarium'
-  | 'place_of_worship'
-  | 'restaurant'
-  | 'lodging';
-
-type PlaceOut = {
-  name: string;
-  lat: number;
-  lng: number;
-  address?: string;
-  rating?: number;
-  user_ratings_total?: number;
-  place_id?: string;
-  _type: PlaceType;
-  city?: string;      // ex. ?啣?撣?/ 獢?撣?/ ?啣?撣?..
-  district?: string;  // ex. 靽∠儔? / 憭批??...
-  progress?: number;  // ?冽擃楝蝺????脤脣漲??0..1)
-};
-
-type DaySlot = {
-  morning: PlaceOut[];
-  lunch?: PlaceOut;
-  afternoon: PlaceOut[];
-  lodging?: PlaceOut;
-};
-
-type DirectionsInfo = {
-  polyPts: LatLng[];
-  start: { lat: number; lng: number; address: string };
-  end: { lat: number; lng: number; address: string };
-  distanceText: string;
-  durationText: string;
-};
-
-const DEFAULT_LANG = 'zh-TW';
 const DEFAULT_REGION = 'tw';
-const NEAR_EQ_KM = 3;
-const SAMPLE_MIN = 6;
-const SAMPLE_MAX = 14;
-const SAMPLE_SEGMENT_KM = 45;
-const SAMPLE_DEDUP_KM = 5;
-const NEARBY_CONCURRENCY = 6;
-const REVERSE_GEOCODE_CONCURRENCY = 4;
-const NEARBY_RETRY_LIMIT = 3;
-const NEARBY_TIMEOUT_MS = 6000;
-const ATTRACTION_KEYWORD_LIMIT = 1;
-const MAX_RESPONSE_POIS = 40;
-const MAX_RESPONSE_POLYLINE_POINTS = 120;
-const LONG_HAUL_KM = 1200;
-const INTERCITY_SUPPLEMENT_KM = 90;
-const LONG_HAUL_LOCAL_LAT_SPAN = 0.03;
-const LONG_HAUL_LOCAL_LNG_SPAN = 0.02;
-const MIN_ATTRACTION_RATING = 3.8;
-const MIN_ATTRACTION_REVIEWS = 40;
-const MIN_FOOD_RATING = 3.8;
-const MIN_FOOD_REVIEWS = 30;
-const MIN_HOTEL_RATING = 3.5;
-const MIN_HOTEL_REVIEWS = 20;
-const MIN_PARK_REVIEWS = 120;
-const MIN_MUSEUM_REVIEWS = 80;
-const MIN_ZOO_REVIEWS = 200;
-const MIN_TOURIST_ATTRACTION_REVIEWS = 180;
-const MAX_POI_DIST_FROM_SAMPLE_KM = 15;
-const NEAR_DUP_KM = 0.35;
-const HARD_NEAR_DUP_KM = 0.30;
-const MAX_ITINERARY_LEG_KM = 3.5;
-const FOOD_NAME_BLOCKLIST = /(hotel|hostel|apartment|apartments|resort|inn|motel|wohnung|\u9152\u5e97|\u98ef\u5e97|\u65c5\u9928|\u65c5\u5e97|\u6c11\u5bbf)/i;
-const HOTEL_BRAND_IN_FOOD_BLOCKLIST = /(radisson|marriott|hilton|hyatt|intercontinental|holiday\s*inn|guesthouse|trend\s*hotel|trendhotel|wombat)/i;
-const ATTRACTION_NAME_BLOCKLIST = /(sandbox\s*vr|hundezone|dog\s*park|fitness|gym|gedenktafel|memorial\s*plaque|flagship|camping|hardware|outlet|supermarket|hornbach|zoo\s*scharf|michael\s*scharf|\bwuk\b|bo-yo|chocolate\s*museum|water\s*world|brunnen)/i;
-const PARK_NAME_BLOCKLIST = /(hundezone|dog\s*park|skate|parkplatz|parking)/i;
-const ZOO_NAME_BLOCKLIST = /(pet\s*shop|tierhandlung|aquaristik|zoo\s*shop|handlung|store|zoo\s*scharf|\/)/i;
-const ATTRACTION_PRIORITY_NAME = /(museum|gallery|cathedral|church|palace|castle|historic|old\s*town|monument|opera|hofburg|stephans|belvedere|park|garden|platz|博物館|美術館|教堂|主教座堂|皇宮|宮|城堡|紀念|廣場|公園)/i;
-const ATTRACTION_DEPRIORITY_NAME = /(market|mall|shop|office|hospital|parking|playground|camping|hardware)/i;
-const ATTRACTION_TYPE_WHITELIST = new Set([
-  'tourist_attraction',
-  'museum',
-  'park',
-  'zoo',
-  'aquarium',
-  'place_of_worship',
-  'art_gallery',
-  'church',
-  'hindu_temple',
-  'mosque',
-  'synagogue',
-]);
-const FOOD_TYPE_WHITELIST = new Set([
-  'restaurant',
-  'cafe',
-  'meal_takeaway',
-  'meal_delivery',
-  'bakery',
-  'food',
-]);
-const ATTRACTION_BAD_PRIMARY_TYPES = new Set([
-  'lodging',
-  'restaurant',
-  'cafe',
-  'bar',
-  'night_club',
-  'shopping_mall',
-  'supermarket',
-  'store',
-]);
-/** ?游??暺????方??笑撱郊???拚尹???璅?蝑? */
-const ATTRACTION_TYPES: PlaceType[] = [
-  'tourist_attraction',
-  'park',
-  'museum',
-  'zoo',
-  'aquarium',
-  'place_of_worship',
-];
-
-/** 擗輒??摰蹂???銵??潸??閬?*/
-const FOOD_TYPES: PlaceType[] = ['restaurant'];
-const HOTEL_TYPES: PlaceType[] = ['lodging'];
-
-/** ???方?/甇仿?/?擗??勗??Ｙ揣閬??葉???萄?嚗earby ?臬? keyword嚗?*/
-const ATTRACTION_CN_KEYWORDS = [
-  'attraction',
-  'museum',
-  'historic',
-  'landmark',
-  'temple',
-  'scenic',
-];
-const FOOD_KEYWORDS = [
-  'local food',
-  'traditional',
-  'bistro',
-  'viennese',
-];
+const MAX_WAYPOINTS = 8;
+const NDJSON_TYPE = 'application/x-ndjson';
 
 function normalizeGoogleLang(input?: string) {
   const raw = String(input || '').trim().replace(/_/g, '-');
@@ -170,165 +61,15 @@ function normalizeRegion(input?: string) {
   return (m?.[1] || DEFAULT_REGION).toLowerCase();
 }
 
+/** explicit：請求有帶 lang 或 Accept-Language；沒有時景點改用目的地區域設定檔的語言 */
 function resolveLocale(req: NextRequest, bodyLang?: string, bodyRegion?: string) {
   const headerLang = req.headers.get('accept-language') || '';
   const lang = normalizeGoogleLang(bodyLang || headerLang || DEFAULT_LANG);
   const region = (bodyRegion || normalizeRegion(bodyLang || headerLang || DEFAULT_REGION)).toLowerCase();
-  return { lang, region };
-}
-
-/** ---------------- Utils ---------------- */
-function sleep(ms: number) { return new Promise(res => setTimeout(res, ms)); }
-
-async function runWithConcurrency<T>(tasks: Array<() => Promise<T>>, limit: number): Promise<T[]> {
-  if (!tasks.length) return [];
-  const safeLimit = Math.max(1, Math.min(limit, tasks.length));
-  const out: T[] = new Array(tasks.length);
-  let next = 0;
-  const workers = Array.from({ length: safeLimit }, async () => {
-    while (true) {
-      const idx = next++;
-      if (idx >= tasks.length) break;
-      out[idx] = await tasks[idx]();
-    }
-  });
-  await Promise.all(workers);
-  return out;
-}
-
-async function fetchJson<T = any>(url: string, init?: RequestInit): Promise<T> {
-  const r = await fetch(url, { cache: 'no-store', ...init });
-  if (!r.ok) throw new Error(`HTTP ${r.status}`);
-  return r.json() as Promise<T>;
-}
-
-function haversineKm(a: LatLng, b: LatLng) {
-  const R = 6371;
-  const dLat = (b.lat - a.lat) * Math.PI / 180;
-  const dLng = (b.lng - a.lng) * Math.PI / 180;
-  const la1 = a.lat * Math.PI / 180;
-  const la2 = b.lat * Math.PI / 180;
-  const s1 = Math.sin(dLat / 2), s2 = Math.sin(dLng / 2);
-  return 2 * R * Math.asin(Math.sqrt(s1 * s1 + Math.cos(la1) * Math.cos(la2) * s2 * s2));
-}
-
-function cumulativeLengthKm(path: LatLng[]) {
-  const acc = [0];
-  for (let i = 1; i < path.length; i++) acc.push(acc[i - 1] + haversineKm(path[i - 1], path[i]));
-  return acc;
-}
-
-/** 靘楝蝺??璅??嚗蝔憭璅?蝔??喳???8-24 ??嚗????渲??? */
-function sampleAlongPathDynamic(path: LatLng[]) {
-  if (!path.length) return [];
-  const cum = cumulativeLengthKm(path);
-  const total = cum[cum.length - 1];
-  const n = Math.max(SAMPLE_MIN, Math.min(SAMPLE_MAX, Math.ceil(total / SAMPLE_SEGMENT_KM) + SAMPLE_MIN));
-  const positions: LatLng[] = [];
-  for (let i = 0; i < n; i++) {
-    const target = (i / Math.max(1, n - 1)) * total;
-    let j = 0;
-    while (j < cum.length && cum[j] < target) j++;
-    if (j === 0) positions.push(path[0]);
-    else if (j >= cum.length) positions.push(path[path.length - 1]);
-    else {
-      const t0 = cum[j - 1], t1 = cum[j];
-      const A = path[j - 1], B = path[j];
-      const r = t1 === t0 ? 0 : (target - t0) / (t1 - t0);
-      positions.push({ lat: A.lat + (B.lat - A.lat) * r, lng: A.lng + (B.lng - A.lng) * r });
-    }
-  }
-  const dedup: LatLng[] = [];
-  for (const p of positions) {
-    if (!dedup.some(q => haversineKm(p, q) < SAMPLE_DEDUP_KM)) dedup.push(p);
-  }
-  return dedup;
-}
-function dynamicRadiusMeters(totalKm: number) {
-  const base = Math.min(15000, Math.max(4000, Math.round(totalKm * 20)));
-  return base;
-}
-
-/** 敺?Geocoding components ? city/district嚗?撠??蝛拙?嚗?*/
-function extractCityDistrict(components: any[]): { city?: string; district?: string } {
-  const hasType = (c: any, t: string) => Array.isArray(c.types) && c.types.includes(t);
-  const get = (t: string) => components.find((c: any) => hasType(c, t))?.long_name as string | undefined;
-
-  // ?啁撣貉?嚗腦撣 level_1嚗??/?啣?撣?獢?撣??唬葉撣??啣?撣?擃?撣??佗?
-  // 甈⊿ locality嚗??撜??撣?質??
-  let city = get('administrative_area_level_1') || get('locality') || get('postal_town') || get('administrative_area_level_2');
-
-  // ?/?殷?level_3 ??sublocality_level_1嚗????neighborhood/locality
-  let district =
-    get('administrative_area_level_3') ||
-    get('sublocality_level_1') ||
-    get('neighborhood') ||
-    (get('locality') && get('locality') !== city ? get('locality') : undefined);
-
-  const norm = (s?: string) => s?.replace(/\s+/g, '')?.replace(/[繚?領Ｔ改?\.]/g, '') || undefined;
-  city = norm(city);
-  district = norm(district);
-
-  // ?餅????????銴?憒??靽∠儔??? district 隞乓縑蝢拙??銝鳴?
-  if (city && district && district.startsWith(city)) {
-    district = district.slice(city.length);
-    district = norm(district);
-  }
-
-  return { city, district };
-}
-
-/** 銋暹楊?唳??腦撣?/ 銵???蝵桀?啣?嚗??銴＊蝷?*/
-function formatAddressWithCity(address?: string, city?: string, district?: string) {
-  const SEP = ' · ';
-  const parts: string[] = [];
-  const clean = (s: string) => s.replace(/\s+/g, ' ').trim();
-
-  if (city) parts.push(city);
-  if (district) parts.push(district);
-
-  let rest = address ? clean(address) : '';
-  const head = parts.join(SEP);
-
-  if (rest) {
-      const rmRaw = [city, district].filter(Boolean).join('|');
-      if (rmRaw) {
-        const rm = rmRaw.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
-      rest = rest.replace(new RegExp(`^(${rm})(\\s*(?:·|繚)\\s*)?`, 'u'), '');
-      }
-  }
-
-  return head ? (rest ? `${head}${SEP}${rest}` : head) : (rest || '');
-}
-
-/** ---------------- Google APIs ---------------- */
-async function geocodeGoogle(query: string, lang: string, region: string) {
-  const key = process.env.GOOGLE_MAPS_API_KEY!;
-  const base = 'https://maps.googleapis.com/maps/api/geocode/json';
-  let lastStatus = '';
-  let lastErr = '';
-  const regionPart = region ? `&region=${encodeURIComponent(region)}` : '';
-  const tryUrls = [
-    `${base}?address=${encodeURIComponent(query)}&language=${encodeURIComponent(lang)}${regionPart}&key=${key}`,
-    `${base}?address=${encodeURIComponent(query)}&language=${encodeURIComponent(lang)}&key=${key}`,
-  ];
-  for (const url of tryUrls) {
-    const j = await fetchJson<any>(url);
-    lastStatus = j.status || '';
-    lastErr = j.error_message || '';
-    if (j.results?.[0]) {
-      const g = j.results[0];
-      return {
-        lat: g.geometry.location.lat,
-        lng: g.geometry.location.lng,
-        formatted_address: g.formatted_address,
-        components: g.address_components || [],
-      };
-    }
-  }
-  throw new Error(`geocode_failed:${lastStatus}${lastErr ? ':' + lastErr : ''}`);
+  return { lang, region, explicit: !!(bodyLang || headerLang) };
 }
 
+/** ---------------- Geocoding ---------------- */
 function expandGeocodeQueries(input: string): string[] {
   const q0 = String(input || '').trim();
   const cleaned = q0
@@ -365,32 +106,32 @@ function normalizeLocationToken(input: string) {
     .replace(/(city|town|district|province|county|state|country|行程|旅遊|旅行|規劃|trip|travel|itinerary)/g, '');
 }
 
+/** 起訖文字符合某個區域設定檔的地名提示時，沿用請求的 region 作為 Google 的 region 偏好；否則不帶 */
 function resolveRoutingRegion(region: string, origin: string, destination: string) {
   const reg = String(region || '').toLowerCase();
   if (!reg) return '';
-  const q = `${origin} ${destination}`.toLowerCase();
-  const twHints = /(台灣|臺灣|taiwan|台北|臺北|taipei|新北|桃園|台中|臺中|台南|臺南|高雄|基隆|新竹|嘉義|花蓮|台東|臺東|屏東|澎湖|金門|馬祖)/i;
-  if (twHints.test(q)) return reg;
-  return '';
+  return regionProfileForText(`${origin} ${destination}`) ? reg : '';
 }
 
-function resolveKnownCity(query: string): { lat: number; lng: number; formatted_address: string } | null {
+function resolveKnownCity(query: string): GeoPoint | null {
   const q = String(query || '').toLowerCase();
   if (/(布達佩斯|布达佩斯|budapest)/i.test(q)) {
-    return { lat: 47.497913, lng: 19.040236, formatted_address: 'Budapest, Hungary' };
+    return { lat: 47.497913, lng: 19.040236, formatted_address: 'Budapest, Hungary', countryCode: 'hu' };
   }
   if (/(維也納|维也纳|vienna|wien)/i.test(q)) {
-    return { lat: 48.208174, lng: 16.373819, formatted_address: 'Vienna, Austria' };
+    return { lat: 48.208174, lng: 16.373819, formatted_address: 'Vienna, Austria', countryCode: 'at' };
   }
   if (/(台北|臺北|taipei)/i.test(q)) {
-    return { lat: 25.033964, lng: 121.564468, formatted_address: 'Taipei, Taiwan' };
+    return { lat: 25.033964, lng: 121.564468, formatted_address: 'Taipei, Taiwan', countryCode: 'tw' };
   }
   return null;
 }
 
-async function geocodeWithFallback(query: string, lang: string, region: string) {
+type GeoPoint = { lat: number; lng: number; formatted_address?: string; countryCode?: string };
+
+async function geocodeWithFallback(geocoders: Geocoder[], query: string, lang: string, region: string): Promise<GeoPoint> {
   try {
-    return await geocodeAny(query, lang, region);
+    return await geocodeAny(geocoders, query, lang, region);
   } catch (e) {
     const known = resolveKnownCity(query);
     if (known) return known;
@@ -398,873 +139,338 @@ async function geocodeWithFallback(query: string, lang: string, region: string)
   }
 }
 
-async function geocodeAny(query: string, lang: string, region: string) {
+async function geocodeAny(geocoders: Geocoder[], query: string, lang: string, region: string) {
   const variants = expandGeocodeQueries(query);
   let lastErr: any;
-  for (const q of variants) {
-    try {
-      const g = await geocodeGoogle(q, lang, region);
-      return {
-        lat: g.lat,
-        lng: g.lng,
-        formatted_address: g.formatted_address,
-        components: g.components || [],
-      };
-    } catch (e) {
-      lastErr = e;
-    }
-  }
-  for (const q of variants) {
-    try {
-      const o = await geocodeOSM(q, lang);
-      return {
-        lat: o.lat,
-        lng: o.lng,
-        formatted_address: o.formatted,
-        components: [],
-      };
-    } catch (e) {
-      lastErr = e;
+  for (const geocoder of geocoders) {
+    for (const q of variants) {
+      try {
+        return await geocoder.geocode(q, lang, region);
+      } catch (e) {
+        lastErr = e;
+      }
     }
   }
   throw lastErr || new Error('geocode_any_failed');
 }
 
-async function reverseGeocodeGoogle(lat: number, lng: number, lang: string) {
-  const key = process.env.GOOGLE_MAPS_API_KEY!;
-  const url = `https://maps.googleapis.com/maps/api/geocode/json?latlng=${lat},${lng}&language=${encodeURIComponent(lang)}&key=${key}`;
-  const j = await fetchJson<any>(url);
-  const top = j.results?.[0];
-  const components = top?.address_components || [];
-  const { city, district } = extractCityDistrict(components);
-
-  const formatted = formatAddressWithCity(top?.formatted_address, city, district);
-  return { city, district, formatted };
-}
-
-async function directionsGoogle(origin: string, destination: string, lang: string, region: string): Promise<DirectionsInfo> {
-  const key = process.env.GOOGLE_MAPS_API_KEY!;
-  const regionPart = region ? `&region=${encodeURIComponent(region)}` : '';
-  const url = `https://maps.googleapis.com/maps/api/directions/json?origin=${encodeURIComponent(origin)}&destination=${encodeURIComponent(destination)}&language=${encodeURIComponent(lang)}${regionPart}&mode=driving&key=${key}`;
-  const j = await fetchJson<any>(url);
-  if (j.status !== 'OK' || !j.routes?.[0]) {
-    const err = new Error(j.error_message || j.status || 'directions_failed') as Error & { code?: string };
-    err.code = j.status;
-    throw err;
-  }
-  const route = j.routes[0];
-  const leg = route.legs[0];
-  const pts = polyline.decode(route.overview_polyline.points).map(([lat, lng]: [number, number]) => ({ lat, lng }));
+/** 跨海/跨洲無法規劃路線時，路線只畫目的地周邊並以估計時間呈現 */
+function buildLongHaulRoute(o: GeoPoint, d: GeoPoint, originText: string, destinationText: string, mode: TravelMode): DirectionsInfo {
+  const startLL = { lat: o.lat, lng: o.lng };
+  const endLL = { lat: d.lat, lng: d.lng };
+  const distanceKm = haversineKm(startLL, endLL);
   return {
-    polyPts: pts,
-    start: { lat: leg.start_location.lat, lng: leg.start_location.lng, address: leg.start_address },
-    end:   { lat: leg.end_location.lat,   lng: leg.end_location.lng,   address: leg.end_address },
-    distanceText: leg.distance.text,
-    durationText: leg.duration.text,
+    // Keep route visualization local to destination for cross-country planning.
+    polyPts: buildDestinationLocalPath(endLL),
+    start: { lat: startLL.lat, lng: startLL.lng, address: o.formatted_address || originText },
+    end: { lat: endLL.lat, lng: endLL.lng, address: d.formatted_address || destinationText },
+    distanceText: `${distanceKm.toFixed(0)} km`,
+    durationText: formatLongHaulDurationText(distanceKm),
+    legs: [],
+    mode,
   };
 }
+/** ---------------- Planning ---------------- */
+type PlanJob = {
+  origin: string;
+  destination: string;
+  waypoints: string[];
+  optimizeWaypoints: boolean;
+  days: number;
+  mode: TravelMode;
+  preferences: TravelPreferences;
+  meals: MealFilter;
+  startDate?: string;
+  dayStart: string;
+  dayEnd: string;
+  lang: string;
+  /** 請求有指定語言；否則蒐集景點與排時間表用目的地區域的預設語言 */
+  langExplicit: boolean;
+  routingRegion: string;
+  provider: MapProvider;
+  cache: CacheMode;
+};
 
-function scorePlace(p: any, distKm?: number) {
-  const rating = p.rating || 0;
-  const urt = p.user_ratings_total || 1;
-  const pop = Math.log10(urt + 1) + 1;
-  const proximity = typeof distKm === 'number' ? 1 / (1 + distKm / 6) : 1;
-  return rating * pop * proximity;
-}
-
-function canonicalPlaceType(p: any, fallback: PlaceType): PlaceType {
-  const types: string[] = Array.isArray(p?.types) ? p.types : [];
-  if (types.includes('lodging')) return 'lodging';
-  if (types.includes('restaurant') || types.includes('food') || types.includes('cafe') || types.includes('meal_takeaway')) return 'restaurant';
-  if (types.includes('aquarium')) return 'aquarium';
-  if (types.includes('museum') || types.includes('art_gallery')) return 'museum';
-  if (types.includes('zoo')) return 'zoo';
-  if (types.includes('amusement_park')) return 'amusement_park';
-  if (types.includes('park')) return 'park';
-  if (types.includes('place_of_worship') || types.includes('church') || types.includes('hindu_temple') || types.includes('mosque') || types.includes('synagogue')) return 'place_of_worship';
-  if (types.includes('tourist_attraction')) return 'tourist_attraction';
-  return fallback;
-}
-
-function hasAnyGoogleType(p: any, allow: Set<string>) {
-  if (!Array.isArray(p?.types)) return false;
-  return p.types.some((t: string) => allow.has(t));
-}
-
-function isQualifiedPlace(p: any, type: PlaceType, distKm: number) {
-  if (!p || !p.geometry?.location) return false;
-  if (p.business_status && p.business_status !== 'OPERATIONAL') return false;
-  if (distKm > MAX_POI_DIST_FROM_SAMPLE_KM) return false;
-
-  const effectiveType = canonicalPlaceType(p, type);
-  const name = String(p.name || '');
-  const types: string[] = Array.isArray(p.types) ? p.types : [];
-  const primaryType = types[0];
-  if (ATTRACTION_TYPES.includes(effectiveType) && ATTRACTION_NAME_BLOCKLIST.test(name)) return false;
-  if (/(gmbh|flagship|camping|hornbach|monteurzimmer)/i.test(name)) return false;
-  if (FOOD_TYPES.includes(effectiveType) && FOOD_NAME_BLOCKLIST.test(name)) return false;
-  if (FOOD_TYPES.includes(effectiveType) && HOTEL_BRAND_IN_FOOD_BLOCKLIST.test(name)) return false;
-  if (effectiveType === 'place_of_worship' && !/(church|cathedral|temple|mosque|shrine|basilica|synagogue|kirche|dom)/i.test(name)) return false;
-
-  const rating = Number(p.rating || 0);
-  const reviews = Number(p.user_ratings_total || 0);
-
-  if (ATTRACTION_TYPES.includes(effectiveType)) {
-    if (!hasAnyGoogleType(p, ATTRACTION_TYPE_WHITELIST)) return false;
-    if (primaryType && ATTRACTION_BAD_PRIMARY_TYPES.has(primaryType)) return false;
-    if (effectiveType === 'tourist_attraction' && reviews < MIN_TOURIST_ATTRACTION_REVIEWS) return false;
-    if (effectiveType === 'park' && PARK_NAME_BLOCKLIST.test(name)) return false;
-    if (effectiveType === 'park' && reviews < MIN_PARK_REVIEWS) return false;
-    if (effectiveType === 'museum' && reviews < MIN_MUSEUM_REVIEWS) return false;
-    if (effectiveType === 'zoo' && ZOO_NAME_BLOCKLIST.test(name)) return false;
-    if (effectiveType === 'zoo' && reviews < MIN_ZOO_REVIEWS) return false;
-    if (!ATTRACTION_PRIORITY_NAME.test(name) && reviews < 120) return false;
-    return rating >= MIN_ATTRACTION_RATING && reviews >= MIN_ATTRACTION_REVIEWS;
-  }
-  if (FOOD_TYPES.includes(effectiveType)) {
-    if (!hasAnyGoogleType(p, FOOD_TYPE_WHITELIST)) return false;
-    if (types.includes('lodging')) return false;
-    return rating >= MIN_FOOD_RATING && reviews >= MIN_FOOD_REVIEWS;
-  }
-  if (HOTEL_TYPES.includes(effectiveType)) {
-    if (!types.includes('lodging')) return false;
-    return rating >= MIN_HOTEL_RATING && reviews >= MIN_HOTEL_REVIEWS;
-  }
-  return true;
-}
-
-async function nearbyRaw(center: LatLng, radiusM: number, params: Record<string, string>, lang: string) {
-  const key = process.env.GOOGLE_MAPS_API_KEY!;
-  const usp = new URLSearchParams({
-    location: `${center.lat},${center.lng}`,
-    radius: `${radiusM}`,
-    language: lang,
-    key,
-  });
-  for (const [k, v] of Object.entries(params)) usp.set(k, v);
-  const url = `https://maps.googleapis.com/maps/api/place/nearbysearch/json?${usp.toString()}`;
-
-  for (let attempt = 0; attempt < NEARBY_RETRY_LIMIT; attempt++) {
-    try {
-      const ac = new AbortController();
-      const timer = setTimeout(() => ac.abort(), NEARBY_TIMEOUT_MS);
-      const j = await fetchJson<any>(url, { signal: ac.signal });
-      clearTimeout(timer);
-
-      if (j.status === 'OK' || j.status === 'ZERO_RESULTS') {
-        return Array.isArray(j.results) ? j.results : [];
-      }
-
-      const retryable = j.status === 'OVER_QUERY_LIMIT' || j.status === 'UNKNOWN_ERROR';
-      if (retryable && attempt < NEARBY_RETRY_LIMIT - 1) {
-        await sleep(200 * (attempt + 1));
-        continue;
-      }
-      return [];
-    } catch {
-      if (attempt < NEARBY_RETRY_LIMIT - 1) {
-        await sleep(200 * (attempt + 1));
-        continue;
-      }
-      return [];
-    }
-  }
-  return [];
-}
-async function nearby(center: LatLng, type?: PlaceType, radiusM?: number, keyword?: string, lang = DEFAULT_LANG) {
-  const params: Record<string, string> = {};
-  if (type) params['type'] = type;
-  if (keyword) params['keyword'] = keyword;
-  return nearbyRaw(center, radiusM || 3000, params, lang);
-}
-
-/** ??result 頧? PlaceOut */
-function asPlaceOut(result: any, type: PlaceType, progress?: number): PlaceOut | undefined {
-  if (!result || !result.geometry?.location) return;
-  const loc = result.geometry.location;
-  const normalizedType = canonicalPlaceType(result, type);
-  const o: PlaceOut = {
-    name: result.name,
-    lat: loc.lat,
-    lng: loc.lng,
-    address: result.vicinity || result.formatted_address,
-    rating: result.rating,
-    user_ratings_total: result.user_ratings_total,
-    place_id: result.place_id,
-    _type: normalizedType,
-    progress,
-  };
-  return o;
-}
-
-/** ???頝舐??脣漲????憭見?? POI ??嚗 attractions/food/hotel嚗?*/
-async function harvestPOIsAlongPath(path: LatLng[], lang = DEFAULT_LANG) {
-  const samples = sampleAlongPathDynamic(path);
-  const totalKm = haversineKm(path[0], path[path.length - 1]);
-  const radius = dynamicRadiusMeters(totalKm);
-
-  const cum = cumulativeLengthKm(path);
-  const total = cum[cum.length - 1];
-  const stride = Math.max(1, Math.floor(path.length / 220));
-  const lookupIdx: number[] = [];
-  for (let i = 0; i < path.length; i += stride) lookupIdx.push(i);
-  if (lookupIdx[lookupIdx.length - 1] !== path.length - 1) lookupIdx.push(path.length - 1);
-
-  const progressOf = (pt: LatLng) => {
-    let best = Infinity;
-    let bestIdx = 0;
-    for (const idx of lookupIdx) {
-      const d = haversineKm(pt, path[idx]);
-      if (d < best) {
-        best = d;
-        bestIdx = idx;
-      }
-    }
-    const prog = cum[bestIdx] / (total || 1);
-    return Math.max(0, Math.min(1, prog));
+/** 串流模式（NDJSON）逐行送出的事件；最後一行一定是 result 或 error */
+type PlanEvent =
+  | { type: 'stage'; stage: 'geocoded' | 'route' | 'harvest' | 'itinerary' | 'weather' | 'enriched'; [key: string]: any }
+  | { type: 'day'; index: number; day: DaySlot }
+  | { type: 'result'; plan: Awaited<ReturnType<typeof buildPlan>> }
+  | { type: 'error'; error: string; detail: string };
+
+/** 規劃路線與行程；emit 在各階段回報進度與部分結果（一般 JSON 回應不需要） */
+async function buildPlan(job: PlanJob, emit: (e: PlanEvent) => void = () => {}) {
+  const { origin, destination, waypoints, optimizeWaypoints, days: tripDays, mode, preferences, meals, startDate, dayStart, dayEnd, lang, langExplicit, routingRegion, provider, cache } = job;
+  const geocoders = geocoderChain(provider);
+  const geocode = (query: string) => geocodeWithFallback(geocoders, query, lang, routingRegion);
+  let geocodedSent = false;
+  const emitGeocoded = (points: GeoPoint[]) => {
+    if (geocodedSent) return;
+    geocodedSent = true;
+    emit({ type: 'stage', stage: 'geocoded', points: points.map(g => ({ lat: g.lat, lng: g.lng, address: g.formatted_address })) });
   };
 
-  const byId = new Map<string, { item: PlaceOut; score: number }>();
-
-  const ingest = (arr: any[], type: PlaceType, sample: LatLng, boost = 1) => {
-    for (const p of arr) {
-      const id = p.place_id as string | undefined;
-      if (!id || !p.geometry?.location) continue;
-      const point = { lat: p.geometry.location.lat, lng: p.geometry.location.lng };
-      const distKm = haversineKm(sample, point);
-      if (!isQualifiedPlace(p, type, distKm)) continue;
-      let qualityMul = 1;
-      if (ATTRACTION_TYPES.includes(type)) {
-        const nm = String(p.name || '');
-        if (ATTRACTION_PRIORITY_NAME.test(nm)) qualityMul *= 1.15;
-        if (ATTRACTION_DEPRIORITY_NAME.test(nm)) qualityMul *= 0.8;
+  let r: DirectionsInfo;
+  let longHaulFallback = false;
+  let resolvedOrigin: GeoPoint | null = null;
+  let resolvedDestination: GeoPoint | null = null;
+  let resolvedStops: GeoPoint[] = [];
+
+  if (waypoints.length) {
+    // 多站行程：停靠點座標要拿來切分每日區段，一律先 geocode（依序查詢，避免 Nominatim 限流）
+    resolvedOrigin = await geocode(origin);
+    const stopGeos: GeoPoint[] = [];
+    for (const w of waypoints) stopGeos.push(await geocode(w));
+    resolvedDestination = await geocode(destination);
+    emitGeocoded([resolvedOrigin, ...stopGeos, resolvedDestination]);
+    r = await routeWithMode(provider.router, {
+      origin: { lat: resolvedOrigin.lat, lng: resolvedOrigin.lng },
+      destination: { lat: resolvedDestination.lat, lng: resolvedDestination.lng },
+      waypoints: stopGeos.map(g => ({ lat: g.lat, lng: g.lng })),
+      optimizeWaypoints: !!optimizeWaypoints,
+      mode,
+      lang: lang,
+      region: routingRegion,
+    });
+    const order = r.waypointOrder?.length === stopGeos.length ? r.waypointOrder : stopGeos.map((_, i) => i);
+    resolvedStops = order.map(i => stopGeos[i]);
+    const named = [resolvedOrigin, ...resolvedStops, resolvedDestination];
+    r.legs.forEach((leg, i) => {
+      leg.start.address = named[i]?.formatted_address || leg.start.address;
+      leg.end.address = named[i + 1]?.formatted_address || leg.end.address;
+    });
+  } else if (provider.router.acceptsText) {
+    const sameToken = normalizeLocationToken(origin) === normalizeLocationToken(destination);
+    const knownOrigin = resolveKnownCity(origin);
+    const knownDestination = resolveKnownCity(destination);
+
+    if (!sameToken && knownOrigin && knownDestination) {
+      const knownCrow = haversineKm(
+        { lat: knownOrigin.lat, lng: knownOrigin.lng },
+        { lat: knownDestination.lat, lng: knownDestination.lng },
+      );
+      if (knownCrow >= INTERCITY_SUPPLEMENT_KM) {
+        resolvedOrigin = knownOrigin;
+        resolvedDestination = knownDestination;
       }
-      const sc = scorePlace(p, distKm) * boost * qualityMul;
-      const item = asPlaceOut(p, type, progressOf(point));
-      if (!item) continue;
-      const cur = byId.get(id);
-      if (!cur || sc > cur.score) byId.set(id, { item, score: sc });
     }
-  };
 
-  const tasks: Array<() => Promise<void>> = [];
-
-  for (let si = 0; si < samples.length; si++) {
-    const s = samples[si];
-    for (const t of ATTRACTION_TYPES) {
-      tasks.push(async () => {
-        const arr = await nearby(s, t, radius, undefined, lang);
-        ingest(arr, t, s);
-      });
-
-      if (si % 2 === 0) {
-        for (const kw of ATTRACTION_CN_KEYWORDS.slice(0, ATTRACTION_KEYWORD_LIMIT)) {
-          tasks.push(async () => {
-            const arr2 = await nearby(s, t, Math.round(radius * 0.8), kw, lang);
-            ingest(arr2, t, s, 1.05);
-          });
+    if (!sameToken && !(resolvedOrigin && resolvedDestination)) {
+      try {
+        const [oGeo, dGeo] = await Promise.all([geocode(origin), geocode(destination)]);
+        const preCrow = haversineKm({ lat: oGeo.lat, lng: oGeo.lng }, { lat: dGeo.lat, lng: dGeo.lng });
+        if (preCrow >= INTERCITY_SUPPLEMENT_KM) {
+          resolvedOrigin = oGeo;
+          resolvedDestination = dGeo;
         }
+      } catch {
+        // Keep text-based routing if pre-geocoding is unavailable.
       }
     }
-  }
 
-  for (const s of samples) {
-    for (const t of FOOD_TYPES) {
-      tasks.push(async () => {
-        const arr = await nearby(s, t, Math.max(3500, Math.round(radius * 0.6)), undefined, lang);
-        ingest(arr, t, s);
-      });
-      for (const kw of FOOD_KEYWORDS) {
-        tasks.push(async () => {
-          const arr2 = await nearby(s, t, Math.max(3000, Math.round(radius * 0.5)), kw, lang);
-          ingest(arr2, t, s, 1.03);
-        });
-      }
-    }
-  }
-
-  for (const s of samples) {
-    for (const t of HOTEL_TYPES) {
-      tasks.push(async () => {
-        const arr = await nearby(s, t, Math.max(5000, Math.round(radius * 0.6)), undefined, lang);
-        ingest(arr, t, s);
+    try {
+      const originForDirections = resolvedOrigin ? { lat: resolvedOrigin.lat, lng: resolvedOrigin.lng } : origin;
+      const destinationForDirections = resolvedDestination ? { lat: resolvedDestination.lat, lng: resolvedDestination.lng } : destination;
+      const directionRegion = resolvedOrigin && resolvedDestination ? '' : routingRegion;
+      r = await routeWithMode(provider.router, {
+        origin: originForDirections,
+        destination: destinationForDirections,
+        mode,
+        lang: lang,
+        region: directionRegion,
       });
-    }
-  }
-
-  await runWithConcurrency(tasks, NEARBY_CONCURRENCY);
+      if (resolvedOrigin?.formatted_address) r.start.address = resolvedOrigin.formatted_address;
+      if (resolvedDestination?.formatted_address) r.end.address = resolvedDestination.formatted_address;
 
-  const pois = Array.from(byId.values())
-    .sort((a, b) => {
-      const pa = a.item.progress ?? 0;
-      const pb = b.item.progress ?? 0;
-      return pa - pb || b.score - a.score;
-    })
-    .map(x => x.item);
-
-  const seen = new Set<string>();
-  const clean: PlaceOut[] = [];
-  for (const p of pois) {
-    const k = `${(p.name || '').trim()}@${(p.address || '').slice(0, 24)}`;
-    if (seen.has(k)) continue;
-    seen.add(k);
-    clean.push(p);
-  }
-  return clean;
-}
-function buildAgencyStyleItinerary(pois: PlaceOut[], days: number): DaySlot[] {
-  const itinerary: DaySlot[] = Array.from({ length: days }, () => ({ morning: [], afternoon: [] }));
-  const idOf = (p: PlaceOut) => p.place_id || `${p.name}@${p.lat.toFixed(5)},${p.lng.toFixed(5)}`;
-  const normName = (s?: string) => (s || '').toLowerCase().replace(/[^a-z0-9\u4e00-\u9fff]+/g, '');
-  const attractionGroupKey = (p: PlaceOut) => {
-    const baseName = normName(p.name)
-      .replace(/美景宮下宮|美景宮上宮|美景宮|lowerbelvedere|upperbelvedere|unteresbelvedere|oberesbelvedere|belvedere/g, 'belvedere');
-    const n = baseName
-      .replace(/博物館|美術館|花園|公園|教堂|廣場|城堡|景點|雕像/g, '')
-      .replace(/museum|gallery|park|garden|cathedral|church|palace|schloss|platz|vienna|wien/g, '');
-    return n.slice(0, 12) || baseName.slice(0, 12);
-  };
-  const addressKey = (p: PlaceOut) => {
-    const s = (p.address || '')
-      .toLowerCase()
-      .replace(/\d+/g, '')
-      .replace(/wien|vienna|österreich|osterreich/g, '')
-      .replace(/[^a-z\u00c0-\u024f\u4e00-\u9fff]+/g, '');
-    return s.slice(0, 18);
-  };
-  const similarAttraction = (a: PlaceOut, b: PlaceOut) => {
-    const na = normName(a.name), nb = normName(b.name);
-    const nameClose = !!na && !!nb && (na.includes(nb) || nb.includes(na));
-    const km = haversineKm({ lat: a.lat, lng: a.lng }, { lat: b.lat, lng: b.lng });
-    if (km <= HARD_NEAR_DUP_KM) return true;
-    const aa = addressKey(a);
-    const bb = addressKey(b);
-    if (km <= 0.8 && aa && bb && aa === bb) return true;
-    if (km <= 0.8 && attractionGroupKey(a) === attractionGroupKey(b)) return true;
-    return km <= NEAR_DUP_KM && nameClose;
-  };
-
-  const attractions = pois
-    .filter(p => ATTRACTION_TYPES.includes(p._type as any))
-    .sort((a, b) => (a.progress ?? 0) - (b.progress ?? 0) || (b.rating ?? 0) - (a.rating ?? 0));
-  const restaurantKey = (p: PlaceOut) => {
-    const core = normName(p.name)
-      .replace(/restaurant|cafe|bar|brau|br\u00E4u|wien|vienna|\u9910\u5ef3|\u5496\u5561/g, '')
-      .slice(0, 16) || normName(p.name).slice(0, 16);
-    return `${core}@${p.lat.toFixed(3)},${p.lng.toFixed(3)}`;
-  };
-  const restaurantsRaw = pois
-    .filter(p => FOOD_TYPES.includes(p._type as any))
-    .filter(p => !FOOD_NAME_BLOCKLIST.test(p.name || ''));
-  const restaurants = (() => {
-    const sorted = [...restaurantsRaw].sort((a, b) => (b.rating || 0) - (a.rating || 0));
-    const m = new Map<string, PlaceOut>();
-    for (const r of sorted) {
-      const k = restaurantKey(r);
-      if (!m.has(k)) m.set(k, r);
-    }
-    return Array.from(m.values());
-  })();
-  const hotels = pois.filter(p => HOTEL_TYPES.includes(p._type as any));
-  const allowCrossDayRepeat = attractions.length < days * 2;
-
-  const usedAttractions = new Set<string>();
-  const usedAttractionSpots: PlaceOut[] = [];
-  const usedRestaurants = new Set<string>();
-  const usedRestaurantKeys = new Set<string>();
-  const usedHotels = new Set<string>();
-
-  const pickAttractions = (candidates: PlaceOut[], need: number, dayPicked: Set<string>, dayItems: PlaceOut[]) => {
-    const out: PlaceOut[] = [];
-
-    for (const p of candidates) {
-      if (out.length >= need) break;
-      const id = idOf(p);
-      if (dayPicked.has(id) || usedAttractions.has(id)) continue;
-      if (!allowCrossDayRepeat && usedAttractionSpots.some(x => similarAttraction(x, p))) continue;
-      if ([...dayItems, ...out].some(x => similarAttraction(x, p))) continue;
-      out.push(p);
-      dayPicked.add(id);
-      usedAttractions.add(id);
-      usedAttractionSpots.push(p);
-    }
-
-    for (const p of candidates) {
-      if (out.length >= need) break;
-      const id = idOf(p);
-      if (dayPicked.has(id)) continue;
-      if (!allowCrossDayRepeat && usedAttractions.has(id)) continue;
-      if (!allowCrossDayRepeat && usedAttractionSpots.some(x => similarAttraction(x, p))) continue;
-      if ([...dayItems, ...out].some(x => similarAttraction(x, p))) continue;
-      out.push(p);
-      dayPicked.add(id);
-      usedAttractionSpots.push(p);
-    }
-    return out;
-  };
-
-  for (let d = 0; d < days; d++) {
-    const start = d / days;
-    const end = (d + 1) / days;
-    const bucket = attractions.filter(p => {
-      const pr = p.progress ?? 0;
-      return pr >= start - 0.08 && pr <= end + 0.08;
-    });
-    const pool = bucket.length ? bucket : attractions;
-
-    const dayPicked = new Set<string>();
-    itinerary[d].morning = pickAttractions(pool, 2, dayPicked, []);
-    if (itinerary[d].morning.length < 2) {
-      itinerary[d].morning = itinerary[d].morning.concat(
-        pickAttractions(attractions, 2 - itinerary[d].morning.length, dayPicked, itinerary[d].morning)
-      );
-    }
-
-    itinerary[d].afternoon = pickAttractions(pool, 2, dayPicked, itinerary[d].morning);
-    if (itinerary[d].afternoon.length < 2) {
-      const dayItems = [...itinerary[d].morning, ...itinerary[d].afternoon];
-      itinerary[d].afternoon = itinerary[d].afternoon.concat(
-        pickAttractions(attractions, 2 - itinerary[d].afternoon.length, dayPicked, dayItems)
-      );
-    }
-
-    const pts = [...itinerary[d].morning, ...itinerary[d].afternoon];
-    if (pts.length) {
-      const cx = pts.reduce((s, p) => s + p.lat, 0) / pts.length;
-      const cy = pts.reduce((s, p) => s + p.lng, 0) / pts.length;
-      let bestR: PlaceOut | undefined;
-      let bestScore = -1;
-
-      for (const r of restaurants) {
-        const id = idOf(r);
-        const key = restaurantKey(r);
-        if (usedRestaurants.has(id)) continue;
-        if (usedRestaurantKeys.has(key)) continue;
-        const distKm = haversineKm({ lat: cx, lng: cy }, { lat: r.lat, lng: r.lng });
-        if (distKm > 6) continue;
-        const sc = (r.rating || 0) / (1 + distKm / 6);
-        if (sc > bestScore) {
-          bestScore = sc;
-          bestR = r;
-        }
-      }
-      if (!bestR) {
-        for (const r of restaurants) {
-          const id = idOf(r);
-          const key = restaurantKey(r);
-          if (usedRestaurants.has(id)) continue;
-          if (usedRestaurantKeys.has(key)) continue;
-          const sc = (r.rating || 0) / (1 + haversineKm({ lat: cx, lng: cy }, { lat: r.lat, lng: r.lng }) / 6);
-          if (sc > bestScore) {
-            bestScore = sc;
-            bestR = r;
-          }
-        }
-      }
-      if (bestR) {
-        itinerary[d].lunch = bestR;
-        usedRestaurants.add(idOf(bestR));
-        usedRestaurantKeys.add(restaurantKey(bestR));
-      }
-    }
-
-    const anchor = itinerary[d].afternoon[itinerary[d].afternoon.length - 1] || itinerary[d].morning[itinerary[d].morning.length - 1];
-    if (anchor) {
-      let bestH: PlaceOut | undefined;
-      let bestScore = -1;
-      for (const h of hotels) {
-        const id = idOf(h);
-        if (usedHotels.has(id)) continue;
-        const sc = (h.rating || 0) / (1 + haversineKm({ lat: anchor.lat, lng: anchor.lng }, { lat: h.lat, lng: h.lng }) / 6);
-        if (sc > bestScore) {
-          bestScore = sc;
-          bestH = h;
-        }
-      }
-      if (!bestH) {
-        for (const h of hotels) {
-          const id = idOf(h);
-          if (usedHotels.has(id)) continue;
-          const sc = (h.rating || 0) / (1 + haversineKm({ lat: anchor.lat, lng: anchor.lng }, { lat: h.lat, lng: h.lng }) / 6);
-          if (sc > bestScore) {
-            bestScore = sc;
-            bestH = h;
-          }
-        }
-      }
-      if (!bestH) {
-        for (const h of hotels) {
-          const sc = (h.rating || 0) / (1 + haversineKm({ lat: anchor.lat, lng: anchor.lng }, { lat: h.lat, lng: h.lng }) / 6);
-          if (sc > bestScore) {
-            bestScore = sc;
-            bestH = h;
+      // If raw text directions collapses two different city names into the same city,
+      // re-run with geocoded coordinates to avoid ambiguous place-name routing.
+      if (!sameToken && !(resolvedOrigin && resolvedDestination)) {
+        const rawCrow = haversineKm(
+          { lat: r.start.lat, lng: r.start.lng },
+          { lat: r.end.lat, lng: r.end.lng },
+        );
+        if (rawCrow < INTERCITY_SUPPLEMENT_KM) {
+          try {
+            const oGeo = await geocode(origin);
+            const dGeo = await geocode(destination);
+            const geoCrow = haversineKm(
+              { lat: oGeo.lat, lng: oGeo.lng },
+              { lat: dGeo.lat, lng: dGeo.lng },
+            );
+            if (geoCrow >= INTERCITY_SUPPLEMENT_KM) {
+              resolvedOrigin = oGeo;
+              resolvedDestination = dGeo;
+              r = await routeWithMode(provider.router, {
+                origin: { lat: oGeo.lat, lng: oGeo.lng },
+                destination: { lat: dGeo.lat, lng: dGeo.lng },
+                mode,
+                lang: lang,
+                region: '',
+              });
+              r.start.address = oGeo.formatted_address || r.start.address;
+              r.end.address = dGeo.formatted_address || r.end.address;
+            }
+          } catch {
+            // Keep the original route if coordinate re-route fails.
           }
         }
       }
-      if (bestH) {
-        itinerary[d].lodging = bestH;
-        usedHotels.add(idOf(bestH));
-      }
-    }
-  }
-  const usedAttractionGroupFinal = new Set<string>();
-  const usedLunchKeysFinal = new Set<string>();
-  const isBadAttractionName = (name?: string) => ATTRACTION_NAME_BLOCKLIST.test(String(name || '')) || ZOO_NAME_BLOCKLIST.test(String(name || ''));
-  const dedupAttractionList = (seed: PlaceOut[], fallback: PlaceOut[], deny: PlaceOut[] = [], need = 2) => {
-    const out: PlaceOut[] = [];
-    const denyAll = [...deny];
-    const tryPush = (p: PlaceOut) => {
-      if (out.length >= need) return;
-      if (isBadAttractionName(p.name)) return;
-      const gk = attractionGroupKey(p);
-      if (usedAttractionGroupFinal.has(gk)) return;
-      if (out.some(x => similarAttraction(x, p))) return;
-      if (denyAll.some(x => similarAttraction(x, p))) return;
-      out.push(p);
-      usedAttractionGroupFinal.add(gk);
-    };
-    for (const p of seed) tryPush(p);
-    for (const p of fallback) tryPush(p);
-    return out;
-  };
-
-  const legKm = (a?: PlaceOut, b?: PlaceOut) =>
-    a && b ? haversineKm({ lat: a.lat, lng: a.lng }, { lat: b.lat, lng: b.lng }) : 0;
-
-  const pickNearbyAttraction = (anchor: PlaceOut, deny: PlaceOut[] = []) => {
-    let best: PlaceOut | undefined;
-    let bestScore = -1;
-    for (const p of attractions) {
-      if (isBadAttractionName(p.name)) continue;
-      if (usedAttractionGroupFinal.has(attractionGroupKey(p))) continue;
-      if (deny.some(x => similarAttraction(x, p))) continue;
-      const dist = legKm(anchor, p);
-      if (dist <= 0 || dist > MAX_ITINERARY_LEG_KM) continue;
-      const score = (p.rating || 0) / (1 + dist / 2.2);
-      if (score > bestScore) {
-        bestScore = score;
-        best = p;
-      }
-    }
-    if (best) usedAttractionGroupFinal.add(attractionGroupKey(best));
-    return best;
-  };
-
-  const pickNearbyRestaurant = (anchor: PlaceOut) => {
-    let best: PlaceOut | undefined;
-    let bestScore = -1;
-    for (const r of restaurants) {
-      const k = restaurantKey(r);
-      if (usedLunchKeysFinal.has(k)) continue;
-      const dist = legKm(anchor, r);
-      if (dist <= 0 || dist > MAX_ITINERARY_LEG_KM) continue;
-      const score = (r.rating || 0) / (1 + dist / 2.2);
-      if (score > bestScore) {
-        bestScore = score;
-        best = r;
-      }
-    }
-    return best;
-  };
-
-  const pickNearbyHotel = (anchor: PlaceOut) => {
-    let best: PlaceOut | undefined;
-    let bestScore = -1;
-    for (const h of hotels) {
-      const dist = legKm(anchor, h);
-      if (dist <= 0 || dist > MAX_ITINERARY_LEG_KM) continue;
-      const score = (h.rating || 0) / (1 + dist / 2.2);
-      if (score > bestScore) {
-        bestScore = score;
-        best = h;
+    } catch (e: any) {
+      const code = e?.code || e?.message;
+      if (code === 'ZERO_RESULTS' || code === 'NOT_FOUND' || code === 'REQUEST_DENIED' || code === 'INVALID_REQUEST' || code === 'OVER_DAILY_LIMIT') {
+        const o = resolvedOrigin || await geocode(origin);
+        const d = resolvedDestination || await geocode(destination);
+        r = buildLongHaulRoute(o, d, origin, destination, mode);
+        longHaulFallback = true;
+      } else {
+        throw e;
       }
     }
-    return best;
+  } else {
+    // Router 只吃座標（OSRM）：先 geocode；Nominatim 有頻率限制，依序查詢
+    resolvedOrigin = await geocode(origin);
+    resolvedDestination = await geocode(destination);
+    emitGeocoded([resolvedOrigin, resolvedDestination]);
+    const o = { lat: resolvedOrigin.lat, lng: resolvedOrigin.lng };
+    const d = { lat: resolvedDestination.lat, lng: resolvedDestination.lng };
+    try {
+      r = await routeWithMode(provider.router, { origin: o, destination: d, mode, lang: lang, region: routingRegion });
+    } catch (e) {
+      // 無法跨海/跨洲時，比照文字路線改以目的地周邊規劃
+      if (haversineKm(o, d) < LONG_HAUL_KM) throw e;
+      r = buildLongHaulRoute(resolvedOrigin, resolvedDestination, origin, destination, mode);
+      longHaulFallback = true;
+    }
+  }
+
+  const startLL = resolvedOrigin
+    ? { lat: resolvedOrigin.lat, lng: resolvedOrigin.lng }
+    : { lat: r.start.lat, lng: r.start.lng };
+  const endLL = resolvedDestination
+    ? { lat: resolvedDestination.lat, lng: resolvedDestination.lng }
+    : { lat: r.end.lat, lng: r.end.lng };
+
+  const start = { lat: startLL.lat, lng: startLL.lng, address: resolvedOrigin?.formatted_address || r.start.address };
+  const end = { lat: endLL.lat, lng: endLL.lng, address: resolvedDestination?.formatted_address || r.end.address };
+  emitGeocoded([
+    { ...startLL, formatted_address: start.address },
+    { ...endLL, formatted_address: end.address },
+  ]);
+  // 區域設定檔依目的地國家挑選；文字路線沒有先 geocode 目的地時補查一次（有回應快取）
+  const destinationGeo = resolvedDestination?.countryCode
+    ? resolvedDestination
+    : await geocode(destination).catch(() => resolvedDestination);
+  const region = regionProfileForCountry(destinationGeo?.countryCode);
+  const placesLang = langExplicit ? lang : region.defaultLang;
+  const route = {
+    provider: provider.name,
+    polyline: toPolylineArray(r.polyPts),
+    start,
+    end,
+    distanceText: r.distanceText,
+    durationText: r.durationText,
+    waypoints: resolvedStops.map(g => ({ lat: g.lat, lng: g.lng, address: g.formatted_address })),
+    waypointOrder: waypoints.length ? r.waypointOrder : undefined,
+    legs: r.legs,
+    routeMode: longHaulFallback ? 'long_haul_fallback' : r.mode,
+    region: region.id,
   };
-
-  for (let d = 0; d < days; d++) {
-    const day = itinerary[d];
-    day.morning = dedupAttractionList(day.morning, attractions, [], 2);
-    day.afternoon = dedupAttractionList(day.afternoon, attractions, day.morning, 2);
-
-    if (d > 0 && itinerary[d - 1].lodging && day.morning[0] && legKm(itinerary[d - 1].lodging, day.morning[0]) > MAX_ITINERARY_LEG_KM) {
-      const repl = pickNearbyAttraction(itinerary[d - 1].lodging, [...day.morning.slice(1), ...day.afternoon]);
-      if (repl) day.morning[0] = repl;
-    }
-
-    if (day.morning[0] && day.morning[1] && legKm(day.morning[0], day.morning[1]) > MAX_ITINERARY_LEG_KM) {
-      const repl = pickNearbyAttraction(day.morning[0], [day.morning[0], ...day.afternoon]);
-      if (repl) day.morning[1] = repl;
-    }
-
-    const lunchAnchor = day.morning[day.morning.length - 1] || day.afternoon[0];
-    if (day.lunch) {
-      const k = restaurantKey(day.lunch);
-      const badFood = FOOD_NAME_BLOCKLIST.test(day.lunch.name || '') || HOTEL_BRAND_IN_FOOD_BLOCKLIST.test(day.lunch.name || '');
-      if (badFood || usedLunchKeysFinal.has(k) || (lunchAnchor && legKm(lunchAnchor, day.lunch) > MAX_ITINERARY_LEG_KM)) {
-        day.lunch = undefined;
-      }
-    }
-    if (!day.lunch && lunchAnchor) {
-      const repl = pickNearbyRestaurant(lunchAnchor);
-      if (repl) day.lunch = repl;
-    }
-    if (day.lunch) usedLunchKeysFinal.add(restaurantKey(day.lunch));
-
-    const aftAnchor = day.lunch || day.morning[day.morning.length - 1];
-    if (aftAnchor && day.afternoon[0] && legKm(aftAnchor, day.afternoon[0]) > MAX_ITINERARY_LEG_KM) {
-      const repl = pickNearbyAttraction(aftAnchor, [...day.morning, day.afternoon[1]].filter(Boolean) as PlaceOut[]);
-      if (repl) day.afternoon[0] = repl;
-    }
-    if (day.afternoon[0] && day.afternoon[1] && legKm(day.afternoon[0], day.afternoon[1]) > MAX_ITINERARY_LEG_KM) {
-      const repl = pickNearbyAttraction(day.afternoon[0], [...day.morning, day.afternoon[0]]);
-      if (repl) day.afternoon[1] = repl;
-    }
-
-    const stayAnchor = day.afternoon[day.afternoon.length - 1] || day.morning[day.morning.length - 1];
-    if (stayAnchor && day.lodging && legKm(stayAnchor, day.lodging) > MAX_ITINERARY_LEG_KM) {
-      const repl = pickNearbyHotel(stayAnchor);
-      if (repl) day.lodging = repl;
-    }
-  }
-  return itinerary;
-}
-
-async function enrichChosenPOIsWithCity(itinerary: DaySlot[], all: PlaceOut[], lang = DEFAULT_LANG) {
-
-  const chosenIds = new Set<string>();
-  itinerary.forEach(day => {
-    [...day.morning, day.lunch, ...day.afternoon, day.lodging].forEach((p: any) => {
-      if (p?.place_id) chosenIds.add(p.place_id);
-    });
+  emit({ type: 'stage', stage: 'route', ...route });
+
+  const { pois, itinerary } = await planItineraryAlongRoute({
+    polyPts: r.polyPts,
+    start: startLL,
+    end: endLL,
+    stops: resolvedStops.map(g => ({ lat: g.lat, lng: g.lng })),
+    longHaulFallback,
+    days: tripDays,
+    mode,
+    lang: placesLang,
+    source: provider.places,
+    preferences,
+    region,
+    meals,
+    noticeLang: lang,
+    onHarvestProgress: (done, total) => emit({ type: 'stage', stage: 'harvest', done, total }),
   });
-
-  const idToPoi = new Map<string, PlaceOut>();
-  for (const p of all) if (p.place_id) idToPoi.set(p.place_id, p);
-
-  const geoCache = new Map<string, Promise<{ city?: string; district?: string; formatted: string }>>();
-  const reverseCached = (lat: number, lng: number) => {
-    const key = `${lat.toFixed(5)},${lng.toFixed(5)}`;
-    const hit = geoCache.get(key);
-    if (hit) return hit;
-    const req = reverseGeocodeGoogle(lat, lng, lang);
-    geoCache.set(key, req);
-    return req;
-  };
-
-  const tasks = Array.from(chosenIds).map(id => async () => {
-    const p = idToPoi.get(id);
-    if (!p) return;
-    try {
-      const rev = await reverseCached(p.lat, p.lng);
-      p.city = rev.city;
-      p.district = rev.district;
-      p.address = formatAddressWithCity(p.address, rev.city, rev.district);
-    } catch {
-      if (p.address) p.address = p.address.trim();
-    }
+  emit({ type: 'stage', stage: 'itinerary', days: itinerary.length, pois: pois.length });
+  const swapped = startDate ? await applyWeatherToItinerary(itinerary, pois, { startDate, lang, cache }) : 0;
+  await scheduleItinerary(itinerary, pois, {
+    startDate,
+    dayStart,
+    dayEnd,
+    mode,
+    lang: placesLang,
+    source: provider.places,
+    // 每天排定就先送出，Widget 逐日補上
+    onDay: (index, day) => emit({ type: 'day', index, day: compactDaySlot(day) }),
   });
-
-  await runWithConcurrency(tasks, REVERSE_GEOCODE_CONCURRENCY);
-}
-function toPolylineArray(path: LatLng[], maxPoints = MAX_RESPONSE_POLYLINE_POINTS): [number, number][] {
-  if (!path.length) return [];
-  if (path.length <= maxPoints) return path.map(({ lat, lng }) => [lat, lng] as [number, number]);
-
-  const out: [number, number][] = [];
-  const step = (path.length - 1) / (maxPoints - 1);
-  for (let i = 0; i < maxPoints; i++) {
-    const idx = Math.min(path.length - 1, Math.round(i * step));
-    const p = path[idx];
-    out.push([p.lat, p.lng]);
+  // 警特報對照排定後的停留點（排程可能對調、替換或刪掉景點）；有警特報的天數再送一次
+  if (startDate) {
+    const alertDays = await applyAlertsToItinerary(itinerary, pois, { startDate, lang, cache });
+    emit({ type: 'stage', stage: 'weather', days: itinerary.filter(d => d.weather).length, swapped, alertDays });
+    itinerary.forEach((day, index) => day.alerts && emit({ type: 'day', index, day: compactDaySlot(day) }));
   }
-  return out;
-}
-
-function compactPlaceForResponse(p: PlaceOut): PlaceOut {
-  return {
-    name: p.name,
-    lat: Number(p.lat.toFixed(6)),
-    lng: Number(p.lng.toFixed(6)),
-    address: p.address?.slice(0, 80),
-    rating: p.rating,
-    user_ratings_total: p.user_ratings_total,
-    place_id: p.place_id,
-    _type: p._type,
-    city: p.city,
-    district: p.district,
-    progress: typeof p.progress === 'number' ? Number(p.progress.toFixed(4)) : undefined,
-  };
-}
-
-function compactDaySlot(day: DaySlot): DaySlot {
-  return {
-    morning: day.morning.map(compactPlaceForResponse),
-    lunch: day.lunch ? compactPlaceForResponse(day.lunch) : undefined,
-    afternoon: day.afternoon.map(compactPlaceForResponse),
-    lodging: day.lodging ? compactPlaceForResponse(day.lodging) : undefined,
-  };
-}
-
-function slimPoisForResponse(pois: PlaceOut[], itinerary: DaySlot[], limit = MAX_RESPONSE_POIS): PlaceOut[] {
-  const keyOf = (p: PlaceOut) => p.place_id || `${p.name}@${p.lat.toFixed(5)},${p.lng.toFixed(5)}`;
-  const picked = new Map<string, PlaceOut>();
-
-  for (const day of itinerary) {
-    for (const p of [...day.morning, day.lunch, ...day.afternoon, day.lodging]) {
-      if (!p) continue;
-      const k = keyOf(p);
-      if (!picked.has(k)) picked.set(k, p);
-    }
-  }
-
-  const out: PlaceOut[] = [];
-  for (const p of picked.values()) {
-    out.push(compactPlaceForResponse(p));
-    if (out.length >= limit) return out;
+  if (provider.reverseGeocoder) {
+    await enrichChosenPOIsWithCity(itinerary, pois, provider.reverseGeocoder, placesLang);
+    emit({ type: 'stage', stage: 'enriched' });
   }
 
-  for (const p of pois) {
-    const k = keyOf(p);
-    if (picked.has(k)) continue;
-    out.push(compactPlaceForResponse(p));
-    if (out.length >= limit) break;
-  }
-  return out;
-}
-
-function remapProgressBand(pois: PlaceOut[], minProgress: number, maxProgress: number): PlaceOut[] {
-  const lo = Math.max(0, Math.min(1, minProgress));
-  const hi = Math.max(lo, Math.min(1, maxProgress));
-  const span = hi - lo;
-  return pois.map((p, idx) => {
-    const fallback = pois.length <= 1 ? 0.5 : idx / Math.max(1, pois.length - 1);
-    const base = typeof p.progress === 'number' ? p.progress : fallback;
-    const clamped = Math.max(0, Math.min(1, base));
-    return { ...p, progress: lo + clamped * span };
-  });
-}
-
-function mergePoisPreferQuality(...groups: PlaceOut[][]): PlaceOut[] {
-  const keyOf = (p: PlaceOut) => {
-    if (p.place_id) return `pid:${p.place_id}`;
-    const nm = (p.name || '').toLowerCase().replace(/[^a-z0-9\u00c0-\u024f\u4e00-\u9fff]+/g, '');
-    return `nm:${nm}@${p.lat.toFixed(4)},${p.lng.toFixed(4)}`;
+  return {
+    ...route,
+    pois: slimPoisForResponse(pois, itinerary),
+    itinerary: itinerary.map(compactDaySlot),
   };
-  const quality = (p: PlaceOut) => (p.rating || 0) * 100 + Math.log10((p.user_ratings_total || 0) + 1) * 10;
-
-  const merged = new Map<string, PlaceOut>();
-  for (const list of groups) {
-    for (const p of list) {
-      const k = keyOf(p);
-      const cur = merged.get(k);
-      if (!cur || quality(p) > quality(cur)) merged.set(k, p);
-    }
-  }
-
-  return Array.from(merged.values()).sort((a, b) => {
-    const pa = a.progress ?? 0;
-    const pb = b.progress ?? 0;
-    return pa - pb || (b.rating ?? 0) - (a.rating ?? 0);
-  });
 }
 
-function enforceDestinationTailDays(itinerary: DaySlot[], destinationPois: PlaceOut[], tripDays: number): DaySlot[] {
-  if (tripDays < 3 || destinationPois.length < 8) return itinerary;
-  const tailDays = Math.min(2, Math.max(1, tripDays - 1));
-  const localBand = remapProgressBand(destinationPois, 0, 1);
-  const tailPlan = buildAgencyStyleItinerary(localBand, tailDays);
-
-  const out = itinerary.map(day => ({
-    morning: [...day.morning],
-    lunch: day.lunch,
-    afternoon: [...day.afternoon],
-    lodging: day.lodging,
-  }));
-
-  for (let i = 0; i < tailDays; i++) {
-    const src = tailPlan[i];
-    const dstIdx = tripDays - tailDays + i;
-    if (!src) continue;
-    const attractionCount = src.morning.length + src.afternoon.length;
-    if (attractionCount < 2) continue;
-    out[dstIdx] = {
-      morning: [...src.morning],
-      lunch: src.lunch,
-      afternoon: [...src.afternoon],
-      lodging: src.lodging,
-    };
-  }
-  return out;
-}
-
-function buildDestinationLocalPath(center: LatLng): LatLng[] {
-  const ring = [
-    { lat: center.lat + LONG_HAUL_LOCAL_LAT_SPAN, lng: center.lng },
-    { lat: center.lat + LONG_HAUL_LOCAL_LAT_SPAN * 0.7, lng: center.lng + LONG_HAUL_LOCAL_LNG_SPAN },
-    { lat: center.lat, lng: center.lng + LONG_HAUL_LOCAL_LNG_SPAN * 1.2 },
-    { lat: center.lat - LONG_HAUL_LOCAL_LAT_SPAN * 0.8, lng: center.lng + LONG_HAUL_LOCAL_LNG_SPAN * 0.7 },
-    { lat: center.lat - LONG_HAUL_LOCAL_LAT_SPAN, lng: center.lng - LONG_HAUL_LOCAL_LNG_SPAN * 0.2 },
-    { lat: center.lat - LONG_HAUL_LOCAL_LAT_SPAN * 0.4, lng: center.lng - LONG_HAUL_LOCAL_LNG_SPAN },
-  ].map(p => ({
-    lat: Math.max(-85, Math.min(85, p.lat)),
-    lng: p.lng,
-  }));
-  return [center, ...ring];
-}
-
-function formatLongHaulDurationText(distanceKm: number) {
-  const hours = distanceKm / 800 + 1.5;
-  const h = Math.max(1, Math.floor(hours));
-  const m = Math.round((hours - h) * 60);
-  return `約 ${h} 小時 ${m} 分（含轉乘與市區接駁）`;
-}
-/** ---------------- OSM/OSRM fallback ---------------- */
-async function geocodeOSM(query: string, lang = DEFAULT_LANG) {
-  const url = `https://nominatim.openstreetmap.org/search?format=jsonv2&limit=1&addressdetails=1&accept-language=${encodeURIComponent(lang)}&q=${encodeURIComponent(query)}`;
-  const r = await fetch(url, {
-    headers: {
-      'Accept': 'application/json',
-      'Accept-Language': lang,
-      'User-Agent': 'tripi-pro/1.0 (+https://tripi-pro.vercel.app)',
+/** ---------------- Streaming ---------------- */
+function streamPlan(job: PlanJob) {
+  const encoder = new TextEncoder();
+  let closed = false;
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const emit = (e: PlanEvent) => {
+        if (!closed) controller.enqueue(encoder.encode(JSON.stringify(e) + '\n'));
+      };
+      try {
+        emit({ type: 'result', plan: await buildPlan(job, emit) });
+      } catch (e: any) {
+        emit({ type: 'error', error: e?.name === 'AbortError' ? 'timeout' : 'server_error', detail: e?.message || 'Unknown error' });
+      } finally {
+        if (!closed) controller.close();
+        closed = true;
+      }
+    },
+    cancel() {
+      closed = true; // 用戶端中斷：不再寫入，規劃本身仍會跑完
     },
-    cache: 'no-store',
   });
-  const raw = await r.text();
-  let j: any;
-  try {
-    j = JSON.parse(raw);
-  } catch {
-    throw new Error(`geocode_osm_non_json:${raw.slice(0, 80)}`);
-  }
-  if (!r.ok) throw new Error(`geocode_osm_http_${r.status}`);
-  if (!Array.isArray(j) || !j[0]) throw new Error('geocode_osm_empty');
-  return {
-    lat: parseFloat(j[0].lat),
-    lng: parseFloat(j[0].lon),
-    formatted: j[0].display_name,
-    address: j[0].address || {},
-  };
-}
-
-async function routeOSRM(origin: LatLng, dest: LatLng) {
-  const url = `https://router.project-osrm.org/route/v1/driving/${origin.lng},${origin.lat};${dest.lng},${dest.lat}?overview=full&geometries=geojson`;
-  const j = await fetchJson<any>(url);
-  if (!j.routes?.[0]) throw new Error('route_failed');
-  const route = j.routes[0];
-  const coords = route.geometry.coordinates.map(([lng, lat]: [number, number]) => ({ lat, lng }));
-  return {
-    polyPts: coords as LatLng[],
-    distanceText: (route.distance / 1000).toFixed(1) + ' km',
-    durationText: Math.round(route.duration / 60) + ' 分',
-  };
+  return new NextResponse(stream, {
+    headers: { 'Content-Type': `${NDJSON_TYPE}; charset=utf-8`, 'Cache-Control': 'no-store', 'X-Accel-Buffering': 'no' },
+  });
 }
 
 /** ---------------- Handler ---------------- */
 export async function POST(req: NextRequest) {
   try {
     const body = await req.json();
-    const { origin, destination, days, lang: bodyLang, region: bodyRegion } = body || {};
+    const {
+      origin,
+      destination,
+      days,
+      waypoints: bodyWaypoints,
+      optimizeWaypoints,
+      lang: bodyLang,
+      region: bodyRegion,
+      provider: bodyProvider,
+      mode: bodyMode,
+      preferences: bodyPreferences,
+      diet,
+      cuisines,
+      startDate,
+      dayStart = DEFAULT_DAY_START,
+      dayEnd = DEFAULT_DAY_END,
+    } = body || {};
     const tripDays = Number(days);
     const locale = resolveLocale(req, bodyLang, bodyRegion);
     const routingRegion = resolveRoutingRegion(locale.region, origin || '', destination || '');
@@ -1281,172 +487,108 @@ export async function POST(req: NextRequest) {
       );
     }
 
-    const hasGoogle = !!process.env.GOOGLE_MAPS_API_KEY;
-
-    if (hasGoogle) {
-      let r: DirectionsInfo;
-      let longHaulFallback = false;
-      const sameToken = normalizeLocationToken(origin) === normalizeLocationToken(destination);
-      const knownOrigin = resolveKnownCity(origin);
-      const knownDestination = resolveKnownCity(destination);
-      let resolvedOrigin: { lat: number; lng: number; formatted_address?: string } | null = null;
-      let resolvedDestination: { lat: number; lng: number; formatted_address?: string } | null = null;
-      let destinationPoisForTail: PlaceOut[] = [];
+    if (
+      bodyWaypoints != null &&
+      (!Array.isArray(bodyWaypoints) || bodyWaypoints.some((w: any) => typeof w !== 'string' || !w.trim()))
+    ) {
+      return NextResponse.json(
+        { error: 'bad_request', detail: 'waypoints must be an array of non-empty strings' },
+        { status: 400, headers: { 'Cache-Control': 'no-store' } }
+      );
+    }
+    const waypoints: string[] = (bodyWaypoints || []).map((w: string) => w.trim());
+    if (waypoints.length > MAX_WAYPOINTS) {
+      return NextResponse.json(
+        { error: 'bad_request', detail: `at most ${MAX_WAYPOINTS} waypoints allowed` },
+        { status: 400, headers: { 'Cache-Control': 'no-store' } }
+      );
+    }
 
-      if (!sameToken && knownOrigin && knownDestination) {
-        const knownCrow = haversineKm(
-          { lat: knownOrigin.lat, lng: knownOrigin.lng },
-          { lat: knownDestination.lat, lng: knownDestination.lng },
-        );
-        if (knownCrow >= INTERCITY_SUPPLEMENT_KM) {
-          resolvedOrigin = knownOrigin;
-          resolvedDestination = knownDestination;
-        }
-      }
+    const mode = bodyMode == null ? 'driving' : parseTravelMode(bodyMode);
+    if (!mode) {
+      return NextResponse.json(
+        { error: 'bad_request', detail: 'mode must be one of driving, transit, walking, bicycling' },
+        { status: 400, headers: { 'Cache-Control': 'no-store' } }
+      );
+    }
 
-      if (!sameToken && !(resolvedOrigin && resolvedDestination)) {
-        try {
-          const [oGeo, dGeo] = await Promise.all([
-            geocodeWithFallback(origin, locale.lang, routingRegion),
-            geocodeWithFallback(destination, locale.lang, routingRegion),
-          ]);
-          const preCrow = haversineKm({ lat: oGeo.lat, lng: oGeo.lng }, { lat: dGeo.lat, lng: dGeo.lng });
-          if (preCrow >= INTERCITY_SUPPLEMENT_KM) {
-            resolvedOrigin = oGeo;
-            resolvedDestination = dGeo;
-          }
-        } catch {
-          // Keep text-based routing if pre-geocoding is unavailable.
-        }
-      }
+    const preferences = parsePreferences(bodyPreferences);
+    if (typeof preferences === 'string') {
+      return NextResponse.json(
+        { error: 'bad_request', detail: preferences },
+        { status: 400, headers: { 'Cache-Control': 'no-store' } }
+      );
+    }
 
-      try {
-        const originForDirections = resolvedOrigin ? `${resolvedOrigin.lat},${resolvedOrigin.lng}` : origin;
-        const destinationForDirections = resolvedDestination ? `${resolvedDestination.lat},${resolvedDestination.lng}` : destination;
-        const directionRegion = resolvedOrigin && resolvedDestination ? '' : routingRegion;
-        r = await directionsGoogle(originForDirections, destinationForDirections, locale.lang, directionRegion);
-        if (resolvedOrigin?.formatted_address) r.start.address = resolvedOrigin.formatted_address;
-        if (resolvedDestination?.formatted_address) r.end.address = resolvedDestination.formatted_address;
+    const meals = parseMealFilter(diet, cuisines);
+    if (typeof meals === 'string') {
+      return NextResponse.json(
+        { error: 'bad_request', detail: meals },
+        { status: 400, headers: { 'Cache-Control': 'no-store' } }
+      );
+    }
 
-        // If raw text directions collapses two different city names into the same city,
-        // re-run with geocoded coordinates to avoid ambiguous place-name routing.
-        if (!sameToken && !(resolvedOrigin && resolvedDestination)) {
-          const rawCrow = haversineKm(
-            { lat: r.start.lat, lng: r.start.lng },
-            { lat: r.end.lat, lng: r.end.lng },
-          );
-          if (rawCrow < INTERCITY_SUPPLEMENT_KM) {
-            try {
-              const oGeo = await geocodeWithFallback(origin, locale.lang, routingRegion);
-              const dGeo = await geocodeWithFallback(destination, locale.lang, routingRegion);
-              const geoCrow = haversineKm(
-                { lat: oGeo.lat, lng: oGeo.lng },
-                { lat: dGeo.lat, lng: dGeo.lng },
-              );
-              if (geoCrow >= INTERCITY_SUPPLEMENT_KM) {
-                resolvedOrigin = oGeo;
-                resolvedDestination = dGeo;
-                r = await directionsGoogle(
-                  `${oGeo.lat},${oGeo.lng}`,
-                  `${dGeo.lat},${dGeo.lng}`,
-                  locale.lang,
-                  '',
-                );
-                r.start.address = oGeo.formatted_address || r.start.address;
-                r.end.address = dGeo.formatted_address || r.end.address;
-              }
-            } catch {
-              // Keep the original route if coordinate re-route fails.
-            }
-          }
-        }
-      } catch (e: any) {
-        const code = e?.code || e?.message;
-        if (code === 'ZERO_RESULTS' || code === 'NOT_FOUND' || code === 'REQUEST_DENIED' || code === 'INVALID_REQUEST' || code === 'OVER_DAILY_LIMIT') {
-          const o = resolvedOrigin || await geocodeWithFallback(origin, locale.lang, routingRegion);
-          const d = resolvedDestination || await geocodeWithFallback(destination, locale.lang, routingRegion);
-          const startLL = { lat: o.lat, lng: o.lng };
-          const endLL = { lat: d.lat, lng: d.lng };
-          const distanceKm = haversineKm(startLL, endLL);
-          const localPath = buildDestinationLocalPath(endLL);
-          r = {
-            // Keep route visualization local to destination for cross-country planning.
-            polyPts: localPath,
-            start: { lat: startLL.lat, lng: startLL.lng, address: o.formatted_address || origin },
-            end: { lat: endLL.lat, lng: endLL.lng, address: d.formatted_address || destination },
-            distanceText: `${distanceKm.toFixed(0)} km`,
-            durationText: formatLongHaulDurationText(distanceKm),
-          };
-          longHaulFallback = true;
-        } else {
-          throw e;
-        }
-      }
+    if (startDate != null && !isIsoDate(startDate)) {
+      return NextResponse.json(
+        { error: 'bad_request', detail: 'startDate must be YYYY-MM-DD' },
+        { status: 400, headers: { 'Cache-Control': 'no-store' } }
+      );
+    }
+    const dayStartMin = parseClock(dayStart);
+    const dayEndMin = parseClock(dayEnd);
+    if (dayStartMin == null || dayEndMin == null || dayEndMin <= dayStartMin) {
+      return NextResponse.json(
+        { error: 'bad_request', detail: 'dayStart/dayEnd must be HH:MM with dayStart before dayEnd' },
+        { status: 400, headers: { 'Cache-Control': 'no-store' } }
+      );
+    }
 
-      const startLL = resolvedOrigin
-        ? { lat: resolvedOrigin.lat, lng: resolvedOrigin.lng }
-        : { lat: r.start.lat, lng: r.start.lng };
-      const endLL = resolvedDestination
-        ? { lat: resolvedDestination.lat, lng: resolvedDestination.lng }
-        : { lat: r.end.lat, lng: r.end.lng };
-      const crowKm = haversineKm(startLL, endLL);
-      const isSingle = crowKm <= NEAR_EQ_KM;
-      const isLongHaul = longHaulFallback || crowKm >= LONG_HAUL_KM;
+    // ?format=gpx|kml|geojson|ics：直接回傳匯出檔而非 JSON
+    const formatParam = req.nextUrl.searchParams.get('format');
+    const format = formatParam ? parseExportFormat(formatParam) : undefined;
+    if (formatParam && !format) {
+      return NextResponse.json(
+        { error: 'bad_request', detail: 'format must be one of gpx, kml, geojson, ics' },
+        { status: 400, headers: { 'Cache-Control': 'no-store' } }
+      );
+    }
 
-      let pois: PlaceOut[] = [];
-      if (isSingle) {
-        const fakePath = [startLL, { lat: startLL.lat - 0.5, lng: startLL.lng + 0.2 }];
-        pois = await harvestPOIsAlongPath(fakePath, locale.lang);
-      } else if (isLongHaul) {
-        // For cross-country routes, plan activities around destination city.
-        destinationPoisForTail = await harvestPOIsAlongPath(buildDestinationLocalPath(endLL), locale.lang);
-        pois = destinationPoisForTail;
-      } else {
-        const needDestinationSupplement = crowKm >= INTERCITY_SUPPLEMENT_KM && tripDays >= 3;
-        if (needDestinationSupplement) {
-          const [routePois, destPoisRaw] = await Promise.all([
-            harvestPOIsAlongPath(r.polyPts, locale.lang),
-            harvestPOIsAlongPath(buildDestinationLocalPath(endLL), locale.lang),
-          ]);
-          destinationPoisForTail = destPoisRaw;
-          const destPois = remapProgressBand(destPoisRaw, 0.62, 0.98);
-          pois = mergePoisPreferQuality(routePois, destPois);
-        } else {
-          pois = await harvestPOIsAlongPath(r.polyPts, locale.lang);
-        }
-      }
+    const cache = cacheModeFrom(req);
+    const provider = resolveMapProvider(bodyProvider, cache);
+    if (!provider) {
+      return NextResponse.json(
+        { error: 'bad_request', detail: `provider unavailable: ${bodyProvider}` },
+        { status: 400, headers: { 'Cache-Control': 'no-store' } }
+      );
+    }
 
-      let itinerary = buildAgencyStyleItinerary(pois, tripDays);
-      if (crowKm >= INTERCITY_SUPPLEMENT_KM && tripDays >= 3 && destinationPoisForTail.length) {
-        itinerary = enforceDestinationTailDays(itinerary, destinationPoisForTail, tripDays);
-      }
-      await enrichChosenPOIsWithCity(itinerary, pois, locale.lang);
+    const job: PlanJob = {
+      origin,
+      destination,
+      waypoints,
+      optimizeWaypoints: !!optimizeWaypoints,
+      days: tripDays,
+      mode,
+      preferences,
+      meals,
+      startDate,
+      dayStart,
+      dayEnd,
+      lang: locale.lang,
+      langExplicit: locale.explicit,
+      routingRegion,
+      provider,
+      cache,
+    };
+    // Accept: application/x-ndjson → 逐行回傳進度事件，匯出檔不支援串流
+    if (!format && (req.headers.get('accept') || '').includes(NDJSON_TYPE)) return streamPlan(job);
 
-      return NextResponse.json({
-        provider: 'google',
-        polyline: toPolylineArray(r.polyPts),
-        start: { lat: startLL.lat, lng: startLL.lng, address: resolvedOrigin?.formatted_address || r.start.address },
-        end: { lat: endLL.lat, lng: endLL.lng, address: resolvedDestination?.formatted_address || r.end.address },
-        distanceText: r.distanceText,
-        durationText: r.durationText,
-        pois: slimPoisForResponse(pois, itinerary),
-        itinerary: itinerary.map(compactDaySlot),
-        routeMode: longHaulFallback ? 'long_haul_fallback' : 'driving',
-      }, { headers: { 'Cache-Control': 'private, max-age=60' } });
-    } else {
-      const o = await geocodeOSM(origin, locale.lang), d = await geocodeOSM(destination, locale.lang);
-      const ro = await routeOSRM({ lat: o.lat, lng: o.lng }, { lat: d.lat, lng: d.lng });
-      return NextResponse.json({
-        provider: 'osrm',
-        polyline: toPolylineArray(ro.polyPts),
-        start: { lat: o.lat, lng: o.lng, address: o.formatted },
-        end: { lat: d.lat, lng: d.lng, address: d.formatted },
-        distanceText: ro.distanceText,
-        durationText: ro.durationText,
-        pois: [],
-        itinerary: [],
-      }, { headers: { 'Cache-Control': 'no-store' } });
+    const plan = await buildPlan(job);
+    if (format) {
+      const file = exportPlan(plan, format, `${origin} → ${destination}`);
+      return new NextResponse(file.body, { headers: exportHeaders(file) });
     }
+    return NextResponse.json(plan, { headers: { 'Cache-Control': 'private, max-age=60' } });
   } catch (e: any) {
     const status = e?.name === 'AbortError' ? 504 : 500;
     return NextResponse.json(
@@ -0,0 +1,112 @@
+// app/api/trips/[id]/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { exportHeaders, exportPlan, parseExportFormat, type ExportablePlan } from '../../../../lib/export';
+import {
+  isTripId,
+  normalizeTitle,
+  parseTripRequest,
+  resolveTripStore,
+  toPublicTrip,
+  validatePlan,
+  verifyEditToken,
+  type StoredTrip,
+  type TripStore,
+} from '../../../../lib/trips';
+
+const MAX_BODY_BYTES = 512 * 1024;
+const NO_STORE = { 'Cache-Control': 'no-store' };
+
+type Ctx = { params: { id: string } };
+
+function errorJson(error: string, detail: string, status: number) {
+  return NextResponse.json({ error, detail }, { status, headers: NO_STORE });
+}
+
+/** 取出行程與儲存區；找不到時直接回傳錯誤回應 */
+async function loadTrip(id: string): Promise<{ store: TripStore; trip: StoredTrip } | NextResponse> {
+  const store = resolveTripStore();
+  if (!store) return errorJson('store_unavailable', `trip store unavailable: ${process.env.TRIP_STORE}`, 503);
+  if (!isTripId(id)) return errorJson('not_found', 'trip not found', 404);
+  const trip = await store.get(id);
+  if (!trip) return errorJson('not_found', 'trip not found', 404);
+  return { store, trip };
+}
+
+/** 修改/刪除需帶建立時取得的 editToken：Authorization: Bearer <token> */
+function editTokenOf(req: NextRequest) {
+  const auth = req.headers.get('authorization') || '';
+  return auth.match(/^Bearer\s+(.+)$/i)?.[1]?.trim() || null;
+}
+
+/** ?format=gpx|kml|geojson|ics 時回傳匯出檔 */
+export async function GET(req: NextRequest, { params }: Ctx) {
+  try {
+    const formatParam = req.nextUrl.searchParams.get('format');
+    const format = formatParam ? parseExportFormat(formatParam) : undefined;
+    if (formatParam && !format) return errorJson('bad_request', 'format must be one of gpx, kml, geojson, ics', 400);
+
+    const loaded = await loadTrip(params.id);
+    if (loaded instanceof NextResponse) return loaded;
+    const { trip } = loaded;
+    if (format) {
+      // 儲存時已用 validatePlan 檢查；較早存的行程可能沒檢查過，匯出前再確認一次
+      const invalid = validatePlan(trip.plan);
+      if (invalid) return errorJson('unprocessable', `stored plan cannot be exported: ${invalid}`, 422);
+      const title = trip.title || `${trip.request.origin} → ${trip.request.destination}`;
+      const file = exportPlan(trip.plan as ExportablePlan, format, title);
+      return new NextResponse(file.body, { headers: exportHeaders(file) });
+    }
+    return NextResponse.json(toPublicTrip(trip), { headers: { 'Cache-Control': 'private, max-age=60' } });
+  } catch (e: any) {
+    return errorJson('server_error', e?.message || 'Unknown error', 500);
+  }
+}
+
+export async function PUT(req: NextRequest, { params }: Ctx) {
+  try {
+    const loaded = await loadTrip(params.id);
+    if (loaded instanceof NextResponse) return loaded;
+    const { store, trip } = loaded;
+    if (!verifyEditToken(trip, editTokenOf(req))) return errorJson('forbidden', 'invalid edit token', 403);
+
+    const raw = await req.text();
+    if (Buffer.byteLength(raw) > MAX_BODY_BYTES) return errorJson('bad_request', 'trip too large', 413);
+    let body: any;
+    try {
+      body = JSON.parse(raw);
+    } catch {
+      return errorJson('bad_request', 'invalid JSON', 400);
+    }
+
+    const next: StoredTrip = { ...trip, updatedAt: new Date().toISOString() };
+    if ('title' in (body || {})) next.title = normalizeTitle(body.title);
+    if (body?.request !== undefined) {
+      const request = parseTripRequest(body.request);
+      if (typeof request === 'string') return errorJson('bad_request', request, 400);
+      next.request = request;
+    }
+    if (body?.plan !== undefined) {
+      const planErr = validatePlan(body.plan);
+      if (planErr) return errorJson('bad_request', planErr, 400);
+      next.plan = body.plan;
+    }
+    await store.put(next);
+
+    return NextResponse.json(toPublicTrip(next), { headers: NO_STORE });
+  } catch (e: any) {
+    return errorJson('server_error', e?.message || 'Unknown error', 500);
+  }
+}
+
+export async function DELETE(req: NextRequest, { params }: Ctx) {
+  try {
+    const loaded = await loadTrip(params.id);
+    if (loaded instanceof NextResponse) return loaded;
+    const { store, trip } = loaded;
+    if (!verifyEditToken(trip, editTokenOf(req))) return errorJson('forbidden', 'invalid edit token', 403);
+    await store.delete(trip.id);
+    return new NextResponse(null, { status: 204, headers: NO_STORE });
+  } catch (e: any) {
+    return errorJson('server_error', e?.message || 'Unknown error', 500);
+  }
+}
@@ -0,0 +1,69 @@
+// app/api/trips/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  hashEditToken,
+  newEditToken,
+  newTripId,
+  normalizeTitle,
+  parseTripRequest,
+  resolveTripStore,
+  toPublicTrip,
+  validatePlan,
+  type StoredTrip,
+} from '../../../lib/trips';
+
+const MAX_BODY_BYTES = 512 * 1024;
+
+function badRequest(detail: string, status = 400) {
+  return NextResponse.json({ error: 'bad_request', detail }, { status, headers: { 'Cache-Control': 'no-store' } });
+}
+
+/** 建立行程；editToken 只在這裡回傳一次，之後修改/刪除都要帶 */
+export async function POST(req: NextRequest) {
+  try {
+    const store = resolveTripStore();
+    if (!store) {
+      return NextResponse.json(
+        { error: 'store_unavailable', detail: `trip store unavailable: ${process.env.TRIP_STORE}` },
+        { status: 503, headers: { 'Cache-Control': 'no-store' } }
+      );
+    }
+
+    const raw = await req.text();
+    if (Buffer.byteLength(raw) > MAX_BODY_BYTES) return badRequest('trip too large', 413);
+    let body: any;
+    try {
+      body = JSON.parse(raw);
+    } catch {
+      return badRequest('invalid JSON');
+    }
+
+    const request = parseTripRequest(body?.request);
+    if (typeof request === 'string') return badRequest(request);
+    const planErr = validatePlan(body?.plan);
+    if (planErr) return badRequest(planErr);
+
+    const now = new Date().toISOString();
+    const editToken = newEditToken();
+    const trip: StoredTrip = {
+      id: newTripId(),
+      title: normalizeTitle(body.title),
+      request,
+      plan: body.plan,
+      createdAt: now,
+      updatedAt: now,
+      editTokenHash: hashEditToken(editToken),
+    };
+    await store.put(trip);
+
+    return NextResponse.json(
+      { trip: toPublicTrip(trip), editToken, url: `/widget?trip=${trip.id}` },
+      { status: 201, headers: { 'Cache-Control': 'no-store' } }
+    );
+  } catch (e: any) {
+    return NextResponse.json(
+      { error: 'server_error', detail: e?.message || 'Unknown error' },
+      { status: 500, headers: { 'Cache-Control': 'no-store' } }
+    );
+  }
+}
@@ -0,0 +1,31 @@
+// app/api/weather/alerts/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { cacheModeFrom } from '../../../../lib/cache';
+import { getWeatherAlerts, isValidLatLon, toWeatherError, weatherLang } from '../../../../lib/weather';
+
+/** 涵蓋 lat/lon 且尚未結束的警特報（颱風、豪雨…）；來源由 WEATHER_ALERTS_PROVIDER 等環境變數決定 */
+export async function GET(req: NextRequest) {
+  try {
+    const { searchParams } = new URL(req.url);
+    const lat = searchParams.get('lat');
+    const lon = searchParams.get('lon');
+    if (!isValidLatLon(lat, lon)) {
+      return NextResponse.json({ error: { code: 'VALIDATION', message: '需要有效的 lat+lon' } }, { status: 400 });
+    }
+
+    const result = await getWeatherAlerts(
+      { lat: Number(lat), lon: Number(lon) },
+      { lang: weatherLang(searchParams.get('lang')), cache: cacheModeFrom(req) }
+    );
+    if (!result.provider) {
+      return NextResponse.json({ error: { code: 'CONFIG', message: 'no weather alert source configured' } }, { status: 503 });
+    }
+
+    return NextResponse.json(result, {
+      headers: { 'Cache-Control': 'private, max-age=120', Vary: 'Accept-Encoding' },
+    });
+  } catch (e: any) {
+    const err = toWeatherError(e);
+    return NextResponse.json({ error: { code: err.code, message: err.message } }, { status: err.status });
+  }
+}
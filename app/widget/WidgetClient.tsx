@@ -3,7 +3,27 @@
 'use client';
 
 import React, { useEffect, useMemo, useRef, useState } from 'react';
-import { readInitParams, listen, send } from '../../lib/apps-bridge';
+import { readInitParams, listen, send, type TravelMode } from '../../lib/apps-bridge';
+import {
+  CUISINE_TYPES,
+  DIETARY_RESTRICTIONS,
+  NO_MEAL_FILTER,
+  parseMealFilter,
+  type Cuisine,
+  type DietaryRestriction,
+  type MealFilter,
+  type MealMatch,
+} from '../../lib/diet';
+import { exportPlan, type ExportablePlan, type ExportFormat } from '../../lib/export';
+import { withLodgingStays, type LodgingStay } from '../../lib/lodging';
+import {
+  DEFAULT_PREFERENCES,
+  INTEREST_CATEGORIES,
+  parsePreferences,
+  type InterestCategory,
+  type TravelPace,
+  type TravelPreferences,
+} from '../../lib/preferences';
 
 /* ======================= Types ======================= */
 
@@ -15,29 +35,541 @@ type POI = {
   rating?: number;
   _type?: 'tourist_attraction' | 'restaurant' | 'lodging' | 'park' | 'museum' | 'zoo' | 'aquarium' | 'amusement_park' | 'place_of_worship' | string;
   place_id?: string;
+  price_level?: number;
+  /** 有用餐條件時，餐廳符合的把握 */
+  mealMatch?: MealMatch;
+};
+
+type ScheduleStop = {
+  slot: 'breakfast' | 'morning' | 'lunch' | 'afternoon' | 'dinner' | 'evening' | 'lodging';
+  place_id?: string;
+  name: string;
+  lat: number;
+  lng: number;
+  arrive: string;
+  depart?: string;
+  visitMin: number;
+  travelMin: number;
+  travelKm: number;
+  openStatus: 'open' | 'closed' | 'unknown';
+};
+
+type DayWeather = {
+  condition: string;
+  description: string;
+  tempMin: number;
+  tempMax: number;
+  pop: number;
+  rainMm: number;
+  windMax: number;
+  kind: 'wet' | 'hot' | 'fair';
+  outfitAdvice: string;
+  outfit?: { lang: string; level: string; layers: number; items: string[]; text: string };
+};
+
+type DayAlert = {
+  id: string;
+  event: string;
+  severity: 'extreme' | 'severe' | 'moderate' | 'minor' | 'unknown';
+  headline?: string;
+  start: string;
+  end?: string;
+  stops: string[];
+  indoorAlternatives: POI[];
 };
 
 type DaySlot = {
+  breakfast?: POI;
   morning: POI[];
   lunch?: POI;
   afternoon: POI[];
+  dinner?: POI;
+  evening?: POI;
   lodging?: POI;
+  stay?: LodgingStay;
+  date?: string;
+  schedule?: ScheduleStop[];
+  weather?: DayWeather;
+  alerts?: DayAlert[];
+  notices?: DayNotice[];
+};
+
+type DayNotice = { code: string; slot: string; message: string };
+
+type RouteEndpoint = { lat: number; lng: number; address: string };
+
+type RouteLeg = {
+  start: RouteEndpoint;
+  end: RouteEndpoint;
+  distanceText: string;
+  durationText: string;
 };
 
 type PlanResponse = {
   provider: 'google' | 'osrm';
   polyline: [number, number][];
-  start: { lat: number; lng: number; address: string };
-  end: { lat: number; lng: number; address: string };
+  start: RouteEndpoint;
+  end: RouteEndpoint;
   distanceText: string;
   durationText: string;
+  waypoints?: RouteEndpoint[]; // 依實際造訪順序
+  waypointOrder?: number[];
+  legs?: RouteLeg[];
   pois: POI[];          // 候選點池（保留）
   itinerary: DaySlot[]; // ✅ 實際行程
-  routeMode?: 'driving' | 'long_haul_fallback' | string;
+  routeMode?: TravelMode | 'long_haul_fallback' | string;
+  /** 目的地的區域設定檔 id，重新規劃時帶回 */
+  region?: string;
+};
+
+type PackingList = {
+  days: number;
+  nights: number;
+  forecastDays: number;
+  categories: {
+    id: string;
+    label: string;
+    items: { id: string; label: string; quantity?: number; days?: number[] }[];
+  }[];
+};
+
+const MAX_WAYPOINTS = 8;
+
+const EXPORT_OPTIONS: { k: ExportFormat; t: string }[] = [
+  { k: 'gpx', t: 'GPX（車用導航）' },
+  { k: 'kml', t: 'KML（Google 我的地圖）' },
+  { k: 'geojson', t: 'GeoJSON' },
+  { k: 'ics', t: '行事曆（.ics）' },
+];
+
+const MODE_OPTIONS: { k: TravelMode; t: string }[] = [
+  { k: 'driving', t: '開車' },
+  { k: 'transit', t: '大眾運輸' },
+  { k: 'walking', t: '步行' },
+  { k: 'bicycling', t: '單車' },
+];
+
+const INTEREST_LABELS: Record<InterestCategory, string> = {
+  history: '歷史古蹟',
+  nature: '自然景觀',
+  art: '藝術展演',
+  food: '美食',
+  theme_parks: '主題樂園',
+  religion: '宗教寺廟',
+};
+
+const DIET_LABELS: Record<DietaryRestriction, string> = {
+  vegetarian: '素食',
+  vegan: '純素',
+  halal: '清真',
+  gluten_free: '無麩質',
+};
+
+const CUISINE_LABELS: Record<Cuisine, string> = {
+  chinese: '中式',
+  japanese: '日式',
+  korean: '韓式',
+  thai: '泰式',
+  vietnamese: '越式',
+  indian: '印度',
+  italian: '義式',
+  french: '法式',
+  american: '美式',
+  seafood: '海鮮',
 };
 
+/** 每晚住宿預算，對應 price_level */
+const LODGING_BUDGETS: { k: string; t: string }[] = [
+  { k: '', t: '不限預算' },
+  { k: '1', t: '平價' },
+  { k: '2', t: '中等以下' },
+  { k: '3', t: '高價以下' },
+];
+
+/** 隔天景點離旅館多遠才換旅館；空白依交通方式 */
+const HOTEL_SWITCH_OPTIONS: { k: string; t: string }[] = [
+  { k: '', t: '換旅館距離預設' },
+  { k: '5', t: '超過 5 公里就換' },
+  { k: '15', t: '超過 15 公里就換' },
+  { k: '40', t: '超過 40 公里才換' },
+];
+
+/** 興趣程度；exclude 寫進 preferences.exclude，其餘為權重 */
+const INTEREST_LEVELS: { k: string; t: string }[] = [
+  { k: 'exclude', t: '不要' },
+  { k: '0.5', t: '少一點' },
+  { k: '1', t: '普通' },
+  { k: '1.5', t: '多一點' },
+  { k: '2', t: '最愛' },
+];
+
+const PACE_OPTIONS: { k: TravelPace; t: string }[] = [
+  { k: 'relaxed', t: '悠閒' },
+  { k: 'normal', t: '一般' },
+  { k: 'packed', t: '緊湊' },
+];
+
+const SLOT_LABELS: Record<ScheduleStop['slot'], string> = {
+  breakfast: '早餐',
+  morning: '上午',
+  lunch: '午餐',
+  afternoon: '下午',
+  dinner: '晚餐',
+  evening: '晚上',
+  lodging: '住宿',
+};
+
+const WEEKDAY_LABELS = ['日', '一', '二', '三', '四', '五', '六'];
+
+/** 連住時標示入住或續住；只住一晚不標 */
+function stayLabel(stay: LodgingStay | undefined, dayIdx: number) {
+  if (!stay || stay.nights < 2) return '';
+  if (dayIdx === stay.checkInDay) return `入住，連住 ${stay.nights} 晚`;
+  return `續住第 ${dayIdx - stay.checkInDay + 1} 晚（第 ${stay.checkOutDay + 1} 天退房）`;
+}
+
+function fmtDayDate(iso?: string) {
+  if (!iso) return '';
+  const d = new Date(`${iso}T00:00:00Z`);
+  return `${iso.slice(5).replace('-', '/')}（${WEEKDAY_LABELS[d.getUTCDay()]}）`;
+}
+
+function routeModeLabel(m?: string) {
+  if (m === 'long_haul_fallback') return '長程（估計）';
+  return MODE_OPTIONS.find((o) => o.k === m)?.t || m || '';
+}
+
+type PlanRequestBody = {
+  origin: string;
+  destination: string;
+  days: number;
+  waypoints: string[];
+  optimizeWaypoints: boolean;
+  mode: TravelMode;
+  startDate?: string;
+  dayStart: string;
+  dayEnd: string;
+  preferences?: TravelPreferences;
+  diet?: DietaryRestriction[];
+  cuisines?: Cuisine[];
+};
+
+/** /api/plan 串流（NDJSON）事件；route 事件帶路線相關欄位，result 為完整回應 */
+type PlanEvent =
+  | ({ type: 'stage'; stage: 'route' } & Omit<PlanResponse, 'pois' | 'itinerary'>)
+  | { type: 'stage'; stage: 'geocoded' | 'itinerary' | 'enriched' }
+  | { type: 'stage'; stage: 'harvest'; done: number; total: number }
+  | { type: 'day'; index: number; day: DaySlot }
+  | { type: 'result'; plan: PlanResponse }
+  | { type: 'error'; error: string; detail: string };
+
+/** 逐行讀取 NDJSON 回應 */
+async function readNdjson<T>(res: Response, onEvent: (e: T) => void) {
+  const reader = res.body!.getReader();
+  const decoder = new TextDecoder();
+  let buf = '';
+  for (;;) {
+    const { value, done } = await reader.read();
+    buf += decoder.decode(value, { stream: !done });
+    const lines = buf.split('\n');
+    buf = lines.pop() || '';
+    lines.filter((l) => l.trim()).forEach((l) => onEvent(JSON.parse(l)));
+    if (done) break;
+  }
+  if (buf.trim()) onEvent(JSON.parse(buf));
+}
+
+const STAGE_LABELS: Record<string, string> = {
+  geocoded: '已找到地點，規劃路線中…',
+  route: '路線完成，蒐集沿途景點中…',
+  itinerary: '排每日行程中…',
+  weather: '依天氣預報與警特報調整景點…',
+  enriched: '補上地址資訊…',
+};
+
+type SavedTrip = {
+  id: string;
+  title?: string;
+  request: Partial<PlanRequestBody>;
+  plan: PlanResponse;
+};
+
+/* ======================= Trip storage ======================= */
+
+// 編輯權杖只存在建立者的瀏覽器；分享出去的連結只能讀
+function tripTokenKey(id: string) {
+  return `tripi:trip-token:${id}`;
+}
+
+function readTripToken(id: string) {
+  try {
+    return window.localStorage.getItem(tripTokenKey(id));
+  } catch {
+    return null;
+  }
+}
+
+function writeTripToken(id: string, token: string | null) {
+  try {
+    if (token) window.localStorage.setItem(tripTokenKey(id), token);
+    else window.localStorage.removeItem(tripTokenKey(id));
+  } catch {}
+}
+
+// 打包清單勾選狀態存在本機；尚未儲存的行程共用 draft
+function packingKey(tripId?: string) {
+  return `tripi:packing:${tripId || 'draft'}`;
+}
+
+function readPacked(key: string): string[] {
+  try {
+    const ids = JSON.parse(window.localStorage.getItem(key) || '[]');
+    return Array.isArray(ids) ? ids.filter((id) => typeof id === 'string') : [];
+  } catch {
+    return [];
+  }
+}
+
+function writePacked(key: string, ids: string[]) {
+  try {
+    if (ids.length) window.localStorage.setItem(key, JSON.stringify(ids));
+    else window.localStorage.removeItem(key);
+  } catch {}
+}
+
+// 偏好設定存在本機，每次規劃都帶上
+const PREFERENCES_KEY = 'tripi:preferences';
+
+function readPreferences(): TravelPreferences {
+  try {
+    const prefs = parsePreferences(JSON.parse(window.localStorage.getItem(PREFERENCES_KEY) || 'null'));
+    return typeof prefs === 'string' ? DEFAULT_PREFERENCES : prefs;
+  } catch {
+    return DEFAULT_PREFERENCES;
+  }
+}
+
+function writePreferences(prefs: TravelPreferences) {
+  try {
+    window.localStorage.setItem(PREFERENCES_KEY, JSON.stringify(prefs));
+  } catch {}
+}
+
+// 用餐條件（飲食限制、想吃的料理）也存在本機
+const MEALS_KEY = 'tripi:meals';
+
+function readMeals(): MealFilter {
+  try {
+    const raw = JSON.parse(window.localStorage.getItem(MEALS_KEY) || 'null');
+    const meals = parseMealFilter(raw?.diet, raw?.cuisines);
+    return typeof meals === 'string' ? NO_MEAL_FILTER : meals;
+  } catch {
+    return NO_MEAL_FILTER;
+  }
+}
+
+function writeMeals(meals: MealFilter) {
+  try {
+    window.localStorage.setItem(MEALS_KEY, JSON.stringify(meals));
+  } catch {}
+}
+
+function toggled<T>(list: T[], v: T): T[] {
+  return list.includes(v) ? list.filter((x) => x !== v) : [...list, v];
+}
+
+/** 空的條件不送出，請求與儲存的行程維持原樣 */
+function mealRequestFields(meals: MealFilter) {
+  return {
+    diet: meals.diet.length ? meals.diet : undefined,
+    cuisines: meals.cuisines.length ? meals.cuisines : undefined,
+  };
+}
+
+function interestLevelOf(prefs: TravelPreferences, c: InterestCategory) {
+  return prefs.exclude.includes(c) ? 'exclude' : String(prefs.interests[c] ?? 1);
+}
+
+function withInterestLevel(prefs: TravelPreferences, c: InterestCategory, level: string): TravelPreferences {
+  const { [c]: _, ...interests } = prefs.interests;
+  const exclude = prefs.exclude.filter((x) => x !== c);
+  if (level === 'exclude') return { ...prefs, interests, exclude: [...exclude, c] };
+  return { ...prefs, interests: level === '1' ? interests : { ...interests, [c]: Number(level) }, exclude };
+}
+
 /* ======================= UI ======================= */
 
+const WEATHER_ICONS: Record<string, string> = {
+  Clear: '☀️',
+  Clouds: '☁️',
+  Rain: '🌧️',
+  Drizzle: '🌦️',
+  Thunderstorm: '⛈️',
+  Snow: '❄️',
+};
+
+const OUTFIT_ITEMS: Record<string, string> = {
+  umbrella: '☂️ 雨傘',
+  windbreaker: '🧥 防風外套',
+  sunscreen: '🧴 防曬',
+  sun_hat: '👒 遮陽帽',
+  water: '💧 補水',
+  gloves: '🧤 手套',
+  scarf: '🧣 圍巾',
+  beanie: '🧢 毛帽',
+};
+
+/** 每日行程標題下的天氣摘要；雨天/酷熱日已把戶外景點換成室內 */
+function DayWeatherNote({ weather }: { weather: DayWeather }) {
+  return (
+    <div className="mt-1 text-xs text-slate-600">
+      <div>
+        {WEATHER_ICONS[weather.condition] || '🌡️'} {weather.description}・{weather.tempMin}–{weather.tempMax}°C
+        {weather.pop > 0 && `・降雨 ${Math.round(weather.pop * 100)}%`}
+        {weather.kind !== 'fair' && (
+          <span className="ml-2 text-[10px] px-2 py-0.5 rounded-full border border-sky-200 bg-sky-50 text-sky-700">
+            {weather.kind === 'wet' ? '雨天：以室內景點為主' : '酷熱：以室內景點為主'}
+          </span>
+        )}
+      </div>
+      <div className="text-slate-500">{weather.outfitAdvice}</div>
+      {!!weather.outfit?.items.length && (
+        <div className="mt-1 flex flex-wrap gap-1">
+          {weather.outfit.items.map(item => (
+            <span key={item} className="text-[10px] px-2 py-0.5 rounded-full border border-slate-200 bg-slate-50">
+              {OUTFIT_ITEMS[item] || item}
+            </span>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+/* ---------- 每日天氣（/api/forecast） ---------- */
+
+type ForecastSample = { dt: number; temp: number; pop?: number; condition: string; description: string; outfitAdvice?: string };
+
+type ForecastDay = { date: string; tempMin: number; tempMax: number; pop: number; condition: string; description: string; outfitAdvice?: string };
+
+/** 某一天住宿點（沒有住宿時用停留點中心）的預報：當天彙整 + 3 小時一格 */
+type DayForecast = { lat: number; lng: number; daily: ForecastDay; hourly: (ForecastSample & { time: string })[] };
+
+/** /api/forecast 只有 5 天 */
+const FORECAST_DAYS = 5;
+
+function dayWeatherPoint(day: DaySlot): { lat: number; lng: number } | null {
+  if (day.lodging) return { lat: day.lodging.lat, lng: day.lodging.lng };
+  const stops = flattenDaySequence(day);
+  if (!stops.length) return null;
+  return {
+    lat: stops.reduce((s, p) => s + p.lat, 0) / stops.length,
+    lng: stops.reduce((s, p) => s + p.lng, 0) / stops.length,
+  };
+}
+
+function badgeText(f: DayForecast) {
+  const d = f.daily;
+  return `${WEATHER_ICONS[d.condition] || '🌡️'} ${Math.round(d.tempMax)}°/${Math.round(d.tempMin)}° ☔${Math.round(d.pop * 100)}%`;
+}
+
+function weatherBadgeIcon(text: string, highlight = false): google.maps.Icon {
+  const width = 24 + text.length * 7;
+  const svg =
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="26">` +
+    `<rect x="1" y="1" width="${width - 2}" height="24" rx="12" fill="${highlight ? '#0F172A' : '#ffffff'}" stroke="#0F172A" stroke-opacity="0.3"/>` +
+    `<text x="${width / 2}" y="17" text-anchor="middle" font-family="sans-serif" font-size="12" fill="${highlight ? '#ffffff' : '#0F172A'}">${text}</text>` +
+    `</svg>`;
+  return {
+    url: 'data:image/svg+xml;charset=UTF-8,' + encodeURIComponent(svg),
+    scaledSize: new google.maps.Size(width, 26),
+    anchor: new google.maps.Point(width / 2, 48), // 放在地點標記上方
+  };
+}
+
+/** 每日標題旁的天氣；篩選到這一天時展開 3 小時預報與穿著建議 */
+function DayForecastBadge({ forecast, expanded }: { forecast: DayForecast; expanded: boolean }) {
+  return (
+    <div className="mt-1 text-xs">
+      <span className="inline-block px-2 py-0.5 rounded-full border border-slate-200 bg-slate-50 text-slate-700" title={forecast.daily.description}>
+        {badgeText(forecast)}
+      </span>
+      {expanded && (
+        <div className="mt-1 space-y-1">
+          <div className="flex gap-1 overflow-x-auto">
+            {forecast.hourly.map((h) => (
+              <div key={h.dt} className="shrink-0 rounded-lg border border-slate-200 px-2 py-1 text-center">
+                <div className="text-slate-500">{h.time}</div>
+                <div>{WEATHER_ICONS[h.condition] || '🌡️'}</div>
+                <div>{Math.round(h.temp)}°</div>
+                {h.pop != null && <div className="text-sky-700">{Math.round(h.pop * 100)}%</div>}
+              </div>
+            ))}
+          </div>
+          {forecast.daily.outfitAdvice && <div className="text-slate-500">{forecast.daily.outfitAdvice}</div>}
+        </div>
+      )}
+    </div>
+  );
+}
+
+const ALERT_CLASSES: Record<DayAlert['severity'], string> = {
+  extreme: 'border-red-300 bg-red-50 text-red-800',
+  severe: 'border-orange-300 bg-orange-50 text-orange-800',
+  moderate: 'border-amber-200 bg-amber-50 text-amber-800',
+  minor: 'border-slate-200 bg-slate-50 text-slate-700',
+  unknown: 'border-slate-200 bg-slate-50 text-slate-700',
+};
+
+function fmtAlertTime(iso?: string) {
+  if (!iso) return '解除前';
+  const d = new Date(iso);
+  return `${d.getMonth() + 1}/${d.getDate()} ${String(d.getHours()).padStart(2, '0')}:${String(d.getMinutes()).padStart(2, '0')}`;
+}
+
+/** 當天停留點落在警特報範圍內；附近的室內景點只是建議，不會自動替換 */
+function DayAlertNote({ alerts }: { alerts: DayAlert[] }) {
+  return (
+    <div className="mt-2 space-y-1">
+      {alerts.map((a) => (
+        <div key={a.id} className={`rounded-lg border px-2 py-1 text-xs ${ALERT_CLASSES[a.severity] || ALERT_CLASSES.unknown}`}>
+          <div className="font-medium">
+            ⚠️ {a.headline || a.event}（{fmtAlertTime(a.start)}–{fmtAlertTime(a.end)}）
+          </div>
+          <div>影響：{a.stops.join('、')}</div>
+          {a.indoorAlternatives.length > 0 && <div>可改去室內：{a.indoorAlternatives.map((p) => p.name).join('、')}</div>}
+        </div>
+      ))}
+    </div>
+  );
+}
+
+/** 後端排不出符合用餐條件的餐點、或只找到超出預算的旅館時的提醒 */
+function DayNoticeNote({ notices }: { notices: DayNotice[] }) {
+  return (
+    <div className="mt-2 space-y-1">
+      {notices.map((n) => (
+        <div key={n.code + n.slot} className="rounded-lg border border-amber-200 bg-amber-50 px-2 py-1 text-xs text-amber-800">
+          {n.slot === 'lodging' ? '🏨' : '🍽️'} {n.message}
+        </div>
+      ))}
+    </div>
+  );
+}
+
+/** 只憑 keyword 查詢找到的餐廳，標示為可能符合 */
+function MealMatchBadge({ match }: { match: MealMatch }) {
+  const sure = match.basis === 'type' || match.basis === 'name';
+  return (
+    <span
+      title={`符合把握 ${Math.round(match.confidence * 100)}%`}
+      className={`text-[10px] px-2 py-0.5 rounded-full border ${sure ? 'border-emerald-200 bg-emerald-50 text-emerald-700' : 'border-slate-200 bg-slate-50 text-slate-600'}`}
+    >
+      {sure ? '符合用餐條件' : '可能符合'}
+    </span>
+  );
+}
+
 function Panel({ title, children }: { title: string; children: React.ReactNode }) {
   return (
     <div className="w-full lg:w-96 bg-white/90 backdrop-blur rounded-2xl shadow-xl border border-gray-100 p-4 lg:p-5 space-y-3">
@@ -47,6 +579,128 @@ function Panel({ title, children }: { title: string; children: React.ReactNode }
   );
 }
 
+/* ---------- 地名輸入（/api/places/autocomplete，金鑰只在伺服器） ---------- */
+
+type PlaceSuggestion = {
+  place_id: string;
+  description: string;
+  main_text: string;
+  secondary_text?: string;
+  /** Nominatim 直接給座標；Google 要帶 session 查 /api/places/details */
+  location?: google.maps.LatLngLiteral;
+};
+
+const SUGGEST_DEBOUNCE_MS = 350;
+const SUGGEST_MIN_CHARS = 2;
+
+function newSessionToken() {
+  return typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function'
+    ? crypto.randomUUID()
+    : Math.random().toString(36).slice(2) + Date.now().toString(36);
+}
+
+/**
+ * 輸入框 + 地名建議。同一次輸入共用一個 session token，選定後交給 onPick（查 details 時帶上），再換新的。
+ * bias 回傳目前地圖中心，讓附近的地點排前面。
+ */
+function PlaceInput({
+  value,
+  onChange,
+  onPick,
+  placeholder,
+  className,
+  containerClassName,
+  bias,
+}: {
+  value: string;
+  onChange: (v: string) => void;
+  onPick?: (s: PlaceSuggestion, session: string) => void;
+  placeholder?: string;
+  className?: string;
+  containerClassName?: string;
+  bias?: () => google.maps.LatLngLiteral | null;
+}) {
+  const [suggestions, setSuggestions] = useState<PlaceSuggestion[]>([]);
+  const [open, setOpen] = useState(false);
+  const sessionRef = useRef('');
+  const timerRef = useRef<ReturnType<typeof setTimeout>>();
+  const seqRef = useRef(0);
+
+  useEffect(() => () => clearTimeout(timerRef.current), []);
+
+  function handleChange(v: string) {
+    onChange(v);
+    clearTimeout(timerRef.current);
+    const input = v.trim();
+    if (input.length < SUGGEST_MIN_CHARS || parseLatLng(input)) {
+      seqRef.current++;
+      setSuggestions([]);
+      return;
+    }
+    if (!sessionRef.current) sessionRef.current = newSessionToken();
+    timerRef.current = setTimeout(async () => {
+      const seq = ++seqRef.current;
+      const params = new URLSearchParams({ input, session: sessionRef.current });
+      const center = bias?.();
+      if (center) params.set('location', center.lat + ',' + center.lng);
+      try {
+        const r = await fetch('/api/places/autocomplete?' + params.toString());
+        const data = await r.json();
+        if (seq !== seqRef.current) return; // 已有較新的輸入
+        setSuggestions(Array.isArray(data.predictions) ? data.predictions : []);
+        setOpen(true);
+      } catch {
+        // 建議只是輔助，查不到就照使用者輸入的文字
+      }
+    }, SUGGEST_DEBOUNCE_MS);
+  }
+
+  function pick(s: PlaceSuggestion) {
+    const session = sessionRef.current;
+    sessionRef.current = '';
+    seqRef.current++;
+    setSuggestions([]);
+    setOpen(false);
+    onChange(s.description);
+    onPick?.(s, session);
+  }
+
+  return (
+    <div className={`relative ${containerClassName || ''}`}>
+      <input
+        value={value}
+        onChange={(e) => handleChange(e.target.value)}
+        onFocus={() => suggestions.length > 0 && setOpen(true)}
+        onBlur={() => setOpen(false)}
+        onKeyDown={(e) => e.key === 'Escape' && setOpen(false)}
+        placeholder={placeholder}
+        className={`w-full ${className || ''}`}
+        autoComplete="off"
+      />
+      {open && suggestions.length > 0 && (
+        <ul className="absolute z-20 mt-1 w-full max-h-64 overflow-auto rounded-xl border bg-white text-sm shadow-lg">
+          {suggestions.map((s) => (
+            <li key={s.place_id}>
+              <button
+                type="button"
+                // 先於 input 的 blur 觸發，避免清單關掉後點不到
+                onMouseDown={(e) => {
+                  e.preventDefault();
+                  pick(s);
+                }}
+                className="w-full text-left px-3 py-2 hover:bg-slate-50"
+              >
+                <div>{s.main_text}</div>
+                {s.secondary_text && <div className="text-xs text-slate-500">{s.secondary_text}</div>}
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
 /* ======================= Google Maps Loader ======================= */
 
 function useGoogleMaps(apiKey?: string) {
@@ -63,7 +717,8 @@ function useGoogleMaps(apiKey?: string) {
       }
       if (!apiKey) return;
 
-      const src = `https://maps.googleapis.com/maps/api/js?key=${apiKey}&libraries=places`;
+      // 地名建議與搜尋走伺服器端 /api/places/*，不需要 places library
+      const src = `https://maps.googleapis.com/maps/api/js?key=${apiKey}`;
       if (document.querySelector(`script[src^="https://maps.googleapis.com/maps/api/js"]`)) {
         const trySet = () => {
           if ((window as any).google?.maps) setReady(true);
@@ -197,16 +852,110 @@ function typeBadgeClass(t?: string) {
   }
 }
 
-// 把 DaySlot 攤平成「依造訪順序排列」的陣列（早 → 午餐 → 下午 → 住宿）
+// 把 DaySlot 攤平成「依造訪順序排列」的陣列（早餐 → 上午 → 午餐 → 下午 → 晚餐 → 晚上 → 住宿）
 function flattenDaySequence(day: DaySlot): POI[] {
   const seq: POI[] = [];
+  if (day.breakfast) seq.push(day.breakfast);
   (day.morning || []).forEach(p => seq.push(p));
   if (day.lunch) seq.push(day.lunch);
   (day.afternoon || []).forEach(p => seq.push(p));
+  if (day.dinner) seq.push(day.dinner);
+  if (day.evening) seq.push(day.evening);
   if (day.lodging) seq.push(day.lodging);
   return seq;
 }
 
+/* ======================= Itinerary editing ======================= */
+
+type EditSlot = ScheduleStop['slot'];
+type StopRef = { day: number; slot: EditSlot; index: number };
+
+const EDIT_SLOTS: EditSlot[] = ['breakfast', 'morning', 'lunch', 'afternoon', 'dinner', 'evening', 'lodging'];
+const SINGLE_SLOTS: EditSlot[] = ['breakfast', 'lunch', 'dinner', 'evening', 'lodging'];
+const MEAL_SLOTS: EditSlot[] = ['breakfast', 'lunch', 'dinner'];
+const MAX_ALTERNATIVES = 3;
+
+// 與後端 placeKey 相同：沒有 place_id 時以名稱＋座標識別
+function stopKey(p: POI) {
+  return p.place_id || `${p.name}@${p.lat.toFixed(5)},${p.lng.toFixed(5)}`;
+}
+
+function isSingleSlot(slot: EditSlot): slot is 'breakfast' | 'lunch' | 'dinner' | 'evening' | 'lodging' {
+  return SINGLE_SLOTS.includes(slot);
+}
+
+// 三餐只放餐廳、住宿只放旅館，上午/下午/晚上放其他景點
+function slotAccepts(slot: EditSlot, p: POI) {
+  if (MEAL_SLOTS.includes(slot)) return p._type === 'restaurant';
+  if (slot === 'lodging') return p._type === 'lodging';
+  return p._type !== 'restaurant' && p._type !== 'lodging';
+}
+
+function slotItems(day: DaySlot, slot: EditSlot): POI[] {
+  if (isSingleSlot(slot)) return day[slot] ? [day[slot]!] : [];
+  return day[slot] || [];
+}
+
+// 手動改過的那天時間表已不準，清掉等重新規劃
+function withSlotItems(day: DaySlot, slot: EditSlot, items: POI[]): DaySlot {
+  const next: DaySlot = { ...day, schedule: undefined };
+  if (isSingleSlot(slot)) next[slot] = items[0];
+  else next[slot] = items;
+  return next;
+}
+
+function stopAt(plan: DaySlot[], at: StopRef): POI | undefined {
+  const day = plan[at.day];
+  return day ? slotItems(day, at.slot)[at.index] : undefined;
+}
+
+/** 拖到上午/下午會插在 to.index 之前；拖到三餐、晚上或住宿則與原本的點對調 */
+function moveStop(plan: DaySlot[], from: StopRef, to: StopRef): DaySlot[] | null {
+  const p = stopAt(plan, from);
+  if (!p || !slotAccepts(to.slot, p)) return null;
+  const sameSlot = from.day === to.day && from.slot === to.slot;
+  if (sameSlot && (isSingleSlot(to.slot) || from.index === to.index)) return null;
+
+  const next = plan.slice();
+  const source = slotItems(next[from.day], from.slot).slice();
+  if (isSingleSlot(to.slot)) {
+    const displaced = slotItems(next[to.day], to.slot)[0];
+    if (displaced) source.splice(from.index, 1, displaced);
+    else source.splice(from.index, 1);
+    next[from.day] = withSlotItems(next[from.day], from.slot, source);
+    next[to.day] = withSlotItems(next[to.day], to.slot, [p]);
+    return next;
+  }
+
+  source.splice(from.index, 1);
+  next[from.day] = withSlotItems(next[from.day], from.slot, source);
+  const target = slotItems(next[to.day], to.slot).slice();
+  const at = sameSlot && from.index < to.index ? to.index - 1 : to.index;
+  target.splice(Math.min(at, target.length), 0, p);
+  next[to.day] = withSlotItems(next[to.day], to.slot, target);
+  return next;
+}
+
+function replaceStop(plan: DaySlot[], at: StopRef, p?: POI): DaySlot[] {
+  const items = slotItems(plan[at.day], at.slot).slice();
+  if (p) items[at.index] = p;
+  else items.splice(at.index, 1);
+  const next = plan.slice();
+  next[at.day] = withSlotItems(plan[at.day], at.slot, items);
+  return next;
+}
+
+/** 從回應的候選池找同類、尚未排入的點，依距離排序 */
+function alternativesFor(plan: DaySlot[], pois: POI[], at: StopRef, excluded: string[]): POI[] {
+  const current = stopAt(plan, at);
+  if (!current) return [];
+  const used = new Set(plan.flatMap(flattenDaySequence).map(stopKey));
+  return pois
+    .filter((p) => slotAccepts(at.slot, p) && !used.has(stopKey(p)) && !excluded.includes(stopKey(p)))
+    .sort((a, b) => haversineKm(current, a) - haversineKm(current, b))
+    .slice(0, MAX_ALTERNATIVES);
+}
+
 /* ======================= Component ======================= */
 
 export default function WidgetClient() {
@@ -216,6 +965,7 @@ export default function WidgetClient() {
   const routePolylineRef = useRef<google.maps.Polyline | null>(null);
   const routeMarkersRef = useRef<google.maps.Marker[]>([]);
   const poiMarkersRef = useRef<google.maps.Marker[]>([]); // ✅ itinerary 用標記
+  const weatherMarkersRef = useRef<google.maps.Marker[]>([]);
   const nearbyMarkersRef = useRef<google.maps.Marker[]>([]);
   const userMarkerRef = useRef<google.maps.Marker | null>(null);
   const customCenterMarkerRef = useRef<google.maps.Marker | null>(null);
@@ -226,25 +976,50 @@ export default function WidgetClient() {
   const sharedInfoWindowRef = useRef<google.maps.InfoWindow | null>(null);
   const routeStartRef = useRef<{ lat: number; lng: number } | null>(null);
   const routeModeRef = useRef<string>('driving');
+  const lastPlanRef = useRef<{ request: PlanRequestBody; plan: PlanResponse } | null>(null);
+  const pendingTripRef = useRef<string | null>(null);
 
   // 自訂搜尋中心
   const [centerInput, setCenterInput] = useState('');
-  const centerInputRef = useRef<HTMLInputElement | null>(null);
   const [pickOnMap, setPickOnMap] = useState(false);
 
   // Trip inputs
   const [origin, setOrigin] = useState('台北');
   const [destination, setDestination] = useState('墾丁');
   const [days, setDays] = useState(5);
+  const [waypoints, setWaypoints] = useState<string[]>([]);
+  const [optimizeWaypoints, setOptimizeWaypoints] = useState(false);
+  const [mode, setMode] = useState<TravelMode>('driving');
+  const [startDate, setStartDate] = useState('');
+  const [dayStart, setDayStart] = useState('09:00');
+  const [dayEnd, setDayEnd] = useState('20:00');
+  const [preferences, setPreferences] = useState<TravelPreferences>(DEFAULT_PREFERENCES);
+  const [meals, setMeals] = useState<MealFilter>(NO_MEAL_FILTER);
 
   // States
   const [loading, setLoading] = useState(false);
+  const [progress, setProgress] = useState('');
+  const [savedTrip, setSavedTrip] = useState<{ id: string; editable: boolean } | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [editing, setEditing] = useState(false);
+  const [lockedKeys, setLockedKeys] = useState<string[]>([]);
+  const [excludedKeys, setExcludedKeys] = useState<string[]>([]);
+  const [altFor, setAltFor] = useState<StopRef | null>(null);
+  const [replanning, setReplanning] = useState(false);
+  const [packing, setPacking] = useState<PackingList | null>(null);
+  const [packingLoading, setPackingLoading] = useState(false);
+  const [packed, setPacked] = useState<string[]>([]);
+  const [dayForecasts, setDayForecasts] = useState<Record<number, DayForecast>>({});
+  const dragFromRef = useRef<StopRef | null>(null);
   const [error, setError] = useState<string>('');
   const [routeInfo, setRouteInfo] = useState<{
     distance: string;
     duration: string;
     start: string;
     end: string;
+    legs: RouteLeg[];
+    mode: string;
+    requestedMode: TravelMode;
   } | null>(null);
 
   // ✅ DaySlot[]
@@ -259,6 +1034,12 @@ export default function WidgetClient() {
   const [autoUpdateOnDrag, setAutoUpdateOnDrag] = useState(true);
   const [followMe, setFollowMe] = useState(false);
   const [nearbyLoading, setNearbyLoading] = useState(false);
+  const [nearbySort, setNearbySort] = useState<'score' | 'distance' | 'rating'>('score');
+  const [nearbyOpenNow, setNearbyOpenNow] = useState(false);
+  const [nearbyMinRating, setNearbyMinRating] = useState('');
+  // 「載入更多」沿用上次的查詢條件，只換 cursor
+  const [nearbyCursor, setNearbyCursor] = useState<string | null>(null);
+  const nearbyQueryRef = useRef('');
 
   // 行程標記篩選：-1=全部；其它=第 N 天(0-based index)
   const [selectedDayIdx, setSelectedDayIdx] = useState<number>(-1);
@@ -307,32 +1088,17 @@ export default function WidgetClient() {
     attachIdleListener();
   }, [gmapsReady]);
 
-  /* ---------------- Places Autocomplete ---------------- */
-  useEffect(() => {
-    if (!gmapsReady || !centerInputRef.current) return;
-    const ac = new google.maps.places.Autocomplete(centerInputRef.current, {
-      fields: ['geometry', 'name', 'formatted_address'],
-      types: ['geocode', 'establishment'],
-    });
-    const listener = ac.addListener('place_changed', () => {
-      const place = ac.getPlace();
-      const loc = place?.geometry?.location;
-      if (loc) {
-        const p = { lat: loc.lat(), lng: loc.lng() };
-        setCenterInput(place.formatted_address || place.name || (p.lat + ',' + p.lng));
-        setCustomCenter(p);
-      }
-    });
-    return () => listener.remove();
-  }, [gmapsReady]);
-
   /* ---------------- Apps bridge init/listeners ---------------- */
   useEffect(() => {
     const params = readInitParams();
     if (params.origin) setOrigin(params.origin);
     if (params.destination) setDestination(params.destination);
     if (params.days) setDays(params.days);
-    if (params.origin && params.destination) {
+    if (params.waypoints?.length) setWaypoints(params.waypoints);
+    if (params.mode) setMode(params.mode);
+    if (params.trip) {
+      pendingTripRef.current = params.trip;
+    } else if (params.origin && params.destination) {
       setTimeout(() => planTrip(), 10);
     }
 
@@ -341,6 +1107,8 @@ export default function WidgetClient() {
         if (msg.payload.origin) setOrigin(msg.payload.origin);
         if (msg.payload.destination) setDestination(msg.payload.destination);
         if (typeof msg.payload.days === 'number') setDays(msg.payload.days);
+        if (Array.isArray(msg.payload.waypoints)) setWaypoints(msg.payload.waypoints);
+        if (msg.payload.mode) setMode(msg.payload.mode);
         if (msg.type === 'init') setTimeout(() => planTrip(), 10);
       } else if (msg.type === 'ping') {
         send({ type: 'ready' });
@@ -366,6 +1134,26 @@ export default function WidgetClient() {
     setOrigin(c.origin);
     setDestination(c.destination);
     setDays(c.days);
+    setWaypoints([]);
+  }
+
+  /* ---------------- Waypoints ---------------- */
+  function updateWaypoint(idx: number, value: string) {
+    setWaypoints((ws) => ws.map((w, i) => (i === idx ? value : w)));
+  }
+
+  function moveWaypoint(idx: number, delta: number) {
+    setWaypoints((ws) => {
+      const to = idx + delta;
+      if (to < 0 || to >= ws.length) return ws;
+      const next = ws.slice();
+      [next[idx], next[to]] = [next[to], next[idx]];
+      return next;
+    });
+  }
+
+  function removeWaypoint(idx: number) {
+    setWaypoints((ws) => ws.filter((_, i) => i !== idx));
   }
 
   /* ======================= Trip planning ======================= */
@@ -376,70 +1164,479 @@ export default function WidgetClient() {
     setError('');
     setPlan([]);
     setRouteInfo(null);
+    const stops = waypoints.map((w) => w.trim()).filter(Boolean);
+    const request: PlanRequestBody = {
+      origin,
+      destination,
+      days,
+      waypoints: stops,
+      optimizeWaypoints,
+      mode,
+      startDate: startDate || undefined,
+      dayStart,
+      dayEnd,
+      preferences,
+      ...mealRequestFields(meals),
+    };
 
     try {
+      // 串流：路線一好就先畫，行程逐日補上
       const res = await fetch('/api/plan', {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ origin, destination, days }),
+        headers: { 'Content-Type': 'application/json', Accept: 'application/x-ndjson' },
+        body: JSON.stringify(request),
       });
-      if (!res.ok) throw new Error('API error');
-      const data: PlanResponse = await res.json();
-
-      const g = google.maps;
+      if (!res.ok || !res.body) throw new Error('API error');
+      let data = null as PlanResponse | null;
+      const dayList: DaySlot[] = [];
+      await readNdjson<PlanEvent>(res, (ev) => {
+        if (ev.type === 'error') throw new Error(ev.detail || ev.error);
+        if (ev.type === 'result') {
+          data = ev.plan;
+        } else if (ev.type === 'day') {
+          dayList[ev.index] = ev.day;
+          setPlan(dayList.filter(Boolean));
+        } else if (ev.stage === 'harvest') {
+          setProgress(`蒐集沿途景點 ${ev.done}/${ev.total}`);
+        } else {
+          if (ev.stage === 'route') renderRoute(ev, mode);
+          setProgress(STAGE_LABELS[ev.stage] || '');
+        }
+      });
+      if (!data) throw new Error('API error');
 
-      // 清除舊路線（保留圓、?、自訂中心與 Nearby 標記）
-      if (routePolylineRef.current) {
-        routePolylineRef.current.setMap(null);
-        routePolylineRef.current = null;
+      // 最佳化後依實際造訪順序回填輸入框
+      if (optimizeWaypoints && data.waypointOrder?.length === stops.length) {
+        setWaypoints(data.waypointOrder.map((i) => stops[i]));
       }
-      routeMarkersRef.current.forEach((m) => m.setMap(null));
-      routeMarkersRef.current = [];
-
-      // 畫路線
-      const polyPath = data.polyline.map(([lat, lng]) => ({ lat, lng }));
-      routePolylineRef.current = new g.Polyline({
-        path: polyPath,
-        strokeWeight: 5,
-        map: mapInst.current!,
-      });
+      renderItinerary(data.itinerary || []);
+      lastPlanRef.current = { request, plan: data };
 
-      // S/E
-      routeMarkersRef.current.push(
-        new g.Marker({ position: { lat: data.start.lat, lng: data.start.lng }, map: mapInst.current!, label: 'S', title: data.start.address })
-      );
+      send({ type: 'result', payload: { origin, destination, days, waypoints: stops, mode } });
+    } catch (e: any) {
+      setError('規劃失敗，請稍後再試。' + (e?.message ? '\n' + e.message : ''));
+      send({ type: 'error', message: e?.message || 'plan_failed' });
+    } finally {
+      setLoading(false);
+      setProgress('');
+    }
+  }
+
+  /** 把 /api/plan 的回應畫到地圖與面板上（還原已儲存行程用；新規劃由串流事件分段呼叫） */
+  function renderPlan(data: PlanResponse, requestedMode: TravelMode) {
+    renderRoute(data, requestedMode);
+    renderItinerary(data.itinerary || []);
+  }
+
+  function renderRoute(data: Omit<PlanResponse, 'pois' | 'itinerary'>, requestedMode: TravelMode) {
+    const g = google.maps;
+
+    // 清除舊路線（保留圓、?、自訂中心與 Nearby 標記）
+    if (routePolylineRef.current) {
+      routePolylineRef.current.setMap(null);
+      routePolylineRef.current = null;
+    }
+    routeMarkersRef.current.forEach((m) => m.setMap(null));
+    routeMarkersRef.current = [];
+
+    // 畫路線
+    const polyPath = data.polyline.map(([lat, lng]) => ({ lat, lng }));
+    routePolylineRef.current = new g.Polyline({
+      path: polyPath,
+      strokeWeight: 5,
+      map: mapInst.current!,
+    });
+
+    // S/E
+    routeMarkersRef.current.push(
+      new g.Marker({ position: { lat: data.start.lat, lng: data.start.lng }, map: mapInst.current!, label: 'S', title: data.start.address })
+    );
+    routeMarkersRef.current.push(
+      new g.Marker({ position: { lat: data.end.lat, lng: data.end.lng }, map: mapInst.current!, label: 'E', title: data.end.address })
+    );
+    (data.waypoints || []).forEach((w, i) => {
       routeMarkersRef.current.push(
-        new g.Marker({ position: { lat: data.end.lat, lng: data.end.lng }, map: mapInst.current!, label: 'E', title: data.end.address })
+        new g.Marker({ position: { lat: w.lat, lng: w.lng }, map: mapInst.current!, label: String(i + 1), title: w.address })
       );
+    });
 
-      // fit bounds 全路線一次
-      const bounds = new g.LatLngBounds();
-      polyPath.forEach((p) => bounds.extend(p));
-      mapInst.current!.fitBounds(bounds);
-
-      // 記住整體起點座標（供距離計算）
-      routeStartRef.current = { lat: data.start.lat, lng: data.start.lng };
-      routeModeRef.current = data.routeMode || 'driving';
+    // fit bounds 全路線一次
+    const bounds = new g.LatLngBounds();
+    polyPath.forEach((p) => bounds.extend(p));
+    mapInst.current!.fitBounds(bounds);
+
+    // 記住整體起點座標（供距離計算）
+    routeStartRef.current = { lat: data.start.lat, lng: data.start.lng };
+    routeModeRef.current = data.routeMode || 'driving';
+
+    setRouteInfo({
+      distance: data.distanceText,
+      duration: data.durationText,
+      start: data.start.address,
+      end: data.end.address,
+      legs: data.legs || [],
+      mode: data.routeMode || 'driving',
+      requestedMode,
+    });
+  }
 
-      // ✅ 使用後端的 itinerary
-      setPlan(data.itinerary || []);
-      // 預設顯示全部天
-      setSelectedDayIdx(-1);
+  function renderItinerary(itinerary: DaySlot[]) {
+    // ✅ 使用後端的 itinerary
+    setPlan(itinerary);
+    setPacking(null);
+    setEditing(false);
+    setLockedKeys([]);
+    setExcludedKeys([]);
+    setAltFor(null);
+    // 預設顯示全部天
+    setSelectedDayIdx(-1);
+
+    // 依目前篩選（全部）重新繪製行程標記
+    renderItineraryMarkers(itinerary, -1, /*fit*/ true);
+  }
 
-      // 依目前篩選（全部）重新繪製行程標記
-      renderItineraryMarkers(data.itinerary || [], -1, /*fit*/ true);
+  /* ======================= Saved trips ======================= */
 
-      setRouteInfo({ distance: data.distanceText, duration: data.durationText, start: data.start.address, end: data.end.address });
+  useEffect(() => {
+    if (!gmapsReady || !pendingTripRef.current) return;
+    const id = pendingTripRef.current;
+    pendingTripRef.current = null;
+    loadTrip(id);
+  }, [gmapsReady]);
 
-      send({ type: 'result', payload: { origin, destination, days } });
+  async function loadTrip(id: string) {
+    setLoading(true);
+    setError('');
+    try {
+      const res = await fetch('/api/trips/' + encodeURIComponent(id));
+      if (res.status === 404) throw new Error('找不到這個行程，可能已被刪除或過期。');
+      if (!res.ok) throw new Error('API error');
+      const trip: SavedTrip = await res.json();
+      const r = trip.request || {};
+      if (r.origin) setOrigin(r.origin);
+      if (r.destination) setDestination(r.destination);
+      if (r.days) setDays(r.days);
+      setWaypoints(r.waypoints || []);
+      setOptimizeWaypoints(!!r.optimizeWaypoints);
+      setMode(r.mode || 'driving');
+      setStartDate(r.startDate || '');
+      if (r.dayStart) setDayStart(r.dayStart);
+      if (r.dayEnd) setDayEnd(r.dayEnd);
+      if (r.preferences) setPreferences(r.preferences);
+      if (r.diet || r.cuisines) setMeals({ diet: r.diet || [], cuisines: r.cuisines || [] });
+
+      renderPlan(trip.plan, r.mode || 'driving');
+      lastPlanRef.current = {
+        request: {
+          origin: r.origin || '',
+          destination: r.destination || '',
+          days: r.days || trip.plan.itinerary?.length || 1,
+          waypoints: r.waypoints || [],
+          optimizeWaypoints: !!r.optimizeWaypoints,
+          mode: r.mode || 'driving',
+          startDate: r.startDate,
+          dayStart: r.dayStart || '09:00',
+          dayEnd: r.dayEnd || '20:00',
+          preferences: r.preferences,
+          diet: r.diet,
+          cuisines: r.cuisines,
+        },
+        plan: trip.plan,
+      };
+      setSavedTrip({ id: trip.id, editable: !!readTripToken(trip.id) });
     } catch (e: any) {
-      setError('規劃失敗，請稍後再試。' + (e?.message ? '\n' + e.message : ''));
-      send({ type: 'error', message: e?.message || 'plan_failed' });
+      setError('無法載入行程。' + (e?.message ? '\n' + e.message : ''));
     } finally {
       setLoading(false);
     }
   }
 
+  /** 已有編輯權杖就更新原行程，否則另存一份新的 */
+  async function saveTrip() {
+    const last = lastPlanRef.current;
+    if (!last) return;
+    setSaving(true);
+    setError('');
+    try {
+      const body = JSON.stringify({
+        title: `${last.request.origin} → ${last.request.destination}`,
+        request: last.request,
+        plan: last.plan,
+      });
+      const token = savedTrip ? readTripToken(savedTrip.id) : null;
+      let id: string;
+      if (savedTrip && token) {
+        const res = await fetch('/api/trips/' + encodeURIComponent(savedTrip.id), {
+          method: 'PUT',
+          headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${token}` },
+          body,
+        });
+        if (!res.ok) throw new Error('API error');
+        id = savedTrip.id;
+      } else {
+        const res = await fetch('/api/trips', { method: 'POST', headers: { 'Content-Type': 'application/json' }, body });
+        if (!res.ok) throw new Error('API error');
+        const data = await res.json();
+        id = data.trip.id;
+        writeTripToken(id, data.editToken);
+      }
+      setSavedTrip({ id, editable: true });
+      window.history.replaceState(null, '', `/widget?trip=${encodeURIComponent(id)}`);
+    } catch (e: any) {
+      setError('儲存失敗，請稍後再試。' + (e?.message ? '\n' + e.message : ''));
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function deleteTrip() {
+    if (!savedTrip) return;
+    const token = readTripToken(savedTrip.id);
+    if (!token) return;
+    try {
+      const res = await fetch('/api/trips/' + encodeURIComponent(savedTrip.id), {
+        method: 'DELETE',
+        headers: { Authorization: `Bearer ${token}` },
+      });
+      if (!res.ok && res.status !== 404) throw new Error('API error');
+      writeTripToken(savedTrip.id, null);
+      setSavedTrip(null);
+      window.history.replaceState(null, '', '/widget');
+    } catch (e: any) {
+      setError('刪除失敗，請稍後再試。' + (e?.message ? '\n' + e.message : ''));
+    }
+  }
+
+  // 匯出用目前畫面上的行程（含手動編輯），在瀏覽器端產生檔案
+  function downloadExport(format: ExportFormat) {
+    const last = lastPlanRef.current;
+    if (!last) return;
+    const file = exportPlan(last.plan as ExportablePlan, format, `${last.request.origin} → ${last.request.destination}`);
+    const url = URL.createObjectURL(new Blob([file.body], { type: file.contentType }));
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = file.filename;
+    a.click();
+    setTimeout(() => URL.revokeObjectURL(url), 0);
+  }
+
+  function shareUrlOf(id: string) {
+    return `${window.location.origin}/widget?trip=${encodeURIComponent(id)}`;
+  }
+
+  /* ======================= Manual editing ======================= */
+
+  // 編輯結果同步到 lastPlanRef，儲存行程時才會帶到
+  function applyEdit(edited: DaySlot[], pois?: POI[]) {
+    // 換過住宿後連住的區段要重算
+    const next = withLodgingStays(edited);
+    setPlan(next);
+    setAltFor(null);
+    const last = lastPlanRef.current;
+    if (last) last.plan = { ...last.plan, itinerary: next, pois: pois || last.plan.pois };
+  }
+
+  function toggleLock(p: POI) {
+    const k = stopKey(p);
+    setLockedKeys((ks) => (ks.includes(k) ? ks.filter((x) => x !== k) : [...ks, k]));
+  }
+
+  function dropOn(to: StopRef) {
+    const from = dragFromRef.current;
+    dragFromRef.current = null;
+    if (!from) return;
+    const next = moveStop(plan, from, to);
+    if (next) applyEdit(next);
+  }
+
+  // 刪掉或換掉的點記下來，重新規劃時不再選回來
+  function removeStop(at: StopRef, replacement?: POI) {
+    const p = stopAt(plan, at);
+    if (!p) return;
+    setExcludedKeys((ks) => [...ks, stopKey(p)]);
+    setLockedKeys((ks) => ks.filter((x) => x !== stopKey(p)));
+    applyEdit(replaceStop(plan, at, replacement));
+  }
+
+  /** 鎖定的點保留原位，其餘交給後端從候選池重排並重新排時間 */
+  /* ======================= Preferences ======================= */
+
+  useEffect(() => {
+    setPreferences(readPreferences());
+    setMeals(readMeals());
+  }, []);
+
+  function updatePreferences(next: TravelPreferences) {
+    setPreferences(next);
+    writePreferences(next);
+  }
+
+  function updateMeals(next: MealFilter) {
+    setMeals(next);
+    writeMeals(next);
+  }
+
+  /* ======================= Packing list ======================= */
+
+  useEffect(() => {
+    setPacked(readPacked(packingKey(savedTrip?.id)));
+  }, [savedTrip?.id]);
+
+  function togglePacked(id: string) {
+    const next = packed.includes(id) ? packed.filter((x) => x !== id) : [...packed, id];
+    setPacked(next);
+    writePacked(packingKey(savedTrip?.id), next);
+  }
+
+  async function loadPackingList() {
+    if (!plan.length) return;
+    setPackingLoading(true);
+    setError('');
+    try {
+      const res = await fetch('/api/packing-list', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ itinerary: plan, startDate: lastPlanRef.current?.request.startDate }),
+      });
+      if (!res.ok) throw new Error('API error');
+      setPacking(await res.json());
+    } catch (e: any) {
+      setError('打包清單產生失敗，請稍後再試。' + (e?.message ? '\n' + e.message : ''));
+    } finally {
+      setPackingLoading(false);
+    }
+  }
+
+  async function replanUnlocked() {
+    const last = lastPlanRef.current;
+    if (!last) return;
+    const locked: { day: number; slot: EditSlot; index?: number }[] = [];
+    plan.forEach((day, d) =>
+      EDIT_SLOTS.forEach((slot) =>
+        slotItems(day, slot).forEach((p, index) => {
+          if (lockedKeys.includes(stopKey(p))) locked.push({ day: d, slot, index: isSingleSlot(slot) ? undefined : index });
+        })
+      )
+    );
+    setReplanning(true);
+    setError('');
+    try {
+      const res = await fetch('/api/plan/replan', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          itinerary: plan,
+          pois: last.plan.pois,
+          locked,
+          exclude: excludedKeys,
+          mode: last.request.mode,
+          provider: last.plan.provider,
+          region: last.plan.region,
+          startDate: last.request.startDate,
+          dayStart: last.request.dayStart,
+          dayEnd: last.request.dayEnd,
+          preferences: last.request.preferences,
+          diet: last.request.diet,
+          cuisines: last.request.cuisines,
+        }),
+      });
+      if (!res.ok) throw new Error('API error');
+      const data: { itinerary: DaySlot[]; pois: POI[] } = await res.json();
+      applyEdit(data.itinerary, data.pois);
+    } catch (e: any) {
+      setError('重新規劃失敗，請稍後再試。' + (e?.message ? '\n' + e.message : ''));
+    } finally {
+      setReplanning(false);
+    }
+  }
+
+  function renderEditableDay(day: DaySlot, dayIdx: number) {
+    const pois = lastPlanRef.current?.plan.pois || [];
+    return (
+      <div key={dayIdx} className="border rounded-xl p-3">
+        <div className="font-semibold">
+          第 {dayIdx + 1} 天{day.date && <span className="ml-2 text-sm font-normal text-slate-500">{fmtDayDate(day.date)}</span>}
+        </div>
+        {dayForecasts[dayIdx] && <DayForecastBadge forecast={dayForecasts[dayIdx]} expanded={selectedDayIdx === dayIdx} />}
+        {day.weather && <DayWeatherNote weather={day.weather} />}
+        {!!day.alerts?.length && <DayAlertNote alerts={day.alerts} />}
+        {!!day.notices?.length && <DayNoticeNote notices={day.notices} />}
+        {EDIT_SLOTS.map((slot) => {
+          const items = slotItems(day, slot);
+          return (
+            <div
+              key={slot}
+              className="mt-2"
+              onDragOver={(e) => e.preventDefault()}
+              onDrop={() => dropOn({ day: dayIdx, slot, index: items.length })}
+            >
+              <div className="text-sm font-medium">{SLOT_LABELS[slot]}</div>
+              <ul className="mt-1 space-y-1 min-h-[32px] rounded-lg border border-dashed border-slate-300 p-1">
+                {items.length === 0 && <li className="text-xs text-slate-400 px-1 py-1">拖曳到這裡</li>}
+                {items.map((p, index) => {
+                  const at: StopRef = { day: dayIdx, slot, index };
+                  const locked = lockedKeys.includes(stopKey(p));
+                  const showAlt = altFor?.day === dayIdx && altFor.slot === slot && altFor.index === index;
+                  const alts = showAlt ? alternativesFor(plan, pois, at, excludedKeys) : [];
+                  return (
+                    <li
+                      key={stopKey(p) + index}
+                      draggable
+                      onDragStart={() => (dragFromRef.current = at)}
+                      onDragOver={(e) => e.preventDefault()}
+                      onDrop={(e) => {
+                        e.stopPropagation();
+                        dropOn(at);
+                      }}
+                      className={`rounded-lg border px-2 py-1 bg-white cursor-move ${locked ? 'border-amber-300 bg-amber-50' : ''}`}
+                    >
+                      <div className="flex items-center gap-2">
+                        <span className="text-sm font-medium flex-1 truncate">{p.name}</span>
+                        <button
+                          onClick={() => toggleLock(p)}
+                          className="text-xs rounded border px-1.5 py-0.5 hover:bg-slate-50"
+                          title={locked ? '解除鎖定' : '鎖定：重新規劃時保留'}
+                        >
+                          {locked ? '🔒' : '🔓'}
+                        </button>
+                        <button
+                          onClick={() => setAltFor(showAlt ? null : at)}
+                          className="text-xs rounded border px-1.5 py-0.5 hover:bg-slate-50"
+                        >
+                          換一個
+                        </button>
+                        <button
+                          onClick={() => removeStop(at)}
+                          className="text-xs rounded border px-1.5 py-0.5 hover:bg-red-50 text-red-600"
+                        >
+                          刪除
+                        </button>
+                      </div>
+                      {showAlt && (
+                        <div className="mt-1 flex flex-wrap gap-1">
+                          {alts.length === 0 && <span className="text-xs text-slate-400">候選池沒有其他同類地點</span>}
+                          {alts.map((alt) => (
+                            <button
+                              key={stopKey(alt)}
+                              onClick={() => removeStop(at, alt)}
+                              className="text-xs rounded-lg border px-2 py-0.5 hover:bg-slate-50"
+                            >
+                              {alt.name}（{fmtDistance(haversineKm(p, alt))}）
+                            </button>
+                          ))}
+                        </div>
+                      )}
+                    </li>
+                  );
+                })}
+              </ul>
+            </div>
+          );
+        })}
+      </div>
+    );
+  }
+
   // 收集（全部或某一天）行程點
   function collectItineraryPoints(itins: DaySlot[], dayIdx: number): POI[] {
     const used = new Set<string>();
@@ -448,14 +1645,7 @@ export default function WidgetClient() {
     const daysToUse = dayIdx >= 0 ? itins.slice(dayIdx, dayIdx + 1) : itins;
 
     daysToUse.forEach((day) => {
-      const blocks: (POI | undefined)[] = [
-        ...(day.morning || []),
-        day.lunch,
-        ...(day.afternoon || []),
-        day.lodging,
-      ];
-      blocks.forEach((p) => {
-        if (!p) return;
+      flattenDaySequence(day).forEach((p) => {
         const k = pickKey(p);
         if (used.has(k)) return;
         used.add(k);
@@ -509,6 +1699,114 @@ export default function WidgetClient() {
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [selectedDayIdx, plan]);
 
+  /* ======================= Day weather overlay ======================= */
+
+  // 有日期（填了出發日）且在 5 天預報內的日子：日期 + 住宿/中心點；點沒變就不重查
+  const weatherTargets = useMemo(() => {
+    const today = new Date().toISOString().slice(0, 10);
+    const last = new Date(Date.now() + FORECAST_DAYS * 86400000).toISOString().slice(0, 10);
+    return plan
+      .map((day, idx) => ({ idx, date: day.date, point: dayWeatherPoint(day) }))
+      .filter((t) => t.date && t.point && t.date >= today && t.date <= last) as { idx: number; date: string; point: { lat: number; lng: number } }[];
+  }, [plan]);
+  const weatherTargetsKey = weatherTargets.map((t) => `${t.idx}:${t.date}@${t.point.lat.toFixed(2)},${t.point.lng.toFixed(2)}`).join('|');
+
+  useEffect(() => {
+    let cancelled = false;
+    if (!weatherTargets.length) {
+      setDayForecasts({});
+      return;
+    }
+    (async () => {
+      // 同一帶只查一次（與伺服器快取的座標精度相同）
+      const byPoint = new Map<string, Promise<any>>();
+      const fetchPoint = (lat: number, lng: number) => {
+        const key = `${lat.toFixed(2)},${lng.toFixed(2)}`;
+        if (!byPoint.has(key)) {
+          byPoint.set(
+            key,
+            fetch(`/api/forecast?lat=${lat.toFixed(4)}&lon=${lng.toFixed(4)}&lang=zh_tw`)
+              .then((r) => (r.ok ? r.json() : null))
+              .catch(() => null)
+          );
+        }
+        return byPoint.get(key)!;
+      };
+      const out: Record<number, DayForecast> = {};
+      await Promise.all(
+        weatherTargets.map(async ({ idx, date, point }) => {
+          const report = await fetchPoint(point.lat, point.lng);
+          const daily = report?.daily?.find((d: ForecastDay) => d.date === date);
+          if (!daily) return;
+          const tz = Number(report.location?.timezoneOffset) || 0;
+          const localIso = (dt: number) => new Date((dt + tz) * 1000).toISOString();
+          const hourly = (report.hourly || [])
+            .filter((h: ForecastSample) => localIso(h.dt).slice(0, 10) === date)
+            .map((h: ForecastSample) => ({ ...h, time: localIso(h.dt).slice(11, 16) }));
+          out[idx] = { ...point, daily, hourly };
+        })
+      );
+      if (!cancelled) setDayForecasts(out);
+    })();
+    return () => {
+      cancelled = true;
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [weatherTargetsKey]);
+
+  function renderForecastHtml(dayIdx: number, f: DayForecast) {
+    const parts: string[] = ['<div style="max-width:280px">'];
+    parts.push('<div style="font-weight:600;margin-bottom:4px">第 ' + (dayIdx + 1) + ' 天・' + escapeHtml(badgeText(f)) + '</div>');
+    parts.push('<div style="display:flex;gap:6px;overflow-x:auto;font-size:12px">');
+    f.hourly.forEach((h) => {
+      parts.push(
+        '<div style="text-align:center;white-space:nowrap">' +
+          escapeHtml(h.time) +
+          '<br/>' +
+          (WEATHER_ICONS[h.condition] || '🌡️') +
+          '<br/>' +
+          Math.round(h.temp) +
+          '°' +
+          (h.pop != null ? '<br/>' + Math.round(h.pop * 100) + '%' : '') +
+          '</div>'
+      );
+    });
+    parts.push('</div>');
+    if (f.daily.outfitAdvice) parts.push('<div style="font-size:12px;color:#475569;margin-top:6px">' + escapeHtml(f.daily.outfitAdvice) + '</div>');
+    parts.push('</div>');
+    return parts.join('');
+  }
+
+  // 地圖上每天一個天氣徽章；只顯示某一天時展開該天的 3 小時預報
+  useEffect(() => {
+    if (!mapInst.current) return;
+    weatherMarkersRef.current.forEach((m) => m.setMap(null));
+    weatherMarkersRef.current = [];
+    Object.entries(dayForecasts).forEach(([k, f]) => {
+      const idx = Number(k);
+      if (selectedDayIdx >= 0 && idx !== selectedDayIdx) return;
+      const mk = new google.maps.Marker({
+        position: { lat: f.lat, lng: f.lng },
+        map: mapInst.current!,
+        icon: weatherBadgeIcon(badgeText(f), idx === selectedDayIdx),
+        title: `第 ${idx + 1} 天 ${f.daily.description}`,
+        zIndex: 1000,
+      });
+      mk.addListener('click', () => {
+        const iw = getSharedInfoWindow();
+        iw.setContent(renderForecastHtml(idx, f));
+        iw.open({ map: mapInst.current!, anchor: mk });
+      });
+      weatherMarkersRef.current.push(mk);
+      if (idx === selectedDayIdx) {
+        const iw = getSharedInfoWindow();
+        iw.setContent(renderForecastHtml(idx, f));
+        iw.open({ map: mapInst.current!, anchor: mk });
+      }
+    });
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [dayForecasts, selectedDayIdx]);
+
   /* ======================= Nearby & Circle helpers ======================= */
 
   function drawSearchCircle(center: google.maps.LatLng) {
@@ -624,12 +1922,34 @@ export default function WidgetClient() {
   ) {
     const parts: string[] = [];
     parts.push('<div style="max-width:260px">');
+    if (details?.photos?.length) {
+      // 橫向捲動的相片輪播（InfoWindow 內容是 HTML 字串，用 scroll-snap 不需 JS）
+      parts.push('<div style="display:flex;gap:4px;overflow-x:auto;scroll-snap-type:x mandatory;margin-bottom:6px">');
+      (details.photos as { url?: string; attributions?: string[] }[]).slice(0, 6).forEach((p) => {
+        if (!p.url) return;
+        const credit = (p.attributions || []).join('、');
+        parts.push(
+          '<figure style="margin:0;flex:0 0 100%;scroll-snap-align:start">' +
+            '<img src="' + escapeHtml(p.url) + '" alt="' + escapeHtml(base.name) + '" loading="lazy" ' +
+            'style="width:100%;height:140px;object-fit:cover;border-radius:6px"/>' +
+            (credit ? '<figcaption style="font-size:10px;color:#94a3b8">' + escapeHtml(credit) + '</figcaption>' : '') +
+          '</figure>'
+        );
+      });
+      parts.push('</div>');
+    }
     parts.push('<div style="font-weight:600;margin-bottom:4px">' + escapeHtml(base.name) + '</div>');
     if (base.vicinity) parts.push('<div style="font-size:12px;color:#475569">' + escapeHtml(base.vicinity) + '</div>');
     if (typeof base.rating === 'number') {
       parts.push('<div style="font-size:12px;margin-top:2px">評分：' + base.rating + '（' + (base.user_ratings_total || 0) + '）</div>');
     }
     if (details) {
+      const tags: string[] = [];
+      if (typeof details.current_opening_hours?.open_now === 'boolean') tags.push(details.current_opening_hours.open_now ? '營業中' : '休息中');
+      if (typeof details.price_level === 'number') tags.push(details.price_level === 0 ? '免費' : '$'.repeat(details.price_level));
+      if (details.wheelchair_accessible_entrance) tags.push('♿ 無障礙入口');
+      if (tags.length) parts.push('<div style="font-size:12px;margin-top:2px">' + escapeHtml(tags.join('・')) + '</div>');
+      if (details.editorial_summary) parts.push('<div style="font-size:12px;color:#475569;margin-top:6px">' + escapeHtml(details.editorial_summary) + '</div>');
       if (details.formatted_address) parts.push('<div style="font-size:12px;margin-top:6px">地址：' + escapeHtml(details.formatted_address) + '</div>');
       if (details.formatted_phone_number) parts.push('<div style="font-size:12px">電話：' + escapeHtml(details.formatted_phone_number) + '</div>');
       if (details.website) parts.push('<div style="font-size:12px"><a href="' + details.website + '" target="_blank" rel="noopener noreferrer">官方網站</a></div>');
@@ -643,6 +1963,18 @@ export default function WidgetClient() {
           '</div>'
         );
       }
+      if (details.reviews?.length) {
+        parts.push('<div style="font-size:12px;margin-top:6px">評論：</div>');
+        (details.reviews as { author_name: string; rating: number; text: string; relative_time_description?: string }[]).forEach((r) => {
+          parts.push(
+            '<div style="font-size:12px;line-height:1.35;margin-top:4px;padding-top:4px;border-top:1px solid #e5e7eb">' +
+              '★' + r.rating + ' ' + escapeHtml(r.author_name) +
+              (r.relative_time_description ? '<span style="color:#94a3b8">・' + escapeHtml(r.relative_time_description) + '</span>' : '') +
+              '<div style="max-height:48px;overflow:auto;color:#475569">' + escapeHtml(r.text) + '</div>' +
+            '</div>'
+          );
+        });
+      }
     }
     parts.push('</div>');
     return parts.join('');
@@ -684,26 +2016,30 @@ export default function WidgetClient() {
 
   /* ---------- Custom Search Center (coords/address/POI + pick on map) ---------- */
 
+  // 目前地圖中心，作為地名建議/搜尋的偏好範圍（非限制，僅排序偏好）
+  function mapBias(): google.maps.LatLngLiteral | null {
+    const c = mapInst.current?.getCenter();
+    return c ? { lat: c.lat(), lng: c.lng() } : null;
+  }
+
   async function geocodeAddress(query: string): Promise<google.maps.LatLngLiteral | null> {
     if (!query) return null;
-    const geocoder = new google.maps.Geocoder();
-
-    // 用目前地圖中心做偏好範圍（非限制，僅排序偏好）
-    let bounds: google.maps.LatLngBounds | undefined;
-    if (mapInst.current) {
-      const c = mapInst.current.getCenter()!;
-      const d = 0.3; // 約 30~40km 的方框
-      bounds = new google.maps.LatLngBounds(
-        new google.maps.LatLng(c.lat() - d, c.lng() - d),
-        new google.maps.LatLng(c.lat() + d, c.lng() + d)
-      );
-    }
+    const params = new URLSearchParams({ query });
+    const c = mapBias();
+    if (c) params.set('location', c.lat + ',' + c.lng);
+    const r = await fetch('/api/places/search?' + params.toString());
+    const data = await r.json();
+    return data.results?.[0]?.location || null;
+  }
 
-    const res = await geocoder.geocode({ address: query, bounds /*, region: 'tw'*/ });
-    const r = res.results?.[0];
-    if (!r) return null;
-    const loc = r.geometry.location;
-    return { lat: loc.lat(), lng: loc.lng() };
+  /** 選定建議後取座標：Nominatim 建議自帶座標，Google 建議帶同一個 session 查 details */
+  async function suggestionLocation(s: PlaceSuggestion, session: string): Promise<google.maps.LatLngLiteral | null> {
+    if (s.location) return s.location;
+    const params = new URLSearchParams({ place_id: s.place_id, reviews: '0' });
+    if (session) params.set('session', session);
+    const r = await fetch('/api/places/details?' + params.toString());
+    const data = await r.json();
+    return data.geometry?.location || null;
   }
 
   function setCustomCenter(pos: google.maps.LatLngLiteral) {
@@ -750,36 +2086,53 @@ export default function WidgetClient() {
 
   /* ======================= Nearby search ======================= */
 
-  async function searchNearby() {
+  async function searchNearby(more = false) {
     if (!mapInst.current) return;
+    if (more && !nearbyCursor) return;
     setNearbyLoading(true);
     try {
-      // 只有自訂中心啟用時才使用，否則用地圖中心
-      const center = isCustomCenterActive()
-        ? customCenterMarkerRef.current!.getPosition()!
-        : mapInst.current!.getCenter()!;
-      if (showCircle) drawSearchCircle(center);
-      const params = new URLSearchParams({ location: center.lat() + ',' + center.lng(), radius: String(radius) });
-      types.forEach((t) => params.append('type', t));
-      if (keyword) params.set('keyword', keyword);
+      let params: URLSearchParams;
+      if (more) {
+        params = new URLSearchParams(nearbyQueryRef.current);
+        params.set('cursor', nearbyCursor!);
+      } else {
+        // 只有自訂中心啟用時才使用，否則用地圖中心
+        const center = isCustomCenterActive()
+          ? customCenterMarkerRef.current!.getPosition()!
+          : mapInst.current!.getCenter()!;
+        if (showCircle) drawSearchCircle(center);
+        params = new URLSearchParams({ location: center.lat() + ',' + center.lng(), radius: String(radius), sort: nearbySort });
+        types.forEach((t) => params.append('type', t));
+        if (keyword) params.set('keyword', keyword);
+        if (nearbyOpenNow) params.set('open_now', 'true');
+        if (nearbyMinRating) params.set('min_rating', nearbyMinRating);
+        nearbyQueryRef.current = params.toString();
+      }
       const r = await fetch('/api/places/nearby?' + params.toString());
       const data = await r.json();
       if (data.error) throw new Error(data.error);
+      setNearbyCursor(data.next_cursor || null);
 
-      // 清除舊的「附近探索」標記（保留 S/E、行程POI、?、自訂中心與圓）
-      nearbyMarkersRef.current.forEach((m) => m.setMap(null));
-      nearbyMarkersRef.current = (data.items as any[])
+      // 新搜尋時清除舊的「附近探索」標記（保留 S/E、行程POI、?、自訂中心與圓）；載入更多則接在後面
+      if (!more) {
+        nearbyMarkersRef.current.forEach((m) => m.setMap(null));
+        nearbyMarkersRef.current = [];
+      }
+      const shown = new Set(nearbyMarkersRef.current.map((m) => m.get('placeId')));
+      const added = (data.items as any[])
         .map((it) => {
-          if (!it.location) return null;
+          if (!it.location || shown.has(it.place_id)) return null;
           const mk = new google.maps.Marker({
             position: it.location,
             map: mapInst.current!,
-            title: it.name + (it._type ? ` (${it._type})` : ''),
+            title: it.name + (it._type ? ` (${it._type})` : '') + (typeof it.distance_m === 'number' ? ` ${it.distance_m} m` : ''),
           });
+          mk.set('placeId', it.place_id);
           mk.addListener('click', () => openPlaceInfo(mk, it));
           return mk;
         })
         .filter(Boolean) as google.maps.Marker[];
+      nearbyMarkersRef.current = nearbyMarkersRef.current.concat(added);
     } catch (e) {
       // eslint-disable-next-line no-console
       console.warn(e);
@@ -791,6 +2144,7 @@ export default function WidgetClient() {
   function clearNearbyResults() {
     nearbyMarkersRef.current.forEach((m) => m.setMap(null));
     nearbyMarkersRef.current = [];
+    setNearbyCursor(null);
     try { sharedInfoWindowRef.current?.close(); } catch {}
   }
 
@@ -814,10 +2168,55 @@ export default function WidgetClient() {
               </div>
 
               <label className="text-sm font-medium">起點（Origin）</label>
-              <input value={origin} onChange={(e) => setOrigin(e.target.value)} placeholder="台北" className="border rounded-xl px-3 py-2" />
+              <PlaceInput value={origin} onChange={setOrigin} bias={mapBias} placeholder="台北" className="border rounded-xl px-3 py-2" />
+
+              <label className="text-sm font-medium">中途停靠（Stops）</label>
+              {waypoints.map((w, i) => (
+                <div key={i} className="flex items-center gap-2">
+                  <span className="text-xs text-slate-500 w-4 text-right">{i + 1}</span>
+                  <PlaceInput
+                    value={w}
+                    onChange={(v) => updateWaypoint(i, v)}
+                    bias={mapBias}
+                    placeholder="台中"
+                    className="border rounded-xl px-3 py-2"
+                    containerClassName="flex-1 min-w-0"
+                  />
+                  <button onClick={() => moveWaypoint(i, -1)} disabled={i === 0} className="text-xs rounded-lg border px-2 py-1 disabled:opacity-40" title="上移">↑</button>
+                  <button onClick={() => moveWaypoint(i, 1)} disabled={i === waypoints.length - 1} className="text-xs rounded-lg border px-2 py-1 disabled:opacity-40" title="下移">↓</button>
+                  <button onClick={() => removeWaypoint(i)} className="text-xs rounded-lg border px-2 py-1 text-red-600" title="移除">✕</button>
+                </div>
+              ))}
+              <div className="flex items-center gap-3">
+                <button
+                  onClick={() => setWaypoints((ws) => [...ws, ''])}
+                  disabled={waypoints.length >= MAX_WAYPOINTS}
+                  className="text-xs rounded-lg border px-2 py-1 hover:bg-slate-50 disabled:opacity-40"
+                >
+                  ＋ 新增停靠點
+                </button>
+                <label className="inline-flex items-center gap-2 text-sm">
+                  <input
+                    type="checkbox"
+                    checked={optimizeWaypoints}
+                    onChange={(e) => setOptimizeWaypoints(e.target.checked)}
+                  />
+                  自動最佳化順序
+                </label>
+              </div>
 
               <label className="text-sm font-medium">終點（Destination）</label>
-              <input value={destination} onChange={(e) => setDestination(e.target.value)} placeholder="墾丁" className="border rounded-xl px-3 py-2" />
+              <PlaceInput value={destination} onChange={setDestination} bias={mapBias} placeholder="墾丁" className="border rounded-xl px-3 py-2" />
+
+              <label className="text-sm font-medium">交通方式（Mode）</label>
+              <div className="flex flex-wrap gap-2">
+                {MODE_OPTIONS.map((opt) => (
+                  <label key={opt.k} className="inline-flex items-center gap-2 border rounded-full px-3 py-1 text-sm">
+                    <input type="radio" name="travel-mode" checked={mode === opt.k} onChange={() => setMode(opt.k)} />
+                    {opt.t}
+                  </label>
+                ))}
+              </div>
 
               <label className="text-sm font-medium">天數（Days）</label>
               <input
@@ -829,6 +2228,120 @@ export default function WidgetClient() {
                 className="border rounded-xl px-3 py-2 w-28"
               />
 
+              <label className="text-sm font-medium">出發日與每日時段</label>
+              <div className="flex flex-wrap items-center gap-2">
+                <input type="date" value={startDate} onChange={(e) => setStartDate(e.target.value)} className="border rounded-xl px-3 py-2" />
+                <input type="time" value={dayStart} onChange={(e) => setDayStart(e.target.value)} className="border rounded-xl px-3 py-2" />
+                <span className="text-sm">–</span>
+                <input type="time" value={dayEnd} onChange={(e) => setDayEnd(e.target.value)} className="border rounded-xl px-3 py-2" />
+              </div>
+              <div className="text-xs text-slate-500">填入出發日會依營業時間調整景點（例如週一休館的博物館）。</div>
+
+              <details className="border rounded-xl px-3 py-2">
+                <summary className="text-sm font-medium cursor-pointer">偏好設定</summary>
+                <div className="mt-2 grid gap-2">
+                  {INTEREST_CATEGORIES.map((c) => (
+                    <div key={c} className="flex items-center gap-2 text-sm">
+                      <span className="w-20">{INTEREST_LABELS[c]}</span>
+                      <select
+                        value={interestLevelOf(preferences, c)}
+                        onChange={(e) => updatePreferences(withInterestLevel(preferences, c, e.target.value))}
+                        className="border rounded-xl px-2 py-1"
+                      >
+                        {INTEREST_LEVELS.filter((l) => c !== 'food' || l.k !== 'exclude').map((l) => (
+                          <option key={l.k} value={l.k}>{l.t}</option>
+                        ))}
+                      </select>
+                    </div>
+                  ))}
+                  <div className="flex flex-wrap items-center gap-2 text-sm">
+                    <span className="w-20">節奏</span>
+                    {PACE_OPTIONS.map((opt) => (
+                      <label key={opt.k} className="inline-flex items-center gap-1">
+                        <input
+                          type="radio"
+                          name="travel-pace"
+                          checked={preferences.pace === opt.k}
+                          onChange={() => updatePreferences({ ...preferences, pace: opt.k })}
+                        />
+                        {opt.t}
+                      </label>
+                    ))}
+                  </div>
+                  <div className="flex flex-wrap items-center gap-2 text-sm">
+                    <span className="w-20">最低門檻</span>
+                    <select
+                      value={preferences.minRating ?? ''}
+                      onChange={(e) => updatePreferences({ ...preferences, minRating: e.target.value ? Number(e.target.value) : undefined })}
+                      className="border rounded-xl px-2 py-1"
+                    >
+                      <option value="">評分預設</option>
+                      <option value="3.5">3.5★ 以上</option>
+                      <option value="4">4.0★ 以上</option>
+                      <option value="4.5">4.5★ 以上</option>
+                    </select>
+                    <select
+                      value={preferences.minReviews ?? ''}
+                      onChange={(e) => updatePreferences({ ...preferences, minReviews: e.target.value ? Number(e.target.value) : undefined })}
+                      className="border rounded-xl px-2 py-1"
+                    >
+                      <option value="">評論數預設</option>
+                      <option value="20">20 則以上（含小眾景點）</option>
+                      <option value="200">200 則以上</option>
+                      <option value="1000">1000 則以上（熱門景點）</option>
+                    </select>
+                  </div>
+                  <div className="flex flex-wrap items-center gap-2 text-sm">
+                    <span className="w-20">住宿</span>
+                    <select
+                      value={preferences.lodgingBudget ?? ''}
+                      onChange={(e) => updatePreferences({ ...preferences, lodgingBudget: e.target.value ? Number(e.target.value) : undefined })}
+                      className="border rounded-xl px-2 py-1"
+                    >
+                      {LODGING_BUDGETS.map((o) => (
+                        <option key={o.k} value={o.k}>{o.t}</option>
+                      ))}
+                    </select>
+                    <select
+                      value={preferences.hotelSwitchKm ?? ''}
+                      onChange={(e) => updatePreferences({ ...preferences, hotelSwitchKm: e.target.value ? Number(e.target.value) : undefined })}
+                      className="border rounded-xl px-2 py-1"
+                    >
+                      {HOTEL_SWITCH_OPTIONS.map((o) => (
+                        <option key={o.k} value={o.k}>{o.t}</option>
+                      ))}
+                    </select>
+                  </div>
+                  <div className="flex flex-wrap items-center gap-2 text-sm">
+                    <span className="w-20">飲食限制</span>
+                    {DIETARY_RESTRICTIONS.map((d) => (
+                      <label key={d} className="inline-flex items-center gap-1">
+                        <input
+                          type="checkbox"
+                          checked={meals.diet.includes(d)}
+                          onChange={() => updateMeals({ ...meals, diet: toggled(meals.diet, d) })}
+                        />
+                        {DIET_LABELS[d]}
+                      </label>
+                    ))}
+                  </div>
+                  <div className="flex flex-wrap items-center gap-1 text-sm">
+                    <span className="w-20">想吃</span>
+                    {CUISINE_TYPES.map((c) => (
+                      <button
+                        key={c}
+                        type="button"
+                        onClick={() => updateMeals({ ...meals, cuisines: toggled(meals.cuisines, c) })}
+                        className={`rounded-full border px-2 py-0.5 text-xs ${meals.cuisines.includes(c) ? 'bg-slate-800 text-white' : 'bg-white'}`}
+                      >
+                        {CUISINE_LABELS[c]}
+                      </button>
+                    ))}
+                  </div>
+                  <div className="text-xs text-slate-500">悠閒每半天 1 個景點、緊湊 3 個；飲食限制每項都要符合，料理選一種以上符合即可。設定存在這台裝置，每次規劃都會套用。</div>
+                </div>
+              </details>
+
               {/* 顯示第 N 天標記（-1=全部） */}
               <div className="flex items-center gap-3">
                 <label className="text-sm font-medium">地圖標記顯示</label>
@@ -860,6 +2373,7 @@ export default function WidgetClient() {
                 >
                   {loading ? '規劃中…' : '規劃行程'}
                 </button>
+                {loading && progress && <span className="self-center text-xs text-slate-500">{progress}</span>}
                 <button onClick={recenterToMe} className="inline-flex items-center justify-center rounded-xl px-3 py-2 border" title="定位到目前位置">
                   定位到我
                 </button>
@@ -880,6 +2394,59 @@ export default function WidgetClient() {
                 <div>
                   總距離：{routeInfo.distance} ・ 估計時間：{routeInfo.duration}
                 </div>
+                <div>
+                  交通方式：{routeModeLabel(routeInfo.mode)}
+                  {routeInfo.mode !== routeInfo.requestedMode && routeInfo.mode !== 'long_haul_fallback' && (
+                    <span className="text-xs text-amber-600">（{routeModeLabel(routeInfo.requestedMode)}無法規劃，改以{routeModeLabel(routeInfo.mode)}規劃）</span>
+                  )}
+                </div>
+                {routeInfo.legs.length > 1 && (
+                  <ol className="mt-2 space-y-1 text-xs text-slate-600">
+                    {routeInfo.legs.map((leg, i) => (
+                      <li key={i}>
+                        第 {i + 1} 段：{leg.start.address || '—'} → {leg.end.address || '—'}（{leg.distanceText} ・ {leg.durationText}）
+                      </li>
+                    ))}
+                  </ol>
+                )}
+                <div className="mt-3 flex flex-wrap items-center gap-2">
+                  <button
+                    onClick={saveTrip}
+                    disabled={saving}
+                    className="inline-flex items-center justify-center rounded-xl px-3 py-1.5 border text-sm hover:bg-slate-50 disabled:opacity-50"
+                  >
+                    {saving ? '儲存中…' : savedTrip?.editable ? '更新已儲存行程' : '儲存並分享'}
+                  </button>
+                  {savedTrip?.editable && (
+                    <button onClick={deleteTrip} className="inline-flex items-center justify-center rounded-xl px-3 py-1.5 border text-sm text-red-600">
+                      刪除
+                    </button>
+                  )}
+                  <select
+                    value=""
+                    onChange={(e) => e.target.value && downloadExport(e.target.value as ExportFormat)}
+                    className="border rounded-xl px-2 py-1.5 text-sm"
+                    title="匯出行程"
+                  >
+                    <option value="">匯出…</option>
+                    {EXPORT_OPTIONS.map((o) => (
+                      <option key={o.k} value={o.k}>
+                        {o.t}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                {savedTrip && (
+                  <div className="mt-2 flex items-center gap-2 text-xs">
+                    <input readOnly value={shareUrlOf(savedTrip.id)} className="border rounded-lg px-2 py-1 flex-1 min-w-0 text-slate-600" onFocus={(e) => e.target.select()} />
+                    <button
+                      onClick={() => navigator.clipboard?.writeText(shareUrlOf(savedTrip.id)).catch(() => {})}
+                      className="rounded-lg border px-2 py-1 hover:bg-slate-50"
+                    >
+                      複製連結
+                    </button>
+                  </div>
+                )}
               </div>
             ) : (
               <div className="text-sm text-slate-500">請先輸入條件並按「規劃行程」。</div>
@@ -935,19 +2502,24 @@ export default function WidgetClient() {
               <div className="space-y-2">
                 <label className="text-xs text-slate-600">自訂搜尋中心（輸入座標「lat,lng」或景點/地址）</label>
                 <div className="flex gap-2">
-                  <input
-                    ref={centerInputRef}
+                  <PlaceInput
                     value={centerInput}
-                    onChange={(e) => setCenterInput(e.target.value)}
+                    onChange={setCenterInput}
+                    onPick={async (s, session) => {
+                      const ll = await suggestionLocation(s, session).catch(() => null);
+                      if (ll) setCustomCenter(ll);
+                    }}
+                    bias={mapBias}
                     placeholder="例：25.033964,121.564468 或 台北101 / 台北車站"
-                    className="border rounded-xl px-3 py-2 flex-1"
+                    className="border rounded-xl px-3 py-2"
+                    containerClassName="flex-1"
                   />
                   <button
                     type="button"
                     className="border rounded-xl px-3 py-2"
                     onClick={async () => {
                       if (!mapInst.current) return;
-                      const ll = parseLatLng(centerInput) || await geocodeAddress(centerInput);
+                      const ll = parseLatLng(centerInput) || (await geocodeAddress(centerInput).catch(() => null));
                       if (!ll) {
                         alert('無法解析位置，請輸入「lat,lng」或有效的景點/地址');
                         return;
@@ -995,13 +2567,40 @@ export default function WidgetClient() {
 
               <input value={keyword} onChange={(e) => setKeyword(e.target.value)} placeholder="ramen / coffee / museum ..." className="border rounded-xl px-3 py-2" />
 
+              <div className="flex flex-wrap items-center gap-3">
+                <select value={nearbySort} onChange={(e) => setNearbySort(e.target.value as typeof nearbySort)} className="border rounded-xl px-3 py-2">
+                  <option value="score">綜合排序</option>
+                  <option value="distance">距離近到遠</option>
+                  <option value="rating">評分高到低</option>
+                </select>
+                <select value={nearbyMinRating} onChange={(e) => setNearbyMinRating(e.target.value)} className="border rounded-xl px-3 py-2">
+                  <option value="">不限評分</option>
+                  <option value="3.5">3.5 以上</option>
+                  <option value="4">4.0 以上</option>
+                  <option value="4.5">4.5 以上</option>
+                </select>
+                <label className="inline-flex items-center gap-2">
+                  <input type="checkbox" checked={nearbyOpenNow} onChange={(e) => setNearbyOpenNow(e.target.checked)} />
+                  只看營業中
+                </label>
+              </div>
+
               <div className="flex gap-2">
                 <button
-                  onClick={searchNearby}
+                  onClick={() => searchNearby()}
                   className="inline-flex items-center justify-center rounded-xl px-4 py-2 font-semibold shadow-sm bg-slate-900 text-white hover:bg-slate-800"
                 >
                   {nearbyLoading ? '搜尋中…' : '搜尋附近'}
                 </button>
+                {nearbyCursor && (
+                  <button
+                    onClick={() => searchNearby(true)}
+                    disabled={nearbyLoading}
+                    className="inline-flex items-center justify-center rounded-xl px-4 py-2 border hover:bg-slate-50"
+                  >
+                    載入更多
+                  </button>
+                )}
                 <button
                   onClick={clearNearbyResults}
                   className="inline-flex items-center justify-center rounded-xl px-4 py-2 border hover:bg-slate-50"
@@ -1018,8 +2617,30 @@ export default function WidgetClient() {
               <div className="text-sm text-slate-500">尚無行程。</div>
             ) : (
               <div className="space-y-4">
+                <div className="flex flex-wrap items-center gap-2">
+                  <button
+                    onClick={() => {
+                      setEditing((v) => !v);
+                      setAltFor(null);
+                    }}
+                    className="inline-flex items-center justify-center rounded-xl px-3 py-1.5 border text-sm hover:bg-slate-50"
+                  >
+                    {editing ? '完成編輯' : '編輯行程'}
+                  </button>
+                  {editing && (
+                    <button
+                      onClick={replanUnlocked}
+                      disabled={replanning}
+                      className="inline-flex items-center justify-center rounded-xl px-3 py-1.5 bg-black text-white text-sm disabled:opacity-60"
+                    >
+                      {replanning ? '重新規劃中…' : `重新規劃未鎖定（已鎖 ${lockedKeys.length}）`}
+                    </button>
+                  )}
+                  {editing && <span className="text-xs text-slate-500">拖曳地點可換天、換時段</span>}
+                </div>
                 {plan.map((day, dayIdx) => {
-                  // 將今天的順序展開：上午(1–2) → 午餐(1) → 下午(1–2) → 住宿(1)
+                  if (editing) return renderEditableDay(day, dayIdx);
+                  // 將今天的順序展開：早餐 → 上午(1–2) → 午餐(1) → 下午(1–2) → 晚餐 → 晚上 → 住宿(1)
                   const seq = flattenDaySequence(day);
                   const useRouteStartAsDay1Anchor = routeModeRef.current !== 'long_haul_fallback';
 
@@ -1058,27 +2679,91 @@ export default function WidgetClient() {
                   };
 
                   // 依段落顯示
-                  const m0 = day.morning?.[0];
-                  const m1 = day.morning?.[1];
                   const anchorMorning0 =
                     dayIdx === 0
                       ? (useRouteStartAsDay1Anchor ? routeStartRef.current || undefined : undefined)
                       : (plan[dayIdx - 1]?.lodging || plan[dayIdx - 1]?.afternoon?.slice(-1)[0] || plan[dayIdx - 1]?.morning?.slice(-1)[0]) as any;
-                  const anchorMorning1 = m0;
                   const anchorLunch = day.morning?.slice(-1)[0];
                   const anchorAfternoon0 = day.lunch || day.morning?.slice(-1)[0];
-                  const anchorAfternoon1 = day.afternoon?.[0];
-                  const anchorLodging = day.afternoon?.slice(-1)[0] || day.morning?.slice(-1)[0];
+                  const anchorDinner = day.afternoon?.slice(-1)[0] || day.morning?.slice(-1)[0];
+                  const anchorEvening = day.dinner || anchorDinner;
+                  const anchorLodging = day.evening || anchorEvening;
+
+                  if (day.schedule?.length) {
+                    return (
+                      <div key={dayIdx} className="border rounded-xl p-3">
+                        <div className="font-semibold">
+                          第 {dayIdx + 1} 天{day.date && <span className="ml-2 text-sm font-normal text-slate-500">{fmtDayDate(day.date)}</span>}
+                        </div>
+                        {dayForecasts[dayIdx] && <DayForecastBadge forecast={dayForecasts[dayIdx]} expanded={selectedDayIdx === dayIdx} />}
+                        {day.weather && <DayWeatherNote weather={day.weather} />}
+                        {!!day.alerts?.length && <DayAlertNote alerts={day.alerts} />}
+                        {!!day.notices?.length && <DayNoticeNote notices={day.notices} />}
+                        <ol className="mt-2 border-l-2 border-slate-200 ml-2 space-y-2">
+                          {day.schedule.map((st, i) => (
+                            <li key={i} className="relative pl-4">
+                              <span className="absolute -left-[5px] top-1.5 w-2 h-2 rounded-full bg-slate-400" />
+                              {st.travelMin > 0 && (
+                                <div className="text-[11px] text-slate-400">
+                                  交通約 {st.travelMin} 分・{fmtDistance(st.travelKm)}
+                                </div>
+                              )}
+                              <div className="text-sm">
+                                <span className="font-mono text-slate-600">
+                                  {st.arrive}
+                                  {st.depart ? `–${st.depart}` : ''}
+                                </span>
+                                <span className="ml-2 text-xs text-slate-500">{SLOT_LABELS[st.slot]}</span>
+                              </div>
+                              <div className="font-medium flex items-center gap-2">
+                                <span>{st.name}</span>
+                                {MEAL_SLOTS.includes(st.slot) && slotItems(day, st.slot)[0]?.mealMatch && (
+                                  <MealMatchBadge match={slotItems(day, st.slot)[0].mealMatch!} />
+                                )}
+                                {st.slot === 'lodging' && stayLabel(day.stay, dayIdx) && (
+                                  <span className="text-[10px] px-2 py-0.5 rounded-full border border-sky-200 bg-sky-50 text-sky-700">
+                                    {stayLabel(day.stay, dayIdx)}
+                                  </span>
+                                )}
+                                {st.openStatus === 'closed' && (
+                                  <span className="text-[10px] px-2 py-0.5 rounded-full border border-red-200 bg-red-50 text-red-700">可能未營業</span>
+                                )}
+                              </div>
+                            </li>
+                          ))}
+                        </ol>
+                        {seq.length > 0 && (
+                          <div className="text-xs text-slate-500 mt-2">
+                            本日景點間直線距離合計：約 {fmtDistance(dailyTotalKm)}
+                          </div>
+                        )}
+                      </div>
+                    );
+                  }
 
                   return (
                     <div key={dayIdx} className="border rounded-xl p-3">
                       <div className="font-semibold">第 {dayIdx + 1} 天</div>
+                      {dayForecasts[dayIdx] && <DayForecastBadge forecast={dayForecasts[dayIdx]} expanded={selectedDayIdx === dayIdx} />}
+                      {day.weather && <DayWeatherNote weather={day.weather} />}
+                      {!!day.alerts?.length && <DayAlertNote alerts={day.alerts} />}
+                      {!!day.notices?.length && <DayNoticeNote notices={day.notices} />}
+
+                      {day.breakfast && (
+                        <div className="mt-2">
+                          <div className="text-sm font-medium">早餐</div>
+                          <ol className="list-decimal ml-5 space-y-1">
+                            {renderPOI(day.breakfast, anchorMorning0 || undefined)}
+                          </ol>
+                        </div>
+                      )}
 
                       <div className="mt-2">
                         <div className="text-sm font-medium">上午</div>
                         <ol className="list-decimal ml-5 space-y-1">
-                          {renderPOI(m0, anchorMorning0 || undefined)}
-                          {renderPOI(m1, anchorMorning1 || undefined)}
+                          {(day.morning || []).map((p, i) => (
+                            <React.Fragment key={i}>{renderPOI(p, (i === 0 ? day.breakfast || anchorMorning0 : day.morning[i - 1]) || undefined)}</React.Fragment>
+                          ))}
                         </ol>
                         </div>
 
@@ -1092,13 +2777,35 @@ export default function WidgetClient() {
                       <div className="mt-2">
                         <div className="text-sm font-medium">下午</div>
                         <ol className="list-decimal ml-5 space-y-1">
-                          {renderPOI(day.afternoon?.[0], anchorAfternoon0 || undefined)}
-                          {renderPOI(day.afternoon?.[1], anchorAfternoon1 || undefined)}
+                          {(day.afternoon || []).map((p, i) => (
+                            <React.Fragment key={i}>{renderPOI(p, (i === 0 ? anchorAfternoon0 : day.afternoon[i - 1]) || undefined)}</React.Fragment>
+                          ))}
                         </ol>
                         </div>
 
+                      {day.dinner && (
+                        <div className="mt-2">
+                          <div className="text-sm font-medium">晚餐</div>
+                          <ol className="list-decimal ml-5 space-y-1">
+                            {renderPOI(day.dinner, anchorDinner || undefined)}
+                          </ol>
+                        </div>
+                      )}
+
+                      {day.evening && (
+                        <div className="mt-2">
+                          <div className="text-sm font-medium">晚上</div>
+                          <ol className="list-decimal ml-5 space-y-1">
+                            {renderPOI(day.evening, anchorEvening || undefined)}
+                          </ol>
+                        </div>
+                      )}
+
                       <div className="mt-2">
-                        <div className="text-sm font-medium">晚上（住宿）</div>
+                        <div className="text-sm font-medium">
+                          住宿
+                          {stayLabel(day.stay, dayIdx) && <span className="ml-2 text-xs font-normal text-sky-700">{stayLabel(day.stay, dayIdx)}</span>}
+                        </div>
                         <ol className="list-decimal ml-5 space-y-1">
                           {renderPOI(day.lodging, anchorLodging || undefined)}
                         </ol>
@@ -1115,6 +2822,52 @@ export default function WidgetClient() {
               </div>
             )}
           </Panel>
+
+          <Panel title="打包清單">
+            {plan.length === 0 ? (
+              <div className="text-sm text-slate-500">尚無行程。</div>
+            ) : (
+              <div className="space-y-3 text-sm">
+                <div className="flex flex-wrap items-center gap-2">
+                  <button
+                    onClick={loadPackingList}
+                    disabled={packingLoading}
+                    className="inline-flex items-center justify-center rounded-xl px-3 py-1.5 border text-sm hover:bg-slate-50 disabled:opacity-50"
+                  >
+                    {packingLoading ? '產生中…' : packing ? '重新產生' : '產生打包清單'}
+                  </button>
+                  {packing && (
+                    <span className="text-xs text-slate-500">
+                      {packing.days} 天 {packing.nights} 晚・
+                      {packing.forecastDays ? `參考 ${packing.forecastDays} 天的天氣預報` : '出發日不在預報範圍內，未考慮天氣'}
+                    </span>
+                  )}
+                </div>
+                {packing?.categories.map((c) => (
+                  <div key={c.id}>
+                    <div className="font-medium">{c.label}</div>
+                    <ul className="mt-1 space-y-1">
+                      {c.items.map((item) => {
+                        const done = packed.includes(item.id);
+                        return (
+                          <li key={item.id}>
+                            <label className="flex items-center gap-2">
+                              <input type="checkbox" checked={done} onChange={() => togglePacked(item.id)} />
+                              <span className={done ? 'line-through text-slate-400' : ''}>
+                                {item.label}
+                                {item.quantity ? ` ×${item.quantity}` : ''}
+                              </span>
+                              {item.days && <span className="text-[10px] text-slate-400">第 {item.days.join('、')} 天</span>}
+                            </label>
+                          </li>
+                        );
+                      })}
+                    </ul>
+                  </div>
+                ))}
+              </div>
+            )}
+          </Panel>
         </div>
       </div>
     </div>
@@ -1,5 +1,17 @@
 // lib/apps-bridge.ts
-export type BridgeInit = { origin?: string; destination?: string; days?: number };
+export type TravelMode = 'driving' | 'transit' | 'walking' | 'bicycling';
+
+export type BridgeInit = {
+  origin?: string;
+  destination?: string;
+  days?: number;
+  waypoints?: string[];
+  mode?: TravelMode;
+  /** 已儲存行程的 id（/widget?trip=<id>），有值時直接還原、不重新規劃 */
+  trip?: string;
+};
+
+const TRAVEL_MODES: TravelMode[] = ['driving', 'transit', 'walking', 'bicycling'];
 
 type InMsg =
   | { type: 'init'; payload: BridgeInit }
@@ -15,10 +27,16 @@ export function readInitParams(): BridgeInit {
   if (typeof window === 'undefined') return {};
   const u = new URL(window.location.href);
   const daysStr = u.searchParams.get('days') ?? undefined;
+  // 中途停靠點以重複的 waypoint 參數依序傳入：?waypoint=台中&waypoint=嘉義
+  const waypoints = u.searchParams.getAll('waypoint').filter(Boolean);
+  const mode = u.searchParams.get('mode') as TravelMode | null;
   return {
     origin: u.searchParams.get('origin') ?? undefined,
     destination: u.searchParams.get('destination') ?? undefined,
     days: daysStr ? Number(daysStr) : undefined,
+    waypoints: waypoints.length ? waypoints : undefined,
+    mode: mode && TRAVEL_MODES.includes(mode) ? mode : undefined,
+    trip: u.searchParams.get('trip') ?? undefined,
   };
 }
 
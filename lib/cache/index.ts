@@ -0,0 +1,118 @@
+// lib/cache/index.ts
+import type { LatLng } from '../geo';
+import { createMemoryCache } from './memory';
+import { createRedisCache } from './redis';
+import type { CacheEndpoint, CacheMode, ResponseCache } from './types';
+
+export * from './types';
+
+const DAY = 86400;
+const DEFAULT_MAX_ENTRIES = 5000;
+
+/** 預設 TTL（秒）；可用 CACHE_TTL_<ENDPOINT> 環境變數覆寫，例：CACHE_TTL_NEARBY=3600 */
+export const CACHE_TTL: Record<CacheEndpoint, number> = {
+  geocode: 30 * DAY,
+  reverse: 30 * DAY,
+  directions: DAY,
+  nearby: 3 * DAY,
+  details: DAY,
+  weather: 10 * 60,
+  forecast: 30 * 60,
+  alerts: 5 * 60,
+  photo: DAY,
+  autocomplete: DAY,
+  search: DAY,
+};
+
+/** key 內座標的小數位數：反查地名/路線端點約 11 公尺，周邊搜尋約 110 公尺，天氣與搜尋的偏好中心約 1 公里 */
+export const COORD_PRECISION: Partial<Record<CacheEndpoint, number>> = {
+  reverse: 4,
+  directions: 4,
+  nearby: 3,
+  weather: 2,
+  forecast: 2,
+  alerts: 2,
+  autocomplete: 2,
+  search: 2,
+};
+
+/** 除錯時跳過快取：請求帶 x-tripi-cache: bypass 標頭或 ?cache=bypass */
+export const CACHE_BYPASS_HEADER = 'x-tripi-cache';
+
+/**
+ * 選擇快取：CACHE_STORE 環境變數（redis / memory / off）> 有 Upstash 設定則 redis，否則 memory。
+ * off、未知名稱或指定 redis 卻沒有 Upstash 設定時回傳 null（不快取）。
+ */
+export function resolveResponseCache(): ResponseCache | null {
+  const requested = String(process.env.CACHE_STORE || '').trim().toLowerCase();
+  const hasRedis = Boolean(process.env.UPSTASH_REDIS_REST_URL && process.env.UPSTASH_REDIS_REST_TOKEN);
+  const name = requested || (hasRedis ? 'redis' : 'memory');
+  if (name === 'redis') return hasRedis ? createRedisCache() : null;
+  if (name === 'memory') return createMemoryCache(Number(process.env.CACHE_MAX_ENTRIES) || DEFAULT_MAX_ENTRIES);
+  return null;
+}
+
+export function cacheModeFrom(req: Request): CacheMode {
+  const header = req.headers.get(CACHE_BYPASS_HEADER);
+  const param = new URL(req.url).searchParams.get('cache');
+  return [header, param].some(v => String(v || '').trim().toLowerCase() === 'bypass') ? 'bypass' : 'use';
+}
+
+export function cacheTtl(endpoint: CacheEndpoint) {
+  const override = Number(process.env[`CACHE_TTL_${endpoint.toUpperCase()}`]);
+  return Number.isFinite(override) && override > 0 ? override : CACHE_TTL[endpoint];
+}
+
+/** 座標依端點的精度四捨五入，附近的查詢共用同一筆快取 */
+export function coordKey(endpoint: CacheEndpoint, { lat, lng }: LatLng) {
+  const digits = COORD_PRECISION[endpoint] ?? 5;
+  return `${lat.toFixed(digits)},${lng.toFixed(digits)}`;
+}
+
+export type CachedOptions<T> = {
+  mode?: CacheMode;
+  /** 回傳 false 的結果不寫入（例如上游失敗時回傳的空陣列） */
+  shouldCache?: (value: T) => boolean;
+  /** 依結果縮短 TTL（秒），例如帶有短效分頁 token 的結果；不會超過端點的 TTL */
+  ttl?: (value: T) => number | undefined;
+};
+
+/**
+ * 先查快取，未命中才呼叫 load 並寫回。load 拋錯時不寫入，錯誤原樣拋出。
+ * 快取本身讀寫失敗（如 Redis 斷線）視同未命中，不影響回應。
+ */
+export async function cached<T>(
+  cache: ResponseCache | null,
+  endpoint: CacheEndpoint,
+  keyParts: (string | number | boolean | undefined | null)[],
+  load: () => Promise<T>,
+  { mode = 'use', shouldCache, ttl }: CachedOptions<T> = {}
+): Promise<T> {
+  if (!cache) return load();
+  if (mode === 'bypass' || process.env.CACHE_BYPASS === '1') {
+    cache.count(endpoint, 'bypass');
+    return load();
+  }
+
+  const key = `${endpoint}:${keyParts.map(p => (p == null ? '' : String(p))).join('|')}`;
+  try {
+    const hit = await cache.get<T>(key);
+    if (hit !== undefined) {
+      cache.count(endpoint, 'hit');
+      return hit;
+    }
+  } catch (e: any) {
+    console.warn('cache get failed:', e?.message || e);
+  }
+
+  cache.count(endpoint, 'miss');
+  const value = await load();
+  if (value != null && (!shouldCache || shouldCache(value))) {
+    try {
+      await cache.set(key, value, Math.min(cacheTtl(endpoint), ttl?.(value) ?? Infinity));
+    } catch (e: any) {
+      console.warn('cache set failed:', e?.message || e);
+    }
+  }
+  return value;
+}
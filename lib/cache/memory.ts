@@ -0,0 +1,41 @@
+// lib/cache/memory.ts
+import type { CacheStats, ResponseCache } from './types';
+
+type Entry = { value: unknown; expiresAt: number };
+
+// 掛在 globalThis 上，dev 模式 HMR 重新載入模組時快取不會消失
+const g = globalThis as typeof globalThis & { __tripiCache?: Map<string, Entry>; __tripiCacheStats?: CacheStats };
+
+/**
+ * 單一程序內的 LRU：Map 依插入順序排列，讀到時移到最後，超過 maxEntries 從最前面淘汰。
+ * 存取都複製一份，呼叫端修改回傳值（如補上地址）不會改到快取內容。
+ */
+export function createMemoryCache(maxEntries: number): ResponseCache {
+  const entries = (g.__tripiCache ??= new Map<string, Entry>());
+  const stats = (g.__tripiCacheStats ??= {});
+  return {
+    name: 'memory',
+    async get<T>(key: string) {
+      const entry = entries.get(key);
+      if (!entry) return undefined;
+      entries.delete(key);
+      if (entry.expiresAt <= Date.now()) return undefined;
+      entries.set(key, entry);
+      return structuredClone(entry.value) as T;
+    },
+    async set(key, value, ttlSeconds) {
+      entries.delete(key);
+      entries.set(key, { value: structuredClone(value), expiresAt: Date.now() + ttlSeconds * 1000 });
+      while (entries.size > maxEntries) {
+        entries.delete(entries.keys().next().value);
+      }
+    },
+    count(endpoint, counter) {
+      const row = (stats[endpoint] ??= { hit: 0, miss: 0, bypass: 0 });
+      row[counter]++;
+    },
+    async stats() {
+      return structuredClone(stats);
+    },
+  };
+}
@@ -0,0 +1,32 @@
+// lib/cache/redis.ts
+import { Redis } from '@upstash/redis';
+import type { CacheCounter, CacheStats, ResponseCache } from './types';
+
+const KEY_PREFIX = 'cache:';
+const STATS_KEY = 'cache-stats';
+
+/** Upstash Redis（與行程儲存、限流共用設定）；命中統計存在同一個 hash，跨 instance 累計 */
+export function createRedisCache(): ResponseCache {
+  const redis = Redis.fromEnv();
+  return {
+    name: 'redis',
+    async get<T>(key: string) {
+      return (await redis.get<T>(KEY_PREFIX + key)) ?? undefined;
+    },
+    async set(key, value, ttlSeconds) {
+      await redis.set(KEY_PREFIX + key, value, { ex: ttlSeconds });
+    },
+    count(endpoint, counter) {
+      redis.hincrby(STATS_KEY, `${endpoint}:${counter}`, 1).catch(() => {});
+    },
+    async stats() {
+      const raw = (await redis.hgetall<Record<string, number>>(STATS_KEY)) || {};
+      const out: CacheStats = {};
+      for (const [field, n] of Object.entries(raw)) {
+        const [endpoint, counter] = field.split(':') as [string, CacheCounter];
+        (out[endpoint] ??= { hit: 0, miss: 0, bypass: 0 })[counter] = Number(n) || 0;
+      }
+      return out;
+    },
+  };
+}
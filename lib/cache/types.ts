@@ -0,0 +1,20 @@
+// lib/cache/types.ts
+
+/** 各上游端點；用於快取 key 前綴、TTL 與命中統計 */
+export type CacheEndpoint = 'geocode' | 'reverse' | 'directions' | 'nearby' | 'details' | 'weather' | 'forecast' | 'alerts' | 'photo' | 'autocomplete' | 'search';
+
+/** use：照常讀寫；bypass：不讀也不寫，直接打上游（除錯用） */
+export type CacheMode = 'use' | 'bypass';
+
+export type CacheCounter = 'hit' | 'miss' | 'bypass';
+
+export type CacheStats = Record<string, Record<CacheCounter, number>>;
+
+export type ResponseCache = {
+  name: 'redis' | 'memory';
+  get<T>(key: string): Promise<T | undefined>;
+  set<T>(key: string, value: T, ttlSeconds: number): Promise<void>;
+  /** 計數不 await，失敗也不影響回應 */
+  count(endpoint: CacheEndpoint, counter: CacheCounter): void;
+  stats(): Promise<CacheStats>;
+};
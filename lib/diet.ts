@@ -0,0 +1,217 @@
+// lib/diet.ts
+import type { AdviceLang } from './weather-advice';
+
+/** ---------------- Types ---------------- */
+export type DietaryRestriction = 'vegetarian' | 'vegan' | 'halal' | 'gluten_free';
+
+export type Cuisine =
+  | 'chinese'
+  | 'japanese'
+  | 'korean'
+  | 'thai'
+  | 'vietnamese'
+  | 'indian'
+  | 'italian'
+  | 'french'
+  | 'american'
+  | 'seafood';
+
+/** 用餐條件：diet 每一項都要符合；cuisines 符合其中一種即可 */
+export type MealFilter = {
+  diet: DietaryRestriction[];
+  cuisines: Cuisine[];
+};
+
+type MatchBasis = 'type' | 'name' | 'keyword' | 'none';
+
+/**
+ * 餐廳符合用餐條件的把握（0..1），取各條件中最弱的一項。
+ * basis：type 為供應者分類或 OSM diet/cuisine 標籤，name 為店名，keyword 只是由 keyword 查詢找到。
+ */
+export type MealMatch = {
+  confidence: number;
+  basis: MatchBasis;
+  /** 店名或分類符合的料理 */
+  cuisines?: Cuisine[];
+};
+
+type MealRule = { label: Record<AdviceLang, string>; keyword: string; types: string[]; name: RegExp };
+
+/** ---------------- Constants ---------------- */
+export const NO_MEAL_FILTER: MealFilter = { diet: [], cuisines: [] };
+
+const BASIS_CONFIDENCE: Record<MatchBasis, number> = { type: 0.95, name: 0.8, keyword: 0.5, none: 0 };
+
+/** describeMealFilter 的連接詞：飲食條件之間、料理之間（任一種）、兩組之間 */
+const JOINERS: Record<AdviceLang, { diet: string; cuisine: string; group: string }> = {
+  'zh-TW': { diet: '、', cuisine: '或', group: '・' },
+  'zh-CN': { diet: '、', cuisine: '或', group: '・' },
+  en: { diet: ', ', cuisine: ' or ', group: '; ' },
+  ja: { diet: '・', cuisine: 'か', group: '、' },
+};
+
+// 純素一定也是素食
+const DIETS: Record<DietaryRestriction, MealRule> = {
+  vegetarian: {
+    label: { 'zh-TW': '素食', 'zh-CN': '素食', en: 'vegetarian', ja: 'ベジタリアン' },
+    keyword: 'vegetarian',
+    types: ['vegetarian_restaurant', 'vegan_restaurant'],
+    name: /(vegetarian|vegan|veggie|plant[\s-]*based|素食|蔬食|素菜|純素|ベジタリアン|ヴィーガン|精進料理|มังสวิรัติ)/i,
+  },
+  vegan: {
+    label: { 'zh-TW': '純素', 'zh-CN': '纯素', en: 'vegan', ja: 'ヴィーガン' },
+    keyword: 'vegan',
+    types: ['vegan_restaurant'],
+    name: /(vegan|純素|全素|ヴィーガン)/i,
+  },
+  halal: {
+    label: { 'zh-TW': '清真', 'zh-CN': '清真', en: 'halal', ja: 'ハラール' },
+    keyword: 'halal',
+    types: ['halal_restaurant'],
+    name: /(halal|清真|ハラール|ฮาลาล)/i,
+  },
+  gluten_free: {
+    label: { 'zh-TW': '無麩質', 'zh-CN': '无麸质', en: 'gluten-free', ja: 'グルテンフリー' },
+    keyword: 'gluten free',
+    types: ['gluten_free_restaurant'],
+    name: /(gluten[\s-]*free|無麩質|グルテンフリー)/i,
+  },
+};
+
+const CUISINES: Record<Cuisine, MealRule> = {
+  chinese: {
+    label: { 'zh-TW': '中式', 'zh-CN': '中式', en: 'Chinese', ja: '中華' },
+    keyword: 'chinese',
+    types: ['chinese_restaurant', 'dim_sum_restaurant'],
+    name: /(chinese|dim\s*sum|中餐|中菜|川菜|粵菜|港式|點心|中華料理)/i,
+  },
+  japanese: {
+    label: { 'zh-TW': '日式', 'zh-CN': '日式', en: 'Japanese', ja: '和食' },
+    keyword: 'japanese',
+    types: ['japanese_restaurant', 'sushi_restaurant', 'ramen_restaurant'],
+    name: /(japanese|sushi|ramen|izakaya|udon|tempura|日本料理|日式|壽司|寿司|拉麵|ラーメン|居酒屋|和食)/i,
+  },
+  korean: {
+    label: { 'zh-TW': '韓式', 'zh-CN': '韩式', en: 'Korean', ja: '韓国料理' },
+    keyword: 'korean',
+    types: ['korean_restaurant'],
+    name: /(korean|韓式|韓國|韓国|bibimbap)/i,
+  },
+  thai: {
+    label: { 'zh-TW': '泰式', 'zh-CN': '泰式', en: 'Thai', ja: 'タイ料理' },
+    keyword: 'thai',
+    types: ['thai_restaurant'],
+    name: /(\bthai\b|泰式|泰國|タイ料理)/i,
+  },
+  vietnamese: {
+    label: { 'zh-TW': '越式', 'zh-CN': '越式', en: 'Vietnamese', ja: 'ベトナム料理' },
+    keyword: 'vietnamese',
+    types: ['vietnamese_restaurant'],
+    name: /(vietnam|\bpho\b|phở|banh\s*mi|越南|越式)/i,
+  },
+  indian: {
+    label: { 'zh-TW': '印度', 'zh-CN': '印度', en: 'Indian', ja: 'インド料理' },
+    keyword: 'indian',
+    types: ['indian_restaurant'],
+    name: /(indian|curry|tandoor|masala|印度|咖哩|カレー)/i,
+  },
+  italian: {
+    label: { 'zh-TW': '義式', 'zh-CN': '意式', en: 'Italian', ja: 'イタリアン' },
+    keyword: 'italian',
+    types: ['italian_restaurant', 'pizza_restaurant'],
+    name: /(italian|pizz|pasta|trattoria|osteria|義大利|義式|披薩|イタリア)/i,
+  },
+  french: {
+    label: { 'zh-TW': '法式', 'zh-CN': '法式', en: 'French', ja: 'フレンチ' },
+    keyword: 'french',
+    types: ['french_restaurant'],
+    name: /(french|bistro|brasserie|法式|法國|フレンチ)/i,
+  },
+  american: {
+    label: { 'zh-TW': '美式', 'zh-CN': '美式', en: 'American', ja: 'アメリカン' },
+    keyword: 'american',
+    types: ['american_restaurant', 'hamburger_restaurant', 'burger_restaurant', 'steak_house'],
+    name: /(american|burger|diner|steak\s*house|美式|漢堡)/i,
+  },
+  seafood: {
+    label: { 'zh-TW': '海鮮', 'zh-CN': '海鲜', en: 'seafood', ja: 'シーフード' },
+    keyword: 'seafood',
+    types: ['seafood_restaurant'],
+    name: /(seafood|oyster|海鮮|海产|海產|シーフード)/i,
+  },
+};
+
+export const DIETARY_RESTRICTIONS = Object.keys(DIETS) as DietaryRestriction[];
+export const CUISINE_TYPES = Object.keys(CUISINES) as Cuisine[];
+
+/** ---------------- Parsing ---------------- */
+/** 接受陣列或以逗號分隔的字串；未帶為空陣列，有不認得的值回傳 null */
+function listOf<T extends string>(input: any, allowed: T[]): T[] | null {
+  if (input == null || input === '') return [];
+  const raw = Array.isArray(input) ? input : String(input).split(',');
+  const out = raw.map(v => String(v).trim().toLowerCase()).filter(Boolean);
+  if (out.some(v => !allowed.includes(v as T))) return null;
+  return [...new Set(out)] as T[];
+}
+
+/** 驗證 diet / cuisines；格式不對回傳錯誤訊息 */
+export function parseMealFilter(diet: any, cuisines: any): MealFilter | string {
+  const d = listOf(diet, DIETARY_RESTRICTIONS);
+  if (!d) return `diet must be a list of ${DIETARY_RESTRICTIONS.join(', ')}`;
+  const c = listOf(cuisines, CUISINE_TYPES);
+  if (!c) return `cuisines must be a list of ${CUISINE_TYPES.join(', ')}`;
+  return { diet: d, cuisines: c };
+}
+
+export function hasMealFilter(filter?: MealFilter): boolean {
+  return !!filter && (filter.diet.length > 0 || filter.cuisines.length > 0);
+}
+
+/** ---------------- Matching ---------------- */
+/** nearby 的 keyword 查詢：飲食條件一起查，每種料理各查一次 */
+export function mealKeywords(filter: MealFilter): string[] {
+  const diet = filter.diet.map(d => DIETS[d].keyword);
+  if (!filter.cuisines.length) return diet.length ? [diet.join(' ')] : [];
+  return filter.cuisines.map(c => [...diet, CUISINES[c].keyword].join(' '));
+}
+
+function basisOf(rule: MealRule, name: string, types: string[], viaKeyword: boolean): MatchBasis {
+  if (types.some(t => rule.types.includes(t))) return 'type';
+  if (rule.name.test(name)) return 'name';
+  return viaKeyword ? 'keyword' : 'none';
+}
+
+/**
+ * 依分類與店名判斷餐廳是否符合；viaKeyword 表示這筆是用 mealKeywords 查到的。
+ * 沒有任何條件時回傳 undefined。
+ */
+export function matchMeal(place: { name?: string; types?: string[] }, filter: MealFilter, viaKeyword = false): MealMatch | undefined {
+  if (!hasMealFilter(filter)) return undefined;
+  const name = place.name || '';
+  const types = place.types || [];
+  const bases = filter.diet.map(d => basisOf(DIETS[d], name, types, viaKeyword));
+  const cuisines = filter.cuisines.filter(c => basisOf(CUISINES[c], name, types, false) !== 'none');
+  if (filter.cuisines.length) {
+    const best = filter.cuisines
+      .map(c => basisOf(CUISINES[c], name, types, viaKeyword))
+      .sort((a, b) => BASIS_CONFIDENCE[b] - BASIS_CONFIDENCE[a])[0];
+    bases.push(best);
+  }
+  const basis = bases.sort((a, b) => BASIS_CONFIDENCE[a] - BASIS_CONFIDENCE[b])[0];
+  return { confidence: BASIS_CONFIDENCE[basis], basis, cuisines: cuisines.length ? cuisines : undefined };
+}
+
+/** 同一地點由多次查詢找到時，保留把握較高的判斷 */
+export function strongerMatch(a?: MealMatch, b?: MealMatch): MealMatch | undefined {
+  if (!a) return b;
+  if (!b) return a;
+  return b.confidence > a.confidence ? b : a;
+}
+
+/** 條件的描述，例：素食、清真・日式（en：vegetarian, halal; Japanese） */
+export function describeMealFilter(filter: MealFilter, lang: AdviceLang = 'zh-TW'): string {
+  const j = JOINERS[lang];
+  const diet = filter.diet.map(d => DIETS[d].label[lang]).join(j.diet);
+  const cuisines = filter.cuisines.map(c => CUISINES[c].label[lang]).join(j.cuisine);
+  return [diet, cuisines].filter(Boolean).join(j.group);
+}
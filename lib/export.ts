@@ -0,0 +1,317 @@
+// lib/export.ts
+import type { DaySlot, PlaceOut, ScheduleSlot } from './itinerary';
+
+export type ExportFormat = 'gpx' | 'kml' | 'geojson' | 'ics';
+
+/** /api/plan 回應（或已儲存行程的 plan）中匯出需要的欄位 */
+export type ExportablePlan = {
+  polyline: [number, number][];
+  start: { lat: number; lng: number; address?: string };
+  end: { lat: number; lng: number; address?: string };
+  itinerary: DaySlot[];
+};
+
+export type ExportFile = { body: string; contentType: string; filename: string };
+
+const FORMATS: Record<ExportFormat, { contentType: string; ext: string }> = {
+  gpx: { contentType: 'application/gpx+xml', ext: 'gpx' },
+  kml: { contentType: 'application/vnd.google-earth.kml+xml', ext: 'kml' },
+  geojson: { contentType: 'application/geo+json', ext: 'geojson' },
+  ics: { contentType: 'text/calendar; charset=utf-8', ext: 'ics' },
+};
+
+const SLOT_LABELS: Record<ScheduleSlot, string> = {
+  breakfast: '早餐',
+  morning: '上午',
+  lunch: '午餐',
+  afternoon: '下午',
+  dinner: '晚餐',
+  evening: '晚上',
+  lodging: '住宿',
+};
+
+/** 沒有時間表時的預設時段（分鐘）；住宿只標入住時間 */
+const FALLBACK_SLOT_START: Record<ScheduleSlot, number> = {
+  breakfast: 8 * 60,
+  morning: 9 * 60,
+  lunch: 12 * 60,
+  afternoon: 13 * 60 + 30,
+  dinner: 18 * 60,
+  evening: 19 * 60 + 30,
+  lodging: 21 * 60 + 30,
+};
+const FALLBACK_VISIT_MINUTES = 90;
+const LODGING_EVENT_MINUTES = 60;
+const ICS_LINE_OCTETS = 75;
+const CREATOR = 'Tripi Pro';
+
+export function parseExportFormat(input?: string | null): ExportFormat | undefined {
+  const f = String(input || '').trim().toLowerCase();
+  if (f === 'json') return 'geojson';
+  if (f === 'ical' || f === 'calendar') return 'ics';
+  return f in FORMATS ? (f as ExportFormat) : undefined;
+}
+
+/** ---------------- Stops ---------------- */
+type ExportStop = {
+  day: number; // 1 起算
+  date?: string;
+  slot: ScheduleSlot;
+  order: number; // 當天第幾站（1 起算）
+  place: PlaceOut;
+  arrive?: string;
+  depart?: string;
+};
+
+/** 依造訪順序攤平全部停留點；有時間表時帶上抵達/離開時間 */
+function exportStops(itinerary: DaySlot[]): ExportStop[] {
+  const out: ExportStop[] = [];
+  itinerary.forEach((day, d) => {
+    const entries: Array<[ScheduleSlot, PlaceOut | undefined]> = [
+      ['breakfast', day.breakfast],
+      ...day.morning.map(p => ['morning', p] as [ScheduleSlot, PlaceOut]),
+      ['lunch', day.lunch],
+      ...day.afternoon.map(p => ['afternoon', p] as [ScheduleSlot, PlaceOut]),
+      ['dinner', day.dinner],
+      ['evening', day.evening],
+      ['lodging', day.lodging],
+    ];
+    let order = 0;
+    const schedule = [...(day.schedule || [])];
+    for (const [slot, place] of entries) {
+      if (!place) continue;
+      const idx = schedule.findIndex(s => s.slot === slot && s.name === place.name);
+      const timed = idx >= 0 ? schedule.splice(idx, 1)[0] : undefined;
+      out.push({ day: d + 1, date: day.date, slot, order: ++order, place, arrive: timed?.arrive, depart: timed?.depart });
+    }
+  });
+  return out;
+}
+
+function stopTitle(s: ExportStop) {
+  return `D${s.day} ${SLOT_LABELS[s.slot]}｜${s.place.name}`;
+}
+
+/** ---------------- XML ---------------- */
+function escapeXml(s: string) {
+  return s.replace(/[<>&'"]/g, c => ({ '<': '&lt;', '>': '&gt;', '&': '&amp;', "'": '&apos;', '"': '&quot;' })[c]!);
+}
+
+export function toGpx(plan: ExportablePlan, title: string) {
+  const stops = exportStops(plan.itinerary);
+  const wpt = (lat: number, lng: number, name: string, desc?: string, type?: string) =>
+    `  <wpt lat="${lat}" lon="${lng}">\n` +
+    `    <name>${escapeXml(name)}</name>\n` +
+    (desc ? `    <desc>${escapeXml(desc)}</desc>\n` : '') +
+    (type ? `    <type>${escapeXml(type)}</type>\n` : '') +
+    `  </wpt>`;
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<gpx version="1.1" creator="${CREATOR}" xmlns="http://www.topografix.com/GPX/1/1">`,
+    `  <metadata><name>${escapeXml(title)}</name></metadata>`,
+    wpt(plan.start.lat, plan.start.lng, '起點', plan.start.address),
+    ...stops.map(s => wpt(s.place.lat, s.place.lng, stopTitle(s), s.place.address, s.place._type)),
+    wpt(plan.end.lat, plan.end.lng, '終點', plan.end.address),
+    '  <trk>',
+    `    <name>${escapeXml(title)}</name>`,
+    '    <trkseg>',
+    ...plan.polyline.map(([lat, lng]) => `      <trkpt lat="${lat}" lon="${lng}"/>`),
+    '    </trkseg>',
+    '  </trk>',
+    '</gpx>',
+    '',
+  ].join('\n');
+}
+
+export function toKml(plan: ExportablePlan, title: string) {
+  const stops = exportStops(plan.itinerary);
+  const placemark = (lat: number, lng: number, name: string, desc?: string) =>
+    `      <Placemark>\n` +
+    `        <name>${escapeXml(name)}</name>\n` +
+    (desc ? `        <description>${escapeXml(desc)}</description>\n` : '') +
+    `        <Point><coordinates>${lng},${lat},0</coordinates></Point>\n` +
+    `      </Placemark>`;
+  const days = plan.itinerary.map((day, d) => {
+    const dayStops = stops.filter(s => s.day === d + 1);
+    return [
+      '    <Folder>',
+      `      <name>第 ${d + 1} 天${day.date ? ` ${day.date}` : ''}</name>`,
+      ...dayStops.map(s => placemark(s.place.lat, s.place.lng, stopTitle(s), s.place.address)),
+      '    </Folder>',
+    ].join('\n');
+  });
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<kml xmlns="http://www.opengis.net/kml/2.2">',
+    '  <Document>',
+    `    <name>${escapeXml(title)}</name>`,
+    '    <Placemark>',
+    '      <name>路線</name>',
+    '      <LineString>',
+    '        <tessellate>1</tessellate>',
+    `        <coordinates>${plan.polyline.map(([lat, lng]) => `${lng},${lat},0`).join(' ')}</coordinates>`,
+    '      </LineString>',
+    '    </Placemark>',
+    '    <Folder>',
+    '      <name>起訖點</name>',
+    placemark(plan.start.lat, plan.start.lng, '起點', plan.start.address),
+    placemark(plan.end.lat, plan.end.lng, '終點', plan.end.address),
+    '    </Folder>',
+    ...days,
+    '  </Document>',
+    '</kml>',
+    '',
+  ].join('\n');
+}
+
+/** ---------------- GeoJSON ---------------- */
+export function toGeoJson(plan: ExportablePlan, title: string) {
+  const stops = exportStops(plan.itinerary);
+  const point = (lat: number, lng: number, properties: Record<string, any>) => ({
+    type: 'Feature',
+    geometry: { type: 'Point', coordinates: [lng, lat] },
+    properties,
+  });
+  return JSON.stringify({
+    type: 'FeatureCollection',
+    name: title,
+    features: [
+      {
+        type: 'Feature',
+        geometry: { type: 'LineString', coordinates: plan.polyline.map(([lat, lng]) => [lng, lat]) },
+        properties: { kind: 'route' },
+      },
+      point(plan.start.lat, plan.start.lng, { kind: 'start', name: plan.start.address }),
+      point(plan.end.lat, plan.end.lng, { kind: 'end', name: plan.end.address }),
+      ...stops.map(s =>
+        point(s.place.lat, s.place.lng, {
+          kind: 'stop',
+          day: s.day,
+          date: s.date,
+          slot: s.slot,
+          order: s.order,
+          name: s.place.name,
+          type: s.place._type,
+          address: s.place.address,
+          place_id: s.place.place_id,
+          arrive: s.arrive,
+          depart: s.depart,
+        })
+      ),
+    ],
+  });
+}
+
+/** ---------------- iCalendar ---------------- */
+function escapeIcsText(s: string) {
+  return s.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+}
+
+/** RFC 5545：每行最多 75 octets，續行以空白開頭；不可切斷 UTF-8 字元 */
+function foldIcsLine(line: string) {
+  const encoder = new TextEncoder();
+  const parts: string[] = [];
+  let cur = '';
+  let curBytes = 0;
+  for (const ch of line) {
+    const n = encoder.encode(ch).length;
+    const limit = parts.length ? ICS_LINE_OCTETS - 1 : ICS_LINE_OCTETS;
+    if (curBytes + n > limit) {
+      parts.push(cur);
+      cur = '';
+      curBytes = 0;
+    }
+    cur += ch;
+    curBytes += n;
+  }
+  parts.push(cur);
+  return parts.join('\r\n ');
+}
+
+function addDaysIso(isoDate: string, days: number) {
+  const d = new Date(`${isoDate}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + days);
+  return d.toISOString().slice(0, 10);
+}
+
+function clockMinutes(hhmm?: string) {
+  const m = String(hhmm || '').match(/^(\d{2}):(\d{2})$/);
+  return m ? Number(m[1]) * 60 + Number(m[2]) : undefined;
+}
+
+/** 浮動時間（不帶時區）：行程時間本來就是當地時間 */
+function icsDateTime(isoDate: string, minutes: number) {
+  const date = addDaysIso(isoDate, Math.floor(minutes / 1440));
+  const m = minutes % 1440;
+  return `${date.replace(/-/g, '')}T${String(Math.floor(m / 60)).padStart(2, '0')}${String(m % 60).padStart(2, '0')}00`;
+}
+
+/**
+ * 每個停留點一個事件。日期取行程的 date；沒有出發日時從 fallbackStartDate（預設今天）起算。
+ * 有時間表就用抵達/離開時間，否則用各時段的預設時間。
+ */
+export function toIcs(plan: ExportablePlan, title: string, fallbackStartDate = new Date().toISOString().slice(0, 10)) {
+  const stamp = new Date().toISOString().replace(/[-:]/g, '').replace(/\.\d+Z$/, 'Z');
+  const slotCursor = new Map<string, number>();
+  const datedIdx = plan.itinerary.findIndex(day => day.date);
+  const firstDate = datedIdx >= 0 ? addDaysIso(plan.itinerary[datedIdx].date!, -datedIdx) : fallbackStartDate;
+  const events = exportStops(plan.itinerary).map(s => {
+    const date = s.date || addDaysIso(firstDate, s.day - 1);
+    const cursorKey = `${s.day}:${s.slot}`;
+    let start = clockMinutes(s.arrive);
+    let end = clockMinutes(s.depart);
+    if (start == null) {
+      start = slotCursor.get(cursorKey) ?? FALLBACK_SLOT_START[s.slot];
+      slotCursor.set(cursorKey, start + FALLBACK_VISIT_MINUTES);
+    }
+    if (end == null || end <= start) end = start + (s.slot === 'lodging' ? LODGING_EVENT_MINUTES : FALLBACK_VISIT_MINUTES);
+    const desc = s.place.rating ? `評分 ${s.place.rating}${s.place.user_ratings_total ? `（${s.place.user_ratings_total} 則評論）` : ''}` : '';
+    return [
+      'BEGIN:VEVENT',
+      `UID:${date}-${s.day}-${s.order}-${s.place.place_id || `${s.place.lat.toFixed(5)},${s.place.lng.toFixed(5)}`}@tripi`,
+      `DTSTAMP:${stamp}`,
+      `DTSTART:${icsDateTime(date, start)}`,
+      `DTEND:${icsDateTime(date, end)}`,
+      `SUMMARY:${escapeIcsText(stopTitle(s))}`,
+      s.place.address ? `LOCATION:${escapeIcsText(s.place.address)}` : '',
+      desc ? `DESCRIPTION:${escapeIcsText(desc)}` : '',
+      `GEO:${s.place.lat};${s.place.lng}`,
+      'END:VEVENT',
+    ].filter(Boolean);
+  });
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:-//${CREATOR}//Itinerary//ZH`,
+    'CALSCALE:GREGORIAN',
+    `X-WR-CALNAME:${escapeIcsText(title)}`,
+    ...events.flat(),
+    'END:VCALENDAR',
+  ];
+  return lines.map(foldIcsLine).join('\r\n') + '\r\n';
+}
+
+/** ---------------- Entry ---------------- */
+function slugFilename(title: string) {
+  const slug = title.replace(/[\\/:*?"<>|\s→]+/g, '-').replace(/^-+|-+$/g, '');
+  return slug || 'tripi-itinerary';
+}
+
+export function exportPlan(plan: ExportablePlan, format: ExportFormat, title = 'Tripi 行程'): ExportFile {
+  const { contentType, ext } = FORMATS[format];
+  const body =
+    format === 'gpx' ? toGpx(plan, title)
+    : format === 'kml' ? toKml(plan, title)
+    : format === 'geojson' ? toGeoJson(plan, title)
+    : toIcs(plan, title);
+  return { body, contentType, filename: `${slugFilename(title)}.${ext}` };
+}
+
+/** 下載用回應標頭；檔名可能含中文，用 RFC 5987 編碼 */
+export function exportHeaders(file: ExportFile): Record<string, string> {
+  return {
+    'Content-Type': file.contentType,
+    'Content-Disposition': `attachment; filename*=UTF-8''${encodeURIComponent(file.filename)}`,
+    'Cache-Control': 'no-store',
+  };
+}
@@ -0,0 +1,107 @@
+// lib/geo.ts
+export type LatLng = { lat: number; lng: number };
+
+/** ---------------- Utils ---------------- */
+export function sleep(ms: number) { return new Promise(res => setTimeout(res, ms)); }
+
+export async function runWithConcurrency<T>(tasks: Array<() => Promise<T>>, limit: number): Promise<T[]> {
+  if (!tasks.length) return [];
+  const safeLimit = Math.max(1, Math.min(limit, tasks.length));
+  const out: T[] = new Array(tasks.length);
+  let next = 0;
+  const workers = Array.from({ length: safeLimit }, async () => {
+    while (true) {
+      const idx = next++;
+      if (idx >= tasks.length) break;
+      out[idx] = await tasks[idx]();
+    }
+  });
+  await Promise.all(workers);
+  return out;
+}
+
+export async function fetchJson<T = any>(url: string, init?: RequestInit): Promise<T> {
+  const r = await fetch(url, { cache: 'no-store', ...init });
+  if (!r.ok) throw new Error(`HTTP ${r.status}`);
+  return r.json() as Promise<T>;
+}
+
+export function haversineKm(a: LatLng, b: LatLng) {
+  const R = 6371;
+  const dLat = (b.lat - a.lat) * Math.PI / 180;
+  const dLng = (b.lng - a.lng) * Math.PI / 180;
+  const la1 = a.lat * Math.PI / 180;
+  const la2 = b.lat * Math.PI / 180;
+  const s1 = Math.sin(dLat / 2), s2 = Math.sin(dLng / 2);
+  return 2 * R * Math.asin(Math.sqrt(s1 * s1 + Math.cos(la1) * Math.cos(la2) * s2 * s2));
+}
+
+export function cumulativeLengthKm(path: LatLng[]) {
+  const acc = [0];
+  for (let i = 1; i < path.length; i++) acc.push(acc[i - 1] + haversineKm(path[i - 1], path[i]));
+  return acc;
+}
+
+export function formatDistanceText(meters: number) {
+  return (meters / 1000).toFixed(1) + ' km';
+}
+
+export function formatDurationText(seconds: number) {
+  const totalMin = Math.round(seconds / 60);
+  const h = Math.floor(totalMin / 60);
+  const m = totalMin % 60;
+  return h > 0 ? `${h} 小時 ${m} 分` : `${m} 分`;
+}
+
+/** ---------------- Address ---------------- */
+/** 敺?Geocoding components ? city/district嚗?撠??蝛拙?嚗?*/
+export function extractCityDistrict(components: any[]): { city?: string; district?: string } {
+  const hasType = (c: any, t: string) => Array.isArray(c.types) && c.types.includes(t);
+  const get = (t: string) => components.find((c: any) => hasType(c, t))?.long_name as string | undefined;
+
+  // ?啁撣貉?嚗腦撣 level_1嚗??/?啣?撣?獢?撣??唬葉撣??啣?撣?擃?撣??佗?
+  // 甈⊿ locality嚗??撜??撣?質??
+  let city = get('administrative_area_level_1') || get('locality') || get('postal_town') || get('administrative_area_level_2');
+
+  // ?/?殷?level_3 ??sublocality_level_1嚗????neighborhood/locality
+  let district =
+    get('administrative_area_level_3') ||
+    get('sublocality_level_1') ||
+    get('neighborhood') ||
+    (get('locality') && get('locality') !== city ? get('locality') : undefined);
+
+  const norm = (s?: string) => s?.replace(/\s+/g, '')?.replace(/[繚?領Ｔ改?\.]/g, '') || undefined;
+  city = norm(city);
+  district = norm(district);
+
+  // ?餅????????銴?憒??靽∠儔??? district 隞乓縑蝢拙??銝鳴?
+  if (city && district && district.startsWith(city)) {
+    district = district.slice(city.length);
+    district = norm(district);
+  }
+
+  return { city, district };
+}
+
+/** 銋暹楊?唳??腦撣?/ 銵???蝵桀?啣?嚗??銴＊蝷?*/
+export function formatAddressWithCity(address?: string, city?: string, district?: string) {
+  const SEP = ' · ';
+  const parts: string[] = [];
+  const clean = (s: string) => s.replace(/\s+/g, ' ').trim();
+
+  if (city) parts.push(city);
+  if (district) parts.push(district);
+
+  let rest = address ? clean(address) : '';
+  const head = parts.join(SEP);
+
+  if (rest) {
+      const rmRaw = [city, district].filter(Boolean).join('|');
+      if (rmRaw) {
+        const rm = rmRaw.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+      rest = rest.replace(new RegExp(`^(${rm})(\\s*(?:·|繚)\\s*)?`, 'u'), '');
+      }
+  }
+
+  return head ? (rest ? `${head}${SEP}${rest}` : head) : (rest || '');
+}
@@ -0,0 +1,1546 @@
+// lib/itinerary.ts
+import {
+  NO_MEAL_FILTER,
+  describeMealFilter,
+  hasMealFilter,
+  matchMeal,
+  mealKeywords,
+  strongerMatch,
+  type MealFilter,
+  type MealMatch,
+} from './diet';
+import { cumulativeLengthKm, formatAddressWithCity, haversineKm, runWithConcurrency, type LatLng } from './geo';
+import { withLodgingStays, type LodgingStay } from './lodging';
+import type { OpenStatus, WeeklyHours } from './opening-hours';
+import {
+  DEFAULT_PREFERENCES,
+  PACE_STOPS_PER_HALF_DAY,
+  hasInterestBias,
+  interestWeight,
+  isExcludedPlace,
+  lodgingPriceFit,
+  overBudgetPriceFit,
+  type TravelPreferences,
+} from './preferences';
+import { DEFAULT_REGION_PROFILE, type RegionProfile } from './regions';
+import type { PlaceType, PlacesSource, ReverseGeocoder, TravelMode } from './providers/types';
+import { adviceLang, type AdviceLang, type OutfitAdvice } from './weather-advice';
+import type { WeatherAlertSeverity } from './weather/types';
+
+/** ---------------- Types ---------------- */
+/** 蒐集 POI 的進度：已查完的取樣點數 / 取樣點總數 */
+export type HarvestProgress = (done: number, total: number) => void;
+
+export type HarvestOptions = {
+  /** 一定要取樣的點（例：中途停靠點） */
+  extraSamples?: LatLng[];
+  onProgress?: HarvestProgress;
+  preferences?: TravelPreferences;
+  /** 名單、keyword 與評分門檻 */
+  region?: RegionProfile;
+  /** 有飲食/料理條件時改用對應的 keyword 查餐廳，並標記每家的符合程度 */
+  meals?: MealFilter;
+};
+
+export type PlaceOut = {
+  name: string;
+  lat: number;
+  lng: number;
+  address?: string;
+  rating?: number;
+  user_ratings_total?: number;
+  place_id?: string;
+  _type: PlaceType;
+  city?: string;      // ex. ?啣?撣?/ 獢?撣?/ ?啣?撣?..
+  district?: string;  // ex. 靽∠儔? / 憭批??...
+  progress?: number;  // ?冽擃楝蝺????脤脣漲??0..1)
+  weeklyHours?: WeeklyHours;
+  /** 0（免費）… 4（非常昂貴）；OSM 的住宿依類型與星級估算 */
+  price_level?: number;
+  /** 有飲食/料理條件時，餐廳符合的把握 */
+  mealMatch?: MealMatch;
+};
+
+export type ScheduleSlot = 'breakfast' | 'morning' | 'lunch' | 'afternoon' | 'dinner' | 'evening' | 'lodging';
+export type SingleSlot = Exclude<ScheduleSlot, 'morning' | 'afternoon'>;
+
+/** 排程後的單一停留點；時間為當地時間 HH:MM */
+export type ScheduleStop = {
+  slot: ScheduleSlot;
+  place_id?: string;
+  name: string;
+  lat: number;
+  lng: number;
+  arrive: string;
+  depart?: string; // 住宿沒有離開時間
+  visitMin: number;
+  travelMin: number; // 自前一站（第 1 天第一站為 0）
+  travelKm: number;
+  openStatus: OpenStatus;
+};
+
+/** 當天目的地一帶的天氣摘要（出發日在預報範圍內才有） */
+export type DayWeather = {
+  condition: string; // OpenWeather main：Clear / Clouds / Rain…
+  description: string;
+  icon?: string;
+  tempMin: number;
+  tempMax: number;
+  pop: number; // 最高降水機率 0..1
+  rainMm: number;
+  windMax: number; // m/s
+  /** wet：雨雪天；hot：酷熱；兩者都會把戶外景點換成室內 */
+  kind: 'wet' | 'hot' | 'fair';
+  outfitAdvice: string;
+  /** 結構化的穿著建議（層數、攜帶物品、濕度/紫外線提醒） */
+  outfit?: OutfitAdvice;
+};
+
+/** 當天有停留點落在生效中的警特報（颱風、豪雨…）範圍內 */
+export type DayAlert = {
+  id: string;
+  event: string;
+  severity: WeatherAlertSeverity;
+  headline?: string;
+  start: string;
+  end?: string;
+  /** 範圍內的停留點名稱 */
+  stops: string[];
+  /** 附近沒排進行程的室內景點，供替換 */
+  indoorAlternatives: PlaceOut[];
+};
+
+/** 規劃時無法滿足的條件，例如附近沒有符合飲食條件的餐廳、預算內的旅館 */
+export type DayNotice = {
+  code: 'no_meal_match' | 'lodging_over_budget';
+  slot: SingleSlot;
+  message: string;
+};
+
+export type DaySlot = {
+  /** 前一晚住宿附近的早餐（第 1 天與附近沒有餐廳時沒有） */
+  breakfast?: PlaceOut;
+  morning: PlaceOut[];
+  lunch?: PlaceOut;
+  afternoon: PlaceOut[];
+  dinner?: PlaceOut;
+  /** 晚餐後的行程：夜市、觀景台、溫泉 */
+  evening?: PlaceOut;
+  lodging?: PlaceOut;
+  /** 這晚的住宿屬於哪一段連住 */
+  stay?: LodgingStay;
+  date?: string; // YYYY-MM-DD，有 startDate 時才有
+  schedule?: ScheduleStop[];
+  weather?: DayWeather;
+  alerts?: DayAlert[];
+  notices?: DayNotice[];
+};
+
+/** 鎖定的停留點：第幾天（0 起算）的哪個時段；上午/下午需指定 index */
+export type LockedStop = {
+  day: number;
+  slot: ScheduleSlot;
+  index?: number;
+};
+
+/** 單一停留點的時段（其餘時段為陣列） */
+export const SINGLE_SLOTS: SingleSlot[] = ['breakfast', 'lunch', 'dinner', 'evening', 'lodging'];
+
+export const DEFAULT_LANG = 'zh-TW';
+const NEAR_EQ_KM = 3;
+const SAMPLE_MIN = 6;
+const SAMPLE_MAX = 14;
+const SAMPLE_SEGMENT_KM = 45;
+const SAMPLE_DEDUP_KM = 5;
+const REVERSE_GEOCODE_CONCURRENCY = 4;
+const OSM_BASE_RATING = 4;
+const OSM_MIN_LANDMARK_PROMINENCE = 1;
+const ATTRACTION_KEYWORD_LIMIT = 1;
+const MAX_RESPONSE_POIS = 40;
+const MAX_RESPONSE_POLYLINE_POINTS = 120;
+export const LONG_HAUL_KM = 1200;
+export const INTERCITY_SUPPLEMENT_KM = 90;
+const LONG_HAUL_LOCAL_LAT_SPAN = 0.03;
+const LONG_HAUL_LOCAL_LNG_SPAN = 0.02;
+const MAX_POI_DIST_FROM_SAMPLE_KM = 15;
+const NEAR_DUP_KM = 0.35;
+/** 早餐只找前一晚住宿走路可到的餐廳 */
+const BREAKFAST_REACH_KM = 1.2;
+const HARD_NEAR_DUP_KM = 0.30;
+/** 各交通方式的每日節奏：同日相鄰兩點的最大距離、每天排幾個景點、隔天景點離旅館多遠才換旅館 */
+const TRAVEL_PACE: Record<TravelMode, { maxLegKm: number; attractionsPerDay: number; hotelSwitchKm: number }> = {
+  driving: { maxLegKm: 3.5, attractionsPerDay: 4, hotelSwitchKm: 25 },
+  transit: { maxLegKm: 2.5, attractionsPerDay: 4, hotelSwitchKm: 12 },
+  bicycling: { maxLegKm: 5, attractionsPerDay: 3, hotelSwitchKm: 10 },
+  walking: { maxLegKm: 1.5, attractionsPerDay: 3, hotelSwitchKm: 5 },
+};
+
+/** 每日景點數：偏好指定節奏時覆寫交通方式的預設 */
+function attractionsPerDayOf(mode: TravelMode, prefs: TravelPreferences) {
+  const perHalfDay = PACE_STOPS_PER_HALF_DAY[prefs.pace];
+  return perHalfDay ? perHalfDay * 2 : TRAVEL_PACE[mode].attractionsPerDay;
+}
+
+function hotelSwitchKmOf(mode: TravelMode, prefs: TravelPreferences) {
+  return prefs.hotelSwitchKm ?? TRAVEL_PACE[mode].hotelSwitchKm;
+}
+
+function centroidOf(pts: LatLng[]): LatLng {
+  return {
+    lat: pts.reduce((s, p) => s + p.lat, 0) / pts.length,
+    lng: pts.reduce((s, p) => s + p.lng, 0) / pts.length,
+  };
+}
+const ATTRACTION_TYPE_WHITELIST = new Set([
+  'tourist_attraction',
+  'museum',
+  'park',
+  'zoo',
+  'aquarium',
+  'place_of_worship',
+  'amusement_park',
+  'art_gallery',
+  'church',
+  'hindu_temple',
+  'mosque',
+  'synagogue',
+]);
+const FOOD_TYPE_WHITELIST = new Set([
+  'restaurant',
+  'cafe',
+  'meal_takeaway',
+  'meal_delivery',
+  'bakery',
+  'food',
+]);
+const ATTRACTION_BAD_PRIMARY_TYPES = new Set([
+  'lodging',
+  'restaurant',
+  'cafe',
+  'bar',
+  'night_club',
+  'shopping_mall',
+  'supermarket',
+  'store',
+]);
+/** ?游??暺????方??笑撱郊???拚尹???璅?蝑? */
+const ATTRACTION_TYPES: PlaceType[] = [
+  'tourist_attraction',
+  'park',
+  'museum',
+  'zoo',
+  'aquarium',
+  'place_of_worship',
+  'amusement_park',
+];
+/** 預設蒐集的景點類型；主題樂園只在偏好加重時另外查詢 */
+const HARVEST_ATTRACTION_TYPES = ATTRACTION_TYPES.filter(t => t !== 'amusement_park');
+
+/** 擗輒??摰蹂???銵??潸??閬?*/
+const FOOD_TYPES: PlaceType[] = ['restaurant'];
+const HOTEL_TYPES: PlaceType[] = ['lodging'];
+
+/** 靘楝蝺??璅??嚗蝔憭璅?蝔??喳???8-24 ??嚗????渲??? */
+function sampleAlongPathDynamic(path: LatLng[]) {
+  if (!path.length) return [];
+  const cum = cumulativeLengthKm(path);
+  const total = cum[cum.length - 1];
+  const n = Math.max(SAMPLE_MIN, Math.min(SAMPLE_MAX, Math.ceil(total / SAMPLE_SEGMENT_KM) + SAMPLE_MIN));
+  const positions: LatLng[] = [];
+  for (let i = 0; i < n; i++) {
+    const target = (i / Math.max(1, n - 1)) * total;
+    let j = 0;
+    while (j < cum.length && cum[j] < target) j++;
+    if (j === 0) positions.push(path[0]);
+    else if (j >= cum.length) positions.push(path[path.length - 1]);
+    else {
+      const t0 = cum[j - 1], t1 = cum[j];
+      const A = path[j - 1], B = path[j];
+      const r = t1 === t0 ? 0 : (target - t0) / (t1 - t0);
+      positions.push({ lat: A.lat + (B.lat - A.lat) * r, lng: A.lng + (B.lng - A.lng) * r });
+    }
+  }
+  const dedup: LatLng[] = [];
+  for (const p of positions) {
+    if (!dedup.some(q => haversineKm(p, q) < SAMPLE_DEDUP_KM)) dedup.push(p);
+  }
+  return dedup;
+}
+function dynamicRadiusMeters(totalKm: number) {
+  const base = Math.min(15000, Math.max(4000, Math.round(totalKm * 20)));
+  return base;
+}
+
+function scorePlace(p: any, distKm?: number) {
+  const proximity = typeof distKm === 'number' ? 1 / (1 + distKm / 6) : 1;
+  // OSM 沒有評分，改以 wikidata/wikipedia 等標籤估算知名度
+  if (p.source === 'osm') return OSM_BASE_RATING * (1 + (p.prominence || 0)) * proximity;
+  const rating = p.rating || 0;
+  const urt = p.user_ratings_total || 1;
+  const pop = Math.log10(urt + 1) + 1;
+  return rating * pop * proximity;
+}
+
+function canonicalPlaceType(p: any, fallback: PlaceType): PlaceType {
+  const types: string[] = Array.isArray(p?.types) ? p.types : [];
+  if (types.includes('lodging')) return 'lodging';
+  if (types.includes('restaurant') || types.includes('food') || types.includes('cafe') || types.includes('meal_takeaway')) return 'restaurant';
+  if (types.includes('aquarium')) return 'aquarium';
+  if (types.includes('museum') || types.includes('art_gallery')) return 'museum';
+  if (types.includes('zoo')) return 'zoo';
+  if (types.includes('amusement_park')) return 'amusement_park';
+  if (types.includes('park')) return 'park';
+  if (types.includes('place_of_worship') || types.includes('church') || types.includes('hindu_temple') || types.includes('mosque') || types.includes('synagogue')) return 'place_of_worship';
+  if (types.includes('tourist_attraction')) return 'tourist_attraction';
+  return fallback;
+}
+
+function hasAnyGoogleType(p: any, allow: Set<string>) {
+  if (!Array.isArray(p?.types)) return false;
+  return p.types.some((t: string) => allow.has(t));
+}
+
+/** 名單與門檻來自區域設定檔；偏好的 minRating / minReviews 再取代景點與餐廳的門檻 */
+function isQualifiedPlace(
+  p: any,
+  type: PlaceType,
+  distKm: number,
+  region: RegionProfile = DEFAULT_REGION_PROFILE,
+  prefs: TravelPreferences = DEFAULT_PREFERENCES
+) {
+  if (!p || !p.geometry?.location) return false;
+  if (p.business_status && p.business_status !== 'OPERATIONAL') return false;
+  if (distKm > MAX_POI_DIST_FROM_SAMPLE_KM) return false;
+
+  const effectiveType = canonicalPlaceType(p, type);
+  const name = String(p.name || '');
+  const types: string[] = Array.isArray(p.types) ? p.types : [];
+  const primaryType = types[0];
+  if (ATTRACTION_TYPES.includes(effectiveType) && region.attractionBlocklist.test(name)) return false;
+  if (region.businessBlocklist.test(name)) return false;
+  if (FOOD_TYPES.includes(effectiveType) && region.foodBlocklist.test(name)) return false;
+  if (FOOD_TYPES.includes(effectiveType) && region.hotelBrandBlocklist.test(name)) return false;
+  if (effectiveType === 'place_of_worship' && !region.worshipNames.test(name)) return false;
+  if (isExcludedPlace(prefs, effectiveType, name)) return false;
+  if (p.source === 'osm') return isQualifiedOsmPlace(p, effectiveType, region);
+
+  const rating = Number(p.rating || 0);
+  const reviews = Number(p.user_ratings_total || 0);
+  const th = region.thresholds;
+  const minRating = (fallback: number) => prefs.minRating ?? fallback;
+  const minReviews = (fallback?: number) => prefs.minReviews ?? fallback ?? 0;
+
+  if (ATTRACTION_TYPES.includes(effectiveType)) {
+    if (!hasAnyGoogleType(p, ATTRACTION_TYPE_WHITELIST)) return false;
+    if (primaryType && ATTRACTION_BAD_PRIMARY_TYPES.has(primaryType)) return false;
+    if (effectiveType === 'park' && region.parkBlocklist.test(name)) return false;
+    if (effectiveType === 'zoo' && region.zooBlocklist.test(name)) return false;
+    if (reviews < minReviews(th.typeReviews[effectiveType])) return false;
+    // 名稱不像知名景點的要更多評論；偏好加重的類別比照知名景點
+    const favored = region.priorityNames.test(name) || interestWeight(prefs, effectiveType, name) > 1;
+    if (!favored && reviews < minReviews(th.unlistedAttractionReviews)) return false;
+    return rating >= minRating(th.attractionRating) && reviews >= minReviews(th.attractionReviews);
+  }
+  if (FOOD_TYPES.includes(effectiveType)) {
+    if (!hasAnyGoogleType(p, FOOD_TYPE_WHITELIST)) return false;
+    if (types.includes('lodging')) return false;
+    return rating >= minRating(th.foodRating) && reviews >= minReviews(th.foodReviews);
+  }
+  if (HOTEL_TYPES.includes(effectiveType)) {
+    if (!types.includes('lodging')) return false;
+    return rating >= th.hotelRating && reviews >= th.hotelReviews;
+  }
+  return true;
+}
+
+/** OSM 元素沒有評分/評論數：地標類要求有 wikidata/wikipedia，其餘只要有名稱 */
+function isQualifiedOsmPlace(p: any, type: PlaceType, region: RegionProfile) {
+  const name = String(p.name || '');
+  if (!name) return false;
+  if (type === 'park' && region.parkBlocklist.test(name)) return false;
+  if (type === 'zoo' && region.zooBlocklist.test(name)) return false;
+  if (type === 'tourist_attraction' || type === 'park' || type === 'zoo') {
+    return (p.prominence || 0) >= OSM_MIN_LANDMARK_PROMINENCE;
+  }
+  return true;
+}
+
+/** ??result 頧? PlaceOut */
+function asPlaceOut(result: any, type: PlaceType, progress?: number): PlaceOut | undefined {
+  if (!result || !result.geometry?.location) return;
+  const loc = result.geometry.location;
+  const normalizedType = canonicalPlaceType(result, type);
+  const o: PlaceOut = {
+    name: result.name,
+    lat: loc.lat,
+    lng: loc.lng,
+    address: result.vicinity || result.formatted_address,
+    rating: result.rating,
+    user_ratings_total: result.user_ratings_total,
+    place_id: result.place_id,
+    _type: normalizedType,
+    progress,
+    weeklyHours: result.weeklyHours,
+    price_level: result.price_level,
+  };
+  return o;
+}
+
+/** 回傳「點 → 在路線上的進度 (0..1)」查詢函式；以抽樣的路線點找最近者 */
+function pathProgressLookup(path: LatLng[]) {
+  const cum = cumulativeLengthKm(path);
+  const total = cum[cum.length - 1];
+  const stride = Math.max(1, Math.floor(path.length / 220));
+  const lookupIdx: number[] = [];
+  for (let i = 0; i < path.length; i += stride) lookupIdx.push(i);
+  if (lookupIdx[lookupIdx.length - 1] !== path.length - 1) lookupIdx.push(path.length - 1);
+
+  return (pt: LatLng, fromIdx = 0) => {
+    let best = Infinity;
+    let bestIdx = fromIdx;
+    for (const idx of lookupIdx) {
+      if (idx < fromIdx) continue;
+      const d = haversineKm(pt, path[idx]);
+      if (d < best) {
+        best = d;
+        bestIdx = idx;
+      }
+    }
+    const prog = cum[bestIdx] / (total || 1);
+    return { progress: Math.max(0, Math.min(1, prog)), index: bestIdx };
+  };
+}
+
+/** 各停靠點在路線上的進度；依序往後找，避免環狀路線（起訖同地）把終點對到起點 */
+export function stopProgressAlongPath(path: LatLng[], stops: LatLng[]): number[] {
+  if (!path.length) return stops.map(() => 0);
+  const lookup = pathProgressLookup(path);
+  let fromIdx = 0;
+  return stops.map((s, i) => {
+    if (i === 0) return 0;
+    if (i === stops.length - 1) return 1;
+    const hit = lookup(s, fromIdx);
+    fromIdx = hit.index;
+    return hit.progress;
+  });
+}
+
+/** ???頝舐??脣漲????憭見?? POI ??嚗 attractions/food/hotel嚗?*/
+export async function harvestPOIsAlongPath(
+  path: LatLng[],
+  lang: string,
+  source: PlacesSource,
+  {
+    extraSamples = [],
+    onProgress,
+    preferences: prefs = DEFAULT_PREFERENCES,
+    region = DEFAULT_REGION_PROFILE,
+    meals = NO_MEAL_FILTER,
+  }: HarvestOptions = {}
+) {
+  const samples = sampleAlongPathDynamic(path);
+  // 停靠點本身一定要取樣，避免均分取樣剛好跳過中途城市
+  for (const p of extraSamples) {
+    if (!samples.some(q => haversineKm(p, q) < SAMPLE_DEDUP_KM)) samples.push(p);
+  }
+  const totalKm = haversineKm(path[0], path[path.length - 1]);
+  const radius = dynamicRadiusMeters(totalKm);
+
+  const lookup = pathProgressLookup(path);
+  const progressOf = (pt: LatLng) => lookup(pt).progress;
+
+  const byId = new Map<string, { item: PlaceOut; score: number }>();
+  const interestBias = hasInterestBias(prefs);
+  const attractionTypes = (prefs.interests.theme_parks ?? 1) > 1 ? ATTRACTION_TYPES : HARVEST_ATTRACTION_TYPES;
+
+  const ingest = (arr: any[], type: PlaceType, sample: LatLng, boost = 1, viaMealKeyword = false) => {
+    for (const p of arr) {
+      const id = p.place_id as string | undefined;
+      if (!id || !p.geometry?.location) continue;
+      const point = { lat: p.geometry.location.lat, lng: p.geometry.location.lng };
+      const distKm = haversineKm(sample, point);
+      if (!isQualifiedPlace(p, type, distKm, region, prefs)) continue;
+      let qualityMul = 1;
+      const nm = String(p.name || '');
+      if (ATTRACTION_TYPES.includes(type)) {
+        // 有興趣偏好時以偏好權重取代知名景點的固定加權
+        if (!interestBias && region.priorityNames.test(nm)) qualityMul *= 1.15;
+        if (region.deprioritizeNames.test(nm)) qualityMul *= 0.8;
+      }
+      if (interestBias) qualityMul *= interestWeight(prefs, canonicalPlaceType(p, type), nm);
+      const sc = scorePlace(p, distKm) * boost * qualityMul;
+      const item = asPlaceOut(p, type, progressOf(point));
+      if (!item) continue;
+      const cur = byId.get(id);
+      if (FOOD_TYPES.includes(type)) {
+        item.mealMatch = strongerMatch(cur?.item.mealMatch, matchMeal(p, meals, viaMealKeyword));
+        if (cur) cur.item.mealMatch = item.mealMatch;
+      }
+      if (!cur || sc > cur.score) byId.set(id, { item, score: sc });
+    }
+  };
+
+  const tasks: Array<() => Promise<void>> = [];
+  const taskSample: number[] = [];
+  const addTask = (si: number, run: () => Promise<void>) => {
+    tasks.push(run);
+    taskSample.push(si);
+  };
+
+  for (let si = 0; si < samples.length; si++) {
+    const s = samples[si];
+    for (const t of attractionTypes) {
+      addTask(si, async () => {
+        const arr = await source.nearby({ center: s, radiusM: radius, type: t, lang });
+        ingest(arr, t, s);
+      });
+
+      if (source.supportsKeyword && si % 2 === 0) {
+        for (const kw of region.attractionKeywords.slice(0, ATTRACTION_KEYWORD_LIMIT)) {
+          addTask(si, async () => {
+            const arr2 = await source.nearby({ center: s, radiusM: Math.round(radius * 0.8), type: t, keyword: kw, lang });
+            ingest(arr2, t, s, 1.05);
+          });
+        }
+      }
+    }
+
+    // 夜市、溫泉多半只標成 tourist_attraction，另外用 keyword 查
+    if (source.supportsKeyword && si % 2 === 0) {
+      for (const kw of region.eveningKeywords) {
+        addTask(si, async () => {
+          const arr = await source.nearby({ center: s, radiusM: Math.round(radius * 0.8), type: 'tourist_attraction', keyword: kw, lang });
+          ingest(arr, 'tourist_attraction', s);
+        });
+      }
+    }
+  }
+
+  for (let si = 0; si < samples.length; si++) {
+    const s = samples[si];
+    for (const t of FOOD_TYPES) {
+      addTask(si, async () => {
+        const arr = await source.nearby({ center: s, radiusM: Math.max(3500, Math.round(radius * 0.6)), type: t, lang });
+        ingest(arr, t, s);
+      });
+      if (!source.supportsKeyword) continue;
+      // 有飲食/料理條件時只查符合條件的 keyword，不再查一般的在地美食
+      const mealKw = mealKeywords(meals);
+      for (const kw of mealKw.length ? mealKw : region.foodKeywords) {
+        addTask(si, async () => {
+          const arr2 = await source.nearby({ center: s, radiusM: Math.max(3000, Math.round(radius * 0.5)), type: t, keyword: kw, lang });
+          ingest(arr2, t, s, 1.03, mealKw.length > 0);
+        });
+      }
+    }
+  }
+
+  for (let si = 0; si < samples.length; si++) {
+    const s = samples[si];
+    for (const t of HOTEL_TYPES) {
+      addTask(si, async () => {
+        const arr = await source.nearby({ center: s, radiusM: Math.max(5000, Math.round(radius * 0.6)), type: t, lang });
+        ingest(arr, t, s);
+      });
+    }
+  }
+
+  // 每個取樣點的查詢都完成才算一個
+  const pending = samples.map(() => 0);
+  taskSample.forEach(si => pending[si]++);
+  let samplesDone = pending.filter(n => n === 0).length;
+  onProgress?.(samplesDone, samples.length);
+  const tracked = tasks.map((task, i) => async () => {
+    try {
+      await task();
+    } finally {
+      if (--pending[taskSample[i]] === 0) onProgress?.(++samplesDone, samples.length);
+    }
+  });
+  await runWithConcurrency(tracked, source.concurrency);
+
+  const pois = Array.from(byId.values())
+    .sort((a, b) => {
+      const pa = a.item.progress ?? 0;
+      const pb = b.item.progress ?? 0;
+      return pa - pb || b.score - a.score;
+    })
+    .map(x => x.item);
+
+  const seen = new Set<string>();
+  const clean: PlaceOut[] = [];
+  for (const p of pois) {
+    const k = `${(p.name || '').trim()}@${(p.address || '').slice(0, 24)}`;
+    if (seen.has(k)) continue;
+    seen.add(k);
+    clean.push(p);
+  }
+  return clean;
+}
+/**
+ * 多點行程的每日進度區間：天數依各段距離比例分配，每段的最後一天止於停靠點。
+ * 分不到天數的短段併入下一段的第一天。
+ */
+export function stopAlignedDayBands(stopProgress: number[], days: number): Array<[number, number]> {
+  const legs = stopProgress.slice(1).map((p, i) => Math.max(0, p - stopProgress[i]));
+  const total = legs.reduce((s, x) => s + x, 0) || 1;
+  const quota = legs.map(len => (len / total) * days);
+  const alloc = quota.map(Math.floor);
+  let remaining = days - alloc.reduce((s, x) => s + x, 0);
+  const byRemainder = quota.map((q, i) => ({ i, r: q - Math.floor(q) })).sort((a, b) => b.r - a.r);
+  for (const { i } of byRemainder) {
+    if (remaining <= 0) break;
+    alloc[i]++;
+    remaining--;
+  }
+
+  const bands: Array<[number, number]> = [];
+  let cursor = 0;
+  legs.forEach((len, i) => {
+    const n = alloc[i];
+    if (!n) return;
+    const legStart = stopProgress[i];
+    for (let k = 0; k < n; k++) {
+      const start = k === 0 ? cursor : legStart + (k / n) * len;
+      const end = legStart + ((k + 1) / n) * len;
+      bands.push([start, end]);
+      cursor = end;
+    }
+  });
+  if (bands.length) bands[bands.length - 1][1] = 1;
+  return bands;
+}
+
+export type ItineraryOptions = {
+  /** 每日的路線進度區間；未指定則均分 */
+  dayBands?: Array<[number, number]>;
+  mode?: TravelMode;
+  /** 興趣權重決定同一路段內的挑選順序，節奏決定每日景點數 */
+  preferences?: TravelPreferences;
+  /** 名稱黑名單與判斷重複景點用的別名、停用字 */
+  region?: RegionProfile;
+  /** 三餐只挑符合的餐廳；附近沒有時留空並加上 notices */
+  meals?: MealFilter;
+  /** notices 文字的語言（依 adviceLang 對應） */
+  noticeLang?: string;
+  /** 接在別段行程後面時，前一晚的住宿（第一天的早餐從這裡挑） */
+  prevLodging?: PlaceOut;
+  /** 已排進別段行程的停留點；其中的餐廳與晚上行程不再重複挑 */
+  avoid?: PlaceOut[];
+};
+
+export function buildAgencyStyleItinerary(
+  pois: PlaceOut[],
+  days: number,
+  {
+    dayBands,
+    mode = 'driving',
+    preferences: prefs = DEFAULT_PREFERENCES,
+    region = DEFAULT_REGION_PROFILE,
+    meals = NO_MEAL_FILTER,
+    noticeLang,
+    prevLodging,
+    avoid = [],
+  }: ItineraryOptions = {}
+): DaySlot[] {
+  const { maxLegKm } = TRAVEL_PACE[mode];
+  const switchKm = hotelSwitchKmOf(mode, prefs);
+  const attractionsPerDay = attractionsPerDayOf(mode, prefs);
+  const morningCount = Math.ceil(attractionsPerDay / 2);
+  const afternoonCount = attractionsPerDay - morningCount;
+  const itinerary: DaySlot[] = Array.from({ length: days }, () => ({ morning: [], afternoon: [] }));
+  const idOf = (p: PlaceOut) => p.place_id || `${p.name}@${p.lat.toFixed(5)},${p.lng.toFixed(5)}`;
+  const normName = (s?: string) => (s || '').toLowerCase().replace(/[^a-z0-9\u4e00-\u9fff]+/g, '');
+  const attractionGroupKey = (p: PlaceOut) => {
+    const baseName = region.nameAliases.reduce((n, [re, group]) => n.replace(re, group), normName(p.name));
+    const n = baseName.replace(region.groupStopwords, '');
+    return n.slice(0, 12) || baseName.slice(0, 12);
+  };
+  const addressKey = (p: PlaceOut) => {
+    const s = (p.address || '')
+      .toLowerCase()
+      .replace(/\d+/g, '')
+      .replace(region.addressStopwords, '')
+      .replace(/[^a-z\u00c0-\u024f\u4e00-\u9fff]+/g, '');
+    return s.slice(0, 18);
+  };
+  const similarAttraction = (a: PlaceOut, b: PlaceOut) => {
+    const na = normName(a.name), nb = normName(b.name);
+    const nameClose = !!na && !!nb && (na.includes(nb) || nb.includes(na));
+    const km = haversineKm({ lat: a.lat, lng: a.lng }, { lat: b.lat, lng: b.lng });
+    if (km <= HARD_NEAR_DUP_KM) return true;
+    const aa = addressKey(a);
+    const bb = addressKey(b);
+    if (km <= 0.8 && aa && bb && aa === bb) return true;
+    if (km <= 0.8 && attractionGroupKey(a) === attractionGroupKey(b)) return true;
+    return km <= NEAR_DUP_KM && nameClose;
+  };
+
+  const weightOf = (p: PlaceOut) => interestWeight(prefs, p._type, p.name);
+  const sights = pois.filter(p => ATTRACTION_TYPES.includes(p._type as any) && !isExcludedPlace(prefs, p._type, p.name));
+  // 夜市、觀景台、溫泉留給晚上
+  const isEveningSpot = (p: PlaceOut) => region.eveningNames.test(p.name || '');
+  const eveningSpots = sights.filter(isEveningSpot);
+  const attractions = sights
+    .filter(p => !isEveningSpot(p))
+    .sort((a, b) => (a.progress ?? 0) - (b.progress ?? 0) || (b.rating ?? 0) - (a.rating ?? 0));
+  // 偏好加重的類別先挑；同權重維持路線進度順序
+  if (hasInterestBias(prefs)) attractions.sort((a, b) => weightOf(b) - weightOf(a));
+  // 越重視美食，用餐越願意為了高評分多走一點
+  const foodReachKm = 6 * Math.max(0.5, prefs.interests.food ?? 1);
+  const restaurantKey = (p: PlaceOut) => {
+    const core = normName(p.name)
+      .replace(region.restaurantStopwords, '')
+      .slice(0, 16) || normName(p.name).slice(0, 16);
+    return `${core}@${p.lat.toFixed(3)},${p.lng.toFixed(3)}`;
+  };
+  const mealFiltered = hasMealFilter(meals);
+  const mealConfidence = (p: PlaceOut) => (mealFiltered ? p.mealMatch?.confidence ?? 0 : 1);
+  const restaurantsRaw = pois
+    .filter(p => FOOD_TYPES.includes(p._type as any))
+    .filter(p => !region.foodBlocklist.test(p.name || ''))
+    .filter(p => mealConfidence(p) > 0);
+  const restaurants = (() => {
+    const sorted = [...restaurantsRaw].sort((a, b) => (b.rating || 0) - (a.rating || 0));
+    const m = new Map<string, PlaceOut>();
+    for (const r of sorted) {
+      const k = restaurantKey(r);
+      if (!m.has(k)) m.set(k, r);
+    }
+    return Array.from(m.values());
+  })();
+  const hotels = pois.filter(p => HOTEL_TYPES.includes(p._type as any));
+  const allowCrossDayRepeat = attractions.length < days * 2;
+
+  const usedAttractions = new Set<string>();
+  const usedAttractionSpots: PlaceOut[] = [];
+  const usedRestaurants = new Set<string>();
+  const usedRestaurantKeys = new Set<string>();
+  const usedHotels = new Set<string>();
+  for (const p of avoid) {
+    if (!FOOD_TYPES.includes(p._type as any)) continue;
+    usedRestaurants.add(idOf(p));
+    usedRestaurantKeys.add(restaurantKey(p));
+  }
+
+  /** 還沒用過的餐廳中，評分高且離 anchor 近者；anyDistance 時不限 reachKm */
+  const pickRestaurant = (anchor: LatLng, reachKm: number, anyDistance = false) => {
+    let best: PlaceOut | undefined;
+    let bestScore = -1;
+    for (const r of restaurants) {
+      if (usedRestaurants.has(idOf(r)) || usedRestaurantKeys.has(restaurantKey(r))) continue;
+      const distKm = haversineKm(anchor, { lat: r.lat, lng: r.lng });
+      if (!anyDistance && distKm > reachKm) continue;
+      const sc = ((r.rating || 0) * mealConfidence(r)) / (1 + distKm / reachKm);
+      if (sc > bestScore) {
+        bestScore = sc;
+        best = r;
+      }
+    }
+    if (best) {
+      usedRestaurants.add(idOf(best));
+      usedRestaurantKeys.add(restaurantKey(best));
+    }
+    return best;
+  };
+
+  const pickAttractions = (candidates: PlaceOut[], need: number, dayPicked: Set<string>, dayItems: PlaceOut[]) => {
+    const out: PlaceOut[] = [];
+
+    for (const p of candidates) {
+      if (out.length >= need) break;
+      const id = idOf(p);
+      if (dayPicked.has(id) || usedAttractions.has(id)) continue;
+      if (!allowCrossDayRepeat && usedAttractionSpots.some(x => similarAttraction(x, p))) continue;
+      if ([...dayItems, ...out].some(x => similarAttraction(x, p))) continue;
+      out.push(p);
+      dayPicked.add(id);
+      usedAttractions.add(id);
+      usedAttractionSpots.push(p);
+    }
+
+    for (const p of candidates) {
+      if (out.length >= need) break;
+      const id = idOf(p);
+      if (dayPicked.has(id)) continue;
+      if (!allowCrossDayRepeat && usedAttractions.has(id)) continue;
+      if (!allowCrossDayRepeat && usedAttractionSpots.some(x => similarAttraction(x, p))) continue;
+      if ([...dayItems, ...out].some(x => similarAttraction(x, p))) continue;
+      out.push(p);
+      dayPicked.add(id);
+      usedAttractionSpots.push(p);
+    }
+    return out;
+  };
+
+  for (let d = 0; d < days; d++) {
+    const [start, end] = dayBands?.[d] || [d / days, (d + 1) / days];
+    const bucket = attractions.filter(p => {
+      const pr = p.progress ?? 0;
+      return pr >= start - 0.08 && pr <= end + 0.08;
+    });
+    const pool = bucket.length ? bucket : attractions;
+
+    const dayPicked = new Set<string>();
+    itinerary[d].morning = pickAttractions(pool, morningCount, dayPicked, []);
+    if (itinerary[d].morning.length < morningCount) {
+      itinerary[d].morning = itinerary[d].morning.concat(
+        pickAttractions(attractions, morningCount - itinerary[d].morning.length, dayPicked, itinerary[d].morning)
+      );
+    }
+
+    itinerary[d].afternoon = pickAttractions(pool, afternoonCount, dayPicked, itinerary[d].morning);
+    if (itinerary[d].afternoon.length < afternoonCount) {
+      const dayItems = [...itinerary[d].morning, ...itinerary[d].afternoon];
+      itinerary[d].afternoon = itinerary[d].afternoon.concat(
+        pickAttractions(attractions, afternoonCount - itinerary[d].afternoon.length, dayPicked, dayItems)
+      );
+    }
+
+    const pts = [...itinerary[d].morning, ...itinerary[d].afternoon];
+    if (pts.length) {
+      const cx = pts.reduce((s, p) => s + p.lat, 0) / pts.length;
+      const cy = pts.reduce((s, p) => s + p.lng, 0) / pts.length;
+      const center = { lat: cx, lng: cy };
+      // 有飲食條件時不退而求其次挑遠處的餐廳，留空由 notices 說明
+      const lunch = pickRestaurant(center, foodReachKm) || (mealFiltered ? undefined : pickRestaurant(center, foodReachKm, true));
+      if (lunch) itinerary[d].lunch = lunch;
+    }
+  }
+
+  /** 評分高、離 anchor 近的旅館：先找沒住過且在預算內的，再放寬到住過的，最後才超出預算 */
+  const pickHotel = (anchor: LatLng) => {
+    let best: PlaceOut | undefined;
+    let bestScore = -1;
+    for (const pass of [0, 1, 2]) {
+      for (const h of hotels) {
+        const fit = lodgingPriceFit(prefs, h.price_level);
+        if (pass < 2 && fit === 0) continue;
+        if (pass === 0 && usedHotels.has(idOf(h))) continue;
+        const sc = ((h.rating || 0) * (fit || overBudgetPriceFit(prefs, h.price_level))) / (1 + haversineKm(anchor, h) / 6);
+        if (sc > bestScore) {
+          bestScore = sc;
+          best = h;
+        }
+      }
+      if (best) break;
+    }
+    if (best) usedHotels.add(idOf(best));
+    return best;
+  };
+
+  // 住宿：當晚最後一站與隔天的景點都離旅館 switchKm 內就續住，否則換一間；
+  // 換旅館時往後看，把景點都在 switchKm 內的連續幾晚當成同一個據點挑旅館。
+  // 隔天就要移到別區的那晚只看當天最後一站，不挑在兩區中間的旅館
+  const lastSightOf = (day: DaySlot) => day.afternoon[day.afternoon.length - 1] || day.morning[day.morning.length - 1];
+  const nightReach = (d: number): PlaceOut[] => {
+    const last = lastSightOf(itinerary[d]);
+    if (!last) return [];
+    const next = itinerary[d + 1];
+    return [last, ...(next ? [...next.morning, ...next.afternoon] : [])];
+  };
+  const spreadOut = (pts: LatLng[]) => {
+    const center = centroidOf(pts);
+    return pts.some(p => haversineKm(center, p) > switchKm);
+  };
+  /** 第 from 到 to - 1 晚依序挑據點；base 是前一晚的旅館，還在範圍內就續住 */
+  const assignHotelBases = (from: number, to: number, base?: PlaceOut) => {
+    for (let d = from; d < to; d++) {
+      const reach = nightReach(d);
+      if (!reach.length) continue;
+      const stayFor = spreadOut(reach) ? reach.slice(0, 1) : reach;
+      if (!base || stayFor.some(p => haversineKm(base!, p) > switchKm)) {
+        let pts: LatLng[] = stayFor;
+        for (let e = d + 1; e < to; e++) {
+          const more = [...pts, ...nightReach(e)];
+          if (spreadOut(more)) break;
+          pts = more;
+        }
+        base = pickHotel(centroidOf(pts)) || base;
+      }
+      if (base) itinerary[d].lodging = base;
+    }
+  };
+  assignHotelBases(0, days);
+
+  const usedAttractionGroupFinal = new Set<string>();
+  const usedLunchKeysFinal = new Set<string>();
+  const isBadAttractionName = (name?: string) => region.attractionBlocklist.test(String(name || '')) || region.zooBlocklist.test(String(name || ''));
+  const dedupAttractionList = (seed: PlaceOut[], fallback: PlaceOut[], deny: PlaceOut[] = [], need = 2) => {
+    const out: PlaceOut[] = [];
+    const denyAll = [...deny];
+    const tryPush = (p: PlaceOut) => {
+      if (out.length >= need) return;
+      if (isBadAttractionName(p.name)) return;
+      const gk = attractionGroupKey(p);
+      if (usedAttractionGroupFinal.has(gk)) return;
+      if (out.some(x => similarAttraction(x, p))) return;
+      if (denyAll.some(x => similarAttraction(x, p))) return;
+      out.push(p);
+      usedAttractionGroupFinal.add(gk);
+    };
+    for (const p of seed) tryPush(p);
+    for (const p of fallback) tryPush(p);
+    return out;
+  };
+
+  const legKm = (a?: PlaceOut, b?: PlaceOut) =>
+    a && b ? haversineKm({ lat: a.lat, lng: a.lng }, { lat: b.lat, lng: b.lng }) : 0;
+
+  const pickNearbyAttraction = (anchor: PlaceOut, deny: PlaceOut[] = []) => {
+    let best: PlaceOut | undefined;
+    let bestScore = -1;
+    for (const p of attractions) {
+      if (isBadAttractionName(p.name)) continue;
+      if (usedAttractionGroupFinal.has(attractionGroupKey(p))) continue;
+      if (deny.some(x => similarAttraction(x, p))) continue;
+      const dist = legKm(anchor, p);
+      if (dist <= 0 || dist > maxLegKm) continue;
+      const score = ((p.rating || 0) * weightOf(p)) / (1 + dist / 2.2);
+      if (score > bestScore) {
+        bestScore = score;
+        best = p;
+      }
+    }
+    if (best) usedAttractionGroupFinal.add(attractionGroupKey(best));
+    return best;
+  };
+
+  /** 半天內相鄰兩站超過 maxLegKm 時，把後一站換成前一站附近的景點 */
+  const repairLegs = (list: PlaceOut[], others: PlaceOut[]) => {
+    for (let i = 1; i < list.length; i++) {
+      if (legKm(list[i - 1], list[i]) <= maxLegKm) continue;
+      const repl = pickNearbyAttraction(list[i - 1], [...list.filter((_, j) => j !== i), ...others]);
+      if (repl) list[i] = repl;
+    }
+  };
+
+  const pickNearbyRestaurant = (anchor: PlaceOut) => {
+    let best: PlaceOut | undefined;
+    let bestScore = -1;
+    for (const r of restaurants) {
+      const k = restaurantKey(r);
+      if (usedLunchKeysFinal.has(k)) continue;
+      const dist = legKm(anchor, r);
+      if (dist <= 0 || dist > maxLegKm) continue;
+      const score = (r.rating || 0) / (1 + dist / 2.2);
+      if (score > bestScore) {
+        bestScore = score;
+        best = r;
+      }
+    }
+    return best;
+  };
+
+  for (let d = 0; d < days; d++) {
+    const day = itinerary[d];
+    day.morning = dedupAttractionList(day.morning, attractions, [], morningCount);
+    day.afternoon = dedupAttractionList(day.afternoon, attractions, day.morning, afternoonCount);
+
+    if (d > 0 && itinerary[d - 1].lodging && day.morning[0] && legKm(itinerary[d - 1].lodging, day.morning[0]) > maxLegKm) {
+      const repl = pickNearbyAttraction(itinerary[d - 1].lodging, [...day.morning.slice(1), ...day.afternoon]);
+      if (repl) day.morning[0] = repl;
+    }
+
+    repairLegs(day.morning, day.afternoon);
+
+    const lunchAnchor = day.morning[day.morning.length - 1] || day.afternoon[0];
+    if (day.lunch) {
+      const k = restaurantKey(day.lunch);
+      const badFood = region.foodBlocklist.test(day.lunch.name || '') || region.hotelBrandBlocklist.test(day.lunch.name || '');
+      if (badFood || usedLunchKeysFinal.has(k) || (lunchAnchor && legKm(lunchAnchor, day.lunch) > maxLegKm)) {
+        day.lunch = undefined;
+      }
+    }
+    if (!day.lunch && lunchAnchor) {
+      const repl = pickNearbyRestaurant(lunchAnchor);
+      if (repl) day.lunch = repl;
+    }
+    if (day.lunch) usedLunchKeysFinal.add(restaurantKey(day.lunch));
+
+    const aftAnchor = day.lunch || day.morning[day.morning.length - 1];
+    if (aftAnchor && day.afternoon[0] && legKm(aftAnchor, day.afternoon[0]) > maxLegKm) {
+      const repl = pickNearbyAttraction(aftAnchor, [...day.morning, day.afternoon[1]].filter(Boolean) as PlaceOut[]);
+      if (repl) day.afternoon[0] = repl;
+    }
+    repairLegs(day.afternoon, day.morning);
+  }
+
+  // 景點換過後有一晚離旅館太遠：連住同一間的那幾晚整段重挑據點，不只換那一晚
+  for (let d = 0; d < days; d++) {
+    const hotel = itinerary[d].lodging;
+    const last = lastSightOf(itinerary[d]);
+    if (!hotel || !last || legKm(last, hotel) <= switchKm) continue;
+    let from = d;
+    let to = d + 1;
+    while (from > 0 && itinerary[from - 1].lodging === hotel) from--;
+    while (to < days && itinerary[to].lodging === hotel) to++;
+    for (let i = from; i < to; i++) itinerary[i].lodging = undefined;
+    assignHotelBases(from, to, itinerary[from - 1]?.lodging);
+    d = to - 1;
+  }
+
+  // 晚上行程、晚餐與早餐：白天景點、午餐與住宿都定案後才挑
+  const usedEveningGroups = new Set(avoid.filter(isEveningSpot).map(attractionGroupKey));
+  const pickEveningSpot = (anchor: PlaceOut) => {
+    let best: PlaceOut | undefined;
+    let bestScore = -1;
+    for (const p of eveningSpots) {
+      if (isBadAttractionName(p.name) || usedEveningGroups.has(attractionGroupKey(p))) continue;
+      // 晚上只排一站，可以比白天相鄰兩點多跑一段
+      const dist = legKm(anchor, p);
+      if (dist > maxLegKm * 2) continue;
+      const score = ((p.rating || 0) * weightOf(p)) / (1 + dist / 2.2);
+      if (score > bestScore) {
+        bestScore = score;
+        best = p;
+      }
+    }
+    if (best) usedEveningGroups.add(attractionGroupKey(best));
+    return best;
+  };
+
+  for (const day of itinerary) {
+    if (!day.lunch) continue;
+    usedRestaurants.add(idOf(day.lunch));
+    usedRestaurantKeys.add(restaurantKey(day.lunch));
+  }
+  for (let d = 0; d < days; d++) {
+    const day = itinerary[d];
+    const lastSight = day.afternoon[day.afternoon.length - 1] || day.morning[day.morning.length - 1];
+    if (lastSight) {
+      day.evening = pickEveningSpot(lastSight);
+      day.dinner = pickRestaurant(day.evening || lastSight, foodReachKm);
+    }
+    const prevStay = d ? itinerary[d - 1].lodging : prevLodging;
+    if (prevStay) day.breakfast = pickRestaurant(prevStay, BREAKFAST_REACH_KM);
+    day.notices = dayNotices(day, meals, prefs, adviceLang(noticeLang));
+  }
+  return withLodgingStays(itinerary);
+}
+
+const MEAL_LABELS: Record<'lunch' | 'dinner', Record<AdviceLang, string>> = {
+  lunch: { 'zh-TW': '午餐', 'zh-CN': '午餐', en: 'lunch', ja: '昼食' },
+  dinner: { 'zh-TW': '晚餐', 'zh-CN': '晚餐', en: 'dinner', ja: '夕食' },
+};
+
+/** {filter} 代入用餐條件，{meal} 代入餐別 */
+const NO_MEAL_MATCH_TEXT: Record<AdviceLang, string> = {
+  'zh-TW': '附近找不到符合條件（{filter}）的餐廳，{meal}請自行安排',
+  'zh-CN': '附近找不到符合条件（{filter}）的餐厅，{meal}请自行安排',
+  en: 'No restaurant nearby matches your filters ({filter}), so please arrange {meal} yourself',
+  ja: '近くに条件（{filter}）に合うレストランがありません。{meal}は各自で手配してください',
+};
+
+/** 有飲食/料理條件卻排不到午餐或晚餐的提醒；早餐本來就不一定有，不提醒 */
+function mealNotices(day: DaySlot, meals: MealFilter, lang: AdviceLang): DayNotice[] | undefined {
+  if (!hasMealFilter(meals) || (!day.morning.length && !day.afternoon.length)) return undefined;
+  const out = (['lunch', 'dinner'] as const)
+    .filter(slot => !day[slot])
+    .map((slot): DayNotice => ({
+      code: 'no_meal_match',
+      slot,
+      message: NO_MEAL_MATCH_TEXT[lang].replace('{filter}', describeMealFilter(meals, lang)).replace('{meal}', MEAL_LABELS[slot][lang]),
+    }));
+  return out.length ? out : undefined;
+}
+
+/** {hotel} 代入旅館名稱 */
+const LODGING_OVER_BUDGET_TEXT: Record<AdviceLang, string> = {
+  'zh-TW': '附近沒有每晚預算內的旅館，{hotel} 超出預算',
+  'zh-CN': '附近没有每晚预算内的酒店，{hotel} 超出预算',
+  en: 'No hotel nearby fits your nightly budget, so {hotel} is over budget',
+  ja: '近くに1泊の予算内のホテルがないため、{hotel}は予算オーバーです',
+};
+
+/** 預算內沒有旅館、只好住超出預算的提醒 */
+function lodgingNotice(day: DaySlot, prefs: TravelPreferences, lang: AdviceLang): DayNotice | undefined {
+  if (!day.lodging || lodgingPriceFit(prefs, day.lodging.price_level) > 0) return undefined;
+  return {
+    code: 'lodging_over_budget',
+    slot: 'lodging',
+    message: LODGING_OVER_BUDGET_TEXT[lang].replace('{hotel}', day.lodging.name),
+  };
+}
+
+function dayNotices(day: DaySlot, meals: MealFilter, prefs: TravelPreferences, lang: AdviceLang): DayNotice[] | undefined {
+  const out = [...(mealNotices(day, meals, lang) || []), lodgingNotice(day, prefs, lang)].filter(Boolean);
+  return out.length ? out : undefined;
+}
+
+export async function enrichChosenPOIsWithCity(itinerary: DaySlot[], all: PlaceOut[], reverseGeocoder: ReverseGeocoder, lang = DEFAULT_LANG) {
+
+  const chosenIds = new Set<string>();
+  itinerary.forEach(day => {
+    dayStops(day).forEach(p => {
+      if (p.place_id) chosenIds.add(p.place_id);
+    });
+  });
+
+  const idToPoi = new Map<string, PlaceOut>();
+  for (const p of all) if (p.place_id) idToPoi.set(p.place_id, p);
+
+  const geoCache = new Map<string, Promise<{ city?: string; district?: string; formatted: string }>>();
+  const reverseCached = (lat: number, lng: number) => {
+    const key = `${lat.toFixed(5)},${lng.toFixed(5)}`;
+    const hit = geoCache.get(key);
+    if (hit) return hit;
+    const req = reverseGeocoder.reverseGeocode({ lat, lng }, lang);
+    geoCache.set(key, req);
+    return req;
+  };
+
+  const tasks = Array.from(chosenIds).map(id => async () => {
+    const p = idToPoi.get(id);
+    if (!p || p.city) return; // 重排時沿用上次已補的城市
+    try {
+      const rev = await reverseCached(p.lat, p.lng);
+      p.city = rev.city;
+      p.district = rev.district;
+      p.address = formatAddressWithCity(p.address, rev.city, rev.district);
+    } catch {
+      if (p.address) p.address = p.address.trim();
+    }
+  });
+
+  await runWithConcurrency(tasks, REVERSE_GEOCODE_CONCURRENCY);
+}
+export function toPolylineArray(path: LatLng[], maxPoints = MAX_RESPONSE_POLYLINE_POINTS): [number, number][] {
+  if (!path.length) return [];
+  if (path.length <= maxPoints) return path.map(({ lat, lng }) => [lat, lng] as [number, number]);
+
+  const out: [number, number][] = [];
+  const step = (path.length - 1) / (maxPoints - 1);
+  for (let i = 0; i < maxPoints; i++) {
+    const idx = Math.min(path.length - 1, Math.round(i * step));
+    const p = path[idx];
+    out.push([p.lat, p.lng]);
+  }
+  return out;
+}
+
+function compactPlaceForResponse(p: PlaceOut): PlaceOut {
+  return {
+    name: p.name,
+    lat: Number(p.lat.toFixed(6)),
+    lng: Number(p.lng.toFixed(6)),
+    address: p.address?.slice(0, 80),
+    rating: p.rating,
+    user_ratings_total: p.user_ratings_total,
+    place_id: p.place_id,
+    _type: p._type,
+    city: p.city,
+    district: p.district,
+    progress: typeof p.progress === 'number' ? Number(p.progress.toFixed(4)) : undefined,
+    price_level: p.price_level,
+    mealMatch: p.mealMatch,
+  };
+}
+
+export function compactDaySlot(day: DaySlot): DaySlot {
+  return {
+    breakfast: day.breakfast ? compactPlaceForResponse(day.breakfast) : undefined,
+    morning: day.morning.map(compactPlaceForResponse),
+    lunch: day.lunch ? compactPlaceForResponse(day.lunch) : undefined,
+    afternoon: day.afternoon.map(compactPlaceForResponse),
+    dinner: day.dinner ? compactPlaceForResponse(day.dinner) : undefined,
+    evening: day.evening ? compactPlaceForResponse(day.evening) : undefined,
+    lodging: day.lodging ? compactPlaceForResponse(day.lodging) : undefined,
+    stay: day.stay,
+    date: day.date,
+    schedule: day.schedule,
+    weather: day.weather,
+    alerts: day.alerts?.map(a => ({ ...a, indoorAlternatives: a.indoorAlternatives.map(compactPlaceForResponse) })),
+    notices: day.notices,
+  };
+}
+
+export function slimPoisForResponse(pois: PlaceOut[], itinerary: DaySlot[], limit = MAX_RESPONSE_POIS): PlaceOut[] {
+  const keyOf = (p: PlaceOut) => p.place_id || `${p.name}@${p.lat.toFixed(5)},${p.lng.toFixed(5)}`;
+  const picked = new Map<string, PlaceOut>();
+
+  for (const day of itinerary) {
+    for (const p of dayStops(day)) {
+      const k = keyOf(p);
+      if (!picked.has(k)) picked.set(k, p);
+    }
+  }
+
+  const out: PlaceOut[] = [];
+  for (const p of picked.values()) {
+    out.push(compactPlaceForResponse(p));
+    if (out.length >= limit) return out;
+  }
+
+  for (const p of pois) {
+    const k = keyOf(p);
+    if (picked.has(k)) continue;
+    out.push(compactPlaceForResponse(p));
+    if (out.length >= limit) break;
+  }
+  return out;
+}
+
+function remapProgressBand(pois: PlaceOut[], minProgress: number, maxProgress: number): PlaceOut[] {
+  const lo = Math.max(0, Math.min(1, minProgress));
+  const hi = Math.max(lo, Math.min(1, maxProgress));
+  const span = hi - lo;
+  return pois.map((p, idx) => {
+    const fallback = pois.length <= 1 ? 0.5 : idx / Math.max(1, pois.length - 1);
+    const base = typeof p.progress === 'number' ? p.progress : fallback;
+    const clamped = Math.max(0, Math.min(1, base));
+    return { ...p, progress: lo + clamped * span };
+  });
+}
+
+function mergePoisPreferQuality(...groups: PlaceOut[][]): PlaceOut[] {
+  const keyOf = (p: PlaceOut) => {
+    if (p.place_id) return `pid:${p.place_id}`;
+    const nm = (p.name || '').toLowerCase().replace(/[^a-z0-9\u00c0-\u024f\u4e00-\u9fff]+/g, '');
+    return `nm:${nm}@${p.lat.toFixed(4)},${p.lng.toFixed(4)}`;
+  };
+  const quality = (p: PlaceOut) => (p.rating || 0) * 100 + Math.log10((p.user_ratings_total || 0) + 1) * 10;
+
+  const merged = new Map<string, PlaceOut>();
+  for (const list of groups) {
+    for (const p of list) {
+      const k = keyOf(p);
+      const cur = merged.get(k);
+      if (!cur || quality(p) > quality(cur)) merged.set(k, p);
+    }
+  }
+
+  return Array.from(merged.values()).sort((a, b) => {
+    const pa = a.progress ?? 0;
+    const pb = b.progress ?? 0;
+    return pa - pb || (b.rating ?? 0) - (a.rating ?? 0);
+  });
+}
+
+function enforceDestinationTailDays(
+  itinerary: DaySlot[],
+  destinationPois: PlaceOut[],
+  tripDays: number,
+  options: ItineraryOptions
+): DaySlot[] {
+  if (tripDays < 3 || destinationPois.length < 8) return itinerary;
+  const tailDays = Math.min(2, Math.max(1, tripDays - 1));
+  const localBand = remapProgressBand(destinationPois, 0, 1);
+  // 尾段接在前面幾天後面：第一天早餐從前一晚的住宿挑，餐廳與晚上行程不和前面重複
+  const headDays = itinerary.slice(0, tripDays - tailDays);
+  const tailPlan = buildAgencyStyleItinerary(localBand, tailDays, {
+    ...options,
+    prevLodging: headDays[headDays.length - 1]?.lodging,
+    avoid: headDays.flatMap(dayStops),
+  });
+
+  const out = itinerary.map(day => ({
+    breakfast: day.breakfast,
+    morning: [...day.morning],
+    lunch: day.lunch,
+    afternoon: [...day.afternoon],
+    dinner: day.dinner,
+    evening: day.evening,
+    lodging: day.lodging,
+    notices: day.notices,
+  }));
+
+  for (let i = 0; i < tailDays; i++) {
+    const src = tailPlan[i];
+    const dstIdx = tripDays - tailDays + i;
+    if (!src) continue;
+    const attractionCount = src.morning.length + src.afternoon.length;
+    if (attractionCount < 2) continue;
+    out[dstIdx] = {
+      breakfast: src.breakfast,
+      morning: [...src.morning],
+      lunch: src.lunch,
+      afternoon: [...src.afternoon],
+      dinner: src.dinner,
+      evening: src.evening,
+      lodging: src.lodging,
+      notices: src.notices,
+    };
+  }
+  return withLodgingStays(out);
+}
+
+export function buildDestinationLocalPath(center: LatLng): LatLng[] {
+  const ring = [
+    { lat: center.lat + LONG_HAUL_LOCAL_LAT_SPAN, lng: center.lng },
+    { lat: center.lat + LONG_HAUL_LOCAL_LAT_SPAN * 0.7, lng: center.lng + LONG_HAUL_LOCAL_LNG_SPAN },
+    { lat: center.lat, lng: center.lng + LONG_HAUL_LOCAL_LNG_SPAN * 1.2 },
+    { lat: center.lat - LONG_HAUL_LOCAL_LAT_SPAN * 0.8, lng: center.lng + LONG_HAUL_LOCAL_LNG_SPAN * 0.7 },
+    { lat: center.lat - LONG_HAUL_LOCAL_LAT_SPAN, lng: center.lng - LONG_HAUL_LOCAL_LNG_SPAN * 0.2 },
+    { lat: center.lat - LONG_HAUL_LOCAL_LAT_SPAN * 0.4, lng: center.lng - LONG_HAUL_LOCAL_LNG_SPAN },
+  ].map(p => ({
+    lat: Math.max(-85, Math.min(85, p.lat)),
+    lng: p.lng,
+  }));
+  return [center, ...ring];
+}
+
+export function formatLongHaulDurationText(distanceKm: number) {
+  const hours = distanceKm / 800 + 1.5;
+  const h = Math.max(1, Math.floor(hours));
+  const m = Math.round((hours - h) * 60);
+  return `約 ${h} 小時 ${m} 分（含轉乘與市區接駁）`;
+}
+/** ---------------- Manual edits ---------------- */
+/** 行程比對用的識別鍵；沒有 place_id（例如 OSM）時以名稱＋座標代替 */
+export function placeKey(p: PlaceOut) {
+  return p.place_id || `${p.name}@${p.lat.toFixed(5)},${p.lng.toFixed(5)}`;
+}
+
+/** 當天依造訪順序的全部停留點 */
+export function dayStops(day: DaySlot): PlaceOut[] {
+  return [day.breakfast, ...day.morning, day.lunch, ...day.afternoon, day.dinner, day.evening, day.lodging].filter(Boolean) as PlaceOut[];
+}
+
+export function isSingleSlot(slot: ScheduleSlot): slot is SingleSlot {
+  return SINGLE_SLOTS.includes(slot as SingleSlot);
+}
+
+/** 雨天/酷熱日要避開的戶外景點類型 */
+export const OUTDOOR_TYPES = new Set<PlaceType>(['park', 'zoo', 'amusement_park']);
+
+/** 戶外景點不排在雨天/酷熱日；沒有天氣資料的日子都可以 */
+export function suitsDayWeather(day: DaySlot, p: PlaceOut) {
+  return !OUTDOOR_TYPES.has(p._type) || (day.weather?.kind !== 'wet' && day.weather?.kind !== 'hot');
+}
+
+/** 檢查客戶端送回的 /api/plan 停留點/每日行程（可能經過拖拉、刪除） */
+export function isPlace(p: any): p is PlaceOut {
+  return !!p && typeof p.name === 'string' && Number.isFinite(p.lat) && Number.isFinite(p.lng) && typeof p._type === 'string';
+}
+
+export function isDaySlot(day: any): day is DaySlot {
+  return (
+    !!day &&
+    Array.isArray(day.morning) &&
+    Array.isArray(day.afternoon) &&
+    [...day.morning, ...day.afternoon].every(isPlace) &&
+    SINGLE_SLOTS.every(slot => day[slot] == null || isPlace(day[slot]))
+  );
+}
+
+export function lockedPlaceOf(itinerary: DaySlot[], lock: LockedStop): PlaceOut | undefined {
+  const day = itinerary[lock.day];
+  if (!day) return;
+  if (isSingleSlot(lock.slot)) return day[lock.slot];
+  return day[lock.slot][lock.index ?? -1];
+}
+
+export type ReplanOptions = {
+  mode?: TravelMode;
+  /** 使用者刪掉的點（placeKey），重排時不再選回來 */
+  exclude?: string[];
+  preferences?: TravelPreferences;
+  region?: RegionProfile;
+  meals?: MealFilter;
+  /** notices 文字的語言 */
+  noticeLang?: string;
+};
+
+/**
+ * 保留鎖定的停留點（天數、時段與順序不變），其餘從候選池重新挑選。
+ * 每日的路線進度區間沿用目前行程，避免重排後的景點跑到別天的路段。
+ */
+export function replanAroundLocked(
+  current: DaySlot[],
+  pois: PlaceOut[],
+  locked: LockedStop[],
+  {
+    mode = 'driving',
+    exclude = [],
+    preferences = DEFAULT_PREFERENCES,
+    region = DEFAULT_REGION_PROFILE,
+    meals = NO_MEAL_FILTER,
+    noticeLang,
+  }: ReplanOptions = {}
+): DaySlot[] {
+  const days = current.length;
+  const attractionsPerDay = attractionsPerDayOf(mode, preferences);
+  const morningCount = Math.ceil(attractionsPerDay / 2);
+  const afternoonCount = attractionsPerDay - morningCount;
+
+  const pinned: PlaceOut[] = [];
+  const pins = current.map(() => ({
+    morning: new Map<number, PlaceOut>(),
+    afternoon: new Map<number, PlaceOut>(),
+    single: {} as Partial<Record<SingleSlot, PlaceOut>>,
+  }));
+  for (const lock of locked) {
+    const p = lockedPlaceOf(current, lock);
+    if (!p) continue;
+    pinned.push(p);
+    if (isSingleSlot(lock.slot)) pins[lock.day].single[lock.slot] = p;
+    else pins[lock.day][lock.slot].set(lock.index!, p);
+  }
+
+  const skip = new Set([...exclude, ...pinned.map(placeKey)]);
+  const pool = pois.filter(p => {
+    if (skip.has(placeKey(p))) return false;
+    if (!ATTRACTION_TYPES.includes(p._type as any)) return true;
+    return !pinned.some(x => haversineKm(x, p) <= HARD_NEAR_DUP_KM);
+  });
+
+  const dayBands = current.map((day, d): [number, number] => {
+    const progress = [...day.morning, day.lunch, ...day.afternoon]
+      .map(p => p?.progress)
+      .filter((v): v is number => typeof v === 'number');
+    if (!progress.length) return [d / days, (d + 1) / days];
+    return [Math.min(...progress), Math.max(...progress)];
+  });
+  const fresh = buildAgencyStyleItinerary(pool, days, { dayBands, mode, preferences, region, meals });
+
+  const fill = (slotPins: Map<number, PlaceOut>, picks: PlaceOut[], count: number) => {
+    const queue = [...picks];
+    const size = Math.max(count, ...Array.from(slotPins.keys(), i => i + 1));
+    const out: PlaceOut[] = [];
+    for (let i = 0; i < size; i++) {
+      const p = slotPins.get(i) || queue.shift();
+      if (p) out.push(p);
+    }
+    return out;
+  };
+
+  const out: DaySlot[] = current.map((day, d) => ({
+    breakfast: pins[d].single.breakfast || fresh[d].breakfast,
+    morning: fill(pins[d].morning, fresh[d].morning, morningCount),
+    lunch: pins[d].single.lunch || fresh[d].lunch,
+    afternoon: fill(pins[d].afternoon, fresh[d].afternoon, afternoonCount),
+    dinner: pins[d].single.dinner || fresh[d].dinner,
+    evening: pins[d].single.evening || fresh[d].evening,
+    lodging: pins[d].single.lodging,
+    date: day.date,
+    weather: day.weather,
+  }));
+
+  // 候選池只剩回應裡的點，重排後可能缺午餐/住宿：補上離當天景點最近、還沒用過的
+  const used = new Set(
+    out
+      .flatMap((day, d) => [day.breakfast, day.lunch, day.dinner, day.lodging, fresh[d].lodging])
+      .filter(Boolean)
+      .map(p => placeKey(p!))
+  );
+  const nearestUnused = (types: PlaceType[], anchor?: PlaceOut) => {
+    if (!anchor) return;
+    const best = pool
+      .filter(p => types.includes(p._type) && !used.has(placeKey(p)))
+      .filter(p => !hasMealFilter(meals) || !FOOD_TYPES.includes(p._type) || (p.mealMatch?.confidence ?? 0) > 0)
+      .filter(p => !HOTEL_TYPES.includes(p._type) || lodgingPriceFit(preferences, p.price_level) > 0)
+      .sort((a, b) => haversineKm(anchor, a) - haversineKm(anchor, b))[0];
+    if (best) used.add(placeKey(best));
+    return best;
+  };
+  // 沒鎖定的住宿先續住前一晚的旅館（離當天最後一站不超過換旅館的距離），再用重排的結果或最近的
+  const switchKm = hotelSwitchKmOf(mode, preferences);
+  out.forEach((day, d) => {
+    day.lunch ??= nearestUnused(FOOD_TYPES, day.morning[day.morning.length - 1] || day.afternoon[0]);
+    const stayAnchor = day.afternoon[day.afternoon.length - 1] || day.morning[day.morning.length - 1];
+    const prevStay = out[d - 1]?.lodging;
+    if (!day.lodging && prevStay && stayAnchor && haversineKm(prevStay, stayAnchor) <= switchKm) day.lodging = prevStay;
+    day.lodging ??= fresh[d].lodging || nearestUnused(HOTEL_TYPES, stayAnchor);
+    day.notices = dayNotices(day, meals, preferences, adviceLang(noticeLang));
+  });
+  return withLodgingStays(out);
+}
+
+/** ---------------- Planning ---------------- */
+/** 依路線型態（同城 / 跨國 / 城際）蒐集 POI 並排出每日行程，Google 與 OSM 共用 */
+export type PlanRouteInput = {
+  polyPts: LatLng[];
+  start: LatLng;
+  end: LatLng;
+  /** 中途停靠點（依造訪順序，不含起訖） */
+  stops?: LatLng[];
+  longHaulFallback: boolean;
+  days: number;
+  /** 旅客在當地的移動方式，決定每日節奏 */
+  mode?: TravelMode;
+  lang: string;
+  source: PlacesSource;
+  /** 旅客偏好：蒐集門檻、景點評分與每日節奏 */
+  preferences?: TravelPreferences;
+  /** 目的地的區域設定檔 */
+  region?: RegionProfile;
+  /** 飲食/料理條件 */
+  meals?: MealFilter;
+  /** notices 文字的語言；景點名稱用 lang */
+  noticeLang?: string;
+  /** 蒐集 POI 進度；同時蒐集多段時回報合計 */
+  onHarvestProgress?: HarvestProgress;
+};
+
+export async function planItineraryAlongRoute({
+  polyPts,
+  start: startLL,
+  end: endLL,
+  stops = [],
+  longHaulFallback,
+  days: tripDays,
+  mode = 'driving',
+  lang,
+  source,
+  preferences = DEFAULT_PREFERENCES,
+  region = DEFAULT_REGION_PROFILE,
+  meals = NO_MEAL_FILTER,
+  noticeLang,
+  onHarvestProgress,
+}: PlanRouteInput) {
+  const harvestOptions: HarvestOptions = { preferences, region, meals };
+  const harvests: Array<[number, number]> = [];
+  const trackHarvest = (): HarvestProgress | undefined => {
+    if (!onHarvestProgress) return;
+    const slot: [number, number] = [0, 0];
+    harvests.push(slot);
+    return (done, total) => {
+      slot[0] = done;
+      slot[1] = total;
+      onHarvestProgress(harvests.reduce((n, h) => n + h[0], 0), harvests.reduce((n, h) => n + h[1], 0));
+    };
+  };
+
+  if (stops.length && !longHaulFallback) {
+    // 多點行程：每個停靠點都取樣，並讓每日區間對齊停靠點
+    const allStops = [startLL, ...stops, endLL];
+    const pois = await harvestPOIsAlongPath(polyPts, lang, source, { ...harvestOptions, extraSamples: allStops, onProgress: trackHarvest() });
+    const bands = stopAlignedDayBands(stopProgressAlongPath(polyPts, allStops), tripDays);
+    return { pois, itinerary: buildAgencyStyleItinerary(pois, tripDays, { dayBands: bands, mode, preferences, region, meals, noticeLang }) };
+  }
+
+  const crowKm = haversineKm(startLL, endLL);
+  const isSingle = crowKm <= NEAR_EQ_KM;
+  const isLongHaul = longHaulFallback || crowKm >= LONG_HAUL_KM;
+  let destinationPoisForTail: PlaceOut[] = [];
+
+  let pois: PlaceOut[] = [];
+  if (isSingle) {
+    const fakePath = [startLL, { lat: startLL.lat - 0.5, lng: startLL.lng + 0.2 }];
+    pois = await harvestPOIsAlongPath(fakePath, lang, source, { ...harvestOptions, onProgress: trackHarvest() });
+  } else if (isLongHaul) {
+    // For cross-country routes, plan activities around destination city.
+    destinationPoisForTail = await harvestPOIsAlongPath(buildDestinationLocalPath(endLL), lang, source, { ...harvestOptions, onProgress: trackHarvest() });
+    pois = destinationPoisForTail;
+  } else {
+    const needDestinationSupplement = crowKm >= INTERCITY_SUPPLEMENT_KM && tripDays >= 3;
+    if (needDestinationSupplement) {
+      const [routePois, destPoisRaw] = await Promise.all([
+        harvestPOIsAlongPath(polyPts, lang, source, { ...harvestOptions, onProgress: trackHarvest() }),
+        harvestPOIsAlongPath(buildDestinationLocalPath(endLL), lang, source, { ...harvestOptions, onProgress: trackHarvest() }),
+      ]);
+      destinationPoisForTail = destPoisRaw;
+      const destPois = remapProgressBand(destPoisRaw, 0.62, 0.98);
+      pois = mergePoisPreferQuality(routePois, destPois);
+    } else {
+      pois = await harvestPOIsAlongPath(polyPts, lang, source, { ...harvestOptions, onProgress: trackHarvest() });
+    }
+  }
+
+  let itinerary = buildAgencyStyleItinerary(pois, tripDays, { mode, preferences, region, meals, noticeLang });
+  if (crowKm >= INTERCITY_SUPPLEMENT_KM && tripDays >= 3 && destinationPoisForTail.length) {
+    itinerary = enforceDestinationTailDays(itinerary, destinationPoisForTail, tripDays, { mode, preferences, region, meals, noticeLang });
+  }
+  return { pois, itinerary };
+}
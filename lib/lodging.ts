@@ -0,0 +1,41 @@
+// lib/lodging.ts
+
+/** ---------------- Types ---------------- */
+/**
+ * 連住同一間旅館的一段：入住/退房以行程的第幾天表示（0 起算）。
+ * checkOutDay = checkInDay + nights；最後一晚的退房日是行程結束後的那天。
+ */
+export type LodgingStay = {
+  nights: number;
+  checkInDay: number;
+  checkOutDay: number;
+};
+
+type StayPlace = { name: string; lat: number; lng: number; place_id?: string };
+
+/** ---------------- Stays ---------------- */
+function sameHotel(a: StayPlace, b: StayPlace) {
+  if (a.place_id || b.place_id) return a.place_id === b.place_id;
+  return a.name === b.name && a.lat.toFixed(5) === b.lat.toFixed(5) && a.lng.toFixed(5) === b.lng.toFixed(5);
+}
+
+/**
+ * 依相鄰幾晚是否住同一間旅館重新標上 stay（回傳新陣列）；沒有住宿的那天不帶 stay。
+ * 後端排完與 Widget 手動調整後都用這個重算，兩邊的連住判斷一致。
+ */
+export function withLodgingStays<D extends { lodging?: StayPlace; stay?: LodgingStay }>(days: D[]): D[] {
+  const out = days.map(day => ({ ...day, stay: undefined as LodgingStay | undefined }));
+  for (let d = 0; d < out.length; ) {
+    const hotel = out[d].lodging;
+    if (!hotel) {
+      d++;
+      continue;
+    }
+    let end = d + 1;
+    while (end < out.length && out[end].lodging && sameHotel(hotel, out[end].lodging!)) end++;
+    const stay: LodgingStay = { nights: end - d, checkInDay: d, checkOutDay: end };
+    for (let i = d; i < end; i++) out[i].stay = stay;
+    d = end;
+  }
+  return out;
+}
@@ -0,0 +1,119 @@
+// lib/opening-hours.ts
+
+/**
+ * 每週營業時段：索引 0=週日 … 6=週六；每段為 [開門分鐘, 打烊分鐘]（自當日 00:00 起算）。
+ * 跨午夜營業時打烊分鐘會超過 1440。
+ */
+export type WeeklyHours = Array<Array<[number, number]>>;
+
+export type OpenStatus = 'open' | 'closed' | 'unknown';
+
+const DAY_MINUTES = 24 * 60;
+const OSM_DAYS = ['Su', 'Mo', 'Tu', 'We', 'Th', 'Fr', 'Sa'];
+
+function emptyWeek(): WeeklyHours {
+  return Array.from({ length: 7 }, () => []);
+}
+
+function hhmmToMinutes(hhmm: string) {
+  return parseInt(hhmm.slice(0, 2), 10) * 60 + parseInt(hhmm.slice(2), 10);
+}
+
+/** Google Places details 的 opening_hours.periods */
+export function parseGooglePeriods(periods?: any[]): WeeklyHours | undefined {
+  if (!Array.isArray(periods) || !periods.length) return undefined;
+  // 只有 open 且為週日 0000：全年無休
+  if (periods.length === 1 && periods[0]?.open && !periods[0].close) {
+    return Array.from({ length: 7 }, () => [[0, DAY_MINUTES] as [number, number]]);
+  }
+  const week = emptyWeek();
+  for (const p of periods) {
+    if (!p?.open?.time || !p?.close?.time) continue;
+    const day = Number(p.open.day);
+    const open = hhmmToMinutes(p.open.time);
+    const spanDays = (Number(p.close.day) - day + 7) % 7;
+    const close = hhmmToMinutes(p.close.time) + spanDays * DAY_MINUTES;
+    if (day >= 0 && day < 7 && close > open) week[day].push([open, close]);
+  }
+  return week;
+}
+
+function parseOsmDays(spec: string): number[] | undefined {
+  const out: number[] = [];
+  for (const part of spec.split(',')) {
+    const [a, b] = part.split('-');
+    const from = OSM_DAYS.indexOf(a);
+    const to = b ? OSM_DAYS.indexOf(b) : from;
+    if (from < 0 || to < 0) return undefined;
+    for (let d = from; ; d = (d + 1) % 7) {
+      out.push(d);
+      if (d === to) break;
+    }
+  }
+  return out;
+}
+
+function parseOsmTimes(spec: string): Array<[number, number]> | undefined {
+  const out: Array<[number, number]> = [];
+  for (const part of spec.split(',')) {
+    const m = part.trim().match(/^(\d{1,2}):(\d{2})-(\d{1,2}):(\d{2})$/);
+    if (!m) return undefined;
+    const open = Number(m[1]) * 60 + Number(m[2]);
+    let close = Number(m[3]) * 60 + Number(m[4]);
+    if (close <= open) close += DAY_MINUTES;
+    out.push([open, close]);
+  }
+  return out;
+}
+
+/**
+ * OSM opening_hours 標籤。只支援常見寫法（`24/7`、`Mo-Fr 09:00-17:00; Sa,Su 10:00-16:00`、`Mo off`），
+ * 月份、國定假日、日出日落等規則一律視為無法判斷而回傳 undefined。
+ */
+export function parseOsmOpeningHours(tag?: string): WeeklyHours | undefined {
+  const raw = String(tag || '').trim();
+  if (!raw) return undefined;
+  if (raw === '24/7') return Array.from({ length: 7 }, () => [[0, DAY_MINUTES] as [number, number]]);
+
+  const week = emptyWeek();
+  for (const rule of raw.split(';').map(r => r.trim()).filter(Boolean)) {
+    const m = rule.match(/^([A-Za-z,\-]+)?\s*(.*)$/);
+    if (!m) return undefined;
+    // 國定/學校假日規則無法對應到星期，略過
+    if (m[1] && /^(PH|SH)$/.test(m[1])) continue;
+    const days = m[1] ? parseOsmDays(m[1]) : [0, 1, 2, 3, 4, 5, 6];
+    if (!days) return undefined;
+    const rest = m[2].trim();
+    // 後面的規則覆蓋前面同一天的設定
+    if (rest === 'off' || rest === 'closed') {
+      for (const d of days) week[d] = [];
+      continue;
+    }
+    const times = parseOsmTimes(rest);
+    if (!times) return undefined;
+    for (const d of days) week[d] = times.map(t => [t[0], t[1]] as [number, number]);
+  }
+  return week;
+}
+
+/** [from, to]（當日分鐘）是否整段都在營業時間內；前一天跨午夜的時段也算 */
+export function openStatusDuring(hours: WeeklyHours | undefined, weekday: number, from: number, to: number): OpenStatus {
+  if (!hours) return 'unknown';
+  const covers = (ranges: Array<[number, number]>, shift: number) =>
+    ranges.some(([open, close]) => open <= from + shift && to + shift <= close);
+  const prev = (weekday + 6) % 7;
+  return covers(hours[weekday] || [], 0) || covers(hours[prev] || [], DAY_MINUTES) ? 'open' : 'closed';
+}
+
+/** 某時刻在 UTC 偏移 offsetMinutes 的當地是星期幾、當日第幾分鐘 */
+export function localWeekMinute(at: number, offsetMinutes: number) {
+  const local = new Date(at + offsetMinutes * 60000);
+  return { weekday: local.getUTCDay(), minute: local.getUTCHours() * 60 + local.getUTCMinutes() };
+}
+
+/** 依當地時間判斷此刻是否營業；沒有時段資料時為 undefined */
+export function openNow(hours: WeeklyHours | undefined, offsetMinutes: number, at = Date.now()): boolean | undefined {
+  if (!hours) return undefined;
+  const { weekday, minute } = localWeekMinute(at, offsetMinutes);
+  return openStatusDuring(hours, weekday, minute, minute) === 'open';
+}
@@ -0,0 +1,273 @@
+// lib/packing.ts
+import { coordKey, type CacheMode } from './cache';
+import { runWithConcurrency, type LatLng } from './geo';
+import { dayStops, type DaySlot } from './itinerary';
+import type { PlaceType } from './providers/types';
+import { addDays } from './schedule';
+import { getForecast, weatherLang } from './weather';
+import { adviceLang, type AdviceLang, type OutfitAdvice, type WarmthLevel } from './weather-advice';
+
+const FORECAST_CONCURRENCY = 3;
+/** 與 applyWeatherToItinerary 相同：5 天預報之外的日子不查 */
+const FORECAST_WINDOW_DAYS = 5;
+
+/** ---------------- Types ---------------- */
+export type PackingCategory = 'documents' | 'clothing' | 'footwear' | 'weather' | 'toiletries' | 'health' | 'electronics';
+
+export type PackingItemId =
+  | 'id_documents'
+  | 'wallet'
+  | 'short_sleeves'
+  | 'long_sleeves'
+  | 'light_jacket'
+  | 'warm_coat'
+  | 'heavy_coat'
+  | 'thermal_layer'
+  | 'windbreaker'
+  | 'quick_dry_clothes'
+  | 'modest_clothing'
+  | 'gloves'
+  | 'scarf'
+  | 'beanie'
+  | 'underwear'
+  | 'socks'
+  | 'sleepwear'
+  | 'walking_shoes'
+  | 'slip_on_shoes'
+  | 'umbrella'
+  | 'rain_poncho'
+  | 'sun_hat'
+  | 'sunglasses'
+  | 'toothbrush_set'
+  | 'shampoo_body_wash'
+  | 'skincare'
+  | 'personal_medicine'
+  | 'sunscreen'
+  | 'water_bottle'
+  | 'insect_repellent'
+  | 'phone_charger'
+  | 'power_bank';
+
+/** 為什麼要帶：基本必備、天氣、住宿天數，或行程中的景點類型 */
+export type PackingReason = 'essential' | 'weather' | 'lodging' | PlaceType;
+
+export type PackingItem = {
+  id: PackingItemId;
+  label: string;
+  /** 依住宿晚數計算；沒有時帶一份即可 */
+  quantity?: number;
+  reasons: PackingReason[];
+  /** 需要這項的行程天數（第 1 天為 1）；基本必備與住宿用品沒有 */
+  days?: number[];
+};
+
+export type PackingList = {
+  lang: AdviceLang;
+  days: number;
+  nights: number;
+  /** 有天氣資料（預報或 day.weather）的天數；0 表示清單沒考慮天氣 */
+  forecastDays: number;
+  categories: { id: PackingCategory; label: string; items: PackingItem[] }[];
+};
+
+export type PackingOptions = {
+  /** YYYY-MM-DD；沒有時只能沿用 day.weather */
+  startDate?: string;
+  lang?: string;
+  cache?: CacheMode;
+};
+
+type Texts = Record<AdviceLang, string>;
+
+const CATEGORIES: { id: PackingCategory; label: Texts }[] = [
+  { id: 'documents', label: { 'zh-TW': '證件與錢包', 'zh-CN': '证件与钱包', en: 'Documents', ja: '貴重品' } },
+  { id: 'clothing', label: { 'zh-TW': '衣物', 'zh-CN': '衣物', en: 'Clothing', ja: '衣類' } },
+  { id: 'footwear', label: { 'zh-TW': '鞋子', 'zh-CN': '鞋子', en: 'Footwear', ja: '靴' } },
+  { id: 'weather', label: { 'zh-TW': '雨具與防曬', 'zh-CN': '雨具与防晒', en: 'Rain & sun gear', ja: '雨具・日よけ' } },
+  { id: 'toiletries', label: { 'zh-TW': '盥洗用品', 'zh-CN': '洗漱用品', en: 'Toiletries', ja: '洗面用具' } },
+  { id: 'health', label: { 'zh-TW': '健康與保養', 'zh-CN': '健康与护理', en: 'Health', ja: '健康' } },
+  { id: 'electronics', label: { 'zh-TW': '電子用品', 'zh-CN': '电子用品', en: 'Electronics', ja: '電子機器' } },
+];
+
+const ITEMS: Record<PackingItemId, { category: PackingCategory; label: Texts }> = {
+  id_documents: { category: 'documents', label: { 'zh-TW': '身分證/護照', 'zh-CN': '身份证/护照', en: 'ID or passport', ja: '身分証・パスポート' } },
+  wallet: { category: 'documents', label: { 'zh-TW': '錢包、信用卡', 'zh-CN': '钱包、银行卡', en: 'Wallet and cards', ja: '財布・カード' } },
+  short_sleeves: { category: 'clothing', label: { 'zh-TW': '短袖上衣', 'zh-CN': '短袖上衣', en: 'Short-sleeve tops', ja: '半袖シャツ' } },
+  long_sleeves: { category: 'clothing', label: { 'zh-TW': '長袖上衣', 'zh-CN': '长袖上衣', en: 'Long-sleeve tops', ja: '長袖シャツ' } },
+  light_jacket: { category: 'clothing', label: { 'zh-TW': '薄外套', 'zh-CN': '薄外套', en: 'Light jacket', ja: '薄手の上着' } },
+  warm_coat: { category: 'clothing', label: { 'zh-TW': '保暖外套', 'zh-CN': '保暖外套', en: 'Warm coat', ja: '暖かいコート' } },
+  heavy_coat: { category: 'clothing', label: { 'zh-TW': '厚外套', 'zh-CN': '厚外套', en: 'Heavy winter coat', ja: '厚手のコート' } },
+  thermal_layer: { category: 'clothing', label: { 'zh-TW': '保暖內搭', 'zh-CN': '保暖内搭', en: 'Thermal base layer', ja: '保温インナー' } },
+  windbreaker: { category: 'clothing', label: { 'zh-TW': '防風外套', 'zh-CN': '防风外套', en: 'Windbreaker', ja: '防風ジャケット' } },
+  quick_dry_clothes: { category: 'clothing', label: { 'zh-TW': '快乾衣物', 'zh-CN': '速干衣物', en: 'Quick-dry clothing', ja: '速乾性の服' } },
+  modest_clothing: {
+    category: 'clothing',
+    label: { 'zh-TW': '遮肩過膝的衣物', 'zh-CN': '遮肩过膝的衣物', en: 'Clothes covering shoulders and knees', ja: '肩と膝が隠れる服' },
+  },
+  gloves: { category: 'clothing', label: { 'zh-TW': '手套', 'zh-CN': '手套', en: 'Gloves', ja: '手袋' } },
+  scarf: { category: 'clothing', label: { 'zh-TW': '圍巾', 'zh-CN': '围巾', en: 'Scarf', ja: 'マフラー' } },
+  beanie: { category: 'clothing', label: { 'zh-TW': '毛帽', 'zh-CN': '毛线帽', en: 'Beanie', ja: 'ニット帽' } },
+  underwear: { category: 'clothing', label: { 'zh-TW': '內衣褲', 'zh-CN': '内衣裤', en: 'Underwear', ja: '下着' } },
+  socks: { category: 'clothing', label: { 'zh-TW': '襪子', 'zh-CN': '袜子', en: 'Socks', ja: '靴下' } },
+  sleepwear: { category: 'clothing', label: { 'zh-TW': '睡衣', 'zh-CN': '睡衣', en: 'Sleepwear', ja: 'パジャマ' } },
+  walking_shoes: { category: 'footwear', label: { 'zh-TW': '好走的鞋', 'zh-CN': '好走的鞋', en: 'Comfortable walking shoes', ja: '歩きやすい靴' } },
+  slip_on_shoes: { category: 'footwear', label: { 'zh-TW': '好穿脫的鞋', 'zh-CN': '易穿脱的鞋', en: 'Easy slip-on shoes', ja: '脱ぎ履きしやすい靴' } },
+  umbrella: { category: 'weather', label: { 'zh-TW': '摺疊傘', 'zh-CN': '折叠伞', en: 'Compact umbrella', ja: '折りたたみ傘' } },
+  rain_poncho: { category: 'weather', label: { 'zh-TW': '輕便雨衣', 'zh-CN': '轻便雨衣', en: 'Rain poncho', ja: 'レインポンチョ' } },
+  sun_hat: { category: 'weather', label: { 'zh-TW': '遮陽帽', 'zh-CN': '遮阳帽', en: 'Sun hat', ja: '日よけ帽子' } },
+  sunglasses: { category: 'weather', label: { 'zh-TW': '太陽眼鏡', 'zh-CN': '太阳镜', en: 'Sunglasses', ja: 'サングラス' } },
+  toothbrush_set: { category: 'toiletries', label: { 'zh-TW': '牙刷牙膏', 'zh-CN': '牙刷牙膏', en: 'Toothbrush and toothpaste', ja: '歯ブラシ・歯磨き粉' } },
+  shampoo_body_wash: {
+    category: 'toiletries',
+    label: { 'zh-TW': '洗髮精、沐浴乳（隨身包）', 'zh-CN': '洗发水、沐浴露（旅行装）', en: 'Shampoo and body wash sachets', ja: 'シャンプー・ボディソープ（小分け）' },
+  },
+  skincare: { category: 'toiletries', label: { 'zh-TW': '保養品', 'zh-CN': '护肤品', en: 'Skincare', ja: 'スキンケア用品' } },
+  personal_medicine: { category: 'health', label: { 'zh-TW': '個人常備藥', 'zh-CN': '个人常备药', en: 'Personal medication', ja: '常備薬' } },
+  sunscreen: { category: 'health', label: { 'zh-TW': '防曬乳', 'zh-CN': '防晒霜', en: 'Sunscreen', ja: '日焼け止め' } },
+  water_bottle: { category: 'health', label: { 'zh-TW': '水壺', 'zh-CN': '水壶', en: 'Water bottle', ja: '水筒' } },
+  insect_repellent: { category: 'health', label: { 'zh-TW': '防蚊液', 'zh-CN': '驱蚊液', en: 'Insect repellent', ja: '虫よけ' } },
+  phone_charger: { category: 'electronics', label: { 'zh-TW': '手機充電器', 'zh-CN': '手机充电器', en: 'Phone charger', ja: 'スマホの充電器' } },
+  power_bank: { category: 'electronics', label: { 'zh-TW': '行動電源', 'zh-CN': '充电宝', en: 'Power bank', ja: 'モバイルバッテリー' } },
+};
+
+const ESSENTIALS: PackingItemId[] = ['id_documents', 'wallet', 'phone_charger', 'power_bank', 'personal_medicine'];
+
+/** 穿著分級 → 衣物；門檻沿用 weather-advice 的 WARMTH_LEVELS */
+const LEVEL_CLOTHES: Record<WarmthLevel, PackingItemId[]> = {
+  scorching: ['short_sleeves'],
+  very_hot: ['short_sleeves'],
+  hot: ['short_sleeves'],
+  comfortable: ['short_sleeves', 'long_sleeves'],
+  cool: ['long_sleeves', 'light_jacket'],
+  chilly: ['long_sleeves', 'light_jacket'],
+  cold: ['long_sleeves', 'warm_coat', 'thermal_layer'],
+  freezing: ['long_sleeves', 'heavy_coat', 'thermal_layer'],
+};
+
+/** outfit.items → 清單項目 */
+const ADVICE_ITEMS: Record<OutfitAdvice['items'][number], PackingItemId> = {
+  umbrella: 'umbrella',
+  windbreaker: 'windbreaker',
+  sunscreen: 'sunscreen',
+  sun_hat: 'sun_hat',
+  water: 'water_bottle',
+  gloves: 'gloves',
+  scarf: 'scarf',
+  beanie: 'beanie',
+};
+
+/** 要走很多路的戶外景點 */
+const WALKING_TYPES = new Set<PlaceType>(['park', 'zoo', 'amusement_park']);
+/** 戶外景點在不冷的日子才需要防蚊 */
+const BUG_SEASON = new Set<WarmthLevel>(['scorching', 'very_hot', 'hot', 'comfortable']);
+
+/** ---------------- Builder ---------------- */
+/** 每一天每個停留點的穿著建議；查不到預報時退回 day.weather（/api/plan 查過的） */
+async function outfitsByDay(itinerary: DaySlot[], { startDate, lang, cache = 'use' }: PackingOptions): Promise<OutfitAdvice[][]> {
+  const out: OutfitAdvice[][] = itinerary.map(() => []);
+  const today = new Date().toISOString().slice(0, 10);
+  const lastDay = addDays(today, FORECAST_WINDOW_DAYS);
+  const dateOf = (d: number) => itinerary[d].date || (startDate ? addDays(startDate, d) : undefined);
+
+  // 同一帶的停留點（快取座標精度內）只查一次，一份預報涵蓋所有日期
+  const points = new Map<string, { point: LatLng; uses: { day: number; date: string }[] }>();
+  itinerary.forEach((day, d) => {
+    const date = dateOf(d);
+    if (!date || date < today || date > lastDay) return;
+    for (const p of dayStops(day)) {
+      const key = coordKey('forecast', p);
+      const entry = points.get(key) || { point: { lat: p.lat, lng: p.lng }, uses: [] };
+      entry.uses.push({ day: d, date });
+      points.set(key, entry);
+    }
+  });
+
+  const tasks = [...points.values()].map(({ point, uses }) => async () => {
+    try {
+      const forecast = await getForecast(
+        { location: { lat: point.lat, lon: point.lng }, units: 'metric', lang: weatherLang(lang) },
+        { cache }
+      );
+      for (const { day, date } of uses) {
+        const outfit = forecast.daily?.find(x => x.date === date)?.outfit;
+        if (outfit) out[day].push(outfit);
+      }
+    } catch (e: any) {
+      // 預報失敗時該點改用 day.weather，清單照樣產生
+      console.warn('packing forecast failed:', e?.message || e);
+    }
+  });
+  await runWithConcurrency(tasks, FORECAST_CONCURRENCY);
+
+  itinerary.forEach((day, d) => {
+    if (!out[d].length && day.weather?.outfit) out[d].push(day.weather.outfit);
+  });
+  return out;
+}
+
+/**
+ * 依行程產生打包清單：每個停留點當天的預報（穿著分級、outfit.items、濕度/紫外線）、
+ * 景點類型（公園/動物園/遊樂園要好走的鞋，宗教場所要端莊衣著）與住宿晚數（盥洗用品、換洗衣物數量）。
+ * 同一項只列一次，合併理由與天數。
+ */
+export async function buildPackingList(itinerary: DaySlot[], opts: PackingOptions = {}): Promise<PackingList> {
+  const lang = adviceLang(opts.lang);
+  const items = new Map<PackingItemId, PackingItem>();
+  const add = (id: PackingItemId, reason: PackingReason, day?: number, quantity?: number) => {
+    const item = items.get(id) || { id, label: ITEMS[id].label[lang], reasons: [] };
+    if (!item.reasons.includes(reason)) item.reasons.push(reason);
+    if (day != null) item.days = [...new Set([...(item.days || []), day + 1])].sort((a, b) => a - b);
+    if (quantity != null) item.quantity = Math.max(item.quantity ?? 0, quantity);
+    items.set(id, item);
+  };
+
+  ESSENTIALS.forEach(id => add(id, 'essential'));
+
+  const outfits = await outfitsByDay(itinerary, opts);
+  itinerary.forEach((day, d) => {
+    const levels = new Set(outfits[d].map(o => o.level));
+    for (const outfit of outfits[d]) {
+      LEVEL_CLOTHES[outfit.level].forEach(id => add(id, 'weather', d));
+      outfit.items.forEach(i => add(ADVICE_ITEMS[i], 'weather', d));
+      if (outfit.humidity && outfit.humidity.level !== 'damp_cold') add('quick_dry_clothes', 'weather', d);
+      if (outfit.humidity?.level === 'damp_cold') add('thermal_layer', 'weather', d);
+      if (outfit.uv && outfit.uv.level !== 'low' && outfit.uv.level !== 'moderate') add('sunglasses', 'weather', d);
+    }
+
+    const wet = outfits[d].some(o => o.items.includes('umbrella'));
+    for (const p of dayStops(day)) {
+      if (WALKING_TYPES.has(p._type)) {
+        add('walking_shoes', p._type, d);
+        if (wet) add('rain_poncho', p._type, d);
+        if ([...levels].some(l => BUG_SEASON.has(l))) add('insect_repellent', p._type, d);
+      }
+      if (p._type === 'place_of_worship') {
+        add('modest_clothing', p._type, d);
+        add('slip_on_shoes', p._type, d);
+      }
+    }
+  });
+
+  // 最後一天通常不住宿；換洗衣物多帶一套
+  const nights = itinerary.filter(day => day.lodging).length;
+  if (nights > 0) {
+    add('toothbrush_set', 'lodging');
+    add('skincare', 'lodging');
+    add('shampoo_body_wash', 'lodging', undefined, nights);
+    add('sleepwear', 'lodging');
+    add('underwear', 'lodging', undefined, nights + 1);
+    add('socks', 'lodging', undefined, nights + 1);
+  }
+
+  return {
+    lang,
+    days: itinerary.length,
+    nights,
+    forecastDays: outfits.filter(list => list.length).length,
+    categories: CATEGORIES.map(c => ({
+      id: c.id,
+      label: c.label[lang],
+      items: [...items.values()].filter(item => ITEMS[item.id].category === c.id),
+    })).filter(c => c.items.length),
+  };
+}
@@ -0,0 +1,150 @@
+// lib/preferences.ts
+import type { PlaceType } from './providers/types';
+
+/** ---------------- Types ---------------- */
+export type InterestCategory = 'history' | 'nature' | 'art' | 'food' | 'theme_parks' | 'religion';
+
+/** relaxed：每個半天 1 個景點；packed：每個半天 3 個；normal 依交通方式 */
+export type TravelPace = 'relaxed' | 'normal' | 'packed';
+
+/**
+ * 旅客偏好：影響 POI 的蒐集門檻、評分與每日節奏。
+ * interests 為 0–2 的權重（1 為不偏好也不排斥），未列出的類別視為 1；
+ * minRating / minReviews 未指定時沿用各類型的預設門檻。
+ * lodgingBudget 為每晚住宿的價位上限（price_level 0–4）；hotelSwitchKm 覆寫依交通方式決定的換旅館距離。
+ */
+export type TravelPreferences = {
+  interests: Partial<Record<InterestCategory, number>>;
+  pace: TravelPace;
+  minRating?: number;
+  minReviews?: number;
+  /** 完全不排入的類別；food 不能排除（午餐一定會排） */
+  exclude: InterestCategory[];
+  lodgingBudget?: number;
+  /** 隔天的景點離目前的旅館超過這個距離（公里）才換旅館 */
+  hotelSwitchKm?: number;
+};
+
+/** ---------------- Constants ---------------- */
+export const INTEREST_CATEGORIES: InterestCategory[] = ['history', 'nature', 'art', 'food', 'theme_parks', 'religion'];
+const PACES: TravelPace[] = ['relaxed', 'normal', 'packed'];
+const MAX_INTEREST_WEIGHT = 2;
+const MAX_MIN_REVIEWS = 10000;
+const MAX_PRICE_LEVEL = 4;
+const MIN_HOTEL_SWITCH_KM = 1;
+const MAX_HOTEL_SWITCH_KM = 200;
+/** 有預算時，沒有價位資料的旅館打折（不確定是否在預算內） */
+const UNKNOWN_PRICE_FIT = 0.85;
+
+/** 每個半天的景點數；normal 不覆寫 */
+export const PACE_STOPS_PER_HALF_DAY: Record<TravelPace, number | undefined> = {
+  relaxed: 1,
+  normal: undefined,
+  packed: 3,
+};
+
+export const DEFAULT_PREFERENCES: TravelPreferences = { interests: {}, pace: 'normal', exclude: [] };
+
+const HISTORY_NAME = /(historic|old\s*town|castle|palace|monument|memorial|ruins?|fortress|heritage|schloss|burg|古蹟|老街|城堡|城跡|皇宮|宮殿|紀念|遺址|故居|舊城|古城|歷史)/i;
+const NATURE_NAME = /(park|garden|lake|mountain|beach|waterfall|falls|trail|forest|nature|scenic|國家公園|公園|花園|植物園|海灘|瀑布|步道|森林|濕地|溼地|風景區)/i;
+const ART_NAME = /(\bart\b|gallery|kunst|opera|theat(?:er|re)|美術館|藝術|藝文|畫廊|劇院)/i;
+const RELIGION_NAME = /(church|cathedral|basilica|temple|mosque|shrine|synagogue|kirche|\bdom\b|教堂|主教座堂|寺|廟|神社|清真寺)/i;
+const THEME_PARK_NAME = /(theme\s*park|amusement|disney|universal\s*studios|legoland|樂園|遊樂園)/i;
+
+/** ---------------- Parsing ---------------- */
+/** 驗證 /api/plan 與 /api/plan/replan 的 preferences；未帶時回傳預設值，格式不對回傳錯誤訊息 */
+export function parsePreferences(input: any): TravelPreferences | string {
+  if (input == null) return DEFAULT_PREFERENCES;
+  if (typeof input !== 'object' || Array.isArray(input)) return 'preferences must be an object';
+  const { interests = {}, pace = 'normal', minRating, minReviews, exclude = [], lodgingBudget, hotelSwitchKm } = input;
+
+  if (!interests || typeof interests !== 'object' || Array.isArray(interests)) return 'preferences.interests must be an object';
+  const weights: Partial<Record<InterestCategory, number>> = {};
+  for (const [k, v] of Object.entries(interests)) {
+    if (!INTEREST_CATEGORIES.includes(k as InterestCategory)) {
+      return `unknown interest: ${k} (supported: ${INTEREST_CATEGORIES.join(', ')})`;
+    }
+    if (typeof v !== 'number' || !Number.isFinite(v) || v < 0 || v > MAX_INTEREST_WEIGHT) {
+      return `preferences.interests.${k} must be 0-${MAX_INTEREST_WEIGHT}`;
+    }
+    weights[k as InterestCategory] = v;
+  }
+  if (!PACES.includes(pace)) return `preferences.pace must be one of ${PACES.join(', ')}`;
+  if (minRating != null && (typeof minRating !== 'number' || !(minRating >= 0 && minRating <= 5))) {
+    return 'preferences.minRating must be 0-5';
+  }
+  if (minReviews != null && (!Number.isInteger(minReviews) || minReviews < 0 || minReviews > MAX_MIN_REVIEWS)) {
+    return `preferences.minReviews must be an integer 0-${MAX_MIN_REVIEWS}`;
+  }
+  if (!Array.isArray(exclude) || exclude.some((c: any) => !INTEREST_CATEGORIES.includes(c))) {
+    return `preferences.exclude must be an array of ${INTEREST_CATEGORIES.join(', ')}`;
+  }
+  if (exclude.includes('food')) return 'preferences.exclude cannot include food';
+  if (lodgingBudget != null && (!Number.isInteger(lodgingBudget) || lodgingBudget < 0 || lodgingBudget > MAX_PRICE_LEVEL)) {
+    return `preferences.lodgingBudget must be a price level 0-${MAX_PRICE_LEVEL}`;
+  }
+  if (
+    hotelSwitchKm != null &&
+    (typeof hotelSwitchKm !== 'number' || !(hotelSwitchKm >= MIN_HOTEL_SWITCH_KM && hotelSwitchKm <= MAX_HOTEL_SWITCH_KM))
+  ) {
+    return `preferences.hotelSwitchKm must be ${MIN_HOTEL_SWITCH_KM}-${MAX_HOTEL_SWITCH_KM}`;
+  }
+
+  return {
+    interests: weights,
+    pace,
+    minRating: minRating ?? undefined,
+    minReviews: minReviews ?? undefined,
+    exclude: [...new Set<InterestCategory>(exclude)],
+    lodgingBudget: lodgingBudget ?? undefined,
+    hotelSwitchKm: hotelSwitchKm ?? undefined,
+  };
+}
+
+/** ---------------- Scoring ---------------- */
+/** 依類型與名稱判斷地點屬於哪些興趣類別；住宿與一般景點可能不屬於任何類別 */
+export function interestsOf(type: PlaceType, name = ''): InterestCategory[] {
+  const out = new Set<InterestCategory>();
+  if (type === 'restaurant') return ['food'];
+  if (type === 'lodging') return [];
+  if (type === 'park' || type === 'zoo' || type === 'aquarium') out.add('nature');
+  if (type === 'amusement_park') out.add('theme_parks');
+  if (type === 'place_of_worship') out.add('religion');
+  if (type === 'museum') out.add(ART_NAME.test(name) ? 'art' : 'history');
+  if (HISTORY_NAME.test(name)) out.add('history');
+  if (NATURE_NAME.test(name) && type !== 'museum') out.add('nature');
+  if (ART_NAME.test(name)) out.add('art');
+  if (RELIGION_NAME.test(name)) out.add('religion');
+  if (THEME_PARK_NAME.test(name)) out.add('theme_parks');
+  return [...out];
+}
+
+/** 有任何興趣權重不是 1 */
+export function hasInterestBias(prefs: TravelPreferences) {
+  return Object.values(prefs.interests).some(w => w !== 1);
+}
+
+/** 屬於被排除的類別 */
+export function isExcludedPlace(prefs: TravelPreferences, type: PlaceType, name?: string) {
+  return prefs.exclude.length > 0 && interestsOf(type, name).some(c => prefs.exclude.includes(c));
+}
+
+/** 地點的興趣權重：取所屬類別中最高者，不屬於任何類別為 1 */
+export function interestWeight(prefs: TravelPreferences, type: PlaceType, name?: string) {
+  const cats = interestsOf(type, name);
+  if (!cats.length) return 1;
+  return Math.max(...cats.map(c => prefs.interests[c] ?? 1));
+}
+
+/** 旅館價位與每晚預算的契合度：超出預算為 0，沒有預算為 1 */
+export function lodgingPriceFit(prefs: TravelPreferences, priceLevel?: number) {
+  if (prefs.lodgingBudget == null) return 1;
+  if (priceLevel == null) return UNKNOWN_PRICE_FIT;
+  return priceLevel <= prefs.lodgingBudget ? 1 : 0;
+}
+
+/** 預算內都沒有旅館時，超出預算者的排序折扣：每超出一級減半 */
+export function overBudgetPriceFit(prefs: TravelPreferences, priceLevel?: number) {
+  if (prefs.lodgingBudget == null || priceLevel == null) return 1;
+  return 0.5 ** Math.max(1, priceLevel - prefs.lodgingBudget);
+}
@@ -0,0 +1,101 @@
+// lib/providers/cached.ts
+import { cached, coordKey, type CacheMode, type ResponseCache } from '../cache';
+import type { MapProvider, RoutePoint } from './types';
+
+/** 帶下一頁 token 或「營業中」條件的結果很快就過期 */
+const SHORT_TTL = 5 * 60;
+
+function pointKey(p: RoutePoint) {
+  return typeof p === 'string' ? p.trim().toLowerCase() : coordKey('directions', p);
+}
+
+/**
+ * 在供應者外包一層回應快取；key 含供應者名稱與語系，座標依端點精度四捨五入。
+ * nearby 的空結果不寫入：Google/Overpass 失敗時也回傳空陣列，快取下來會讓該點一整天都查不到。
+ */
+export function withResponseCache(provider: MapProvider, cache: ResponseCache | null, mode: CacheMode = 'use'): MapProvider {
+  if (!cache) return provider;
+  const { name, geocoder, reverseGeocoder, router, places } = provider;
+  return {
+    ...provider,
+    geocoder: {
+      geocode: (query, lang, region) =>
+        cached(cache, 'geocode', [name, lang, region, query.trim().toLowerCase()], () => geocoder.geocode(query, lang, region), {
+          mode,
+        }),
+    },
+    reverseGeocoder: reverseGeocoder && {
+      reverseGeocode: (point, lang) =>
+        cached(cache, 'reverse', [name, lang, coordKey('reverse', point)], () => reverseGeocoder.reverseGeocode(point, lang), {
+          mode,
+        }),
+    },
+    router: {
+      ...router,
+      route: req =>
+        cached(
+          cache,
+          'directions',
+          [
+            name,
+            req.mode || 'driving',
+            req.lang,
+            req.region,
+            req.optimizeWaypoints ? 'opt' : '',
+            [req.origin, ...(req.waypoints || []), req.destination].map(pointKey).join(';'),
+          ],
+          () => router.route(req),
+          { mode }
+        ),
+    },
+    places: {
+      ...places,
+      nearby: q =>
+        cached(
+          cache,
+          'nearby',
+          [name, q.lang, q.type, q.keyword, q.radiusM, q.openNow ? 'open' : '', coordKey('nearby', q.center)],
+          () => places.nearby(q),
+          { mode, shouldCache: results => results.length > 0, ttl: () => (q.openNow ? SHORT_TTL : undefined) }
+        ),
+      // 只快取第一頁；之後的頁面由 token 決定，不會重複查
+      nearbyPage: (q, pageToken) =>
+        pageToken
+          ? places.nearbyPage(q, pageToken)
+          : cached(
+              cache,
+              'nearby',
+              ['page', name, q.lang, q.type, q.keyword, q.radiusM, q.openNow ? 'open' : '', coordKey('nearby', q.center)],
+              () => places.nearbyPage(q),
+              {
+                mode,
+                shouldCache: page => page.results.length > 0,
+                ttl: page => (page.nextPageToken || q.openNow ? SHORT_TTL : undefined),
+              }
+            ),
+      // session token 只影響計費，不放進 key
+      details: (placeId, lang, sessionToken) =>
+        cached(cache, 'details', [name, lang, placeId], () => places.details(placeId, lang, sessionToken), { mode }),
+      autocomplete: q =>
+        cached(
+          cache,
+          'autocomplete',
+          [name, q.lang, q.bias && coordKey('autocomplete', q.bias.center), q.bias?.radiusM, q.input.trim().toLowerCase()],
+          () => places.autocomplete(q),
+          { mode, shouldCache: results => results.length > 0 }
+        ),
+      textSearch: q =>
+        cached(
+          cache,
+          'search',
+          [name, q.lang, q.bias && coordKey('search', q.bias.center), q.bias?.radiusM, q.query.trim().toLowerCase()],
+          () => places.textSearch(q),
+          { mode, shouldCache: results => results.length > 0 }
+        ),
+      photoUrl:
+        places.photoUrl &&
+        ((ref, size) =>
+          cached(cache, 'photo', [name, size.maxWidth, size.maxHeight, ref], () => places.photoUrl!(ref, size), { mode })),
+    },
+  };
+}
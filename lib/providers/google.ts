@@ -0,0 +1,348 @@
+// lib/providers/google.ts
+import polyline from 'polyline';
+import {
+  extractCityDistrict,
+  fetchJson,
+  formatAddressWithCity,
+  formatDistanceText,
+  formatDurationText,
+  sleep,
+  type LatLng,
+} from '../geo';
+import { parseGooglePeriods } from '../opening-hours';
+import {
+  providerError,
+  type AutocompleteQuery,
+  type DirectionsInfo,
+  type GeocodeResult,
+  type MapProvider,
+  type NearbyPage,
+  type NearbyQuery,
+  type PhotoSize,
+  type PlaceDetails,
+  type PlacePhoto,
+  type PlaceReview,
+  type PlaceSearchResult,
+  type PlaceSuggestion,
+  type RawPlace,
+  type ReverseGeocodeResult,
+  type RouteLeg,
+  type RoutePoint,
+  type RouteRequest,
+  type SearchBias,
+  type TextSearchQuery,
+  type TravelMode,
+} from './types';
+
+const NEARBY_CONCURRENCY = 6;
+const NEARBY_RETRY_LIMIT = 3;
+const NEARBY_TIMEOUT_MS = 6000;
+const PAGE_TOKEN_DELAY_MS = 1500;
+const DETAILS_FIELDS = [
+  'name',
+  'website',
+  'formatted_phone_number',
+  'formatted_address',
+  'rating',
+  'user_ratings_total',
+  'opening_hours',
+  'geometry/location',
+  'url',
+  'photos',
+  'price_level',
+  'reviews',
+  'editorial_summary',
+  'wheelchair_accessible_entrance',
+  'current_opening_hours',
+  'utc_offset',
+];
+/** Place Photo API 的上限 */
+export const PHOTO_MAX_PX = 1600;
+const PHOTO_TIMEOUT_MS = 8000;
+
+function toQueryPoint(p: RoutePoint) {
+  return typeof p === 'string' ? p : `${p.lat},${p.lng}`;
+}
+
+/** ---------------- Google APIs ---------------- */
+async function geocodeGoogle(key: string, query: string, lang: string, region?: string): Promise<GeocodeResult> {
+  const base = 'https://maps.googleapis.com/maps/api/geocode/json';
+  let lastStatus = '';
+  let lastErr = '';
+  const regionPart = region ? `&region=${encodeURIComponent(region)}` : '';
+  const tryUrls = [
+    `${base}?address=${encodeURIComponent(query)}&language=${encodeURIComponent(lang)}${regionPart}&key=${key}`,
+    `${base}?address=${encodeURIComponent(query)}&language=${encodeURIComponent(lang)}&key=${key}`,
+  ];
+  for (const url of tryUrls) {
+    const j = await fetchJson<any>(url);
+    lastStatus = j.status || '';
+    lastErr = j.error_message || '';
+    if (j.results?.[0]) {
+      const g = j.results[0];
+      return {
+        lat: g.geometry.location.lat,
+        lng: g.geometry.location.lng,
+        formatted_address: g.formatted_address,
+        components: g.address_components || [],
+        countryCode: (g.address_components || []).find((c: any) => c.types?.includes('country'))?.short_name?.toLowerCase(),
+      };
+    }
+  }
+  throw new Error(`geocode_failed:${lastStatus}${lastErr ? ':' + lastErr : ''}`);
+}
+
+async function reverseGeocodeGoogle(key: string, { lat, lng }: LatLng, lang: string): Promise<ReverseGeocodeResult> {
+  const url = `https://maps.googleapis.com/maps/api/geocode/json?latlng=${lat},${lng}&language=${encodeURIComponent(lang)}&key=${key}`;
+  const j = await fetchJson<any>(url);
+  const top = j.results?.[0];
+  const components = top?.address_components || [];
+  const { city, district } = extractCityDistrict(components);
+
+  const formatted = formatAddressWithCity(top?.formatted_address, city, district);
+  return { city, district, formatted };
+}
+
+async function directionsGoogle(
+  key: string,
+  { origin, destination, waypoints = [], optimizeWaypoints, mode = 'driving', lang, region }: RouteRequest
+): Promise<DirectionsInfo> {
+  // Google transit 不支援 waypoints：逐段規劃後串接
+  if (mode === 'transit' && waypoints.length) {
+    const points = [origin, ...waypoints, destination];
+    const parts: DirectionsInfo[] = [];
+    for (let i = 0; i < points.length - 1; i++) {
+      parts.push(await directionsGoogle(key, { origin: points[i], destination: points[i + 1], mode, lang, region }));
+    }
+    return joinDirections(parts, mode, waypoints.map((_, i) => i));
+  }
+
+  const regionPart = region ? `&region=${encodeURIComponent(region)}` : '';
+  const waypointsPart = waypoints.length
+    ? `&waypoints=${encodeURIComponent((optimizeWaypoints ? ['optimize:true'] : []).concat(waypoints.map(toQueryPoint)).join('|'))}`
+    : '';
+  const url = `https://maps.googleapis.com/maps/api/directions/json?origin=${encodeURIComponent(toQueryPoint(origin))}&destination=${encodeURIComponent(toQueryPoint(destination))}${waypointsPart}&language=${encodeURIComponent(lang)}${regionPart}&mode=${mode}&key=${key}`;
+  const j = await fetchJson<any>(url);
+  if (j.status !== 'OK' || !j.routes?.[0]) {
+    throw providerError(j.error_message || j.status || 'directions_failed', j.status);
+  }
+  const route = j.routes[0];
+  const legs: RouteLeg[] = route.legs.map((leg: any) => ({
+    start: { lat: leg.start_location.lat, lng: leg.start_location.lng, address: leg.start_address },
+    end:   { lat: leg.end_location.lat,   lng: leg.end_location.lng,   address: leg.end_address },
+    distanceText: leg.distance.text,
+    durationText: leg.duration.text,
+    distanceMeters: leg.distance.value,
+    durationSeconds: leg.duration.value,
+  }));
+  const pts = polyline.decode(route.overview_polyline.points).map(([lat, lng]: [number, number]) => ({ lat, lng }));
+  return joinDirections([{ polyPts: pts, legs }], mode, waypoints.length ? route.waypoint_order : undefined);
+}
+
+/** 串接多段路線；單段沿用 Google 的在地化文字，多段則自行加總 */
+function joinDirections(parts: Array<Pick<DirectionsInfo, 'polyPts' | 'legs'>>, mode: TravelMode, waypointOrder?: number[]): DirectionsInfo {
+  const legs = parts.flatMap(p => p.legs);
+  const single = legs.length === 1;
+  const distanceMeters = legs.reduce((s, l) => s + l.distanceMeters, 0);
+  const durationSeconds = legs.reduce((s, l) => s + l.durationSeconds, 0);
+  return {
+    polyPts: parts.flatMap(p => p.polyPts),
+    start: legs[0].start,
+    end: legs[legs.length - 1].end,
+    distanceText: single ? legs[0].distanceText : formatDistanceText(distanceMeters),
+    durationText: single ? legs[0].durationText : formatDurationText(durationSeconds),
+    legs,
+    mode,
+    waypointOrder,
+  };
+}
+
+async function nearbyGoogle(
+  key: string,
+  { center, radiusM, type, keyword, lang, openNow }: NearbyQuery,
+  pageToken?: string
+): Promise<NearbyPage> {
+  // 下一頁只需要 pagetoken，其餘條件已綁在 token 裡
+  const usp = pageToken
+    ? new URLSearchParams({ pagetoken: pageToken, key })
+    : new URLSearchParams({
+        location: `${center.lat},${center.lng}`,
+        radius: `${radiusM || 3000}`,
+        language: lang,
+        key,
+      });
+  if (!pageToken && type) usp.set('type', type);
+  if (!pageToken && keyword) usp.set('keyword', keyword);
+  if (!pageToken && openNow) usp.set('opennow', 'true');
+  const url = `https://maps.googleapis.com/maps/api/place/nearbysearch/json?${usp.toString()}`;
+
+  for (let attempt = 0; attempt < NEARBY_RETRY_LIMIT; attempt++) {
+    try {
+      const ac = new AbortController();
+      const timer = setTimeout(() => ac.abort(), NEARBY_TIMEOUT_MS);
+      const j = await fetchJson<any>(url, { signal: ac.signal });
+      clearTimeout(timer);
+
+      if (j.status === 'OK' || j.status === 'ZERO_RESULTS') {
+        return { results: Array.isArray(j.results) ? j.results : [], nextPageToken: j.next_page_token || undefined };
+      }
+
+      // 剛發出的 next_page_token 要過一兩秒才生效，期間回 INVALID_REQUEST
+      if (pageToken && j.status === 'INVALID_REQUEST' && attempt < NEARBY_RETRY_LIMIT - 1) {
+        await sleep(PAGE_TOKEN_DELAY_MS);
+        continue;
+      }
+      const retryable = j.status === 'OVER_QUERY_LIMIT' || j.status === 'UNKNOWN_ERROR';
+      if (retryable && attempt < NEARBY_RETRY_LIMIT - 1) {
+        await sleep(200 * (attempt + 1));
+        continue;
+      }
+      console.warn('Places Nearby error:', j.status, j.error_message);
+      return { results: [] };
+    } catch {
+      if (attempt < NEARBY_RETRY_LIMIT - 1) {
+        await sleep(200 * (attempt + 1));
+        continue;
+      }
+      return { results: [] };
+    }
+  }
+  return { results: [] };
+}
+
+async function detailsGoogle(key: string, placeId: string, lang: string, sessionToken?: string): Promise<PlaceDetails> {
+  const url =
+    `https://maps.googleapis.com/maps/api/place/details/json` +
+    `?place_id=${encodeURIComponent(placeId)}` +
+    `&fields=${encodeURIComponent(DETAILS_FIELDS.join(','))}` +
+    `&language=${encodeURIComponent(lang)}` +
+    // 結束 autocomplete 的 session
+    (sessionToken ? `&sessiontoken=${encodeURIComponent(sessionToken)}` : '') +
+    // 評論保留原文，呼叫端才能依語系篩選
+    `&reviews_no_translations=true` +
+    `&key=${key}`;
+
+  const j = await fetchJson<any>(url);
+  if (j.status && j.status !== 'OK') throw providerError(j.error_message || j.status, j.status);
+
+  const r = j.result || {};
+  return {
+    name: r.name,
+    website: r.website,
+    formatted_phone_number: r.formatted_phone_number,
+    formatted_address: r.formatted_address,
+    rating: r.rating,
+    user_ratings_total: r.user_ratings_total,
+    opening_hours: r.opening_hours,
+    geometry: r.geometry,
+    url: r.url,
+    weeklyHours: parseGooglePeriods(r.opening_hours?.periods),
+    photos: Array.isArray(r.photos) ? r.photos.map(photoOf) : undefined,
+    price_level: r.price_level,
+    reviews: Array.isArray(r.reviews) ? r.reviews.map(reviewOf) : undefined,
+    editorial_summary: r.editorial_summary?.overview,
+    wheelchair_accessible_entrance: r.wheelchair_accessible_entrance,
+    current_opening_hours: r.current_opening_hours && { weekday_text: r.current_opening_hours.weekday_text },
+    currentHours: parseGooglePeriods(r.current_opening_hours?.periods),
+    utc_offset_minutes: typeof r.utc_offset === 'number' ? r.utc_offset : undefined,
+  };
+}
+
+function biasParams(usp: URLSearchParams, bias?: SearchBias) {
+  if (!bias) return;
+  usp.set('location', `${bias.center.lat},${bias.center.lng}`);
+  usp.set('radius', String(Math.round(bias.radiusM)));
+}
+
+async function autocompleteGoogle(key: string, { input, lang, sessionToken, bias }: AutocompleteQuery): Promise<PlaceSuggestion[]> {
+  const usp = new URLSearchParams({ input, language: lang, key });
+  if (sessionToken) usp.set('sessiontoken', sessionToken);
+  biasParams(usp, bias);
+  const j = await fetchJson<any>(`https://maps.googleapis.com/maps/api/place/autocomplete/json?${usp.toString()}`);
+  if (j.status !== 'OK' && j.status !== 'ZERO_RESULTS') throw providerError(j.error_message || j.status, j.status);
+  return (j.predictions || []).map((p: any) => ({
+    place_id: p.place_id,
+    description: p.description,
+    main_text: p.structured_formatting?.main_text || p.description,
+    secondary_text: p.structured_formatting?.secondary_text,
+    types: p.types,
+  }));
+}
+
+async function textSearchGoogle(key: string, { query, lang, bias }: TextSearchQuery): Promise<PlaceSearchResult[]> {
+  const usp = new URLSearchParams({ query, language: lang, key });
+  biasParams(usp, bias);
+  const j = await fetchJson<any>(`https://maps.googleapis.com/maps/api/place/textsearch/json?${usp.toString()}`);
+  if (j.status !== 'OK' && j.status !== 'ZERO_RESULTS') throw providerError(j.error_message || j.status, j.status);
+  return (j.results || []).map((r: any) => ({
+    place_id: r.place_id,
+    name: r.name,
+    formatted_address: r.formatted_address,
+    location: { lat: r.geometry.location.lat, lng: r.geometry.location.lng },
+    types: r.types,
+    rating: r.rating,
+    user_ratings_total: r.user_ratings_total,
+  }));
+}
+
+function photoOf(p: any): PlacePhoto {
+  return {
+    ref: p.photo_reference,
+    width: p.width,
+    height: p.height,
+    attributions: (p.html_attributions || []).map((a: string) => a.replace(/<[^>]*>/g, '').trim()).filter(Boolean),
+  };
+}
+
+function reviewOf(r: any): PlaceReview {
+  return {
+    author_name: r.author_name,
+    rating: r.rating,
+    text: r.text || '',
+    language: r.original_language || r.language,
+    relative_time_description: r.relative_time_description,
+    time: r.time,
+  };
+}
+
+/** Place Photo API 會 302 到 lh3.googleusercontent.com；只取轉址目標，圖片由瀏覽器直接向 Google 取得 */
+async function photoUrlGoogle(key: string, ref: string, { maxWidth, maxHeight }: PhotoSize): Promise<string> {
+  const usp = new URLSearchParams({ photo_reference: ref, key });
+  if (maxWidth) usp.set('maxwidth', String(maxWidth));
+  if (maxHeight) usp.set('maxheight', String(maxHeight));
+  const ac = new AbortController();
+  const timer = setTimeout(() => ac.abort(), PHOTO_TIMEOUT_MS);
+  try {
+    const r = await fetch(`https://maps.googleapis.com/maps/api/place/photo?${usp.toString()}`, {
+      redirect: 'manual',
+      signal: ac.signal,
+      cache: 'no-store',
+    });
+    const location = r.headers.get('location');
+    if (r.status >= 300 && r.status < 400 && location) return location;
+    if (r.status === 400 || r.status === 404) throw providerError('photo not found', 'NOT_FOUND');
+    throw providerError(`photo ${r.status}`, 'UPSTREAM');
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+export function createGoogleProvider(key: string): MapProvider {
+  return {
+    name: 'google',
+    geocoder: { geocode: (query, lang, region) => geocodeGoogle(key, query, lang, region) },
+    reverseGeocoder: { reverseGeocode: (point, lang) => reverseGeocodeGoogle(key, point, lang) },
+    router: { acceptsText: true, modes: ['driving', 'transit', 'walking', 'bicycling'], route: req => directionsGoogle(key, req) },
+    places: {
+      nearby: async q => (await nearbyGoogle(key, q)).results,
+      nearbyPage: (q, pageToken) => nearbyGoogle(key, q, pageToken),
+      details: (placeId, lang, sessionToken) => detailsGoogle(key, placeId, lang, sessionToken),
+      autocomplete: q => autocompleteGoogle(key, q),
+      textSearch: q => textSearchGoogle(key, q),
+      photoUrl: (ref, size) => photoUrlGoogle(key, ref, size),
+      supportsKeyword: true,
+      hoursInNearby: false,
+      concurrency: NEARBY_CONCURRENCY,
+    },
+  };
+}
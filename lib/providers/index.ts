@@ -0,0 +1,71 @@
+// lib/providers/index.ts
+import { resolveResponseCache, type CacheMode } from '../cache';
+import { withResponseCache } from './cached';
+import { createGoogleProvider, PHOTO_MAX_PX } from './google';
+import { createOsmProvider } from './osm';
+import type { DirectionsInfo, Geocoder, MapProvider, ProviderName, RouteRequest, Router, SearchBias, TravelMode } from './types';
+
+export * from './types';
+export { createGoogleProvider, createOsmProvider, withResponseCache, PHOTO_MAX_PX };
+
+export function parseProviderName(input?: string | null): ProviderName | undefined {
+  const v = String(input || '').trim().toLowerCase();
+  if (v === 'google') return 'google';
+  if (v === 'osrm' || v === 'osm') return 'osrm';
+  return undefined;
+}
+
+export function parseTravelMode(input?: string | null): TravelMode | undefined {
+  const v = String(input || '').trim().toLowerCase();
+  if (v === 'driving' || v === 'transit' || v === 'walking') return v;
+  if (v === 'bicycling' || v === 'cycling' || v === 'bike') return 'bicycling';
+  return undefined;
+}
+
+const MAX_BIAS_RADIUS_M = 50000;
+
+/** 搜尋偏好中心「lat,lng」與半徑（公尺，預設 50 公里）；未帶 location 時為 null，格式不對時回傳錯誤訊息 */
+export function parseSearchBias(location?: string | null, radius?: string | null): SearchBias | null | string {
+  if (!location) return null;
+  const [lat, lng] = location.split(',').map(Number);
+  if (!Number.isFinite(lat) || !Number.isFinite(lng)) return 'invalid location';
+  const radiusM = radius ? Number(radius) : MAX_BIAS_RADIUS_M;
+  if (!Number.isFinite(radiusM) || radiusM <= 0 || radiusM > MAX_BIAS_RADIUS_M) return `radius must be 1-${MAX_BIAS_RADIUS_M} meters`;
+  return { center: { lat, lng }, radiusM };
+}
+
+/**
+ * 選擇地圖供應者：請求指定 > MAP_PROVIDER 環境變數 > 有 Google 金鑰則 google，否則 osrm。
+ * 指定了未知名稱，或指定 google 卻沒有金鑰時回傳 null。
+ * 回傳的供應者已包上回應快取；cache 為 bypass 時這次請求不讀寫快取。
+ */
+export function resolveMapProvider(requested?: string | null, cache: CacheMode = 'use'): MapProvider | null {
+  const key = process.env.GOOGLE_MAPS_API_KEY;
+  if (requested && !parseProviderName(requested)) return null;
+  const name = parseProviderName(requested) || parseProviderName(process.env.MAP_PROVIDER) || (key ? 'google' : 'osrm');
+  if (name === 'google' && !key) return null;
+  const provider = name === 'google' ? createGoogleProvider(key!) : createOsmProvider();
+  return withResponseCache(provider, resolveResponseCache(), cache);
+}
+
+/**
+ * 以指定交通方式規劃；供應者不支援、或該方式查無路線（如偏鄉沒有大眾運輸）時改用 driving。
+ * 實際採用的方式記在回傳的 mode。
+ */
+export async function routeWithMode(router: Router, req: RouteRequest): Promise<DirectionsInfo> {
+  const mode = req.mode || 'driving';
+  if (mode === 'driving' || !router.modes.includes(mode)) {
+    return router.route({ ...req, mode: 'driving' });
+  }
+  try {
+    return await router.route(req);
+  } catch (e: any) {
+    if (e?.code !== 'ZERO_RESULTS' && e?.code !== 'NoRoute') throw e;
+    return router.route({ ...req, mode: 'driving' });
+  }
+}
+
+/** Google 地理編碼失敗時再試 Nominatim */
+export function geocoderChain(provider: MapProvider): Geocoder[] {
+  return provider.name === 'osrm' ? [provider.geocoder] : [provider.geocoder, createOsmProvider().geocoder];
+}
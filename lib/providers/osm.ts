@@ -0,0 +1,401 @@
+// lib/providers/osm.ts
+import {
+  fetchJson,
+  formatAddressWithCity,
+  formatDistanceText,
+  formatDurationText,
+  sleep,
+  type LatLng,
+} from '../geo';
+import { parseOsmOpeningHours } from '../opening-hours';
+import {
+  providerError,
+  type AutocompleteQuery,
+  type DirectionsInfo,
+  type GeocodeResult,
+  type MapProvider,
+  type NearbyQuery,
+  type PlaceDetails,
+  type PlaceSearchResult,
+  type PlaceSuggestion,
+  type RawPlace,
+  type RouteLeg,
+  type RouteRequest,
+  type SearchBias,
+  type TextSearchQuery,
+  type TravelMode,
+} from './types';
+
+const NOMINATIM_API_URL = process.env.NOMINATIM_API_URL || 'https://nominatim.openstreetmap.org';
+const OSRM_API_URL = process.env.OSRM_API_URL || 'https://router.project-osrm.org';
+const OSRM_FOOT_URL = process.env.OSRM_FOOT_URL || 'https://routing.openstreetmap.de/routed-foot';
+const OSRM_BIKE_URL = process.env.OSRM_BIKE_URL || 'https://routing.openstreetmap.de/routed-bike';
+const OVERPASS_API_URL = process.env.OVERPASS_API_URL || 'https://overpass-api.de/api/interpreter';
+const OVERPASS_CONCURRENCY = 2;
+const OVERPASS_RETRY_LIMIT = 3;
+const OVERPASS_TIMEOUT_MS = 20000;
+const OVERPASS_RESULT_LIMIT = 150;
+const USER_AGENT = 'tripi-pro/1.0 (+https://tripi-pro.vercel.app)';
+/** Nominatim 使用政策：每秒最多 1 個請求 */
+const NOMINATIM_INTERVAL_MS = 1000;
+const AUTOCOMPLETE_LIMIT = 5;
+const TEXT_SEARCH_LIMIT = 10;
+
+/**
+ * 一個 osrm-routed 只載入一種 profile，網址裡的 profile 會被忽略（公用的 router.project-osrm.org 只有開車），
+ * 所以每種交通方式各自指向一台伺服器。OSRM 沒有大眾運輸 profile
+ */
+const OSRM_PROFILES: Partial<Record<TravelMode, { baseUrl: string; profile: string }>> = {
+  driving: { baseUrl: OSRM_API_URL, profile: 'driving' },
+  walking: { baseUrl: OSRM_FOOT_URL, profile: 'foot' },
+  bicycling: { baseUrl: OSRM_BIKE_URL, profile: 'bike' },
+};
+
+/** ---------------- Nominatim / OSRM ---------------- */
+/** 同一個程序內依序排隊，兩次 Nominatim 請求（geocode 與搜尋）至少間隔 NOMINATIM_INTERVAL_MS */
+let nominatimNextAt = 0;
+async function nominatimSlot() {
+  const now = Date.now();
+  const at = Math.max(now, nominatimNextAt);
+  nominatimNextAt = at + NOMINATIM_INTERVAL_MS;
+  if (at > now) await sleep(at - now);
+}
+
+async function geocodeOSM(query: string, lang: string): Promise<GeocodeResult> {
+  const url = `${NOMINATIM_API_URL}/search?format=jsonv2&limit=1&addressdetails=1&accept-language=${encodeURIComponent(lang)}&q=${encodeURIComponent(query)}`;
+  await nominatimSlot();
+  const r = await fetch(url, {
+    headers: {
+      'Accept': 'application/json',
+      'Accept-Language': lang,
+      'User-Agent': USER_AGENT,
+    },
+    cache: 'no-store',
+  });
+  const raw = await r.text();
+  let j: any;
+  try {
+    j = JSON.parse(raw);
+  } catch {
+    throw new Error(`geocode_osm_non_json:${raw.slice(0, 80)}`);
+  }
+  if (!r.ok) throw new Error(`geocode_osm_http_${r.status}`);
+  if (!Array.isArray(j) || !j[0]) throw new Error('geocode_osm_empty');
+  return {
+    lat: parseFloat(j[0].lat),
+    lng: parseFloat(j[0].lon),
+    formatted_address: j[0].display_name,
+    components: [],
+    countryCode: j[0].address?.country_code,
+  };
+}
+
+/** 偏好範圍轉成 Nominatim viewbox（不設 bounded，只影響排序） */
+function viewboxOf({ center, radiusM }: SearchBias) {
+  const dLat = radiusM / 111320;
+  const dLng = dLat / Math.max(0.01, Math.cos((center.lat * Math.PI) / 180));
+  return [center.lng - dLng, center.lat + dLat, center.lng + dLng, center.lat - dLat].map(v => v.toFixed(5)).join(',');
+}
+
+async function searchNominatim(query: string, lang: string, limit: number, bias?: SearchBias): Promise<any[]> {
+  const usp = new URLSearchParams({ format: 'jsonv2', limit: String(limit), addressdetails: '1', 'accept-language': lang, q: query });
+  if (bias) usp.set('viewbox', viewboxOf(bias));
+  await nominatimSlot();
+  const j = await fetchJson<any>(`${NOMINATIM_API_URL}/search?${usp.toString()}`, {
+    headers: { Accept: 'application/json', 'Accept-Language': lang, 'User-Agent': USER_AGENT },
+  });
+  // osm_type/osm_id 組成與 Overpass 相同的 place_id，details 可以直接查
+  return Array.isArray(j) ? j.filter(r => r?.osm_type && r?.osm_id) : [];
+}
+
+function nominatimPlaceId(r: any) {
+  return `osm:${r.osm_type}/${r.osm_id}`;
+}
+
+/** Nominatim 沒有自動完成 API，以一般搜尋代替；呼叫端要 debounce，加上快取與每秒 1 次的節流 */
+async function autocompleteOSM({ input, lang, bias }: AutocompleteQuery): Promise<PlaceSuggestion[]> {
+  const rows = await searchNominatim(input, lang, AUTOCOMPLETE_LIMIT, bias);
+  return rows.map(r => {
+    const main = r.name || String(r.display_name).split(',')[0];
+    return {
+      place_id: nominatimPlaceId(r),
+      description: r.display_name,
+      main_text: main,
+      secondary_text: String(r.display_name).split(',').slice(1).join(',').trim() || undefined,
+      types: [r.category, r.type].filter(Boolean),
+      location: { lat: parseFloat(r.lat), lng: parseFloat(r.lon) },
+    };
+  });
+}
+
+async function textSearchOSM({ query, lang, bias }: TextSearchQuery): Promise<PlaceSearchResult[]> {
+  const rows = await searchNominatim(query, lang, TEXT_SEARCH_LIMIT, bias);
+  return rows.map(r => ({
+    place_id: nominatimPlaceId(r),
+    name: r.name || String(r.display_name).split(',')[0],
+    formatted_address: r.display_name,
+    location: { lat: parseFloat(r.lat), lng: parseFloat(r.lon) },
+    types: [r.category, r.type].filter(Boolean),
+  }));
+}
+
+async function routeOSRM({ origin, destination, waypoints = [], optimizeWaypoints, mode = 'driving' }: RouteRequest): Promise<DirectionsInfo> {
+  const server = OSRM_PROFILES[mode];
+  if (!server) throw providerError(`osrm_unsupported_mode:${mode}`, 'INVALID_REQUEST');
+  const points = [origin, ...waypoints, destination];
+  if (points.some(p => typeof p === 'string')) {
+    throw providerError('osrm_requires_coordinates', 'INVALID_REQUEST');
+  }
+  const coords = points as LatLng[];
+  const coordPart = coords.map(p => `${p.lng},${p.lat}`).join(';');
+  // trip 服務會重排中途點；固定起訖、不回到起點
+  const optimize = optimizeWaypoints && waypoints.length > 1;
+  const url = optimize
+    ? `${server.baseUrl}/trip/v1/${server.profile}/${coordPart}?source=first&destination=last&roundtrip=false&overview=full&geometries=geojson`
+    : `${server.baseUrl}/route/v1/${server.profile}/${coordPart}?overview=full&geometries=geojson`;
+  // 查無路線（NoRoute）等錯誤是 HTTP 400 帶 JSON，要讀 body 才拿得到 code，routeWithMode 才能改用 driving
+  const r = await fetch(url, { cache: 'no-store' });
+  const j = await r.json().catch(() => null);
+  if (!j) throw providerError(`osrm_http_${r.status}`);
+  const route = optimize ? j.trips?.[0] : j.routes?.[0];
+  if (!route) throw providerError(j.message || 'route_failed', j.code);
+
+  // trip 的 waypoints[i].waypoint_index 是輸入第 i 點在行程中的位置
+  let ordered = coords;
+  let waypointOrder: number[] | undefined;
+  if (optimize) {
+    const positions: number[] = j.waypoints.map((w: any) => w.waypoint_index);
+    ordered = coords.map((_, i) => i).sort((a, b) => positions[a] - positions[b]).map(i => coords[i]);
+    waypointOrder = waypoints
+      .map((_, i) => i)
+      .sort((a, b) => positions[a + 1] - positions[b + 1]);
+  } else if (waypoints.length) {
+    waypointOrder = waypoints.map((_, i) => i);
+  }
+
+  const legs: RouteLeg[] = route.legs.map((leg: any, i: number) => ({
+    start: { lat: ordered[i].lat, lng: ordered[i].lng, address: '' },
+    end: { lat: ordered[i + 1].lat, lng: ordered[i + 1].lng, address: '' },
+    distanceText: formatDistanceText(leg.distance),
+    durationText: formatDurationText(leg.duration),
+    distanceMeters: leg.distance,
+    durationSeconds: leg.duration,
+  }));
+  const polyPts = route.geometry.coordinates.map(([lng, lat]: [number, number]) => ({ lat, lng }));
+  return {
+    polyPts: polyPts as LatLng[],
+    start: legs[0].start,
+    end: legs[legs.length - 1].end,
+    distanceText: formatDistanceText(route.distance),
+    durationText: formatDurationText(route.duration),
+    legs,
+    mode,
+    waypointOrder,
+  };
+}
+
+/** ---------------- Overpass ---------------- */
+/** Overpass 依類別分組查詢，同一取樣點的景點類型共用一次請求 */
+type OsmGroup = 'attraction' | 'food' | 'lodging' | 'cafe' | 'gas_station';
+
+const OSM_TAG_FILTERS: Record<OsmGroup, string[]> = {
+  attraction: [
+    '["tourism"~"^(attraction|viewpoint|museum|gallery|zoo|aquarium|theme_park)$"]',
+    '["leisure"~"^(park|garden)$"]',
+    '["amenity"="place_of_worship"]',
+    '["historic"~"^(castle|monument|memorial|fort|ruins)$"]',
+  ],
+  food: ['["amenity"~"^(restaurant|food_court)$"]'],
+  lodging: ['["tourism"~"^(hotel|guest_house|hostel|motel)$"]'],
+  cafe: ['["amenity"="cafe"]'],
+  gas_station: ['["amenity"="fuel"]'],
+};
+
+const OSM_ATTRACTION_TYPES = new Set([
+  'tourist_attraction',
+  'park',
+  'museum',
+  'art_gallery',
+  'amusement_park',
+  'zoo',
+  'aquarium',
+  'place_of_worship',
+]);
+
+function osmGroupOf(type?: string): OsmGroup | undefined {
+  if (!type) return 'attraction';
+  if (type === 'restaurant') return 'food';
+  if (type === 'lodging') return 'lodging';
+  if (type === 'cafe') return 'cafe';
+  if (type === 'gas_station') return 'gas_station';
+  if (OSM_ATTRACTION_TYPES.has(type)) return 'attraction';
+  return undefined;
+}
+
+/** 把 OSM tags 對應成 Google Places types，讓既有的篩選/分類邏輯可以共用 */
+function osmTypesOf(tags: Record<string, string>): string[] {
+  const { tourism, leisure, amenity } = tags;
+  const types: string[] = [];
+  if (amenity === 'restaurant' || amenity === 'food_court') types.push('restaurant', 'food');
+  if (amenity === 'cafe') types.push('cafe', 'food');
+  if (types.includes('food')) {
+    // diet:* 與 cuisine 對應成 Places (New) 的 <料理>_restaurant；清真、無麩質 Google 沒有對應的 type，沿用同樣的命名
+    for (const diet of ['vegetarian', 'vegan', 'halal', 'gluten_free']) {
+      if (tags[`diet:${diet}`] === 'yes' || tags[`diet:${diet}`] === 'only') types.push(`${diet}_restaurant`);
+    }
+    for (const c of String(tags.cuisine || '').toLowerCase().split(';')) {
+      if (/^[a-z_]+$/.test(c.trim())) types.push(`${c.trim()}_restaurant`);
+    }
+  }
+  if (amenity === 'fuel') types.push('gas_station');
+  if (tourism === 'hotel' || tourism === 'guest_house' || tourism === 'hostel' || tourism === 'motel') types.push('lodging');
+  if (tourism === 'museum') types.push('museum');
+  if (tourism === 'gallery') types.push('art_gallery', 'museum');
+  if (tourism === 'zoo') types.push('zoo');
+  if (tourism === 'aquarium') types.push('aquarium');
+  if (tourism === 'theme_park') types.push('amusement_park');
+  if (leisure === 'park' || leisure === 'garden') types.push('park');
+  if (amenity === 'place_of_worship') types.push('place_of_worship');
+  if (tourism === 'attraction' || tourism === 'viewpoint' || tags.historic) types.push('tourist_attraction');
+  types.push('point_of_interest');
+  return types;
+}
+
+/** OSM 沒有價位：住宿依類型與 stars 標籤估算 price_level，沒有星級的旅館不估 */
+function osmPriceLevel(tags: Record<string, string>): number | undefined {
+  const { tourism } = tags;
+  if (tourism === 'hostel') return 1;
+  if (tourism === 'guest_house' || tourism === 'motel') return 2;
+  if (tourism !== 'hotel') return undefined;
+  const stars = parseFloat(tags.stars || '');
+  if (!Number.isFinite(stars)) return undefined;
+  return stars >= 5 ? 4 : stars >= 3 ? 3 : 2;
+}
+
+function osmLocalizedName(tags: Record<string, string>, lang: string) {
+  const l = lang.toLowerCase();
+  const keys =
+    l === 'zh-tw' ? ['name:zh-Hant', 'name:zh_TW', 'name:zh'] :
+    l === 'zh-cn' ? ['name:zh-Hans', 'name:zh_CN', 'name:zh'] :
+    [`name:${l.split('-')[0]}`];
+  for (const k of keys) if (tags[k]) return tags[k];
+  return tags.name;
+}
+
+function osmAddress(tags: Record<string, string>) {
+  const street = [tags['addr:street'], tags['addr:housenumber']].filter(Boolean).join(' ');
+  const city = tags['addr:city'];
+  const district = tags['addr:district'] || tags['addr:suburb'];
+  return formatAddressWithCity(street, city, district) || undefined;
+}
+
+function osmElementToPlace(el: any, lang: string): RawPlace | null {
+  const tags: Record<string, string> = el?.tags || {};
+  const lat = el?.lat ?? el?.center?.lat;
+  const lng = el?.lon ?? el?.center?.lon;
+  const name = osmLocalizedName(tags, lang);
+  if (!name || typeof lat !== 'number' || typeof lng !== 'number') return null;
+  const prominence =
+    (tags.wikidata ? 1 : 0) +
+    (tags.wikipedia ? 1 : 0) +
+    (tags.website || tags['contact:website'] ? 0.3 : 0) +
+    (tags.opening_hours ? 0.2 : 0);
+  return {
+    place_id: `osm:${el.type}/${el.id}`,
+    name,
+    geometry: { location: { lat, lng } },
+    vicinity: osmAddress(tags),
+    types: osmTypesOf(tags),
+    source: 'osm',
+    prominence,
+    weeklyHours: parseOsmOpeningHours(tags.opening_hours),
+    price_level: osmPriceLevel(tags),
+  };
+}
+
+async function overpassQuery(query: string): Promise<any[]> {
+  for (let attempt = 0; attempt < OVERPASS_RETRY_LIMIT; attempt++) {
+    try {
+      const ac = new AbortController();
+      const timer = setTimeout(() => ac.abort(), OVERPASS_TIMEOUT_MS);
+      const j = await fetchJson<any>(OVERPASS_API_URL, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/x-www-form-urlencoded', 'User-Agent': USER_AGENT },
+        body: new URLSearchParams({ data: query }).toString(),
+        signal: ac.signal,
+      });
+      clearTimeout(timer);
+      return Array.isArray(j?.elements) ? j.elements : [];
+    } catch {
+      if (attempt < OVERPASS_RETRY_LIMIT - 1) {
+        await sleep(500 * (attempt + 1));
+        continue;
+      }
+      return [];
+    }
+  }
+  return [];
+}
+
+async function overpassAround(center: LatLng, radiusM: number, group: OsmGroup, lang: string) {
+  const around = `(around:${Math.round(radiusM)},${center.lat},${center.lng})`;
+  const body = OSM_TAG_FILTERS[group].map(f => `nwr${f}["name"]${around};`).join('');
+  const query = `[out:json][timeout:${Math.round(OVERPASS_TIMEOUT_MS / 1000)}];(${body});out center tags ${OVERPASS_RESULT_LIMIT};`;
+  const elements = await overpassQuery(query);
+  return elements.map(el => osmElementToPlace(el, lang)).filter(Boolean) as RawPlace[];
+}
+
+async function detailsOSM(placeId: string, lang: string): Promise<PlaceDetails> {
+  const m = placeId.match(/^osm:(node|way|relation)\/(\d+)$/);
+  if (!m) throw providerError('invalid_osm_place_id', 'INVALID_REQUEST');
+  const [, kind, id] = m;
+  const elements = await overpassQuery(`[out:json];${kind}(${id});out center tags;`);
+  const el = elements[0];
+  const place = el ? osmElementToPlace(el, lang) : null;
+  if (!place) throw providerError('not_found', 'NOT_FOUND');
+  const tags: Record<string, string> = el.tags || {};
+  return {
+    name: place.name,
+    website: tags.website || tags['contact:website'],
+    formatted_phone_number: tags.phone || tags['contact:phone'],
+    formatted_address: place.vicinity,
+    opening_hours: tags.opening_hours ? { weekday_text: [tags.opening_hours] } : undefined,
+    geometry: place.geometry,
+    url: `https://www.openstreetmap.org/${kind}/${id}`,
+    weeklyHours: place.weeklyHours,
+  };
+}
+
+/** 每個請求各自建立，memo 讓同一取樣點的多種景點類型只打一次 Overpass */
+export function createOsmProvider(): MapProvider {
+  const memo = new Map<string, Promise<RawPlace[]>>();
+  const nearby = async ({ center, radiusM, type, lang }: NearbyQuery) => {
+    const group = osmGroupOf(type);
+    if (!group) return [];
+    const key = `${group}@${center.lat.toFixed(5)},${center.lng.toFixed(5)}:${radiusM}`;
+    let req = memo.get(key);
+    if (!req) {
+      req = overpassAround(center, radiusM, group, lang);
+      memo.set(key, req);
+    }
+    const all = await req;
+    return type ? all.filter(p => p.types?.includes(type)) : all;
+  };
+
+  return {
+    name: 'osrm',
+    geocoder: { geocode: (query, lang) => geocodeOSM(query, lang) },
+    router: { acceptsText: false, modes: Object.keys(OSRM_PROFILES) as TravelMode[], route: routeOSRM },
+    places: {
+      nearby,
+      // Overpass 一次回傳全部（上限 OVERPASS_RESULT_LIMIT），沒有分頁
+      nearbyPage: async q => ({ results: await nearby(q) }),
+      details: (placeId, lang) => detailsOSM(placeId, lang),
+      autocomplete: autocompleteOSM,
+      textSearch: textSearchOSM,
+      supportsKeyword: false,
+      hoursInNearby: true,
+      concurrency: OVERPASS_CONCURRENCY,
+    },
+  };
+}
@@ -0,0 +1,238 @@
+// lib/providers/types.ts
+import type { LatLng } from '../geo';
+import type { WeeklyHours } from '../opening-hours';
+
+export type ProviderName = 'google' | 'osrm';
+
+export type TravelMode = 'driving' | 'transit' | 'walking' | 'bicycling';
+
+export type PlaceType =
+  | 'tourist_attraction'
+  | 'park'
+  | 'museum'
+  | 'amusement_park'
+  | 'zoo'
+  | 'aquarium'
+  | 'place_of_worship'
+  | 'restaurant'
+  | 'lodging';
+
+export type GeocodeResult = {
+  lat: number;
+  lng: number;
+  formatted_address: string;
+  components: any[];
+  /** ISO 3166-1 alpha-2（小寫） */
+  countryCode?: string;
+};
+
+export type ReverseGeocodeResult = { city?: string; district?: string; formatted: string };
+
+/** 路線端點：文字地名（僅 acceptsText 的 Router 支援）或座標 */
+export type RoutePoint = string | LatLng;
+
+export type RouteRequest = {
+  origin: RoutePoint;
+  destination: RoutePoint;
+  /** 依序經過的中途停靠點 */
+  waypoints?: RoutePoint[];
+  /** 允許供應者重排中途停靠點（起訖不動） */
+  optimizeWaypoints?: boolean;
+  /** 未指定時為 driving */
+  mode?: TravelMode;
+  lang: string;
+  region?: string;
+};
+
+export type RouteEndpoint = { lat: number; lng: number; address: string };
+
+export type RouteLeg = {
+  start: RouteEndpoint;
+  end: RouteEndpoint;
+  distanceText: string;
+  durationText: string;
+  distanceMeters: number;
+  durationSeconds: number;
+};
+
+export type DirectionsInfo = {
+  polyPts: LatLng[];
+  start: RouteEndpoint;
+  end: RouteEndpoint;
+  distanceText: string;
+  durationText: string;
+  legs: RouteLeg[];
+  /** 實際規劃所用的交通方式 */
+  mode: TravelMode;
+  /** 最佳化後中途停靠點的造訪順序（原 waypoints 的索引） */
+  waypointOrder?: number[];
+};
+
+/** 各來源的地點結果統一成 Google Places 形狀，讓篩選/分類邏輯可以共用 */
+export type RawPlace = {
+  place_id: string;
+  name: string;
+  geometry: { location: LatLng };
+  vicinity?: string;
+  formatted_address?: string;
+  types?: string[];
+  rating?: number;
+  user_ratings_total?: number;
+  business_status?: string;
+  source?: 'google' | 'osm';
+  prominence?: number; // OSM 沒有評分，以 wikidata/wikipedia 等標籤估算知名度
+  weeklyHours?: WeeklyHours;
+  /** Google nearby 的 open_now 是查詢當下的狀態 */
+  opening_hours?: { open_now?: boolean };
+  price_level?: number;
+};
+
+export type NearbyQuery = {
+  center: LatLng;
+  radiusM: number;
+  type?: string;
+  keyword?: string;
+  lang: string;
+  /** 只要此刻營業中（Google 交給上游篩選；OSM 沒有這個參數，由呼叫端依 weeklyHours 判斷） */
+  openNow?: boolean;
+};
+
+/** 一頁 nearby 結果；nextPageToken 為上游的下一頁 token（Google 約數分鐘內有效），沒有下一頁時為 undefined */
+export type NearbyPage = { results: RawPlace[]; nextPageToken?: string };
+
+/** 地點相片；ref 交給 /api/places/photo 換成圖片，金鑰不外流 */
+export type PlacePhoto = {
+  ref: string;
+  width: number;
+  height: number;
+  /** 上游要求顯示的作者標示（純文字） */
+  attributions: string[];
+  /** /api/places/photo 的網址（由 route 補上） */
+  url?: string;
+};
+
+export type PlaceReview = {
+  author_name: string;
+  rating: number;
+  text: string;
+  /** 評論原文語系（BCP 47，如 zh-Hant、ja） */
+  language?: string;
+  relative_time_description?: string;
+  time: number; // unix 秒
+};
+
+export type PlaceDetails = {
+  name?: string;
+  website?: string;
+  formatted_phone_number?: string;
+  formatted_address?: string;
+  rating?: number;
+  user_ratings_total?: number;
+  opening_hours?: { open_now?: boolean; weekday_text?: string[]; [k: string]: any };
+  geometry?: { location: LatLng };
+  url?: string;
+  /** 正規化後的每週營業時段；無資料或無法解析時為 undefined */
+  weeklyHours?: WeeklyHours;
+  photos?: PlacePhoto[];
+  /** 0（免費）… 4（非常昂貴） */
+  price_level?: number;
+  reviews?: PlaceReview[];
+  editorial_summary?: string;
+  wheelchair_accessible_entrance?: boolean;
+  /** 未來 7 天的實際營業時間（含特殊營業日）；open_now 由 route 依當地時間即時計算 */
+  current_opening_hours?: { open_now?: boolean; weekday_text?: string[] };
+  /** current_opening_hours 正規化後的時段 */
+  currentHours?: WeeklyHours;
+  /** 地點時區與 UTC 的差（分鐘）；OSM 沒有時由呼叫端依經度推估 */
+  utc_offset_minutes?: number;
+};
+
+export type PhotoSize = { maxWidth?: number; maxHeight?: number };
+
+/** 依中心點偏好排序（不限制範圍） */
+export type SearchBias = { center: LatLng; radiusM: number };
+
+export type AutocompleteQuery = {
+  input: string;
+  lang: string;
+  /** Google 的 session token：同一次輸入的多次查詢加上最後一次 details 合併計費 */
+  sessionToken?: string;
+  bias?: SearchBias;
+};
+
+export type PlaceSuggestion = {
+  place_id: string;
+  description: string;
+  main_text: string;
+  secondary_text?: string;
+  types?: string[];
+  /** Nominatim 直接給座標；Google 要再查 details（帶同一個 session token） */
+  location?: LatLng;
+};
+
+export type TextSearchQuery = {
+  query: string;
+  lang: string;
+  bias?: SearchBias;
+};
+
+export type PlaceSearchResult = {
+  place_id: string;
+  name: string;
+  formatted_address?: string;
+  location: LatLng;
+  types?: string[];
+  rating?: number;
+  user_ratings_total?: number;
+};
+
+/** ---------------- Provider parts ---------------- */
+export type Geocoder = {
+  geocode(query: string, lang: string, region?: string): Promise<GeocodeResult>;
+};
+
+export type ReverseGeocoder = {
+  reverseGeocode(point: LatLng, lang: string): Promise<ReverseGeocodeResult>;
+};
+
+export type Router = {
+  /** true 表示可直接用文字地名規劃（Google Directions）；否則呼叫端須先 geocode */
+  acceptsText: boolean;
+  /** 支援的交通方式；呼叫端遇到不支援的方式改用 driving */
+  modes: TravelMode[];
+  route(req: RouteRequest): Promise<DirectionsInfo>;
+};
+
+export type PlacesSource = {
+  nearby(q: NearbyQuery): Promise<RawPlace[]>;
+  /** 分頁版 nearby；pageToken 取自上一頁的 nextPageToken。不分頁的供應者一次回傳全部 */
+  nearbyPage(q: NearbyQuery, pageToken?: string): Promise<NearbyPage>;
+  details(placeId: string, lang: string, sessionToken?: string): Promise<PlaceDetails>;
+  /** 輸入中的地名建議 */
+  autocomplete(q: AutocompleteQuery): Promise<PlaceSuggestion[]>;
+  /** 文字搜尋（「台北101」「墾丁 民宿」） */
+  textSearch(q: TextSearchQuery): Promise<PlaceSearchResult[]>;
+  /** 相片 ref 對應的圖片網址（不含金鑰）；沒有相片來源的供應者不提供 */
+  photoUrl?(ref: string, size: PhotoSize): Promise<string>;
+  supportsKeyword: boolean;
+  /** nearby 結果已帶 weeklyHours，排程時不必再逐一查 details */
+  hoursInNearby: boolean;
+  concurrency: number;
+};
+
+export type MapProvider = {
+  name: ProviderName;
+  geocoder: Geocoder;
+  reverseGeocoder?: ReverseGeocoder;
+  router: Router;
+  places: PlacesSource;
+};
+
+/** 上游回傳的錯誤碼（Google status / OSRM code），供呼叫端判斷是否改走 fallback */
+export type ProviderError = Error & { code?: string };
+
+export function providerError(message: string, code?: string): ProviderError {
+  const err = new Error(message) as ProviderError;
+  err.code = code;
+  return err;
+}
@@ -0,0 +1,149 @@
+// lib/regions/index.ts
+import type { PlaceType } from '../providers/types';
+import at from './at.json';
+import base from './default.json';
+import jp from './jp.json';
+import th from './th.json';
+import tw from './tw.json';
+
+/** ---------------- Types ---------------- */
+export type RegionThresholds = {
+  attractionRating: number;
+  attractionReviews: number;
+  /** 名稱不像知名景點（priorityNames）時的評論數下限 */
+  unlistedAttractionReviews: number;
+  foodRating: number;
+  foodReviews: number;
+  hotelRating: number;
+  hotelReviews: number;
+  /** 各景點類型的評論數下限 */
+  typeReviews: Partial<Record<PlaceType, number>>;
+};
+
+/**
+ * 區域設定檔（lib/regions/*.json）：名稱清單的每一項都是正規表示式片段，不分大小寫。
+ * 國家設定檔的清單接在 default.json 之後；keyword 清單有寫就整個取代（每個 keyword 都是額外的查詢）；
+ * thresholds 逐項覆寫。
+ */
+export type RegionProfileData = {
+  id: string;
+  /** ISO 3166-1 alpha-2（小寫），依 geocode 到的目的地國家挑選 */
+  countries: string[];
+  /** 請求沒有指定語言時，蒐集景點與排時間表用的語言 */
+  defaultLang?: string;
+  /** 地名提示：還沒 geocode 前，用起訖文字判斷區域（決定 Google 的 region 偏好） */
+  textHints?: string[];
+  attractionBlocklist?: string[];
+  /** 任何類型都排除的商家名稱 */
+  businessBlocklist?: string[];
+  parkBlocklist?: string[];
+  zooBlocklist?: string[];
+  /** 餐廳名稱裡出現代表其實是住宿 */
+  foodBlocklist?: string[];
+  hotelBrandBlocklist?: string[];
+  /** 宗教場所名稱至少要符合一項 */
+  worshipNames?: string[];
+  priorityNames?: string[];
+  deprioritizeNames?: string[];
+  /** 留給晚上行程的景點名稱（夜市、觀景台、溫泉），白天不排 */
+  eveningNames?: string[];
+  attractionKeywords?: string[];
+  foodKeywords?: string[];
+  /** 另外查詢晚上行程用的 keyword */
+  eveningKeywords?: string[];
+  /** 視為同一景點的名稱（正規化後：小寫、只留英數與中日文字）→ 群組名 */
+  nameAliases?: Record<string, string[]>;
+  /** 判斷景點是否重複時從名稱拿掉的字 */
+  groupStopwords?: string[];
+  addressStopwords?: string[];
+  restaurantStopwords?: string[];
+  thresholds?: Partial<RegionThresholds>;
+};
+
+export type RegionProfile = {
+  id: string;
+  countries: string[];
+  defaultLang: string;
+  textHints: RegExp;
+  attractionBlocklist: RegExp;
+  businessBlocklist: RegExp;
+  parkBlocklist: RegExp;
+  zooBlocklist: RegExp;
+  foodBlocklist: RegExp;
+  hotelBrandBlocklist: RegExp;
+  worshipNames: RegExp;
+  priorityNames: RegExp;
+  deprioritizeNames: RegExp;
+  eveningNames: RegExp;
+  attractionKeywords: string[];
+  foodKeywords: string[];
+  eveningKeywords: string[];
+  nameAliases: Array<[RegExp, string]>;
+  groupStopwords: RegExp;
+  addressStopwords: RegExp;
+  restaurantStopwords: RegExp;
+  thresholds: RegionThresholds;
+};
+
+/** ---------------- Compile ---------------- */
+const NEVER = /(?!)/;
+
+function anyOf(terms: string[], flags = 'i') {
+  return terms.length ? new RegExp(`(${terms.join('|')})`, flags) : NEVER;
+}
+
+function compileProfile(data: RegionProfileData, defaults: RegionProfileData = base as RegionProfileData): RegionProfile {
+  const overlay: RegionProfileData = data === defaults ? { id: data.id, countries: [] } : data;
+  const list = (k: keyof RegionProfileData) => [...((defaults[k] as string[]) || []), ...((overlay[k] as string[]) || [])];
+  const aliases = { ...defaults.nameAliases, ...overlay.nameAliases };
+  return {
+    id: data.id,
+    countries: data.countries,
+    defaultLang: data.defaultLang || defaults.defaultLang!,
+    textHints: anyOf(list('textHints')),
+    attractionBlocklist: anyOf(list('attractionBlocklist')),
+    businessBlocklist: anyOf(list('businessBlocklist')),
+    parkBlocklist: anyOf(list('parkBlocklist')),
+    zooBlocklist: anyOf(list('zooBlocklist')),
+    foodBlocklist: anyOf(list('foodBlocklist')),
+    hotelBrandBlocklist: anyOf(list('hotelBrandBlocklist')),
+    worshipNames: anyOf(list('worshipNames')),
+    priorityNames: anyOf(list('priorityNames')),
+    deprioritizeNames: anyOf(list('deprioritizeNames')),
+    eveningNames: anyOf(list('eveningNames')),
+    attractionKeywords: data.attractionKeywords || defaults.attractionKeywords || [],
+    foodKeywords: data.foodKeywords || defaults.foodKeywords || [],
+    eveningKeywords: data.eveningKeywords || defaults.eveningKeywords || [],
+    nameAliases: Object.entries(aliases).map(([group, names]) => [anyOf(names, 'g'), group]),
+    groupStopwords: anyOf(list('groupStopwords'), 'g'),
+    addressStopwords: anyOf(list('addressStopwords'), 'g'),
+    restaurantStopwords: anyOf(list('restaurantStopwords'), 'g'),
+    thresholds: {
+      ...(defaults.thresholds as RegionThresholds),
+      ...overlay.thresholds,
+      typeReviews: { ...defaults.thresholds?.typeReviews, ...overlay.thresholds?.typeReviews },
+    },
+  };
+}
+
+/** ---------------- Lookup ---------------- */
+export const DEFAULT_REGION_PROFILE = compileProfile(base as RegionProfileData);
+
+const PROFILES: RegionProfile[] = [at, jp, th, tw].map(d => compileProfile(d as RegionProfileData));
+
+/** 依 id 取設定檔；default 或未帶時回傳預設，未知 id 回傳 undefined */
+export function regionProfileById(id?: string | null): RegionProfile | undefined {
+  if (!id || id === DEFAULT_REGION_PROFILE.id) return DEFAULT_REGION_PROFILE;
+  return PROFILES.find(p => p.id === id);
+}
+
+/** 依目的地國家代碼挑選；沒有對應的設定檔時用預設 */
+export function regionProfileForCountry(countryCode?: string | null): RegionProfile {
+  const cc = String(countryCode || '').toLowerCase();
+  return PROFILES.find(p => p.countries.includes(cc)) || DEFAULT_REGION_PROFILE;
+}
+
+/** 以地名文字判斷區域；沒有符合的提示時回傳 undefined */
+export function regionProfileForText(text: string): RegionProfile | undefined {
+  return PROFILES.find(p => p.textHints.test(text));
+}
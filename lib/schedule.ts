@@ -0,0 +1,307 @@
+// lib/schedule.ts
+import { haversineKm, runWithConcurrency, type LatLng } from './geo';
+import { placeKey, suitsDayWeather, type DaySlot, type PlaceOut, type ScheduleSlot, type ScheduleStop } from './itinerary';
+import { openStatusDuring, type OpenStatus, type WeeklyHours } from './opening-hours';
+import type { PlacesSource, TravelMode } from './providers/types';
+
+export const DEFAULT_DAY_START = '09:00';
+export const DEFAULT_DAY_END = '20:00';
+
+const DETAILS_CONCURRENCY = 4;
+const DETOUR_FACTOR = 1.3;
+const INTERCITY_LEG_KM = 20;
+const BREAKFAST_MINUTES = 45;
+const LUNCH_EARLIEST_MIN = 11 * 60 + 30;
+const LUNCH_MINUTES = 60;
+const DINNER_EARLIEST_MIN = 18 * 60;
+const DINNER_MINUTES = 75;
+const DEFAULT_VISIT_MINUTES = 90;
+const REPLACEMENT_RADIUS_KM = 5;
+const MOVE_ACROSS_DAYS_KM = 10;
+const REPLACEMENT_TRIES = 4;
+
+/** 市區 / 城際速度與每段固定耗時（停車、候車、轉乘步行） */
+const TRAVEL_SPEED: Record<TravelMode, { cityKmh: number; intercityKmh: number; overheadMin: number }> = {
+  driving: { cityKmh: 28, intercityKmh: 70, overheadMin: 10 },
+  transit: { cityKmh: 18, intercityKmh: 90, overheadMin: 12 },
+  bicycling: { cityKmh: 12, intercityKmh: 15, overheadMin: 3 },
+  walking: { cityKmh: 4.5, intercityKmh: 4.5, overheadMin: 0 },
+};
+
+const VISIT_MINUTES: Record<string, number> = {
+  tourist_attraction: 90,
+  park: 60,
+  museum: 120,
+  amusement_park: 240,
+  zoo: 180,
+  aquarium: 150,
+  place_of_worship: 45,
+};
+
+/** dayEnd 只限制白天的停留點；晚餐與晚上行程排在其後 */
+const DAYTIME_SLOTS: ScheduleSlot[] = ['breakfast', 'morning', 'lunch', 'afternoon'];
+const SIGHTSEEING_SLOTS: ScheduleSlot[] = ['morning', 'afternoon'];
+const MEAL_SLOTS: ScheduleSlot[] = ['breakfast', 'lunch', 'dinner'];
+
+export type ScheduleOptions = {
+  /** YYYY-MM-DD；未提供時只排時間，不檢查營業時間 */
+  startDate?: string;
+  /** 當天出發的時間；有早餐時在這之前吃完 */
+  dayStart?: string;
+  /** 白天景點的最晚離開時間；晚餐與晚上行程不受限 */
+  dayEnd?: string;
+  mode?: TravelMode;
+  /** 使用者鎖定的點（placeKey）：不對調、不替換、不因超時移除，沒開只標記 */
+  locked?: Set<string>;
+  lang: string;
+  source: PlacesSource;
+  /** 每排定一天就回報（之後只會動到還沒排的天數），串流回應用 */
+  onDay?: (index: number, day: DaySlot) => void;
+};
+
+/** 'HH:MM' → 當日分鐘；格式不符回傳 undefined */
+export function parseClock(input?: string): number | undefined {
+  const m = String(input || '').trim().match(/^(\d{1,2}):(\d{2})$/);
+  if (!m) return undefined;
+  const h = Number(m[1]);
+  const min = Number(m[2]);
+  if (h > 23 || min > 59) return undefined;
+  return h * 60 + min;
+}
+
+function formatClock(minutes: number) {
+  const m = Math.round(minutes) % (24 * 60);
+  return `${String(Math.floor(m / 60)).padStart(2, '0')}:${String(m % 60).padStart(2, '0')}`;
+}
+
+/** 'YYYY-MM-DD' 是否為有效日期 */
+export function isIsoDate(input?: string) {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(String(input || ''))) return false;
+  const d = new Date(`${input}T00:00:00Z`);
+  return !isNaN(d.getTime()) && d.toISOString().slice(0, 10) === input;
+}
+
+export function addDays(isoDate: string, days: number) {
+  const d = new Date(`${isoDate}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + days);
+  return d.toISOString().slice(0, 10);
+}
+
+/** 依直線距離估算交通時間（分鐘，取 5 分鐘倍數） */
+export function estimateTravelMinutes(km: number, mode: TravelMode = 'driving') {
+  if (km < 0.05) return 0;
+  const speed = TRAVEL_SPEED[mode];
+  const kmh = km > INTERCITY_LEG_KM ? speed.intercityKmh : speed.cityKmh;
+  const minutes = speed.overheadMin + ((km * DETOUR_FACTOR) / kmh) * 60;
+  return Math.ceil(minutes / 5) * 5;
+}
+
+function visitMinutesOf(p: PlaceOut, slot: ScheduleSlot) {
+  if (slot === 'lodging') return 0;
+  if (slot === 'breakfast') return BREAKFAST_MINUTES;
+  if (slot === 'lunch') return LUNCH_MINUTES;
+  if (slot === 'dinner') return DINNER_MINUTES;
+  return VISIT_MINUTES[p._type] || DEFAULT_VISIT_MINUTES;
+}
+
+type Entry = { slot: ScheduleSlot; place: PlaceOut };
+type TimedStop = ScheduleStop & { departMin: number };
+
+function entriesOf(day: DaySlot): Entry[] {
+  const out: Entry[] = [];
+  if (day.breakfast) out.push({ slot: 'breakfast', place: day.breakfast });
+  day.morning.forEach(place => out.push({ slot: 'morning', place }));
+  if (day.lunch) out.push({ slot: 'lunch', place: day.lunch });
+  day.afternoon.forEach(place => out.push({ slot: 'afternoon', place }));
+  if (day.dinner) out.push({ slot: 'dinner', place: day.dinner });
+  if (day.evening) out.push({ slot: 'evening', place: day.evening });
+  if (day.lodging) out.push({ slot: 'lodging', place: day.lodging });
+  return out;
+}
+
+function writeEntries(day: DaySlot, entries: Entry[]) {
+  day.breakfast = entries.find(e => e.slot === 'breakfast')?.place;
+  day.morning = entries.filter(e => e.slot === 'morning').map(e => e.place);
+  day.lunch = entries.find(e => e.slot === 'lunch')?.place;
+  day.afternoon = entries.filter(e => e.slot === 'afternoon').map(e => e.place);
+  day.dinner = entries.find(e => e.slot === 'dinner')?.place;
+  day.evening = entries.find(e => e.slot === 'evening')?.place;
+  day.lodging = entries.find(e => e.slot === 'lodging')?.place;
+}
+
+/**
+ * 為每日行程排出抵達/離開時間。
+ * 有 startDate 時會查營業時間：當天沒開的點先嘗試與同日其他景點對調，再找附近有開的替代點，
+ * 都不行才保留並標記 openStatus='closed'。白天超過每日結束時間的景點會被移除（每天至少保留一個）。
+ * 早餐在 dayStart 前吃完，晚餐不早於 18:00，晚上行程接在晚餐之後。
+ * 鎖定的點一律留在原位。
+ */
+export async function scheduleItinerary(itinerary: DaySlot[], pois: PlaceOut[], opts: ScheduleOptions) {
+  const { startDate, mode = 'driving', locked = new Set<string>(), lang, source } = opts;
+  const dayStart = parseClock(opts.dayStart) ?? parseClock(DEFAULT_DAY_START)!;
+  const dayEnd = parseClock(opts.dayEnd) ?? parseClock(DEFAULT_DAY_END)!;
+  const checkHours = !!startDate;
+
+  const isLocked = (p: PlaceOut) => locked.has(placeKey(p));
+  const hoursReq = new Map<string, Promise<WeeklyHours | undefined>>();
+  const ensureHours = (p: PlaceOut) => {
+    if (!checkHours || source.hoursInNearby || p.weeklyHours || !p.place_id) return Promise.resolve(p.weeklyHours);
+    let req = hoursReq.get(p.place_id);
+    if (!req) {
+      req = source.details(p.place_id, lang).then(d => d.weeklyHours).catch((): WeeklyHours | undefined => undefined);
+      hoursReq.set(p.place_id, req);
+    }
+    return req.then(h => (p.weeklyHours = h));
+  };
+
+  // 先把已選的景點/餐廳營業時間查齊
+  const chosen = itinerary.flatMap(day => entriesOf(day).filter(e => e.slot !== 'lodging').map(e => e.place));
+  await runWithConcurrency(chosen.map(p => () => ensureHours(p).then(() => undefined)), DETAILS_CONCURRENCY);
+
+  const used = new Set(itinerary.flatMap(day => entriesOf(day).map(e => placeKey(e.place))));
+
+  const layout = (entries: Entry[], prev: LatLng | undefined, weekday?: number): TimedStop[] => {
+    let t = dayStart;
+    let from = prev;
+    return entries.map(({ slot, place }) => {
+      const travelKm = from ? haversineKm(from, place) : 0;
+      const travelMin = estimateTravelMinutes(travelKm, mode);
+      let arrive = t + travelMin;
+      if (slot === 'breakfast') arrive = dayStart - BREAKFAST_MINUTES;
+      if (slot === 'lunch') arrive = Math.max(arrive, LUNCH_EARLIEST_MIN);
+      if (slot === 'dinner') arrive = Math.max(arrive, DINNER_EARLIEST_MIN);
+      const visitMin = visitMinutesOf(place, slot);
+      const depart = arrive + visitMin;
+      const openStatus: OpenStatus =
+        slot === 'lodging' || weekday == null ? 'unknown' : openStatusDuring(place.weeklyHours, weekday, arrive, depart);
+      t = depart;
+      from = place;
+      const stop: TimedStop = {
+        slot,
+        place_id: place.place_id,
+        name: place.name,
+        lat: place.lat,
+        lng: place.lng,
+        arrive: formatClock(arrive),
+        depart: slot === 'lodging' ? undefined : formatClock(depart),
+        visitMin,
+        travelMin,
+        travelKm: Number(travelKm.toFixed(2)),
+        openStatus,
+        departMin: depart,
+      };
+      return stop;
+    });
+  };
+  const closedCount = (stops: ScheduleStop[]) => stops.filter(s => s.openStatus === 'closed').length;
+
+  const findReplacement = async (day: DaySlot, entries: Entry[], idx: number, prev: LatLng | undefined, weekday: number) => {
+    const target = entries[idx];
+    // 晚上行程要找同樣晚上開的地點，一般景點替代不了
+    if (target.slot === 'evening') return undefined;
+    const wantFood = MEAL_SLOTS.includes(target.slot);
+    // 原本的餐廳是依飲食條件挑的（有 mealMatch），替代的也要符合
+    const mealOk = (p: PlaceOut) => !target.place.mealMatch || (p.mealMatch?.confidence ?? 0) > 0;
+    const candidates = pois
+      .filter(p => !used.has(placeKey(p)))
+      .filter(p => (wantFood ? p._type === 'restaurant' && mealOk(p) : p._type !== 'restaurant' && p._type !== 'lodging'))
+      .filter(p => suitsDayWeather(day, p))
+      .map(p => ({ p, km: haversineKm(target.place, p) }))
+      .filter(x => x.km <= REPLACEMENT_RADIUS_KM)
+      .sort((a, b) => a.km - b.km || (b.p.rating || 0) - (a.p.rating || 0))
+      .slice(0, REPLACEMENT_TRIES);
+    for (const { p } of candidates) {
+      await ensureHours(p);
+      const trial = entries.map((e, i) => (i === idx ? { slot: e.slot, place: p } : e));
+      if (layout(trial, prev, weekday)[idx].openStatus === 'open') return p;
+    }
+    return undefined;
+  };
+
+  let prevStay: LatLng | undefined;
+  for (let d = 0; d < itinerary.length; d++) {
+    const day = itinerary[d];
+    const date = startDate ? addDays(startDate, d) : undefined;
+    const weekday = date ? new Date(`${date}T00:00:00Z`).getUTCDay() : undefined;
+    let entries = entriesOf(day);
+
+    if (weekday != null) {
+      for (let i = 0; i < entries.length; i++) {
+        let stops = layout(entries, prevStay, weekday);
+        if (stops[i].openStatus !== 'closed' || isLocked(entries[i].place)) continue;
+
+        // 1) 同日景點對調
+        if (SIGHTSEEING_SLOTS.includes(entries[i].slot)) {
+          const before = closedCount(stops);
+          let swapped = false;
+          for (let j = 0; j < entries.length && !swapped; j++) {
+            if (j === i || !SIGHTSEEING_SLOTS.includes(entries[j].slot) || isLocked(entries[j].place)) continue;
+            const trial = entries.slice();
+            trial[i] = { slot: entries[i].slot, place: entries[j].place };
+            trial[j] = { slot: entries[j].slot, place: entries[i].place };
+            if (closedCount(layout(trial, prevStay, weekday)) < before) {
+              entries = trial;
+              swapped = true;
+            }
+          }
+          if (swapped) {
+            stops = layout(entries, prevStay, weekday);
+            if (stops[i].openStatus !== 'closed') continue;
+          }
+        }
+
+        // 2) 與隔天附近、今天有開的景點互換，沒開的這個點改到隔天再檢查一次；
+        //    不把戶外景點換到雨天/酷熱日，免得抵銷 applyWeatherToItinerary 的調整
+        const next = itinerary[d + 1];
+        if (SIGHTSEEING_SLOTS.includes(entries[i].slot) && next) {
+          const closedPlace = entries[i].place;
+          const slots: Array<'morning' | 'afternoon'> = ['morning', 'afternoon'];
+          let moved = false;
+          for (const slot of slots) {
+            const list = next[slot];
+            for (let k = 0; k < list.length && !moved; k++) {
+              if (isLocked(list[k]) || haversineKm(closedPlace, list[k]) > MOVE_ACROSS_DAYS_KM) continue;
+              if (!suitsDayWeather(next, closedPlace) || !suitsDayWeather(day, list[k])) continue;
+              const trial = entries.slice();
+              trial[i] = { slot: entries[i].slot, place: list[k] };
+              if (layout(trial, prevStay, weekday)[i].openStatus !== 'open') continue;
+              entries = trial;
+              list[k] = closedPlace;
+              moved = true;
+            }
+            if (moved) break;
+          }
+          if (moved) continue;
+        }
+
+        // 3) 附近有開的替代點
+        const repl = await findReplacement(day, entries, i, prevStay, weekday);
+        if (repl) {
+          used.add(placeKey(repl));
+          entries[i] = { slot: entries[i].slot, place: repl };
+        }
+      }
+    }
+
+    // 白天超過每日結束時間：先刪沒開的，再從最後一個景點開始刪
+    let stops = layout(entries, prevStay, weekday);
+    const attractionIdx = () =>
+      entries.map((e, i) => (SIGHTSEEING_SLOTS.includes(e.slot) && !isLocked(e.place) ? i : -1)).filter(i => i >= 0);
+    const keepOne = !entries.some(e => SIGHTSEEING_SLOTS.includes(e.slot) && isLocked(e.place));
+    while (attractionIdx().length > (keepOne ? 1 : 0)) {
+      const lastVisit = stops.filter(s => DAYTIME_SLOTS.includes(s.slot)).slice(-1)[0];
+      if (!lastVisit || lastVisit.departMin <= dayEnd) break;
+      const idx = attractionIdx();
+      const drop = idx.find(i => stops[i].openStatus === 'closed') ?? idx[idx.length - 1];
+      entries = entries.filter((_, i) => i !== drop);
+      stops = layout(entries, prevStay, weekday);
+    }
+
+    writeEntries(day, entries);
+    day.date = date;
+    day.schedule = stops.map(({ departMin, ...s }) => s);
+    prevStay = day.lodging || entries[entries.length - 1]?.place || prevStay;
+    opts.onDay?.(d, day);
+  }
+  return itinerary;
+}
@@ -0,0 +1,33 @@
+// lib/trips/file.ts
+import { mkdir, readFile, unlink, writeFile } from 'fs/promises';
+import path from 'path';
+import type { StoredTrip, TripStore } from './types';
+
+/** 每個行程一個 JSON 檔；id 已先驗證過格式，不會跳出目錄 */
+export function createFileTripStore(dir: string): TripStore {
+  const fileOf = (id: string) => path.join(dir, `${id}.json`);
+  return {
+    name: 'file',
+    async get(id) {
+      try {
+        return JSON.parse(await readFile(fileOf(id), 'utf8')) as StoredTrip;
+      } catch (e: any) {
+        if (e?.code === 'ENOENT') return null;
+        throw e;
+      }
+    },
+    async put(trip) {
+      await mkdir(dir, { recursive: true });
+      await writeFile(fileOf(trip.id), JSON.stringify(trip), 'utf8');
+    },
+    async delete(id) {
+      try {
+        await unlink(fileOf(id));
+        return true;
+      } catch (e: any) {
+        if (e?.code === 'ENOENT') return false;
+        throw e;
+      }
+    },
+  };
+}
@@ -0,0 +1,122 @@
+// lib/trips/index.ts
+import { createHash, randomBytes, timingSafeEqual } from 'crypto';
+import { parseMealFilter } from '../diet';
+import { isDaySlot } from '../itinerary';
+import { parsePreferences } from '../preferences';
+import { createFileTripStore } from './file';
+import { createMemoryTripStore } from './memory';
+import { createRedisTripStore } from './redis';
+import type { StoredTrip, Trip, TripRequest, TripStore } from './types';
+
+export * from './types';
+
+const DEFAULT_TTL_DAYS = 90;
+const DEFAULT_FILE_DIR = '.data/trips';
+const ID_LENGTH = 10;
+const ID_ALPHABET = 'abcdefghijkmnpqrstuvwxyzABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+const MAX_TITLE_LENGTH = 120;
+const TRIP_ID_RE = new RegExp(`^[${ID_ALPHABET}]{${ID_LENGTH}}$`);
+/** 大於等於此值的位元組丟掉重抽，取餘數後每個字元機率相同 */
+const ID_BYTE_LIMIT = 256 - (256 % ID_ALPHABET.length);
+
+/**
+ * 選擇行程儲存區：TRIP_STORE 環境變數（redis / memory / file）> 有 Upstash 設定則 redis，否則 memory。
+ * 指定了未知名稱，或指定 redis 卻沒有 Upstash 設定時回傳 null。
+ */
+export function resolveTripStore(): TripStore | null {
+  const requested = String(process.env.TRIP_STORE || '').trim().toLowerCase();
+  const hasRedis = Boolean(process.env.UPSTASH_REDIS_REST_URL && process.env.UPSTASH_REDIS_REST_TOKEN);
+  const name = requested || (hasRedis ? 'redis' : 'memory');
+  if (name === 'redis') {
+    const ttlDays = Number(process.env.TRIP_TTL_DAYS) || DEFAULT_TTL_DAYS;
+    return hasRedis ? createRedisTripStore(Math.round(ttlDays * 86400)) : null;
+  }
+  if (name === 'file') return createFileTripStore(process.env.TRIP_STORE_DIR || DEFAULT_FILE_DIR);
+  if (name === 'memory') return createMemoryTripStore();
+  return null;
+}
+
+export function newTripId() {
+  let id = '';
+  while (id.length < ID_LENGTH) {
+    for (const b of randomBytes(ID_LENGTH)) {
+      if (b < ID_BYTE_LIMIT && id.length < ID_LENGTH) id += ID_ALPHABET[b % ID_ALPHABET.length];
+    }
+  }
+  return id;
+}
+
+export function isTripId(id: string) {
+  return TRIP_ID_RE.test(id);
+}
+
+export function newEditToken() {
+  return randomBytes(24).toString('base64url');
+}
+
+export function hashEditToken(token: string) {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+export function verifyEditToken(trip: StoredTrip, token?: string | null) {
+  if (!token) return false;
+  const a = new Uint8Array(Buffer.from(hashEditToken(token), 'hex'));
+  const b = new Uint8Array(Buffer.from(trip.editTokenHash, 'hex'));
+  return a.length === b.length && timingSafeEqual(a, b);
+}
+
+/** 對外回傳時拿掉 editTokenHash */
+export function toPublicTrip({ editTokenHash, ...trip }: StoredTrip): Trip {
+  return trip;
+}
+
+/** 驗證 request 欄位；回傳錯誤訊息字串表示不合法 */
+export function parseTripRequest(input: any): TripRequest | string {
+  if (!input || typeof input !== 'object') return 'request required';
+  const { origin, destination, days } = input;
+  if (typeof origin !== 'string' || typeof destination !== 'string' || !origin.trim() || !destination.trim()) {
+    return 'request.origin/destination required';
+  }
+  if (!Number.isInteger(days) || days < 1 || days > 14) return 'request.days must be an integer between 1 and 14';
+  if (input.waypoints != null && (!Array.isArray(input.waypoints) || input.waypoints.some((w: any) => typeof w !== 'string'))) {
+    return 'request.waypoints must be an array of strings';
+  }
+  const preferences = input.preferences == null ? undefined : parsePreferences(input.preferences);
+  if (typeof preferences === 'string') return preferences;
+  const meals = parseMealFilter(input.diet, input.cuisines);
+  if (typeof meals === 'string') return `request.${meals}`;
+  const str = (v: any) => (typeof v === 'string' && v ? v : undefined);
+  return {
+    origin: origin.trim(),
+    destination: destination.trim(),
+    days,
+    waypoints: input.waypoints,
+    optimizeWaypoints: typeof input.optimizeWaypoints === 'boolean' ? input.optimizeWaypoints : undefined,
+    mode: str(input.mode),
+    startDate: str(input.startDate),
+    dayStart: str(input.dayStart),
+    dayEnd: str(input.dayEnd),
+    provider: str(input.provider),
+    preferences,
+    diet: meals.diet.length ? meals.diet : undefined,
+    cuisines: meals.cuisines.length ? meals.cuisines : undefined,
+  };
+}
+
+function isPoint(p: any) {
+  return !!p && Number.isFinite(p.lat) && Number.isFinite(p.lng);
+}
+
+/** plan 至少要能在 Widget 畫出路線與行程，也能直接匯出 */
+export function validatePlan(plan: any): string | null {
+  if (!plan || typeof plan !== 'object') return 'plan required';
+  const isPair = (v: any) => Array.isArray(v) && v.length === 2 && v.every(Number.isFinite);
+  if (!Array.isArray(plan.polyline) || !plan.polyline.every(isPair)) return 'plan.polyline must be an array of [lat, lng]';
+  if (!Array.isArray(plan.itinerary) || !plan.itinerary.every(isDaySlot)) return 'plan.itinerary must be an array of day slots';
+  if (!isPoint(plan.start) || !isPoint(plan.end)) return 'plan.start/end must have lat/lng';
+  return null;
+}
+
+export function normalizeTitle(title: any): string | undefined {
+  return typeof title === 'string' && title.trim() ? title.trim().slice(0, MAX_TITLE_LENGTH) : undefined;
+}
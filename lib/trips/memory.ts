@@ -0,0 +1,22 @@
+// lib/trips/memory.ts
+import type { StoredTrip, TripStore } from './types';
+
+// 掛在 globalThis 上，dev 模式 HMR 重新載入模組時資料不會消失
+const g = globalThis as typeof globalThis & { __tripiTrips?: Map<string, StoredTrip> };
+
+/** 單一程序內的暫存；重啟即消失，僅供本機開發 */
+export function createMemoryTripStore(): TripStore {
+  const trips = (g.__tripiTrips ??= new Map<string, StoredTrip>());
+  return {
+    name: 'memory',
+    async get(id) {
+      return trips.get(id) ?? null;
+    },
+    async put(trip) {
+      trips.set(trip.id, trip);
+    },
+    async delete(id) {
+      return trips.delete(id);
+    },
+  };
+}
@@ -0,0 +1,22 @@
+// lib/trips/redis.ts
+import { Redis } from '@upstash/redis';
+import type { StoredTrip, TripStore } from './types';
+
+const KEY_PREFIX = 'trip:';
+
+/** Upstash Redis（與 middleware 的限流共用 UPSTASH_REDIS_REST_URL / TOKEN）；每次寫入重設 TTL */
+export function createRedisTripStore(ttlSeconds: number): TripStore {
+  const redis = Redis.fromEnv();
+  return {
+    name: 'redis',
+    async get(id) {
+      return (await redis.get<StoredTrip>(KEY_PREFIX + id)) ?? null;
+    },
+    async put(trip) {
+      await redis.set(KEY_PREFIX + trip.id, trip, { ex: ttlSeconds });
+    },
+    async delete(id) {
+      return (await redis.del(KEY_PREFIX + id)) > 0;
+    },
+  };
+}
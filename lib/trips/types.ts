@@ -0,0 +1,40 @@
+// lib/trips/types.ts
+import type { Cuisine, DietaryRestriction } from '../diet';
+import type { TravelPreferences } from '../preferences';
+
+/** 產生行程時的請求條件，用來在 Widget 還原輸入框 */
+export type TripRequest = {
+  origin: string;
+  destination: string;
+  days: number;
+  waypoints?: string[];
+  optimizeWaypoints?: boolean;
+  mode?: string;
+  startDate?: string;
+  dayStart?: string;
+  dayEnd?: string;
+  provider?: string;
+  preferences?: TravelPreferences;
+  diet?: DietaryRestriction[];
+  cuisines?: Cuisine[];
+};
+
+/** 儲存的行程：plan 為 /api/plan 的完整回應（itinerary、polyline、pois…），原樣保存 */
+export type Trip = {
+  id: string;
+  title?: string;
+  request: TripRequest;
+  plan: Record<string, any>;
+  createdAt: string;
+  updatedAt: string;
+};
+
+/** 實際寫入儲存區的資料；editTokenHash 不對外回傳 */
+export type StoredTrip = Trip & { editTokenHash: string };
+
+export type TripStore = {
+  name: 'redis' | 'memory' | 'file';
+  get(id: string): Promise<StoredTrip | null>;
+  put(trip: StoredTrip): Promise<void>;
+  delete(id: string): Promise<boolean>;
+};
@@ -1,33 +1,302 @@
-// app/lib/weather-advice.ts
+// lib/weather-advice.ts
 export type AdviceInput = {
-temp: number;
-feels?: number;
-wind?: number; // m/s
-rain?: number; // mm/1h 或 3h
-snow?: number; // mm/1h 或 3h
-humidity?: number; // %
+  temp: number; // °C
+  feels?: number; // °C
+  wind?: number; // m/s
+  rain?: number; // mm/1h 或 3h
+  snow?: number; // mm/1h 或 3h
+  humidity?: number; // %
+  pop?: number; // 降水機率 0..1
+  uvi?: number; // 紫外線指數
 };
 
+export type AdviceLang = 'zh-TW' | 'zh-CN' | 'en' | 'ja';
 
-export function outfitAdvice({ temp, feels, wind, rain, snow }: AdviceInput): string {
-const t = Number.isFinite(feels) ? (feels as number) : temp;
-const wet = (rain ?? 0) > 0 || (snow ?? 0) > 0;
-const parts: string[] = [];
+/** 依體感溫度分級，門檻見 WARMTH_LEVELS */
+export type WarmthLevel = 'scorching' | 'very_hot' | 'hot' | 'comfortable' | 'cool' | 'chilly' | 'cold' | 'freezing';
 
+export type AdviceItem = 'umbrella' | 'windbreaker' | 'sunscreen' | 'sun_hat' | 'water' | 'gloves' | 'scarf' | 'beanie';
 
-if (t >= 33) parts.push('酷熱，清爽短袖/排汗材質，防曬補水');
-else if (t >= 30) parts.push('很熱，透氣短袖，避免長時間曝曬');
-else if (t >= 25) parts.push('偏熱，短袖為主，通風透氣');
-else if (t >= 20) parts.push('舒適，短袖或薄長袖皆宜');
-else if (t >= 15) parts.push('微涼，建議薄外套/薄針織');
-else if (t >= 10) parts.push('偏涼，長袖+外套');
-else if (t >= 5) parts.push('寒冷，保暖外套/內搭');
-else parts.push('嚴寒，厚外套、帽子手套圍巾');
+export type HumidityLevel = 'muggy' | 'damp_cold' | 'caution' | 'extreme_caution' | 'danger' | 'extreme_danger';
 
+export type UvLevel = 'low' | 'moderate' | 'high' | 'very_high' | 'extreme';
 
-if ((wind ?? 0) >= 8) parts.push('風大，使用防風外套');
-if (wet) parts.push('可能降水，攜帶摺疊傘/防水外層');
+export type OutfitAdvice = {
+  lang: AdviceLang;
+  level: WarmthLevel;
+  /** 建議穿幾層：1 單層 … 4 厚外套加內搭 */
+  layers: number;
+  items: AdviceItem[];
+  /** 悶熱/濕冷提醒；高溫高濕時附熱指數（°C） */
+  humidity?: { level: HumidityLevel; heatIndex?: number; text: string };
+  /** 有紫外線指數時才有 */
+  uv?: { index: number; level: UvLevel; text: string };
+  /** 組好的一句話（舊版 outfit_advice 字串） */
+  text: string;
+};
+
+/** 由熱到冷；體感 >= min 即屬該級 */
+export const WARMTH_LEVELS: { level: WarmthLevel; min: number; layers: number }[] = [
+  { level: 'scorching', min: 33, layers: 1 },
+  { level: 'very_hot', min: 30, layers: 1 },
+  { level: 'hot', min: 25, layers: 1 },
+  { level: 'comfortable', min: 20, layers: 1 },
+  { level: 'cool', min: 15, layers: 2 },
+  { level: 'chilly', min: 10, layers: 2 },
+  { level: 'cold', min: 5, layers: 3 },
+  { level: 'freezing', min: -Infinity, layers: 4 },
+];
+
+export const WINDY_MS = 8;
+export const RAIN_POP = 0.5;
+const SUNSCREEN_C = 33;
+const WATER_C = 30;
+const BUNDLE_UP_C = 5;
+const HEAT_INDEX_MIN_C = 27;
+const HEAT_INDEX_MIN_HUMIDITY = 40;
+const MUGGY_MIN_C = 20;
+const MUGGY_HUMIDITY = 80;
+const DAMP_COLD_MAX_C = 12;
+const DAMP_COLD_HUMIDITY = 85;
+
+type Texts = Record<AdviceLang, string>;
+
+const LEVEL_TEXT: Record<WarmthLevel, Texts> = {
+  scorching: {
+    'zh-TW': '酷熱，清爽短袖/排汗材質，防曬補水',
+    'zh-CN': '酷热，清爽短袖/排汗材质，防晒补水',
+    en: 'Scorching: light short sleeves or moisture-wicking fabric, sunscreen and plenty of water',
+    ja: '猛暑：涼しい半袖や吸汗速乾素材で、日焼け止めと水分補給を',
+  },
+  very_hot: {
+    'zh-TW': '很熱，透氣短袖，避免長時間曝曬',
+    'zh-CN': '很热，透气短袖，避免长时间暴晒',
+    en: 'Very hot: breathable short sleeves, avoid long sun exposure',
+    ja: 'とても暑い：通気性のよい半袖で、長時間の直射日光は避けて',
+  },
+  hot: {
+    'zh-TW': '偏熱，短袖為主，通風透氣',
+    'zh-CN': '偏热，短袖为主，通风透气',
+    en: 'Warm: short sleeves in airy fabrics',
+    ja: 'やや暑い：半袖中心で風通しのよい服装を',
+  },
+  comfortable: {
+    'zh-TW': '舒適，短袖或薄長袖皆宜',
+    'zh-CN': '舒适，短袖或薄长袖皆宜',
+    en: 'Comfortable: short sleeves or a light long-sleeve top',
+    ja: '快適：半袖か薄手の長袖で',
+  },
+  cool: {
+    'zh-TW': '微涼，建議薄外套/薄針織',
+    'zh-CN': '微凉，建议薄外套/薄针织',
+    en: 'Slightly cool: bring a light jacket or knit',
+    ja: 'やや涼しい：薄手の上着やニットを',
+  },
+  chilly: {
+    'zh-TW': '偏涼，長袖+外套',
+    'zh-CN': '偏凉，长袖+外套',
+    en: 'Cool: long sleeves plus a jacket',
+    ja: '涼しい：長袖に上着を',
+  },
+  cold: {
+    'zh-TW': '寒冷，保暖外套/內搭',
+    'zh-CN': '寒冷，保暖外套/内搭',
+    en: 'Cold: a warm coat and an insulating base layer',
+    ja: '寒い：暖かいコートとインナーを',
+  },
+  freezing: {
+    'zh-TW': '嚴寒，厚外套、帽子手套圍巾',
+    'zh-CN': '严寒，厚外套、帽子手套围巾',
+    en: 'Freezing: heavy coat, hat, gloves and scarf',
+    ja: '厳寒：厚手のコート、帽子・手袋・マフラーを',
+  },
+};
+
+const WIND_TEXT: Texts = {
+  'zh-TW': '風大，使用防風外套',
+  'zh-CN': '风大，使用防风外套',
+  en: 'Windy: wear a windbreaker',
+  ja: '風が強い：防風ジャケットを',
+};
+
+const WET_TEXT: Texts = {
+  'zh-TW': '可能降水，攜帶摺疊傘/防水外層',
+  'zh-CN': '可能降水，携带折叠伞/防水外层',
+  en: 'Rain or snow likely: carry a compact umbrella or waterproof layer',
+  ja: '降水の可能性：折りたたみ傘か防水の上着を',
+};
+
+/** {hi} 代入熱指數 */
+const HUMIDITY_TEXT: Record<HumidityLevel, Texts> = {
+  muggy: {
+    'zh-TW': '潮濕悶熱，選擇快乾衣物',
+    'zh-CN': '潮湿闷热，选择速干衣物',
+    en: 'Muggy: choose quick-dry clothing',
+    ja: '蒸し暑い：速乾性の服を',
+  },
+  damp_cold: {
+    'zh-TW': '濕冷，多加一層保暖',
+    'zh-CN': '湿冷，多加一层保暖',
+    en: 'Damp cold: add an extra warm layer',
+    ja: '湿った寒さ：一枚多めに重ね着を',
+  },
+  caution: {
+    'zh-TW': '悶熱（熱指數約 {hi}°C），注意補水',
+    'zh-CN': '闷热（热指数约 {hi}°C），注意补水',
+    en: 'Humid heat (heat index about {hi}°C): drink water regularly',
+    ja: '蒸し暑い（暑さ指数 約{hi}°C）：こまめに水分補給を',
+  },
+  extreme_caution: {
+    'zh-TW': '濕熱（熱指數約 {hi}°C），避免長時間戶外活動',
+    'zh-CN': '湿热（热指数约 {hi}°C），避免长时间户外活动',
+    en: 'Heat index about {hi}°C: limit long outdoor activities',
+    ja: '暑さ指数 約{hi}°C：長時間の屋外活動は控えて',
+  },
+  danger: {
+    'zh-TW': '高溫高濕（熱指數約 {hi}°C），有中暑風險，中午避免外出',
+    'zh-CN': '高温高湿（热指数约 {hi}°C），有中暑风险，中午避免外出',
+    en: 'Heat index about {hi}°C: heat-stroke risk, avoid going out at midday',
+    ja: '熱中症の危険（暑さ指数 約{hi}°C）：日中の外出は避けて',
+  },
+  extreme_danger: {
+    'zh-TW': '極端濕熱（熱指數約 {hi}°C），請待在室內',
+    'zh-CN': '极端湿热（热指数约 {hi}°C），请待在室内',
+    en: 'Extreme heat index about {hi}°C: stay indoors',
+    ja: '極めて危険（暑さ指数 約{hi}°C）：屋内で過ごして',
+  },
+};
+
+const UV_TEXT: Record<UvLevel, Texts> = {
+  low: { 'zh-TW': '紫外線弱', 'zh-CN': '紫外线弱', en: 'Low UV', ja: '紫外線は弱い' },
+  moderate: {
+    'zh-TW': '紫外線中等，建議擦防曬',
+    'zh-CN': '紫外线中等，建议涂防晒',
+    en: 'Moderate UV: apply sunscreen',
+    ja: '紫外線は中程度：日焼け止めを',
+  },
+  high: {
+    'zh-TW': '紫外線強，防曬、帽子與太陽眼鏡',
+    'zh-CN': '紫外线强，防晒、帽子与太阳镜',
+    en: 'High UV: sunscreen, hat and sunglasses',
+    ja: '紫外線が強い：日焼け止め・帽子・サングラスを',
+  },
+  very_high: {
+    'zh-TW': '紫外線過量，中午避免曝曬',
+    'zh-CN': '紫外线过量，中午避免暴晒',
+    en: 'Very high UV: avoid the midday sun',
+    ja: '紫外線が非常に強い：日中の直射日光を避けて',
+  },
+  extreme: {
+    'zh-TW': '紫外線危險，盡量待在室內或遮蔽處',
+    'zh-CN': '紫外线危险，尽量待在室内或遮蔽处',
+    en: 'Extreme UV: stay in the shade or indoors',
+    ja: '紫外線が極端に強い：屋内や日陰で',
+  },
+};
+
+/** 句子間的分隔與句尾 */
+const PUNCTUATION: Record<AdviceLang, { sep: string; end: string }> = {
+  'zh-TW': { sep: '；', end: '。' },
+  'zh-CN': { sep: '；', end: '。' },
+  en: { sep: '. ', end: '.' },
+  ja: { sep: '。', end: '。' },
+};
+
+/** zh-TW / zh_tw / zh-Hant → zh-TW；zh-CN / zh-Hans → zh-CN；ja；其他語系用英文。未指定時為 zh-TW */
+export function adviceLang(lang?: string | null): AdviceLang {
+  const v = String(lang || '').trim().toLowerCase().replace('_', '-');
+  if (!v || v === 'zh' || v === 'zh-tw' || v === 'zh-hk' || v.startsWith('zh-hant')) return 'zh-TW';
+  if (v === 'zh-cn' || v === 'zh-sg' || v.startsWith('zh-hans')) return 'zh-CN';
+  if (v === 'ja' || v.startsWith('ja-')) return 'ja';
+  return 'en';
+}
+
+export function warmthLevelOf(t: number) {
+  return WARMTH_LEVELS.find(l => t >= l.min)!;
+}
+
+/** NOAA 熱指數（Rothfusz 迴歸），輸入輸出皆為 °C */
+export function heatIndexC(tempC: number, humidity: number) {
+  const T = (tempC * 9) / 5 + 32;
+  const R = humidity;
+  const hi =
+    -42.379 +
+    2.04901523 * T +
+    10.14333127 * R -
+    0.22475541 * T * R -
+    0.00683783 * T * T -
+    0.05481717 * R * R +
+    0.00122874 * T * T * R +
+    0.00085282 * T * R * R -
+    0.00000199 * T * T * R * R;
+  return ((hi - 32) * 5) / 9;
+}
+
+function humidityLevelOf(temp: number, humidity?: number): { level: HumidityLevel; heatIndex?: number } | undefined {
+  if (!Number.isFinite(humidity)) return undefined;
+  if (temp >= HEAT_INDEX_MIN_C && humidity! >= HEAT_INDEX_MIN_HUMIDITY) {
+    const heatIndex = Math.round(heatIndexC(temp, humidity!));
+    const level: HumidityLevel =
+      heatIndex >= 54 ? 'extreme_danger' : heatIndex >= 41 ? 'danger' : heatIndex >= 32 ? 'extreme_caution' : 'caution';
+    return { level, heatIndex };
+  }
+  if (temp >= MUGGY_MIN_C && humidity! >= MUGGY_HUMIDITY) return { level: 'muggy' };
+  if (temp <= DAMP_COLD_MAX_C && humidity! >= DAMP_COLD_HUMIDITY) return { level: 'damp_cold' };
+  return undefined;
+}
+
+function uvLevelOf(uvi: number): UvLevel {
+  if (uvi >= 11) return 'extreme';
+  if (uvi >= 8) return 'very_high';
+  if (uvi >= 6) return 'high';
+  if (uvi >= 3) return 'moderate';
+  return 'low';
+}
+
+/** 結構化穿著建議；text 依 lang 組成一句話 */
+export function adviseOutfit({ temp, feels, wind, rain, snow, humidity, pop, uvi }: AdviceInput, lang?: string | null): OutfitAdvice {
+  const l = adviceLang(lang);
+  const t = Number.isFinite(feels) ? (feels as number) : temp;
+  const wet = (rain ?? 0) > 0 || (snow ?? 0) > 0 || (pop ?? 0) >= RAIN_POP;
+  const windy = (wind ?? 0) >= WINDY_MS;
+  const warmth = warmthLevelOf(t);
+  const hum = humidityLevelOf(temp, humidity);
+  const uvIndex = Number.isFinite(uvi) ? Math.round(uvi as number) : undefined;
+  const uvLevel = uvIndex != null ? uvLevelOf(uvIndex) : undefined;
+
+  const items = new Set<AdviceItem>();
+  if (wet) items.add('umbrella');
+  if (windy) items.add('windbreaker');
+  if (t >= SUNSCREEN_C || (uvIndex ?? 0) >= 3) items.add('sunscreen');
+  if ((uvIndex ?? 0) >= 6) items.add('sun_hat');
+  if (t >= WATER_C || hum?.heatIndex != null) items.add('water');
+  if (t < BUNDLE_UP_C) ['gloves', 'scarf', 'beanie'].forEach(i => items.add(i as AdviceItem));
+
+  const humidityNote = hum && {
+    ...hum,
+    text: HUMIDITY_TEXT[hum.level][l].replace('{hi}', String(hum.heatIndex ?? '')),
+  };
+  const uvNote = uvLevel && { index: uvIndex!, level: uvLevel, text: UV_TEXT[uvLevel][l] };
+
+  const parts = [LEVEL_TEXT[warmth.level][l]];
+  if (windy) parts.push(WIND_TEXT[l]);
+  if (wet) parts.push(WET_TEXT[l]);
+  if (humidityNote) parts.push(humidityNote.text);
+  if (uvNote && uvLevel !== 'low') parts.push(uvNote.text);
+  const { sep, end } = PUNCTUATION[l];
 
+  return {
+    lang: l,
+    level: warmth.level,
+    layers: Math.min(4, warmth.layers + (hum?.level === 'damp_cold' ? 1 : 0)),
+    items: [...items],
+    humidity: humidityNote,
+    uv: uvNote,
+    text: parts.join(sep) + end,
+  };
+}
 
-return parts.join('；') + '。';
-}
\ No newline at end of file
+/** 只要一句話時用；未指定 lang 為 zh-TW */
+export function outfitAdvice(input: AdviceInput, lang?: string | null): string {
+  return adviseOutfit(input, lang).text;
+}
@@ -0,0 +1,234 @@
+// lib/weather-itinerary.ts
+import { coordKey, type CacheMode } from './cache';
+import { haversineKm, runWithConcurrency, type LatLng } from './geo';
+import { OUTDOOR_TYPES, dayStops, placeKey, type DayAlert, type DaySlot, type DayWeather, type PlaceOut } from './itinerary';
+import type { PlaceType } from './providers/types';
+import { addDays } from './schedule';
+import {
+  alertActiveDuring,
+  alertCovers,
+  getForecast,
+  getWeatherAlerts,
+  resolveAlertProvider,
+  weatherLang,
+  WET_CONDITIONS,
+  type DailyWeather,
+  type WeatherAlert,
+} from './weather';
+
+const FORECAST_CONCURRENCY = 3;
+/** 5 天預報；最後一天通常只有部分時段，彙整時已排除 */
+const FORECAST_WINDOW_DAYS = 5;
+const WET_POP = 0.5;
+const WET_RAIN_MM = 2;
+const HOT_FEELS_C = 33;
+/** 換景點時只找這個距離內的室內點，避免為了躲雨多開好幾十公里 */
+const WEATHER_SWAP_KM = 20;
+/** 每則警特報最多建議幾個室內替代點 */
+const MAX_ALERT_ALTERNATIVES = 3;
+
+const INDOOR_TYPES = new Set<PlaceType>(['museum', 'aquarium']);
+
+export type WeatherPlanOptions = {
+  /** YYYY-MM-DD；沒有出發日就不查天氣 */
+  startDate?: string;
+  lang: string;
+  cache?: CacheMode;
+};
+
+/** 預報的一天（metric）→ 行程用的天氣摘要 */
+export function dayWeatherFrom(daily: DailyWeather): DayWeather {
+  const feelsMax = daily.feelsLikeMax ?? daily.tempMax;
+  const wet = WET_CONDITIONS.has(daily.condition) || (daily.pop >= WET_POP && daily.precipitation >= WET_RAIN_MM);
+  const hot = feelsMax >= HOT_FEELS_C;
+  return {
+    condition: daily.condition,
+    description: daily.description,
+    icon: daily.icon,
+    tempMin: Math.round(daily.tempMin),
+    tempMax: Math.round(daily.tempMax),
+    pop: Number(daily.pop.toFixed(2)),
+    rainMm: daily.precipitation,
+    windMax: Number(daily.windMax.toFixed(1)),
+    kind: wet ? 'wet' : hot ? 'hot' : 'fair',
+    outfitAdvice: daily.outfitAdvice || '',
+    outfit: daily.outfit,
+  };
+}
+
+function dayCenter(day: DaySlot): LatLng | undefined {
+  const stops = dayStops(day);
+  if (!stops.length) return undefined;
+  return {
+    lat: stops.reduce((s, p) => s + p.lat, 0) / stops.length,
+    lng: stops.reduce((s, p) => s + p.lng, 0) / stops.length,
+  };
+}
+
+/**
+ * 雨天/酷熱日的戶外景點（公園、動物園、遊樂園）先和天氣好的日子附近的室內景點對調，
+ * 找不到再換成候選池裡附近沒用過的室內景點；locked（placeKey）的點不動。回傳調整的景點數。
+ */
+export function reshuffleForWeather(itinerary: DaySlot[], pois: PlaceOut[], locked = new Set<string>()): number {
+  const used = new Set<string>();
+  for (const day of itinerary) {
+    for (const p of dayStops(day)) used.add(placeKey(p));
+  }
+
+  let changed = 0;
+  itinerary.forEach(day => {
+    if (day.weather?.kind !== 'wet' && day.weather?.kind !== 'hot') return;
+    for (const list of [day.morning, day.afternoon]) {
+      list.forEach((p, i) => {
+        if (!OUTDOOR_TYPES.has(p._type) || locked.has(placeKey(p))) return;
+
+        let swap: { list: PlaceOut[]; index: number; km: number } | undefined;
+        for (const other of itinerary) {
+          if (other.weather?.kind !== 'fair') continue;
+          for (const otherList of [other.morning, other.afternoon]) {
+            otherList.forEach((q, j) => {
+              if (!INDOOR_TYPES.has(q._type) || locked.has(placeKey(q))) return;
+              const km = haversineKm(p, q);
+              if (km <= WEATHER_SWAP_KM && (!swap || km < swap.km)) swap = { list: otherList, index: j, km };
+            });
+          }
+        }
+        if (swap) {
+          list[i] = swap.list[swap.index];
+          swap.list[swap.index] = p;
+          changed++;
+          return;
+        }
+
+        let best: PlaceOut | undefined;
+        let bestKm = WEATHER_SWAP_KM;
+        for (const q of pois) {
+          if (!INDOOR_TYPES.has(q._type) || used.has(placeKey(q))) continue;
+          const km = haversineKm(p, q);
+          if (km <= bestKm) {
+            best = q;
+            bestKm = km;
+          }
+        }
+        if (best) {
+          list[i] = best;
+          used.add(placeKey(best));
+          changed++;
+        }
+      });
+    }
+  });
+  return changed;
+}
+
+/**
+ * 出發日在預報範圍內時，依每天行程中心點查預報、寫入 day.weather，
+ * 再把雨天/酷熱日的戶外景點換成室內。須在 scheduleItinerary 之前呼叫，時間表才會依換過的景點排。
+ */
+export async function applyWeatherToItinerary(itinerary: DaySlot[], pois: PlaceOut[], opts: WeatherPlanOptions): Promise<number> {
+  const { startDate, lang, cache = 'use' } = opts;
+  if (!startDate) return 0;
+  const today = new Date().toISOString().slice(0, 10);
+  const lastDay = addDays(today, FORECAST_WINDOW_DAYS);
+
+  const tasks = itinerary.map((day, d) => async () => {
+    const date = addDays(startDate, d);
+    const center = dayCenter(day);
+    if (date < today || date > lastDay || !center) return;
+    try {
+      const forecast = await getForecast(
+        { location: { lat: center.lat, lon: center.lng }, units: 'metric', lang: weatherLang(lang) },
+        { cache }
+      );
+      const daily = forecast.daily?.find(x => x.date === date);
+      if (daily) day.weather = dayWeatherFrom(daily);
+    } catch (e: any) {
+      // 天氣只是加分項，查不到不影響規劃
+      console.warn('forecast failed:', e?.message || e);
+    }
+  });
+  await runWithConcurrency(tasks, FORECAST_CONCURRENCY);
+  return reshuffleForWeather(itinerary, pois);
+}
+
+/** 當地日期的起訖（毫秒）；不知道時區，依經度推估 UTC 偏移（台灣 121°E → +8） */
+function localDayRange(date: string, lng: number): [number, number] {
+  const from = Date.parse(`${date}T00:00:00Z`) - Math.round(lng / 15) * 3600 * 1000;
+  return [from, from + 24 * 3600 * 1000];
+}
+
+/**
+ * 依每個停留點查警特報：當天行程有點落在生效中的警特報範圍內時寫入 day.alerts，
+ * 並附上附近沒用過的室內景點供替換（不自動換，由使用者決定）。回傳有警特報的天數。
+ * scheduleItinerary 會對調、替換或刪掉停留點，須在它之後呼叫；原有的 day.alerts 一律重算。
+ */
+export async function applyAlertsToItinerary(itinerary: DaySlot[], pois: PlaceOut[], opts: WeatherPlanOptions): Promise<number> {
+  const { startDate, lang, cache = 'use' } = opts;
+  if (!startDate || !resolveAlertProvider()) return 0;
+  const today = new Date().toISOString().slice(0, 10);
+  const lastDay = addDays(today, FORECAST_WINDOW_DAYS);
+
+  // 同一帶的停留點只查一次
+  const points = new Map<string, LatLng>();
+  itinerary.forEach((day, d) => {
+    const date = addDays(startDate, d);
+    if (date < today || date > lastDay) return;
+    for (const p of dayStops(day)) points.set(coordKey('alerts', p), { lat: p.lat, lng: p.lng });
+  });
+  const byKey = new Map<string, WeatherAlert[]>();
+  const tasks = [...points].map(([key, point]) => async () => {
+    try {
+      const { alerts } = await getWeatherAlerts({ lat: point.lat, lon: point.lng }, { lang: weatherLang(lang), cache });
+      byKey.set(key, alerts);
+    } catch (e: any) {
+      console.warn('weather alerts failed:', e?.message || e);
+    }
+  });
+  await runWithConcurrency(tasks, FORECAST_CONCURRENCY);
+
+  const used = new Set(itinerary.flatMap(day => dayStops(day).map(placeKey)));
+  let days = 0;
+  itinerary.forEach((day, d) => {
+    const date = addDays(startDate, d);
+    day.alerts = undefined;
+    const found = new Map<string, { alert: WeatherAlert; stops: PlaceOut[] }>();
+    for (const p of dayStops(day)) {
+      const [from, to] = localDayRange(date, p.lng);
+      for (const alert of byKey.get(coordKey('alerts', p)) || []) {
+        if (!alertCovers(alert, { lat: p.lat, lon: p.lng }) || !alertActiveDuring(alert, from, to)) continue;
+        const entry = found.get(alert.id) || { alert, stops: [] };
+        if (!entry.stops.includes(p)) entry.stops.push(p);
+        found.set(alert.id, entry);
+      }
+    }
+    if (!found.size) return;
+
+    // 室內點即使在警特報範圍內也可以去，只看距離
+    const alerts: DayAlert[] = [...found.values()].map(({ alert, stops }) => {
+      const center = {
+        lat: stops.reduce((s, p) => s + p.lat, 0) / stops.length,
+        lng: stops.reduce((s, p) => s + p.lng, 0) / stops.length,
+      };
+      const indoorAlternatives = pois
+        .filter(q => INDOOR_TYPES.has(q._type) && !used.has(placeKey(q)))
+        .map(q => ({ q, km: haversineKm(center, q) }))
+        .filter(x => x.km <= WEATHER_SWAP_KM)
+        .sort((a, b) => a.km - b.km)
+        .slice(0, MAX_ALERT_ALTERNATIVES)
+        .map(x => x.q);
+      return {
+        id: alert.id,
+        event: alert.event,
+        severity: alert.severity,
+        headline: alert.headline,
+        start: alert.start,
+        end: alert.end,
+        stops: stops.map(p => p.name),
+        indoorAlternatives,
+      };
+    });
+    day.alerts = alerts;
+    days++;
+  });
+  return days;
+}
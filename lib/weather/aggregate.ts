@@ -0,0 +1,101 @@
+// lib/weather/aggregate.ts
+import type { AdviceInput } from '../weather-advice';
+import type { DailyWeather, WeatherSample } from './types';
+
+const MIN_SAMPLES_PER_DAY = 3;
+const DAYTIME_FROM_HOUR = 8;
+const DAYTIME_TO_HOUR = 20;
+/** 體感落在這個區間不必特別加減衣物；超出越多越需要注意 */
+const COMFORT_MIN = 20;
+const COMFORT_MAX = 25;
+export const WET_CONDITIONS = new Set(['Rain', 'Drizzle', 'Thunderstorm', 'Snow']);
+
+/** 依時區偏移（秒）換算成當地日期與小時 */
+export function localDateHour(dt: number, tzOffsetSec: number) {
+  const d = new Date((dt + tzOffsetSec) * 1000);
+  return { date: d.toISOString().slice(0, 10), hour: d.getUTCHours() };
+}
+
+/**
+ * 取白天最常出現的天氣狀況；次數相同時偏向雨雪，寧可多帶傘。
+ * 回傳該狀況的第一個時段，description / icon 跟著它走。
+ */
+export function dominantSample(samples: WeatherSample[], tzOffsetSec: number): WeatherSample | undefined {
+  const daytime = samples.filter(s => {
+    const { hour } = localDateHour(s.dt, tzOffsetSec);
+    return hour >= DAYTIME_FROM_HOUR && hour <= DAYTIME_TO_HOUR;
+  });
+  const counts = new Map<string, { n: number; sample: WeatherSample }>();
+  for (const s of daytime.length ? daytime : samples) {
+    const c = counts.get(s.condition) || { n: 0, sample: s };
+    c.n++;
+    counts.set(s.condition, c);
+  }
+  return [...counts.values()].sort(
+    (a, b) => b.n - a.n || Number(WET_CONDITIONS.has(b.sample.condition)) - Number(WET_CONDITIONS.has(a.sample.condition))
+  )[0]?.sample;
+}
+
+/** 把逐時/3 小時預報依當地日期彙整；時段太少的日子（預報範圍邊緣）不列入 */
+export function dailyFromHourly(hourly: WeatherSample[], tzOffsetSec: number): DailyWeather[] {
+  const byDate = new Map<string, WeatherSample[]>();
+  for (const s of hourly) {
+    const { date } = localDateHour(s.dt, tzOffsetSec);
+    const list = byDate.get(date) || [];
+    list.push(s);
+    byDate.set(date, list);
+  }
+
+  const out: DailyWeather[] = [];
+  for (const [date, samples] of byDate) {
+    if (samples.length < MIN_SAMPLES_PER_DAY) continue;
+    const temps = samples.map(s => s.temp);
+    const feels = samples.map(s => s.feelsLike ?? s.temp);
+    const dominant = dominantSample(samples, tzOffsetSec)!;
+    out.push({
+      date,
+      tempMin: Math.min(...temps),
+      tempMax: Math.max(...temps),
+      feelsLikeMin: Math.min(...feels),
+      feelsLikeMax: Math.max(...feels),
+      pop: Math.max(0, ...samples.map(s => s.pop ?? 0)),
+      precipitation: Number(samples.reduce((sum, s) => sum + (s.rain ?? 0) + (s.snow ?? 0), 0).toFixed(1)),
+      windMax: Math.max(0, ...samples.map(s => s.windSpeed ?? 0)),
+      uvIndexMax: maxOf(samples.map(s => s.uvi)),
+      condition: dominant.condition,
+      description: dominant.description,
+      icon: dominant.icon,
+    });
+  }
+  return out;
+}
+
+/** 沒有任何數值時為 undefined（例如 OpenWeather 沒有紫外線） */
+function maxOf(values: (number | undefined)[]) {
+  const nums = values.filter(v => Number.isFinite(v)) as number[];
+  return nums.length ? Math.max(...nums) : undefined;
+}
+
+/**
+ * 一天的穿著建議依最不舒適的時段：體感離舒適區間較遠的一端（最冷或最熱）與該時段濕度，
+ * 加上當天最大風速、降水機率、紫外線與累計雨雪量。samples 與輸入的溫度單位相同。
+ */
+export function worstCaseAdviceInput(samples: WeatherSample[]): AdviceInput | undefined {
+  if (!samples.length) return undefined;
+  const feels = samples.map(s => s.feelsLike ?? s.temp);
+  const coldest = samples[feels.indexOf(Math.min(...feels))];
+  const hottest = samples[feels.indexOf(Math.max(...feels))];
+  const coldGap = COMFORT_MIN - (coldest.feelsLike ?? coldest.temp);
+  const hotGap = (hottest.feelsLike ?? hottest.temp) - COMFORT_MAX;
+  const worst = hotGap > coldGap ? hottest : coldest;
+  return {
+    temp: worst.temp,
+    feels: worst.feelsLike,
+    humidity: worst.humidity,
+    pop: maxOf(samples.map(s => s.pop)),
+    uvi: maxOf(samples.map(s => s.uvi)),
+    wind: Math.max(0, ...samples.map(s => s.windSpeed ?? 0)),
+    rain: samples.reduce((sum, s) => sum + (s.rain ?? 0), 0),
+    snow: samples.reduce((sum, s) => sum + (s.snow ?? 0), 0),
+  };
+}
@@ -0,0 +1,97 @@
+// lib/weather/alerts.ts
+import { readFile } from 'fs/promises';
+import path from 'path';
+import { cached, coordKey, resolveResponseCache, type CacheMode } from '../cache';
+import { haversineKm } from '../geo';
+import { createCapAlertProvider, parseCapAlerts } from './cap';
+import { createOpenWeatherAlertProvider } from './openweather';
+import type { WeatherAlert, WeatherAlertProvider, WeatherAlertProviderName } from './types';
+
+const ALERT_PROVIDER_NAMES: WeatherAlertProviderName[] = ['openweather', 'cap', 'fixture'];
+
+/**
+ * 本機 fixture：正規化後的 WeatherAlert[]（JSON，或 { alerts: [...] }），副檔名 .xml 時當作 CAP 解析。
+ * 每次重新讀檔，改了馬上生效。
+ */
+export function createFixtureAlertProvider(file: string): WeatherAlertProvider {
+  return {
+    name: 'fixture',
+    scope: 'local',
+    async alerts(_point, lang) {
+      const raw = await readFile(path.resolve(process.cwd(), file), 'utf8');
+      if (/\.xml$/i.test(file)) return parseCapAlerts(raw, lang, 'fixture');
+      const data = JSON.parse(raw);
+      const list: WeatherAlert[] = Array.isArray(data) ? data : Array.isArray(data?.alerts) ? data.alerts : [];
+      return list.map(a => ({ ...a, provider: 'fixture', areas: a.areas || [] }));
+    },
+  };
+}
+
+/**
+ * 選擇警特報來源：WEATHER_ALERTS_PROVIDER（openweather / cap / fixture / off）>
+ * 有 WEATHER_ALERTS_FIXTURE 則 fixture > 有 WEATHER_ALERTS_CAP_URL 則 cap > 有 OPENWEATHER_API_KEY 則 One Call。
+ * off、未知名稱或缺少對應設定時回傳 null（不查警特報）。
+ */
+export function resolveAlertProvider(): WeatherAlertProvider | null {
+  const fixture = process.env.WEATHER_ALERTS_FIXTURE;
+  const capUrl = process.env.WEATHER_ALERTS_CAP_URL;
+  const key = process.env.OPENWEATHER_API_KEY;
+  const requested = String(process.env.WEATHER_ALERTS_PROVIDER || '').trim().toLowerCase();
+  const name = requested || (fixture ? 'fixture' : capUrl ? 'cap' : key ? 'openweather' : '');
+  if (!ALERT_PROVIDER_NAMES.includes(name as WeatherAlertProviderName)) return null;
+  if (name === 'fixture') return fixture ? createFixtureAlertProvider(fixture) : null;
+  if (name === 'cap') return capUrl ? createCapAlertProvider(capUrl) : null;
+  return key ? createOpenWeatherAlertProvider(key) : null;
+}
+
+/** ray casting；頂點為 [lat, lon] */
+function insidePolygon(lat: number, lon: number, ring: [number, number][]) {
+  let inside = false;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const [yi, xi] = ring[i];
+    const [yj, xj] = ring[j];
+    if (yi > lat !== yj > lat && lon < ((xj - xi) * (lat - yi)) / (yj - yi) + xi) inside = !inside;
+  }
+  return inside;
+}
+
+export function alertCovers(alert: WeatherAlert, { lat, lon }: { lat: number; lon: number }) {
+  return alert.areas.some(area =>
+    area.type === 'polygon'
+      ? insidePolygon(lat, lon, area.coordinates)
+      : haversineKm({ lat, lng: lon }, { lat: area.lat, lng: area.lon }) <= area.radiusKm
+  );
+}
+
+/** 警報期間與 [from, to)（毫秒）有重疊；沒有 end 視為持續中 */
+export function alertActiveDuring(alert: WeatherAlert, from: number, to: number) {
+  const start = Date.parse(alert.start);
+  const end = alert.end ? Date.parse(alert.end) : Infinity;
+  return start < to && end > from;
+}
+
+export type AlertOptions = {
+  lang?: string;
+  cache?: CacheMode;
+};
+
+/** 涵蓋該點且尚未結束（含即將生效）的警特報；沒有設定來源時 provider 為 null */
+export async function getWeatherAlerts(
+  point: { lat: number; lon: number },
+  { lang = 'zh_tw', cache: mode = 'use' }: AlertOptions = {}
+): Promise<{ provider: WeatherAlertProviderName | null; alerts: WeatherAlert[] }> {
+  const p = resolveAlertProvider();
+  if (!p) return { provider: null, alerts: [] };
+  const all =
+    p.scope === 'local'
+      ? await p.alerts(point, lang)
+      : await cached(
+          resolveResponseCache(),
+          'alerts',
+          [p.name, p.scope === 'point' ? coordKey('alerts', { lat: point.lat, lng: point.lon }) : '', lang],
+          () => p.alerts(point, lang),
+          { mode }
+        );
+  const now = Date.now();
+  return { provider: p.name, alerts: all.filter(a => alertCovers(a, point) && alertActiveDuring(a, now, Infinity)) };
+}
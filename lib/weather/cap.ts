@@ -0,0 +1,113 @@
+// lib/weather/cap.ts
+import { fetchWeatherText } from './http';
+import type { WeatherAlert, WeatherAlertArea, WeatherAlertProvider, WeatherAlertProviderName, WeatherAlertSeverity } from './types';
+
+const SEVERITIES = new Set<WeatherAlertSeverity>(['extreme', 'severe', 'moderate', 'minor']);
+
+/** 只處理 CAP 需要的少數元素，不引入 XML 套件；容許 cap: 之類的命名空間前綴與 CDATA */
+function elements(xml: string, name: string): string[] {
+  const re = new RegExp(`<(?:[\\w-]+:)?${name}\\b[^>]*>([\\s\\S]*?)</(?:[\\w-]+:)?${name}>`, 'g');
+  return [...xml.matchAll(re)].map(m => m[1]);
+}
+
+function text(xml: string, name: string): string | undefined {
+  const raw = elements(xml, name)[0];
+  if (raw == null) return undefined;
+  const v = raw
+    .replace(/^\s*<!\[CDATA\[([\s\S]*?)\]\]>\s*$/, '$1')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&')
+    .trim();
+  return v || undefined;
+}
+
+function isoOf(v?: string) {
+  const t = v ? Date.parse(v) : NaN;
+  return Number.isFinite(t) ? new Date(t).toISOString() : undefined;
+}
+
+/** CAP polygon：「lat,lon lat,lon …」，首尾相同 */
+function parsePolygon(v: string): [number, number][] | null {
+  const pts = v
+    .trim()
+    .split(/\s+/)
+    .map(pair => pair.split(',').map(Number) as [number, number]);
+  return pts.length >= 3 && pts.every(([lat, lon]) => Number.isFinite(lat) && Number.isFinite(lon)) ? pts : null;
+}
+
+/** CAP circle：「lat,lon radiusKm」 */
+function parseCircle(v: string): { lat: number; lon: number; radiusKm: number } | null {
+  const [center, radius] = v.trim().split(/\s+/);
+  const [lat, lon] = (center || '').split(',').map(Number);
+  const radiusKm = Number(radius);
+  return [lat, lon, radiusKm].every(Number.isFinite) ? { lat, lon, radiusKm } : null;
+}
+
+function areasOf(info: string): WeatherAlertArea[] {
+  const out: WeatherAlertArea[] = [];
+  for (const area of elements(info, 'area')) {
+    const description = text(area, 'areaDesc');
+    for (const p of elements(area, 'polygon')) {
+      const coordinates = parsePolygon(p);
+      if (coordinates) out.push({ type: 'polygon', coordinates, description });
+    }
+    for (const c of elements(area, 'circle')) {
+      const circle = parseCircle(c);
+      if (circle) out.push({ type: 'point', ...circle, description });
+    }
+    // 只有 geocode（行政區代碼）的區域無法比對座標，略過
+  }
+  return out;
+}
+
+/** 多語 info 時挑 language 符合 lang（zh_tw → zh-TW）的一則，沒有就用第一則 */
+function pickInfo(infos: string[], lang: string) {
+  const want = lang.toLowerCase().replace('_', '-');
+  const base = want.split('-')[0];
+  const langOf = (info: string) => (text(info, 'language') || 'en-US').toLowerCase();
+  return infos.find(i => langOf(i) === want) || infos.find(i => langOf(i).split('-')[0] === base) || infos[0];
+}
+
+/**
+ * 解析 CAP 1.2 文件；可以是單一 <alert>，或內含多則 <alert> 的 Atom/RSS feed。
+ * 取消（msgType=Cancel）、演練或測試（status 不是 Actual）的警報略過。
+ */
+export function parseCapAlerts(xml: string, lang: string, provider: WeatherAlertProviderName = 'cap'): WeatherAlert[] {
+  const out: WeatherAlert[] = [];
+  for (const alert of elements(xml, 'alert')) {
+    if ((text(alert, 'status') || 'Actual') !== 'Actual' || text(alert, 'msgType') === 'Cancel') continue;
+    const infos = elements(alert, 'info');
+    if (!infos.length) continue;
+    const info = pickInfo(infos, lang);
+    const severity = (text(info, 'severity') || '').toLowerCase() as WeatherAlertSeverity;
+    const start = isoOf(text(info, 'onset')) || isoOf(text(info, 'effective')) || isoOf(text(alert, 'sent'));
+    if (!start) continue;
+    out.push({
+      id: text(alert, 'identifier') || `${text(info, 'event')}@${start}`,
+      provider,
+      event: text(info, 'event') || text(info, 'headline') || 'alert',
+      headline: text(info, 'headline'),
+      description: text(info, 'description'),
+      sender: text(info, 'senderName') || text(alert, 'sender'),
+      severity: SEVERITIES.has(severity) ? severity : 'unknown',
+      start,
+      end: isoOf(text(info, 'expires')),
+      areas: areasOf(info),
+    });
+  }
+  return out;
+}
+
+/** 整份 CAP feed（例：交通部中央氣象署 / NCDR 的警特報）；與查詢座標無關，由呼叫端依範圍過濾 */
+export function createCapAlertProvider(url: string): WeatherAlertProvider {
+  return {
+    name: 'cap',
+    scope: 'feed',
+    async alerts(_point, lang) {
+      return parseCapAlerts(await fetchWeatherText(url, 'CAP feed'), lang);
+    },
+  };
+}
@@ -0,0 +1,30 @@
+// lib/weather/http.ts
+import { weatherError } from './types';
+
+const TIMEOUT_MS = 8000;
+
+/** 帶逾時的 GET；上游 404 視為找不到地點，其餘非 2xx 為 UPSTREAM，逾時為 TIMEOUT */
+async function fetchWeather<T>(url: string | URL, label: string, read: (r: Response) => Promise<T>): Promise<T> {
+  const ac = new AbortController();
+  const timer = setTimeout(() => ac.abort(), TIMEOUT_MS);
+  try {
+    const r = await fetch(url, { signal: ac.signal, cache: 'no-store' });
+    if (r.status === 404) throw weatherError(`${label}: location not found`, 'NOT_FOUND', 404);
+    if (!r.ok) throw weatherError(`${label} ${r.status}`, 'UPSTREAM', 502);
+    return await read(r);
+  } catch (e: any) {
+    if (e?.name === 'AbortError') throw weatherError(`${label} timeout`, 'TIMEOUT', 504);
+    throw e;
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+export function fetchWeatherJson<T = any>(url: string | URL, label: string): Promise<T> {
+  return fetchWeather(url, label, r => r.json() as Promise<T>);
+}
+
+/** CAP 等 XML 來源 */
+export function fetchWeatherText(url: string | URL, label: string): Promise<string> {
+  return fetchWeather(url, label, r => r.text());
+}
@@ -0,0 +1,180 @@
+// lib/weather/index.ts
+import { cached, coordKey, resolveResponseCache, type CacheMode } from '../cache';
+import { adviseOutfit, type AdviceInput, type OutfitAdvice } from '../weather-advice';
+import { localDateHour, worstCaseAdviceInput } from './aggregate';
+import { createOpenMeteoProvider } from './open-meteo';
+import { createOpenWeatherProvider } from './openweather';
+import {
+  weatherError,
+  type WeatherError,
+  type WeatherProvider,
+  type WeatherProviderName,
+  type WeatherQuery,
+  type WeatherReport,
+  type WeatherSample,
+  type WeatherUnits,
+} from './types';
+
+export * from './types';
+export { dailyFromHourly, WET_CONDITIONS } from './aggregate';
+export { createOpenMeteoProvider, createOpenWeatherProvider };
+export { alertActiveDuring, alertCovers, createFixtureAlertProvider, getWeatherAlerts, resolveAlertProvider, type AlertOptions } from './alerts';
+export { createCapAlertProvider, parseCapAlerts } from './cap';
+export { createOpenWeatherAlertProvider } from './openweather';
+
+const UNITS = new Set<WeatherUnits>(['standard', 'metric', 'imperial']);
+const DEFAULT_LANG = 'zh_tw';
+
+export function parseWeatherProviderName(input?: string | null): WeatherProviderName | undefined {
+  const v = String(input || '').trim().toLowerCase();
+  if (v === 'openweather' || v === 'owm') return 'openweather';
+  if (v === 'open-meteo' || v === 'openmeteo') return 'open-meteo';
+  return undefined;
+}
+
+/** 允許字母、數字、空白、逗號、破折號與點號，長度限制 60 */
+export function sanitizeCity(q: string) {
+  const ok = q.match(/[\p{L}\p{N}\s,.\-]/gu)?.join('') ?? '';
+  return ok.trim().slice(0, 60);
+}
+
+export function isValidLatLon(lat?: string | null, lon?: string | null) {
+  if (!lat || !lon) return false;
+  const la = Number(lat);
+  const lo = Number(lon);
+  return Number.isFinite(la) && Number.isFinite(lo) && la >= -90 && la <= 90 && lo >= -180 && lo <= 180;
+}
+
+/** zh-TW → zh_tw；其他語系只取主要語言碼（OpenWeather 的語系格式） */
+export function weatherLang(lang?: string | null) {
+  const v = String(lang || DEFAULT_LANG).trim().toLowerCase().replace('-', '_');
+  return v === 'zh_tw' || v === 'zh_cn' ? v : v.split('_')[0] || DEFAULT_LANG;
+}
+
+/** 解析 q / lat / lon / units / lang；不合法時回傳錯誤訊息 */
+export function parseWeatherQuery(searchParams: URLSearchParams): WeatherQuery | string {
+  const qRaw = searchParams.get('q');
+  const q = qRaw ? sanitizeCity(qRaw) : undefined;
+  const lat = searchParams.get('lat');
+  const lon = searchParams.get('lon');
+  const hasPoint = isValidLatLon(lat, lon);
+  if (!q && !hasPoint) return '需要 q 或有效的 lat+lon';
+  const unitsParam = (searchParams.get('units') ?? 'metric') as WeatherUnits;
+  return {
+    location: hasPoint ? { q, lat: Number(lat), lon: Number(lon) } : { q },
+    units: UNITS.has(unitsParam) ? unitsParam : 'metric',
+    lang: weatherLang(searchParams.get('lang')),
+  };
+}
+
+/**
+ * 選擇天氣供應者：請求指定 > WEATHER_PROVIDER 環境變數 > 有 OPENWEATHER_API_KEY 則 openweather，否則 open-meteo（免金鑰）。
+ * 指定了未知名稱回傳 null；指定 openweather 卻沒有金鑰時拋出 CONFIG。
+ */
+export function resolveWeatherProvider(requested?: string | null): WeatherProvider | null {
+  const key = process.env.OPENWEATHER_API_KEY;
+  if (requested && !parseWeatherProviderName(requested)) return null;
+  const name = parseWeatherProviderName(requested) || parseWeatherProviderName(process.env.WEATHER_PROVIDER) || (key ? 'openweather' : 'open-meteo');
+  if (name === 'openweather') {
+    if (!key) throw weatherError('OPENWEATHER_API_KEY missing', 'CONFIG', 500);
+    return createOpenWeatherProvider(key);
+  }
+  return createOpenMeteoProvider();
+}
+
+/** 穿著建議的門檻以 °C、m/s 訂定，其他單位先換算 */
+function toMetric(s: WeatherSample, units: WeatherUnits): WeatherSample {
+  if (units === 'metric') return s;
+  const toC = (t?: number) => (t == null ? undefined : units === 'imperial' ? ((t - 32) * 5) / 9 : t - 273.15);
+  return {
+    ...s,
+    temp: toC(s.temp)!,
+    feelsLike: toC(s.feelsLike),
+    windSpeed: s.windSpeed != null && units === 'imperial' ? s.windSpeed * 0.44704 : s.windSpeed,
+  };
+}
+
+function inputOf(s: WeatherSample): AdviceInput {
+  return {
+    temp: s.temp,
+    feels: s.feelsLike,
+    wind: s.windSpeed,
+    rain: s.rain,
+    snow: s.snow,
+    humidity: s.humidity,
+    pop: s.pop,
+    uvi: s.uvi,
+  };
+}
+
+/** 結構化建議 + 舊版字串欄位 */
+function adviceFields(outfit: OutfitAdvice) {
+  return { outfitAdvice: outfit.text, outfit };
+}
+
+/** 每個時段各自的建議；每天一則，依當天（當地日期）最不舒適的時段。文字依 lang 產生 */
+function withAdvice(report: WeatherReport, lang: string): WeatherReport {
+  const { units, location } = report;
+  const metric = (report.hourly || []).map(s => toMetric(s, units));
+  return {
+    ...report,
+    current: report.current && { ...report.current, ...adviceFields(adviseOutfit(inputOf(toMetric(report.current, units)), lang)) },
+    hourly: report.hourly?.map((s, i) => ({ ...s, ...adviceFields(adviseOutfit(inputOf(metric[i]), lang)) })),
+    daily: report.daily?.map(d => {
+      const input = worstCaseAdviceInput(metric.filter(s => localDateHour(s.dt, location.timezoneOffset).date === d.date));
+      if (!input) return d;
+      // 日報有當天最高紫外線時以它為準（Open-Meteo 逐時資料夜間為 0）
+      return { ...d, ...adviceFields(adviseOutfit({ ...input, uvi: d.uvIndexMax ?? input.uvi }, lang)) };
+    }),
+  };
+}
+
+export type WeatherOptions = {
+  /** 請求指定的供應者；未指定時 OpenWeather 失敗會改用 Open-Meteo */
+  provider?: string | null;
+  cache?: CacheMode;
+};
+
+async function fetchReport(kind: 'current' | 'forecast', q: WeatherQuery, { provider: requested, cache: mode = 'use' }: WeatherOptions) {
+  const primary = resolveWeatherProvider(requested);
+  if (!primary) throw weatherError(`unknown weather provider: ${requested}`, 'VALIDATION', 400);
+  const chain = primary.name === 'openweather' && !requested ? [primary, createOpenMeteoProvider()] : [primary];
+
+  const { location, units, lang } = q;
+  const point = location.lat != null && location.lon != null ? coordKey(kind === 'current' ? 'weather' : 'forecast', { lat: location.lat, lng: location.lon }) : '';
+  for (let i = 0; i < chain.length; i++) {
+    const p = chain[i];
+    try {
+      const report = await cached(
+        resolveResponseCache(),
+        kind === 'current' ? 'weather' : 'forecast',
+        [p.name, point ? '' : location.q?.toLowerCase(), point, units, lang],
+        () => p[kind](q),
+        { mode }
+      );
+      return withAdvice(report, lang);
+    } catch (e: any) {
+      // 找不到地點換供應者也一樣；其餘錯誤（金鑰失效、限流、逾時）才改用下一個
+      if (i === chain.length - 1 || e?.code === 'NOT_FOUND') throw e;
+      console.warn(`weather provider ${p.name} failed, falling back:`, e?.message || e);
+    }
+  }
+  throw weatherError('no weather provider', 'CONFIG', 500);
+}
+
+/** 即時天氣；current 帶 outfitAdvice */
+export function getCurrentWeather(q: WeatherQuery, opts: WeatherOptions = {}) {
+  return fetchReport('current', q, opts);
+}
+
+/** 5 天預報：hourly（OpenWeather 為 3 小時一格）每格帶 outfitAdvice，daily 依當地日期彙整、每天一則 outfitAdvice */
+export function getForecast(q: WeatherQuery, opts: WeatherOptions = {}) {
+  return fetchReport('forecast', q, opts);
+}
+
+/** route 用：把任意錯誤轉成 { code, message, status } */
+export function toWeatherError(e: any): WeatherError {
+  if (e?.code && e?.status) return e;
+  if (e?.name === 'AbortError') return weatherError(e?.message || 'timeout', 'TIMEOUT', 504);
+  return weatherError(e?.message ?? 'error', 'UNKNOWN', 500);
+}
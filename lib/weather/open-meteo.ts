@@ -0,0 +1,183 @@
+// lib/weather/open-meteo.ts
+import { localDateHour } from './aggregate';
+import { fetchWeatherJson } from './http';
+import { weatherError, type DailyWeather, type WeatherProvider, type WeatherQuery, type WeatherReport, type WeatherSample } from './types';
+
+const OPEN_METEO_API_URL = process.env.OPEN_METEO_API_URL || 'https://api.open-meteo.com/v1';
+const OPEN_METEO_GEOCODING_URL = process.env.OPEN_METEO_GEOCODING_URL || 'https://geocoding-api.open-meteo.com/v1';
+const FORECAST_DAYS = 5;
+
+const SAMPLE_FIELDS = [
+  'temperature_2m',
+  'apparent_temperature',
+  'relative_humidity_2m',
+  'rain',
+  'showers',
+  'snowfall',
+  'weather_code',
+  'wind_speed_10m',
+  'wind_gusts_10m',
+  'is_day',
+  'uv_index',
+];
+const DAILY_FIELDS = [
+  'weather_code',
+  'temperature_2m_max',
+  'temperature_2m_min',
+  'apparent_temperature_max',
+  'apparent_temperature_min',
+  'precipitation_sum',
+  'precipitation_probability_max',
+  'wind_speed_10m_max',
+  'uv_index_max',
+];
+
+type WmoLang = 'zh_tw' | 'zh_cn' | 'en' | 'ja';
+type WmoEntry = { codes: number[]; main: string; icon: string; text: Record<WmoLang, string> };
+
+/** WMO 天氣代碼 → OpenWeather 的 main 分類、圖示與描述（Open-Meteo 不回傳文字描述） */
+const WMO_CODES: WmoEntry[] = [
+  { codes: [0], main: 'Clear', icon: '01', text: { zh_tw: '晴', zh_cn: '晴', en: 'clear sky', ja: '快晴' } },
+  { codes: [1], main: 'Clear', icon: '02', text: { zh_tw: '大致晴朗', zh_cn: '晴间少云', en: 'mainly clear', ja: '晴れ' } },
+  { codes: [2], main: 'Clouds', icon: '03', text: { zh_tw: '局部多雲', zh_cn: '局部多云', en: 'partly cloudy', ja: '一部曇り' } },
+  { codes: [3], main: 'Clouds', icon: '04', text: { zh_tw: '陰天', zh_cn: '阴', en: 'overcast', ja: '曇り' } },
+  { codes: [45, 48], main: 'Fog', icon: '50', text: { zh_tw: '霧', zh_cn: '雾', en: 'fog', ja: '霧' } },
+  { codes: [51, 53, 55], main: 'Drizzle', icon: '09', text: { zh_tw: '毛毛雨', zh_cn: '毛毛雨', en: 'drizzle', ja: '霧雨' } },
+  { codes: [56, 57], main: 'Drizzle', icon: '09', text: { zh_tw: '凍毛毛雨', zh_cn: '冻毛毛雨', en: 'freezing drizzle', ja: '着氷性の霧雨' } },
+  { codes: [61], main: 'Rain', icon: '10', text: { zh_tw: '小雨', zh_cn: '小雨', en: 'light rain', ja: '小雨' } },
+  { codes: [63], main: 'Rain', icon: '10', text: { zh_tw: '中雨', zh_cn: '中雨', en: 'moderate rain', ja: '雨' } },
+  { codes: [65], main: 'Rain', icon: '10', text: { zh_tw: '大雨', zh_cn: '大雨', en: 'heavy rain', ja: '大雨' } },
+  { codes: [66, 67], main: 'Rain', icon: '13', text: { zh_tw: '凍雨', zh_cn: '冻雨', en: 'freezing rain', ja: '着氷性の雨' } },
+  { codes: [71], main: 'Snow', icon: '13', text: { zh_tw: '小雪', zh_cn: '小雪', en: 'light snow', ja: '小雪' } },
+  { codes: [73], main: 'Snow', icon: '13', text: { zh_tw: '中雪', zh_cn: '中雪', en: 'moderate snow', ja: '雪' } },
+  { codes: [75], main: 'Snow', icon: '13', text: { zh_tw: '大雪', zh_cn: '大雪', en: 'heavy snow', ja: '大雪' } },
+  { codes: [77], main: 'Snow', icon: '13', text: { zh_tw: '米雪', zh_cn: '米雪', en: 'snow grains', ja: '霧雪' } },
+  { codes: [80, 81], main: 'Rain', icon: '09', text: { zh_tw: '陣雨', zh_cn: '阵雨', en: 'rain showers', ja: 'にわか雨' } },
+  { codes: [82], main: 'Rain', icon: '09', text: { zh_tw: '強陣雨', zh_cn: '强阵雨', en: 'violent rain showers', ja: '激しいにわか雨' } },
+  { codes: [85, 86], main: 'Snow', icon: '13', text: { zh_tw: '陣雪', zh_cn: '阵雪', en: 'snow showers', ja: 'にわか雪' } },
+  { codes: [95], main: 'Thunderstorm', icon: '11', text: { zh_tw: '雷雨', zh_cn: '雷雨', en: 'thunderstorm', ja: '雷雨' } },
+  { codes: [96, 99], main: 'Thunderstorm', icon: '11', text: { zh_tw: '雷雨伴隨冰雹', zh_cn: '雷雨伴有冰雹', en: 'thunderstorm with hail', ja: '雹を伴う雷雨' } },
+];
+
+function wmoLang(lang: string): WmoLang {
+  const v = lang.toLowerCase();
+  if (v === 'zh_tw' || v === 'zh_cn' || v === 'ja') return v;
+  return v === 'zh' ? 'zh_tw' : 'en';
+}
+
+function describe(code: number, isDay: boolean, lang: string) {
+  const entry = WMO_CODES.find(e => e.codes.includes(code)) || WMO_CODES[3];
+  return { condition: entry.main, description: entry.text[wmoLang(lang)], icon: `${entry.icon}${isDay ? 'd' : 'n'}` };
+}
+
+/** Open-Meteo 沒有 Kelvin；standard 時以攝氏查詢再換算 */
+function unitParams(units: WeatherQuery['units']) {
+  return {
+    temperature_unit: units === 'imperial' ? 'fahrenheit' : 'celsius',
+    wind_speed_unit: units === 'imperial' ? 'mph' : 'ms',
+  };
+}
+
+function temp(v: any, units: WeatherQuery['units']) {
+  const n = Number(v);
+  if (!Number.isFinite(n)) return undefined;
+  return units === 'standard' ? Number((n + 273.15).toFixed(2)) : n;
+}
+
+type Place = { lat: number; lon: number; name?: string; country?: string };
+
+/** q 為「城市」或「城市,國碼」；用 Open-Meteo 地理編碼轉成座標 */
+async function resolveLocation({ location, lang }: WeatherQuery): Promise<Place> {
+  if (location.lat != null && location.lon != null) return { lat: location.lat, lon: location.lon };
+  const [name, country] = String(location.q || '').split(',').map(s => s.trim());
+  const url = new URL(`${OPEN_METEO_GEOCODING_URL}/search`);
+  url.searchParams.set('name', name);
+  url.searchParams.set('count', '1');
+  url.searchParams.set('format', 'json');
+  url.searchParams.set('language', lang.split('_')[0]);
+  if (/^[a-z]{2}$/i.test(country || '')) url.searchParams.set('countryCode', country.toUpperCase());
+  const data = await fetchWeatherJson<any>(url, 'Open-Meteo geocoding');
+  const hit = data?.results?.[0];
+  if (!hit) throw weatherError(`location not found: ${location.q}`, 'NOT_FOUND', 404);
+  return { lat: Number(hit.latitude), lon: Number(hit.longitude), name: hit.name, country: hit.country_code };
+}
+
+async function fetchForecast(q: WeatherQuery, params: Record<string, string>) {
+  const place = await resolveLocation(q);
+  const url = new URL(`${OPEN_METEO_API_URL}/forecast`);
+  url.searchParams.set('latitude', String(place.lat));
+  url.searchParams.set('longitude', String(place.lon));
+  url.searchParams.set('timezone', 'auto');
+  url.searchParams.set('timeformat', 'unixtime');
+  for (const [k, v] of Object.entries({ ...unitParams(q.units), ...params })) url.searchParams.set(k, v);
+  const data = await fetchWeatherJson<any>(url, 'Open-Meteo');
+  const location: WeatherReport['location'] = {
+    name: place.name,
+    country: place.country,
+    lat: Number(data?.latitude ?? place.lat),
+    lon: Number(data?.longitude ?? place.lon),
+    timezoneOffset: Number(data?.utc_offset_seconds) || 0,
+  };
+  return { data, location };
+}
+
+/** Open-Meteo 的雨量分 rain（大範圍降雨）與 showers（陣雨）；降雪單位為 cm */
+function toSample(get: (field: string) => any, units: WeatherQuery['units'], lang: string, pop?: number): WeatherSample {
+  const rain = (Number(get('rain')) || 0) + (Number(get('showers')) || 0);
+  const snow = (Number(get('snowfall')) || 0) * 10;
+  const uvi = get('uv_index');
+  return {
+    dt: Number(get('time')),
+    temp: temp(get('temperature_2m'), units)!,
+    feelsLike: temp(get('apparent_temperature'), units),
+    humidity: get('relative_humidity_2m'),
+    windSpeed: get('wind_speed_10m'),
+    windGust: get('wind_gusts_10m'),
+    pop,
+    rain: rain || undefined,
+    snow: snow || undefined,
+    uvi: uvi == null ? undefined : Number(uvi),
+    ...describe(Number(get('weather_code')), get('is_day') !== 0, lang),
+  };
+}
+
+export function createOpenMeteoProvider(): WeatherProvider {
+  return {
+    name: 'open-meteo',
+    async current(q) {
+      const { data, location } = await fetchForecast(q, { current: SAMPLE_FIELDS.join(','), forecast_days: '1' });
+      const c = data?.current || {};
+      return { provider: 'open-meteo', location, units: q.units, current: toSample(f => c[f], q.units, q.lang) };
+    },
+    async forecast(q) {
+      const { data, location } = await fetchForecast(q, {
+        hourly: [...SAMPLE_FIELDS, 'precipitation_probability'].join(','),
+        daily: DAILY_FIELDS.join(','),
+        forecast_days: String(FORECAST_DAYS),
+      });
+      const h = data?.hourly || {};
+      const hourly = (Array.isArray(h.time) ? h.time : []).map((_: any, i: number) => {
+        const pop = Number(h.precipitation_probability?.[i]);
+        return toSample(f => h[f]?.[i], q.units, q.lang, Number.isFinite(pop) ? pop / 100 : undefined);
+      });
+      const d = data?.daily || {};
+      const daily: DailyWeather[] = (Array.isArray(d.time) ? d.time : []).map((t: number, i: number) => {
+        const pop = Number(d.precipitation_probability_max?.[i]);
+        const uvi = d.uv_index_max?.[i];
+        return {
+          date: localDateHour(Number(t), location.timezoneOffset).date,
+          tempMin: temp(d.temperature_2m_min?.[i], q.units)!,
+          tempMax: temp(d.temperature_2m_max?.[i], q.units)!,
+          feelsLikeMin: temp(d.apparent_temperature_min?.[i], q.units),
+          feelsLikeMax: temp(d.apparent_temperature_max?.[i], q.units),
+          pop: Number.isFinite(pop) ? pop / 100 : 0,
+          precipitation: Number(d.precipitation_sum?.[i]) || 0,
+          windMax: Number(d.wind_speed_10m_max?.[i]) || 0,
+          uvIndexMax: uvi == null ? undefined : Number(uvi),
+          ...describe(Number(d.weather_code?.[i]), true, q.lang),
+        };
+      });
+      return { provider: 'open-meteo', location, units: q.units, hourly, daily };
+    },
+  };
+}
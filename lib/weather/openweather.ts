@@ -0,0 +1,123 @@
+// lib/weather/openweather.ts
+import { dailyFromHourly } from './aggregate';
+import { fetchWeatherJson } from './http';
+import type { WeatherAlert, WeatherAlertProvider, WeatherAlertSeverity, WeatherProvider, WeatherQuery, WeatherReport, WeatherSample } from './types';
+
+const OPENWEATHER_API_URL = process.env.OPENWEATHER_API_URL || 'https://api.openweathermap.org/data/2.5';
+/** 警特報只有 One Call 3.0 有（需另外訂閱） */
+const OPENWEATHER_ONECALL_URL = process.env.OPENWEATHER_ONECALL_URL || 'https://api.openweathermap.org/data/3.0';
+/** One Call 的警報沒有範圍，只知道涵蓋查詢點；以查詢點加這個半徑表示 */
+const ONECALL_ALERT_RADIUS_KM = 10;
+
+function buildUrl(path: string, key: string, { location, units, lang }: WeatherQuery) {
+  const url = new URL(`${OPENWEATHER_API_URL}/${path}`);
+  if (location.lat != null && location.lon != null) {
+    url.searchParams.set('lat', String(location.lat));
+    url.searchParams.set('lon', String(location.lon));
+  } else {
+    url.searchParams.set('q', location.q || '');
+  }
+  url.searchParams.set('appid', key);
+  url.searchParams.set('units', units);
+  url.searchParams.set('lang', lang);
+  return url;
+}
+
+/** 即時天氣的 rain/snow 為 1h，預報時段為 3h */
+function toSample(it: any): WeatherSample {
+  const w = it?.weather?.[0] || {};
+  const pop = Number(it?.pop);
+  return {
+    dt: Number(it?.dt),
+    temp: Number(it?.main?.temp),
+    feelsLike: it?.main?.feels_like,
+    humidity: it?.main?.humidity,
+    windSpeed: it?.wind?.speed,
+    windGust: it?.wind?.gust,
+    pop: Number.isFinite(pop) ? pop : undefined,
+    rain: it?.rain?.['1h'] ?? it?.rain?.['3h'],
+    snow: it?.snow?.['1h'] ?? it?.snow?.['3h'],
+    condition: w.main || 'Clouds',
+    description: w.description || w.main || '',
+    icon: w.icon,
+  };
+}
+
+export function createOpenWeatherProvider(key: string): WeatherProvider {
+  return {
+    name: 'openweather',
+    async current(q) {
+      const data = await fetchWeatherJson<any>(buildUrl('weather', key, q), 'OpenWeather');
+      return {
+        provider: 'openweather',
+        location: {
+          name: data?.name,
+          country: data?.sys?.country,
+          lat: data?.coord?.lat,
+          lon: data?.coord?.lon,
+          timezoneOffset: Number(data?.timezone) || 0,
+        },
+        units: q.units,
+        current: toSample(data),
+      };
+    },
+    async forecast(q) {
+      const data = await fetchWeatherJson<any>(buildUrl('forecast', key, q), 'OpenWeather');
+      const timezoneOffset = Number(data?.city?.timezone) || 0;
+      const hourly = (Array.isArray(data?.list) ? data.list : []).map(toSample).filter((s: WeatherSample) => Number.isFinite(s.dt));
+      const report: WeatherReport = {
+        provider: 'openweather',
+        location: {
+          name: data?.city?.name,
+          country: data?.city?.country,
+          lat: data?.city?.coord?.lat,
+          lon: data?.city?.coord?.lon,
+          timezoneOffset,
+        },
+        units: q.units,
+        hourly,
+        daily: dailyFromHourly(hourly, timezoneOffset),
+      };
+      return report;
+    },
+  };
+}
+
+/** One Call 警報沒有分級，依名稱推估 */
+function severityOf(event: string): WeatherAlertSeverity {
+  if (/typhoon|hurricane|tornado|extreme|颱風|颶風/i.test(event)) return 'extreme';
+  if (/warning|severe|警報|豪雨/i.test(event)) return 'severe';
+  if (/watch|advisory|特報|注意/i.test(event)) return 'moderate';
+  return 'unknown';
+}
+
+export function createOpenWeatherAlertProvider(key: string): WeatherAlertProvider {
+  return {
+    name: 'openweather',
+    scope: 'point',
+    async alerts({ lat, lon }, lang) {
+      const url = new URL(`${OPENWEATHER_ONECALL_URL}/onecall`);
+      url.searchParams.set('lat', String(lat));
+      url.searchParams.set('lon', String(lon));
+      url.searchParams.set('exclude', 'current,minutely,hourly,daily');
+      url.searchParams.set('appid', key);
+      url.searchParams.set('lang', lang);
+      const data = await fetchWeatherJson<any>(url, 'OpenWeather One Call');
+      return (Array.isArray(data?.alerts) ? data.alerts : [])
+        .filter((a: any) => Number.isFinite(Number(a?.start)))
+        .map(
+          (a: any): WeatherAlert => ({
+            id: `openweather:${a.start}:${a.event}`,
+            provider: 'openweather',
+            event: String(a.event || 'alert'),
+            description: a.description,
+            sender: a.sender_name,
+            severity: severityOf(String(a.event || '')),
+            start: new Date(Number(a.start) * 1000).toISOString(),
+            end: Number.isFinite(Number(a.end)) ? new Date(Number(a.end) * 1000).toISOString() : undefined,
+            areas: [{ type: 'point', lat, lon, radiusKm: ONECALL_ALERT_RADIUS_KM }],
+          })
+        );
+    },
+  };
+}
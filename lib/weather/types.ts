@@ -0,0 +1,119 @@
+// lib/weather/types.ts
+import type { OutfitAdvice } from '../weather-advice';
+
+export type WeatherProviderName = 'openweather' | 'open-meteo';
+
+export type WeatherUnits = 'standard' | 'metric' | 'imperial';
+
+/** 城市名稱（q）或座標擇一；兩者都有時以座標為準 */
+export type WeatherLocation = { q?: string; lat?: number; lon?: number };
+
+export type WeatherQuery = {
+  location: WeatherLocation;
+  units: WeatherUnits;
+  /** OpenWeather 語系碼：zh_tw / zh_cn / en / ja… */
+  lang: string;
+};
+
+/**
+ * 單一時間點（即時或預報時段）；天氣狀況沿用 OpenWeather 的 main 分類（Clear / Clouds / Rain…），
+ * 溫度與風速依 units（metric：°C、m/s；imperial：°F、mph；standard：K、m/s）。
+ */
+export type WeatherSample = {
+  dt: number; // unix 秒
+  temp: number;
+  feelsLike?: number;
+  humidity?: number; // %
+  windSpeed?: number;
+  windGust?: number;
+  pop?: number; // 降水機率 0..1（即時天氣沒有）
+  rain?: number; // 該時段雨量 mm
+  snow?: number; // 該時段降雪 mm
+  uvi?: number; // 紫外線指數（OpenWeather 免費 API 沒有）
+  condition: string;
+  description: string;
+  icon?: string; // OpenWeather 圖示代碼，例 10d
+  /** outfit.text，依請求 lang 產生 */
+  outfitAdvice?: string;
+  outfit?: OutfitAdvice;
+};
+
+/** 依目的地當地日期彙整的一天 */
+export type DailyWeather = {
+  date: string; // YYYY-MM-DD（當地）
+  tempMin: number;
+  tempMax: number;
+  feelsLikeMin?: number;
+  feelsLikeMax?: number;
+  pop: number; // 當天最高降水機率 0..1
+  precipitation: number; // 雨 + 雪 mm
+  windMax: number;
+  uvIndexMax?: number;
+  condition: string;
+  description: string;
+  icon?: string;
+  /** 依當天最冷或最熱的時段 */
+  outfitAdvice?: string;
+  outfit?: OutfitAdvice;
+};
+
+export type WeatherReport = {
+  provider: WeatherProviderName;
+  location: { name?: string; country?: string; lat: number; lon: number; timezoneOffset: number };
+  units: WeatherUnits;
+  current?: WeatherSample;
+  hourly?: WeatherSample[];
+  daily?: DailyWeather[];
+};
+
+export type WeatherProvider = {
+  name: WeatherProviderName;
+  current(q: WeatherQuery): Promise<WeatherReport>;
+  forecast(q: WeatherQuery): Promise<WeatherReport>;
+};
+
+/** ---------------- Alerts ---------------- */
+export type WeatherAlertProviderName = 'openweather' | 'cap' | 'fixture';
+
+/** CAP 的 severity 分級（小寫） */
+export type WeatherAlertSeverity = 'extreme' | 'severe' | 'moderate' | 'minor' | 'unknown';
+
+/** 警特報範圍：多邊形（[lat, lon] 頂點）或點加半徑 */
+export type WeatherAlertArea =
+  | { type: 'polygon'; coordinates: [number, number][]; description?: string }
+  | { type: 'point'; lat: number; lon: number; radiusKm: number; description?: string };
+
+export type WeatherAlert = {
+  id: string;
+  provider: WeatherAlertProviderName;
+  event: string; // 例：颱風警報、豪雨特報
+  headline?: string;
+  description?: string;
+  sender?: string;
+  severity: WeatherAlertSeverity;
+  start: string; // ISO 8601
+  /** 沒有時視為持續到解除 */
+  end?: string;
+  areas: WeatherAlertArea[];
+};
+
+/**
+ * point：依座標查詢（OpenWeather One Call），只回傳該點的警特報；
+ * feed：整份警特報來源（CAP），與座標無關；local：本機 fixture，不快取
+ */
+export type WeatherAlertProvider = {
+  name: WeatherAlertProviderName;
+  scope: 'point' | 'feed' | 'local';
+  alerts(point: { lat: number; lon: number }, lang: string): Promise<WeatherAlert[]>;
+};
+
+export type WeatherErrorCode = 'CONFIG' | 'VALIDATION' | 'NOT_FOUND' | 'UPSTREAM' | 'TIMEOUT' | 'UNKNOWN';
+
+export type WeatherError = Error & { code: WeatherErrorCode; status: number };
+
+export function weatherError(message: string, code: WeatherErrorCode, status: number): WeatherError {
+  const err = new Error(message) as WeatherError;
+  err.code = code;
+  err.status = status;
+  return err;
+}